@@ -1,8 +1,12 @@
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useAppStore } from './store/appStore';
-import { parseNmapOutput } from './parser/nmapParser';
-import { importProjectFile } from './utils/storage';
+import { useScanRunner, isScanRunnerAvailable } from './store/scanRunner';
+import type { NmapScan } from './types/nmap';
+import { getOpenDialogFilters } from './parser/importers';
+import { QUERY_CHUNK_SIZE } from './utils/hostQuery';
+import { importProjectFile, PROJECT_FILE_EXTENSIONS, type NmapUIProjectFile } from './utils/storage';
 import { isEncryptedEnvelope, type EncryptedEnvelope } from './utils/crypto';
+import { parseFileInWorker, parseTextInWorker, createParseSession, type ParseCallbacks, type ParseSession } from './workers/parseClient';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { Header } from './components/Header';
 import { Sidebar } from './components/Sidebar';
@@ -12,18 +16,33 @@ import { HostsView } from './components/HostsView';
 import { PortsView } from './components/PortsView';
 import { ServicesView } from './components/ServicesView';
 import { NotesView } from './components/NotesView';
+import { VulnerabilitiesView } from './components/VulnerabilitiesView';
+import { SubnetsView } from './components/SubnetsView';
+import { TopologyView } from './components/TopologyView';
 import { ExportDialog } from './components/ExportDialog';
 import { DiffView } from './components/DiffView';
 
 import { MergeDialog } from './components/MergeDialog';
+import { ScanRunnerDialog } from './components/ScanRunnerDialog';
+import { ScanProfilesDialog } from './components/ScanProfilesDialog';
+import { FollowUpView } from './components/FollowUpView';
 import { DecryptDialog } from './components/DecryptDialog';
+import { PartialScanBanner } from './components/PartialScanBanner';
+import { AsOfBanner } from './components/AsOfBanner';
 
 function AppInner() {
   const store = useAppStore();
   const { state, filteredHosts } = store;
   const [showDiff, setShowDiff] = useState(false);
   const [showMerge, setShowMerge] = useState(false);
+  const scanRunner = useScanRunner(store);
+  const [showScanRunner, setShowScanRunner] = useState(false);
+  const [showScanProfiles, setShowScanProfiles] = useState(false);
+  const [skippedMerges, setSkippedMerges] = useState<string[]>([]); // merged scans of the last project that couldn't be read
   const [decryptPending, setDecryptPending] = useState<{ envelope: EncryptedEnvelope; rawContent: string; fileName: string } | null>(null);
+  // Cancels the background parse in progress, if any
+  const cancelParseRef = useRef<(() => void) | null>(null);
+  const streamSessionRef = useRef<ParseSession | null>(null);
   const [theme, setTheme] = useState<'dark' | 'light'>(() => {
     if (typeof localStorage !== 'undefined') {
       return (localStorage.getItem('nmapui-theme') as 'dark' | 'light') || 'dark';
@@ -37,43 +56,90 @@ function AppInner() {
     localStorage.setItem('nmapui-theme', theme);
   }, [theme]);
 
+  // Store actions are stable across renders, unlike the store object itself
+  const { setLoading, setLoadingProgress, setError, setScan, setScanWithNotes, mergeScan, setShowExportDialog } = store;
+
+  // Parse a project's scan and its merged scans one after another in the worker, then load them together
+  const loadProject = useCallback((project: NmapUIProjectFile) => {
+    const texts = [project.scanData, ...project.mergedScans.map(m => m.content)];
+    const totalBytes = texts.reduce((sum, text) => sum + text.length, 0);
+    const scans: (NmapScan | null)[] = []; // null: a merged scan that couldn't be read
+    let parsedBytes = 0;
+
+    const finish = () => {
+      cancelParseRef.current = null;
+      const [scan, ...merges] = scans;
+      // Use setScanWithNotes to atomically set scan + notes, avoiding
+      // the race condition with async IndexedDB note loading
+      setScanWithNotes(scan!, project.scanFileName, project.scanData, project.notes, project.diffs, project.hostColumns);
+      // Apply merged scans; the ones that don't parse are skipped and reported
+      const skipped: string[] = [];
+      merges.forEach((mergedScan, i) => {
+        const merged = project.mergedScans[i];
+        if (mergedScan) mergeScan(mergedScan, merged.fileName, merged.content, merged.merge);
+        else skipped.push(merged.fileName);
+      });
+      setSkippedMerges(skipped);
+    };
+
+    const parseNext = () => {
+      const text = texts[scans.length];
+      const settle = (scan: NmapScan | null) => {
+        parsedBytes += text.length;
+        scans.push(scan);
+        if (scans.length < texts.length) parseNext();
+        else finish();
+      };
+      cancelParseRef.current = parseTextInWorker(text, {
+        onProgress: (progress) => setLoadingProgress({ ...progress, bytesRead: parsedBytes + progress.bytesRead, totalBytes }),
+        onDone: settle,
+        onError: (message) => {
+          if (scans.length > 0) {
+            settle(null);
+            return;
+          }
+          cancelParseRef.current = null;
+          console.error('NmapUI project import error:', message);
+          setError(message);
+        },
+      });
+    };
+
+    cancelParseRef.current?.();
+    setLoadingProgress({ bytesRead: 0, totalBytes, hostCount: 0 });
+    parseNext();
+  }, [setLoadingProgress, setError, setScanWithNotes, mergeScan]);
+
   const loadProjectContent = useCallback((content: string, fileName: string) => {
-    store.setLoading(true);
+    setLoading(true);
+    setSkippedMerges([]);
 
     // Check if it's a .nmapui project file
     if (fileName.endsWith('.nmapui') || content.trimStart().startsWith('{"magic":"NMAPUI_PROJECT"')) {
       try {
-        const project = importProjectFile(content);
-        const scan = parseNmapOutput(project.scanData);
-
-        // Use setScanWithNotes to atomically set scan + notes, avoiding
-        // the race condition with async IndexedDB note loading
-        store.setScanWithNotes(scan, project.scanFileName, project.scanData, project.notes);
-
-        // Apply merged scans
-        for (const merged of project.mergedScans) {
-          try {
-            const mergedScan = parseNmapOutput(merged.content);
-            store.mergeScan(mergedScan);
-          } catch {
-            // Skip invalid merged scans
-          }
-        }
+        loadProject(importProjectFile(content));
       } catch (err: any) {
         console.error('NmapUI project import error:', err);
-        store.setError(err.message || 'Failed to import project file');
+        setError(err.message || 'Failed to import project file');
       }
       return;
     }
 
-    try {
-      const scan = parseNmapOutput(content);
-      store.setScan(scan, fileName, content);
-    } catch (err: any) {
-      console.error('NmapUI parse error:', err);
-      store.setError(err.message || 'Failed to parse file');
-    }
-  }, [store]);
+    cancelParseRef.current?.();
+    setLoadingProgress({ bytesRead: 0, totalBytes: content.length, hostCount: 0 });
+    cancelParseRef.current = parseTextInWorker(content, {
+      onProgress: (progress) => setLoadingProgress(progress),
+      onDone: (scan) => {
+        cancelParseRef.current = null;
+        setScan(scan, fileName, content);
+      },
+      onError: (message) => {
+        cancelParseRef.current = null;
+        console.error('NmapUI parse error:', message);
+        setError(message);
+      },
+    });
+  }, [setLoading, setLoadingProgress, setError, setScan, loadProject]);
 
   const handleFileLoad = useCallback((content: string, fileName: string) => {
     // Check if the file is encrypted
@@ -86,25 +152,89 @@ function AppInner() {
     loadProjectContent(content, fileName);
   }, [loadProjectContent]);
 
+  const streamCallbacks = useCallback((fileName: string): ParseCallbacks => ({
+    onProgress: (progress) => setLoadingProgress(progress),
+    onDone: (scan) => {
+      cancelParseRef.current = null;
+      // Streamed scans are too large to keep as raw text alongside the parsed model
+      setSkippedMerges([]);
+      setScan(scan, fileName, '');
+    },
+    onError: (message) => {
+      cancelParseRef.current = null;
+      console.error('NmapUI parse error:', message);
+      setError(message);
+    },
+  }), [setLoadingProgress, setScan, setError]);
+
+  // Large files are read and parsed in a Web Worker so the UI stays responsive
+  const handleFileStream = useCallback((file: File) => {
+    cancelParseRef.current?.();
+    setLoadingProgress({ bytesRead: 0, totalBytes: file.size, hostCount: 0 });
+    cancelParseRef.current = parseFileInWorker(file, streamCallbacks(file.name));
+  }, [setLoadingProgress, streamCallbacks]);
+
+  const cancelParse = useCallback(() => {
+    cancelParseRef.current?.();
+    cancelParseRef.current = null;
+    streamSessionRef.current = null;
+    setLoadingProgress(null);
+  }, [setLoadingProgress]);
+
   const handleDecrypted = useCallback((plaintext: string, fileName: string) => {
     setDecryptPending(null);
     loadProjectContent(plaintext, fileName);
   }, [loadProjectContent]);
 
+  // The file types the Electron open dialog offers only need to be sent once
+  useEffect(() => {
+    window.electronAPI?.setOpenFilters([
+      ...getOpenDialogFilters(),
+      { name: 'NmapUI Projects', extensions: PROJECT_FILE_EXTENSIONS },
+    ]);
+  }, []);
+
   // Wire up Electron IPC if running in Electron
   useEffect(() => {
     if (!window.electronAPI) return;
     const cleanupFile = window.electronAPI.onFileOpened((data) => {
       handleFileLoad(data.content, data.fileName);
     });
+    // Large files opened from the main process arrive in chunks
+    const cleanupStream = window.electronAPI.onFileStream((data) => {
+      switch (data.type) {
+        case 'start': {
+          cancelParseRef.current?.();
+          const session = createParseSession(streamCallbacks(data.fileName));
+          streamSessionRef.current = session;
+          cancelParseRef.current = session.cancel;
+          setLoadingProgress({ bytesRead: 0, totalBytes: data.totalBytes, hostCount: 0 });
+          break;
+        }
+        case 'chunk':
+          streamSessionRef.current?.write(data.text || '', data.bytesRead, data.totalBytes);
+          break;
+        case 'end':
+          streamSessionRef.current?.end();
+          streamSessionRef.current = null;
+          break;
+        case 'error':
+          streamSessionRef.current?.cancel();
+          streamSessionRef.current = null;
+          cancelParseRef.current = null;
+          setError(data.message || 'Failed to read file');
+          break;
+      }
+    });
     const cleanupExport = window.electronAPI.onTriggerExport(() => {
-      store.setShowExportDialog(true);
+      setShowExportDialog(true);
     });
     return () => {
       cleanupFile?.();
+      cleanupStream?.();
       cleanupExport?.();
     };
-  }, [handleFileLoad, store]);
+  }, [handleFileLoad, streamCallbacks, setLoadingProgress, setError, setShowExportDialog]);
 
   // Global keyboard shortcuts
   useEffect(() => {
@@ -127,6 +257,14 @@ function AppInner() {
           setShowMerge(false);
           return;
         }
+        if (showScanRunner) {
+          setShowScanRunner(false);
+          return;
+        }
+        if (showScanProfiles) {
+          setShowScanProfiles(false);
+          return;
+        }
         if (showDiff) {
           setShowDiff(false);
           return;
@@ -191,7 +329,7 @@ function AppInner() {
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [state, store, handleFileLoad, showDiff, showMerge, decryptPending]);
+  }, [state, store, handleFileLoad, showDiff, showMerge, showScanRunner, showScanProfiles, decryptPending]);
 
   const toggleTheme = useCallback(() => {
     setTheme(prev => prev === 'dark' ? 'light' : 'dark');
@@ -199,7 +337,7 @@ function AppInner() {
 
   const renderContent = () => {
     if (!state.scan) {
-      return <ImportView onFileLoad={handleFileLoad} error={state.error} />;
+      return <ImportView onFileLoad={handleFileLoad} onFileStream={handleFileStream} error={state.error} />;
     }
 
     switch (state.viewMode) {
@@ -211,6 +349,14 @@ function AppInner() {
         return <PortsView scan={state.scan} hosts={filteredHosts} store={store} />;
       case 'services':
         return <ServicesView scan={state.scan} hosts={filteredHosts} store={store} />;
+      case 'subnets':
+        return <SubnetsView scan={state.scan} hosts={filteredHosts} store={store} />;
+      case 'topology':
+        return <TopologyView scan={state.scan} hosts={filteredHosts} store={store} />;
+      case 'vulnerabilities':
+        return <VulnerabilitiesView scan={state.scan} findings={store.vulnerabilities} store={store} />;
+      case 'followup':
+        return <FollowUpView hosts={filteredHosts} store={store} runner={scanRunner} canRun={isScanRunnerAvailable()} />;
       case 'notes':
         return <NotesView scan={state.scan} store={store} />;
       default:
@@ -228,6 +374,11 @@ function AppInner() {
         onDiff={() => setShowDiff(true)}
         onMerge={() => setShowMerge(true)}
         onNewNote={() => store.openNoteEditor()}
+        onRunScan={isScanRunnerAvailable() ? () => setShowScanRunner(true) : undefined}
+        onScanProfiles={() => setShowScanProfiles(true)}
+        scanStatus={scanRunner.run.status === 'running' || scanRunner.run.status === 'starting'
+          ? `Scanning${scanRunner.run.percent !== null ? ` ${Math.round(scanRunner.run.percent)}%` : '...'}`
+          : null}
         onToggleTheme={toggleTheme}
         theme={theme}
       />
@@ -239,10 +390,41 @@ function AppInner() {
             scan={state.scan}
             filteredCount={filteredHosts.length}
             noteCount={state.notes.length}
+            vulnCount={store.vulnerabilities.filter(v => v.state !== 'NOT VULNERABLE').length}
+            filterPresets={state.filterPresets}
+            onApplyPreset={store.applyFilterPreset}
+            scanSources={state.imports.map(i => i.source)}
+            asOfSourceId={state.asOfSourceId}
+            onAsOfChange={store.setAsOfSource}
           />
         )}
         <main className="app-content" role="main" aria-label="Main content">
-          {state.loading && <div className="loading-spinner" role="status" aria-label="Loading">Loading...</div>}
+          {state.loading && !state.loadingProgress && <div className="loading-spinner" role="status" aria-label="Loading">Loading...</div>}
+          {state.loadingProgress && (
+            <div className="loading-spinner" role="status" aria-label="Loading">
+              Parsing... {state.loadingProgress.totalBytes > 0
+                ? Math.min(100, Math.round((state.loadingProgress.bytesRead / state.loadingProgress.totalBytes) * 100))
+                : 0}% ({state.loadingProgress.hostCount.toLocaleString()} hosts)
+              <button className="btn btn-sm" style={{ marginLeft: 12 }} onClick={cancelParse}>Cancel</button>
+            </div>
+          )}
+          {store.queryProgress && store.queryProgress.total > QUERY_CHUNK_SIZE && (
+            <div className="query-progress" role="status">
+              Filtering... {Math.round((store.queryProgress.done / store.queryProgress.total) * 100)}%
+            </div>
+          )}
+          {state.scan && <PartialScanBanner key={state.fileName} scan={state.scan} />}
+          {state.asOfSourceId && <AsOfBanner store={store} />}
+          {skippedMerges.length > 0 && (
+            <div className="warning-banner" role="alert">
+              <span style={{ fontWeight: 600 }}>Merged scans skipped:</span>
+              <span style={{ flex: 1 }}>
+                {skippedMerges.length === 1 ? 'A scan merged into this project' : `${skippedMerges.length} scans merged into this project`} could
+                not be read and {skippedMerges.length === 1 ? 'is' : 'are'} missing from it: <span className="mono">{skippedMerges.join(', ')}</span>.
+              </span>
+              <button className="btn btn-sm btn-ghost btn-icon" onClick={() => setSkippedMerges([])} aria-label="Dismiss skipped scans warning">{'\u2715'}</button>
+            </div>
+          )}
           {renderContent()}
         </main>
       </div>
@@ -252,14 +434,16 @@ function AppInner() {
           hosts={filteredHosts}
           selectedIds={state.selectedHostIds}
           notes={state.notes}
-          rawScanData={state.rawScanData}
+          imports={state.imports}
+          diffs={state.diffs}
+          hostColumns={state.hostColumns}
           fileName={state.fileName}
           onClose={() => store.setShowExportDialog(false)}
         />
       )}
       {showDiff && state.scan && (
         <DiffView
-          baseScan={state.scan}
+          store={store}
           onClose={() => setShowDiff(false)}
         />
       )}
@@ -269,6 +453,19 @@ function AppInner() {
           onClose={() => setShowMerge(false)}
         />
       )}
+      {showScanRunner && (
+        <ScanRunnerDialog
+          store={store}
+          runner={scanRunner}
+          onClose={() => setShowScanRunner(false)}
+        />
+      )}
+      {showScanProfiles && (
+        <ScanProfilesDialog
+          store={store}
+          onClose={() => setShowScanProfiles(false)}
+        />
+      )}
       {decryptPending && (
         <DecryptDialog
           envelope={decryptPending.envelope}
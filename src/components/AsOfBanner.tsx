@@ -0,0 +1,29 @@
+import React from 'react';
+import type { AppStore } from '../store/appStore';
+import { formatTimestamp } from '../utils/helpers';
+
+interface AsOfBannerProps {
+  store: AppStore;
+}
+
+// Shown while the project is viewed as of an earlier imported scan
+export function AsOfBanner({ store }: AsOfBannerProps) {
+  const { imports, asOfSourceId } = store.state;
+  const index = imports.findIndex(i => i.source.id === asOfSourceId);
+  if (index < 0) return null;
+  const { source } = imports[index];
+  const hidden = imports.length - index - 1;
+
+  return (
+    <div className="warning-banner" role="status">
+      <span style={{ fontWeight: 600 }}>Viewing history:</span>
+      <span style={{ flex: 1 }}>
+        the project as of scan {index + 1}, <span className="mono">{source.fileName}</span> ({formatTimestamp(source.start)}).
+        {' '}{hidden} later scan{hidden === 1 ? ' is' : 's are'} hidden.
+      </span>
+      <button className="btn btn-sm" onClick={() => store.setAsOfSource(null)}>
+        Show Latest
+      </button>
+    </div>
+  );
+}
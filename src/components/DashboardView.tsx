@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import type { NmapScan, NmapHost } from '../types/nmap';
 import type { AppStore } from '../store/appStore';
 import { stateClass } from '../utils/helpers';
@@ -37,6 +37,24 @@ export function DashboardView({ scan, hosts, store }: DashboardViewProps) {
   const portStates = Array.from(portStateMap.entries()).sort((a, b) => b[1] - a[1]);
   const totalPortInstances = portStates.reduce((sum, [, c]) => sum + c, 0);
 
+  // Filter presets pinned to the dashboard, counted against the whole scan in the query worker
+  const { filterPresets } = store.state;
+  const { queryHosts } = store;
+  const pinnedPresets = useMemo(() => filterPresets.filter(p => p.showOnDashboard), [filterPresets]);
+  const [counts, setCounts] = useState<Map<string, number>>(new Map());
+  useEffect(() => {
+    setCounts(new Map());
+    const pending = pinnedPresets.map(preset => {
+      const query = queryHosts({ filterGroup: preset.group, searchQuery: '', sorts: [] });
+      query.promise
+        .then(hosts => { if (hosts) setCounts(prev => new Map(prev).set(preset.id, hosts.length)); })
+        .catch(err => console.error('Failed to count preset hosts:', err));
+      return query;
+    });
+    return () => pending.forEach(q => q.cancel());
+  }, [pinnedPresets, queryHosts]);
+  const presetCounts = pinnedPresets.map(p => ({ preset: p, count: counts.get(p.id) }));
+
   return (
     <div className="dashboard">
       <div className="dashboard-title">Scan Overview</div>
@@ -77,8 +95,35 @@ export function DashboardView({ scan, hosts, store }: DashboardViewProps) {
             <div className="stat-value stat-orange">{store.state.notes.length}</div>
           </div>
         )}
+        {store.scopeViolations.size > 0 && (
+          <div className="stat-card clickable" onClick={store.showOutOfScopeHosts} title="Show hosts outside the engagement scope">
+            <div className="stat-label">Out of Scope</div>
+            <div className="stat-value stat-red">{store.scopeViolations.size}</div>
+            <div className="stat-detail">hosts outside authorized ranges</div>
+          </div>
+        )}
       </div>
 
+      {presetCounts.length > 0 && (
+        <>
+          <div className="section-title">Saved Filters</div>
+          <div className="stats-grid">
+            {presetCounts.map(({ preset, count }) => (
+              <div
+                key={preset.id}
+                className="stat-card clickable"
+                onClick={() => store.applyFilterPreset(preset.id)}
+                title={`Show the hosts matching "${preset.name}"`}
+              >
+                <div className="stat-label truncate">{preset.name}</div>
+                <div className="stat-value stat-accent">{count ?? '\u2026'}</div>
+                <div className="stat-detail">of {scan.totalHosts} hosts</div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
       <div className="dashboard-grid">
         {/* Top Open Ports */}
         <div className="card">
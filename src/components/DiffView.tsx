@@ -1,158 +1,203 @@
 import React, { useState, useCallback, useMemo } from 'react';
-import type { NmapScan, NmapHost } from '../types/nmap';
+import type { NmapScan, ScanDiff, HostDiff, FieldChange } from '../types/nmap';
+import type { AppStore } from '../store/appStore';
 import { parseNmapOutput } from '../parser/nmapParser';
-import { stateClass } from '../utils/helpers';
+import { getAcceptList } from '../parser/importers';
+import { buildProjectScan } from '../utils/scanMerge';
+import { diffScans, describeSide } from '../utils/scanDiff';
+import { exportDiff, getDiffExportFilename, getExportMimeType, downloadExport, type DiffExportFormat } from '../utils/exportEngine';
+import { formatTimestamp } from '../utils/helpers';
 
 interface DiffViewProps {
-  baseScan: NmapScan;
+  store: AppStore;
   onClose: () => void;
 }
 
-interface HostDiff {
-  ip: string;
-  hostname: string;
-  status: 'added' | 'removed' | 'changed' | 'unchanged';
-  baseHost: NmapHost | null;
-  compareHost: NmapHost | null;
-  portChanges: PortDiff[];
+// Either side of a comparison: an imported scan (by source id), the whole
+// project, or a file that is only loaded for the comparison
+const PROJECT_SIDE = 'project';
+const FILE_SIDE = 'file';
+
+const EXPORT_FORMATS: { format: DiffExportFormat; label: string }[] = [
+  { format: 'html', label: 'HTML' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+];
+
+// Beyond this, changed hosts are left to the exported report
+const MAX_LISTED_HOSTS = 300;
+
+function statusTag(status: HostDiff['status']): string {
+  if (status === 'added') return 'tag-green';
+  if (status === 'removed') return 'tag-red';
+  return 'tag-yellow';
+}
+
+function statusSymbol(status: HostDiff['status']): string {
+  if (status === 'added') return '+';
+  if (status === 'removed') return '-';
+  return '~';
 }
 
-interface PortDiff {
-  port: number;
-  protocol: string;
-  status: 'added' | 'removed' | 'changed' | 'unchanged';
-  baseState?: string;
-  compareState?: string;
-  baseService?: string;
-  compareService?: string;
+function ChangeLine({ label, change }: { label: string; change: FieldChange }) {
+  const multiline = change.before.includes('\n') || change.after.includes('\n');
+  return (
+    <div style={{ fontSize: 11, marginBottom: 2 }}>
+      <span className="mono" style={{ color: 'var(--text-muted)' }}>{label}</span>{' '}
+      <span style={{ fontWeight: 600 }}>{change.field}</span>{' '}
+      {multiline ? (
+        <span style={{ color: 'var(--text-muted)' }}>output changed</span>
+      ) : (
+        <>
+          <span className="mono" style={{ color: 'var(--red)' }}>{change.before || '(none)'}</span>
+          {' \u2192 '}
+          <span className="mono" style={{ color: 'var(--green)' }}>{change.after || '(none)'}</span>
+        </>
+      )}
+    </div>
+  );
 }
 
-export function DiffView({ baseScan, onClose }: DiffViewProps) {
-  const [compareScan, setCompareScan] = useState<NmapScan | null>(null);
+function HostChanges({ host }: { host: HostDiff }) {
+  if (host.status === 'added') {
+    return <span style={{ color: 'var(--text-muted)', fontSize: 11 }}>{host.compareOpenPorts} open ports</span>;
+  }
+  if (host.status === 'removed') {
+    return <span style={{ color: 'var(--text-muted)', fontSize: 11 }}>was: {host.baseOpenPorts} open ports</span>;
+  }
+  return (
+    <div>
+      {host.changes.map(c => <ChangeLine key={c.field} label="host" change={c} />)}
+      {host.portChanges.map(pc => {
+        const label = `${pc.port}/${pc.protocol}`;
+        if (pc.status === 'changed') {
+          return pc.changes.map(c => <ChangeLine key={`${label} ${c.field}`} label={label} change={c} />);
+        }
+        return (
+          <div key={label} style={{ fontSize: 11, marginBottom: 2, color: pc.status === 'added' ? 'var(--green)' : 'var(--red)' }}>
+            <span className="mono">{statusSymbol(pc.status)}{label}</span>{' '}
+            {pc.status === 'added' ? pc.compareState : pc.baseState}
+            {(pc.compareService || pc.baseService) ? ` ${pc.status === 'added' ? pc.compareService : pc.baseService}` : ''}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function DiffView({ store, onClose }: DiffViewProps) {
+  const { imports, diffs: savedDiffs } = store.state;
+  const [baseId, setBaseId] = useState(() => imports.length > 1 ? imports[imports.length - 2].source.id : imports[0]?.source.id || PROJECT_SIDE);
+  const [compareId, setCompareId] = useState(() => imports.length > 1 ? imports[imports.length - 1].source.id : FILE_SIDE);
+  const [file, setFile] = useState<{ scan: NmapScan; fileName: string } | null>(null);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [dragOver, setDragOver] = useState(false);
 
-  const handleFile = useCallback((file: File) => {
+  const handleFile = useCallback((f: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
         const content = e.target?.result as string;
-        const scan = parseNmapOutput(content);
-        setCompareScan(scan);
+        setFile({ scan: parseNmapOutput(content), fileName: f.name });
         setError(null);
       } catch (err: any) {
         setError(err.message || 'Failed to parse comparison file');
       }
     };
-    reader.readAsText(file);
+    reader.readAsText(f);
   }, []);
 
-  const diffs = useMemo<HostDiff[]>(() => {
-    if (!compareScan) return [];
-
-    const baseMap = new Map<string, NmapHost>();
-    for (const h of baseScan.hosts) {
-      baseMap.set(h.ip || h.ipv6, h);
+  const resolveSide = useCallback((id: string): { scan: NmapScan; fileName: string } | null => {
+    if (id === FILE_SIDE) return file;
+    if (id === PROJECT_SIDE) {
+      return imports.length > 0 ? { scan: buildProjectScan(imports), fileName: `${store.state.fileName} (all scans)` } : null;
     }
+    const imported = imports.find(i => i.source.id === id);
+    return imported ? { scan: imported.scan, fileName: imported.source.fileName } : null;
+  }, [file, imports, store.state.fileName]);
 
-    const compareMap = new Map<string, NmapHost>();
-    for (const h of compareScan.hosts) {
-      compareMap.set(h.ip || h.ipv6, h);
-    }
-
-    const allIPs = new Set([...baseMap.keys(), ...compareMap.keys()]);
-    const results: HostDiff[] = [];
-
-    for (const ip of allIPs) {
-      const baseHost = baseMap.get(ip) || null;
-      const compareHost = compareMap.get(ip) || null;
-
-      const portChanges: PortDiff[] = [];
-      const allPorts = new Set<string>();
+  const liveDiff = useMemo<ScanDiff | null>(() => {
+    const base = resolveSide(baseId);
+    const compare = resolveSide(compareId);
+    if (!base || !compare || baseId === compareId) return null;
+    return diffScans(base.scan, compare.scan, {
+      base: describeSide(base.scan, base.fileName),
+      compare: describeSide(compare.scan, compare.fileName),
+    });
+  }, [resolveSide, baseId, compareId]);
 
-      if (baseHost) {
-        for (const p of baseHost.ports) allPorts.add(`${p.portid}/${p.protocol}`);
-      }
-      if (compareHost) {
-        for (const p of compareHost.ports) allPorts.add(`${p.portid}/${p.protocol}`);
-      }
+  const viewing = savedDiffs.find(d => d.id === viewingId) || null;
+  const diff = viewing || liveDiff;
 
-      for (const portKey of allPorts) {
-        const [portStr, proto] = portKey.split('/');
-        const portNum = Number(portStr);
-        const basePort = baseHost?.ports.find(p => p.portid === portNum && p.protocol === proto);
-        const comparePort = compareHost?.ports.find(p => p.portid === portNum && p.protocol === proto);
+  const handleSave = () => {
+    if (!liveDiff) return;
+    const saved = { ...liveDiff, name: name.trim() || liveDiff.name };
+    store.saveScanDiff(saved);
+    setName('');
+    setViewingId(saved.id);
+  };
 
-        if (basePort && !comparePort) {
-          portChanges.push({ port: portNum, protocol: proto, status: 'removed', baseState: basePort.state.state, baseService: basePort.service?.name });
-        } else if (!basePort && comparePort) {
-          portChanges.push({ port: portNum, protocol: proto, status: 'added', compareState: comparePort.state.state, compareService: comparePort.service?.name });
-        } else if (basePort && comparePort) {
-          const stateChanged = basePort.state.state !== comparePort.state.state;
-          const serviceChanged = basePort.service?.name !== comparePort.service?.name;
-          portChanges.push({
-            port: portNum, protocol: proto,
-            status: stateChanged || serviceChanged ? 'changed' : 'unchanged',
-            baseState: basePort.state.state, compareState: comparePort.state.state,
-            baseService: basePort.service?.name, compareService: comparePort.service?.name,
-          });
-        }
-      }
-
-      let status: HostDiff['status'];
-      if (!baseHost) status = 'added';
-      else if (!compareHost) status = 'removed';
-      else if (portChanges.some(pc => pc.status !== 'unchanged') || baseHost.status.state !== compareHost.status.state) status = 'changed';
-      else status = 'unchanged';
+  const handleExport = (format: DiffExportFormat) => {
+    if (!diff) return;
+    downloadExport(exportDiff(diff, format), getDiffExportFilename(format), getExportMimeType(format));
+  };
 
-      results.push({
-        ip,
-        hostname: (compareHost || baseHost)?.hostname || '',
-        status,
-        baseHost,
-        compareHost,
-        portChanges: portChanges.filter(pc => pc.status !== 'unchanged'),
-      });
-    }
+  const sideOptions = (
+    <>
+      {imports.map((imported, i) => (
+        <option key={imported.source.id} value={imported.source.id}>
+          Scan {i + 1}: {imported.source.fileName} ({formatTimestamp(imported.source.start)})
+        </option>
+      ))}
+      {imports.length > 1 && <option value={PROJECT_SIDE}>Whole project (all scans merged)</option>}
+      <option value={FILE_SIDE}>Other file{file ? `: ${file.fileName}` : '\u2026'}</option>
+    </>
+  );
 
-    return results.sort((a, b) => {
-      const order = { added: 0, removed: 1, changed: 2, unchanged: 3 };
-      return order[a.status] - order[b.status];
-    });
-  }, [baseScan, compareScan]);
+  const needsFile = !viewing && (baseId === FILE_SIDE || compareId === FILE_SIDE) && !file;
+  const listedHosts = diff ? diff.hosts.slice(0, MAX_LISTED_HOSTS) : [];
 
-  const stats = useMemo(() => {
-    return {
-      added: diffs.filter(d => d.status === 'added').length,
-      removed: diffs.filter(d => d.status === 'removed').length,
-      changed: diffs.filter(d => d.status === 'changed').length,
-      unchanged: diffs.filter(d => d.status === 'unchanged').length,
-    };
-  }, [diffs]);
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={e => e.stopPropagation()} style={{ maxWidth: 900, maxHeight: '85vh' }}>
+        <div className="modal-header">
+          <span className="modal-title">Compare Scans</span>
+          <button className="btn btn-sm btn-ghost btn-icon" onClick={onClose} aria-label="Close">{'\u2715'}</button>
+        </div>
+        <div className="modal-body" style={{ maxHeight: '68vh', overflow: 'auto' }}>
+          {error && <div className="error-banner" style={{ marginBottom: 12 }}>{error}</div>}
 
-  if (!compareScan) {
-    return (
-      <div className="modal-overlay" onClick={onClose}>
-        <div className="modal" onClick={e => e.stopPropagation()} style={{ maxWidth: 500 }}>
-          <div className="modal-header">
-            <span className="modal-title">Compare Scans</span>
-            <button className="btn btn-sm btn-ghost btn-icon" onClick={onClose} aria-label="Close">{'\u2715'}</button>
+          {/* Sides */}
+          <div style={{ display: 'flex', gap: 12, alignItems: 'flex-end', marginBottom: 12 }}>
+            <div className="form-group" style={{ flex: 1, marginBottom: 0 }}>
+              <label className="form-label">Before</label>
+              <select className="select" value={baseId} onChange={e => { setBaseId(e.target.value); setViewingId(null); }}>
+                {sideOptions}
+              </select>
+            </div>
+            <div style={{ paddingBottom: 8, color: 'var(--text-muted)' }}>{'\u2192'}</div>
+            <div className="form-group" style={{ flex: 1, marginBottom: 0 }}>
+              <label className="form-label">After</label>
+              <select className="select" value={compareId} onChange={e => { setCompareId(e.target.value); setViewingId(null); }}>
+                {sideOptions}
+              </select>
+            </div>
           </div>
-          <div className="modal-body" style={{ textAlign: 'center' }}>
-            <p style={{ color: 'var(--text-secondary)', marginBottom: 16, fontSize: 13 }}>
-              Drop a second scan file to compare against the current scan.
-            </p>
-            {error && <div className="error-banner" style={{ marginBottom: 12 }}>{error}</div>}
+
+          {needsFile && (
             <div
               className={`drop-area ${dragOver ? 'drag-over' : ''}`}
-              style={{ padding: 40 }}
+              style={{ padding: 32, textAlign: 'center', marginBottom: 12 }}
               onDrop={e => { e.preventDefault(); setDragOver(false); const f = e.dataTransfer.files[0]; if (f) handleFile(f); }}
               onDragOver={e => { e.preventDefault(); setDragOver(true); }}
               onDragLeave={() => setDragOver(false)}
               onClick={() => {
                 const input = document.createElement('input');
                 input.type = 'file';
-                input.accept = '.xml,.gnmap,.nmap,.txt';
+                input.accept = getAcceptList();
                 input.onchange = () => { const f = input.files?.[0]; if (f) handleFile(f); };
                 input.click();
               }}
@@ -161,96 +206,111 @@ export function DiffView({ baseScan, onClose }: DiffViewProps) {
               <div style={{ fontWeight: 600, marginBottom: 4 }}>Drop comparison scan file</div>
               <div style={{ fontSize: 11, color: 'var(--text-muted)' }}>or click to browse</div>
             </div>
-          </div>
-        </div>
-      </div>
-    );
-  }
+          )}
 
-  const changedDiffs = diffs.filter(d => d.status !== 'unchanged');
+          {!viewing && baseId === compareId && (
+            <div style={{ color: 'var(--text-muted)', fontSize: 12, marginBottom: 12 }}>Pick two different scans to compare.</div>
+          )}
 
-  return (
-    <div className="modal-overlay" onClick={onClose}>
-      <div className="modal" onClick={e => e.stopPropagation()} style={{ maxWidth: 800, maxHeight: '85vh' }}>
-        <div className="modal-header">
-          <span className="modal-title">Scan Comparison</span>
-          <button className="btn btn-sm btn-ghost btn-icon" onClick={onClose} aria-label="Close">{'\u2715'}</button>
-        </div>
-        <div className="modal-body" style={{ maxHeight: '65vh', overflow: 'auto' }}>
-          {/* Summary */}
-          <div style={{ display: 'flex', gap: 12, marginBottom: 16 }}>
-            <span className="tag tag-green">+{stats.added} new</span>
-            <span className="tag tag-red">-{stats.removed} removed</span>
-            <span className="tag tag-yellow">~{stats.changed} changed</span>
-            <span className="tag" style={{ background: 'var(--bg-tertiary)', color: 'var(--text-muted)' }}>
-              {stats.unchanged} unchanged
-            </span>
-          </div>
+          {/* Saved comparisons */}
+          {savedDiffs.length > 0 && (
+            <div style={{ marginBottom: 12 }}>
+              <div className="section-title">Saved Comparisons</div>
+              {savedDiffs.map(saved => (
+                <div key={saved.id} style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '3px 0', fontSize: 12 }}>
+                  <button
+                    className={`btn btn-sm ${saved.id === viewingId ? 'btn-primary' : 'btn-ghost'}`}
+                    style={{ flex: 1, justifyContent: 'flex-start' }}
+                    onClick={() => setViewingId(saved.id === viewingId ? null : saved.id)}
+                  >
+                    {saved.name}
+                  </button>
+                  <span style={{ color: 'var(--text-muted)', fontSize: 11 }}>
+                    +{saved.summary.added} -{saved.summary.removed} ~{saved.summary.changed}
+                  </span>
+                  <button className="btn btn-sm btn-ghost" onClick={() => { store.deleteScanDiff(saved.id); if (saved.id === viewingId) setViewingId(null); }}>
+                    Delete
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {diff && (
+            <>
+              {viewing && (
+                <div style={{ fontSize: 12, color: 'var(--text-secondary)', marginBottom: 8 }}>
+                  Saved comparison <strong>{viewing.name}</strong>: {viewing.base.fileName} ({formatTimestamp(viewing.base.start)})
+                  {' \u2192 '}{viewing.compare.fileName} ({formatTimestamp(viewing.compare.start)})
+                </div>
+              )}
 
-          {changedDiffs.length === 0 ? (
-            <div className="empty-state"><div>No differences found between the two scans</div></div>
-          ) : (
-            <table className="data-table">
-              <thead>
-                <tr>
-                  <th>Status</th>
-                  <th>Host</th>
-                  <th>Port Changes</th>
-                </tr>
-              </thead>
-              <tbody>
-                {changedDiffs.map(diff => (
-                  <tr key={diff.ip}>
-                    <td>
-                      <span className={`tag ${
-                        diff.status === 'added' ? 'tag-green' :
-                        diff.status === 'removed' ? 'tag-red' : 'tag-yellow'
-                      }`}>
-                        {diff.status === 'added' ? '+' : diff.status === 'removed' ? '-' : '~'} {diff.status}
-                      </span>
-                    </td>
-                    <td className="mono">{diff.ip}{diff.hostname ? ` (${diff.hostname})` : ''}</td>
-                    <td>
-                      {diff.portChanges.length === 0 ? (
-                        <span style={{ color: 'var(--text-muted)', fontSize: 11 }}>
-                          {diff.status === 'added' ? `${diff.compareHost?.openPortCount || 0} open ports` :
-                           diff.status === 'removed' ? `was: ${diff.baseHost?.openPortCount || 0} open ports` :
-                           'host status changed'}
-                        </span>
-                      ) : (
-                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 3 }}>
-                          {diff.portChanges.slice(0, 8).map(pc => (
-                            <span key={`${pc.port}/${pc.protocol}`} className="mono" style={{
-                              fontSize: 10,
-                              padding: '1px 5px',
-                              borderRadius: 3,
-                              background: pc.status === 'added' ? 'var(--green-dim)' :
-                                pc.status === 'removed' ? 'var(--red-dim)' : 'var(--yellow-dim)',
-                              color: pc.status === 'added' ? 'var(--green)' :
-                                pc.status === 'removed' ? 'var(--red)' : 'var(--yellow)',
-                            }}>
-                              {pc.status === 'added' ? '+' : pc.status === 'removed' ? '-' : '~'}
-                              {pc.port}/{pc.protocol}
-                              {pc.status === 'changed' ? ` (${pc.baseState}\u2192${pc.compareState})` : ''}
-                            </span>
-                          ))}
-                          {diff.portChanges.length > 8 && (
-                            <span style={{ fontSize: 10, color: 'var(--text-muted)' }}>
-                              +{diff.portChanges.length - 8} more
-                            </span>
-                          )}
-                        </div>
-                      )}
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+              {/* Summary */}
+              <div style={{ display: 'flex', gap: 12, marginBottom: 16 }}>
+                <span className="tag tag-green">+{diff.summary.added} new</span>
+                <span className="tag tag-red">-{diff.summary.removed} removed</span>
+                <span className="tag tag-yellow">~{diff.summary.changed} changed</span>
+                <span className="tag" style={{ background: 'var(--bg-tertiary)', color: 'var(--text-muted)' }}>
+                  {diff.summary.unchanged} unchanged
+                </span>
+              </div>
+
+              {diff.hosts.length === 0 ? (
+                <div className="empty-state"><div>No differences found between the two scans</div></div>
+              ) : (
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>Status</th>
+                      <th>Host</th>
+                      <th>Changes</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {listedHosts.map(host => (
+                      <tr key={host.ip}>
+                        <td>
+                          <span className={`tag ${statusTag(host.status)}`}>
+                            {statusSymbol(host.status)} {host.status}
+                          </span>
+                        </td>
+                        <td className="mono">{host.ip}{host.hostname ? ` (${host.hostname})` : ''}</td>
+                        <td><HostChanges host={host} /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {diff.hosts.length > listedHosts.length && (
+                <div style={{ fontSize: 11, color: 'var(--text-muted)', marginTop: 8 }}>
+                  {diff.hosts.length - listedHosts.length} more changed hosts are included in exported reports.
+                </div>
+              )}
+            </>
           )}
         </div>
         <div className="modal-footer">
-          <button className="btn" onClick={() => setCompareScan(null)}>Load Different Scan</button>
-          <button className="btn btn-primary" onClick={onClose}>Close</button>
+          {diff && EXPORT_FORMATS.map(({ format, label }) => (
+            <button key={format} className="btn btn-sm" onClick={() => handleExport(format)}>{label}</button>
+          ))}
+          <div style={{ flex: 1 }} />
+          {liveDiff && !viewing && (
+            <>
+              <input
+                className="input"
+                style={{ width: 200 }}
+                placeholder={liveDiff.name}
+                value={name}
+                onChange={e => setName(e.target.value)}
+                aria-label="Comparison name"
+              />
+              <button className="btn btn-primary" onClick={handleSave}>Save</button>
+            </>
+          )}
+          {file && (baseId === FILE_SIDE || compareId === FILE_SIDE) && !viewing && (
+            <button className="btn" onClick={() => setFile(null)}>Load Different File</button>
+          )}
+          <button className="btn" onClick={onClose}>Close</button>
         </div>
       </div>
     </div>
@@ -1,7 +1,9 @@
 import React, { useState, useRef, useCallback } from 'react';
-import type { NmapScan, NmapHost, Note, ExportFormat, ExportOptions } from '../types/nmap';
-import { exportData, getExportFilename, getExportMimeType, downloadExport } from '../utils/exportEngine';
+import type { NmapScan, NmapHost, Note, ExportFormat, ExportOptions, ScanDiff, HostColumnSettings } from '../types/nmap';
+import type { ImportedScan } from '../utils/scanMerge';
+import { exportData, importedScanText, getExportFilename, getExportMimeType, downloadExport } from '../utils/exportEngine';
 import { exportProjectFile, downloadFile } from '../utils/storage';
+import { resolveHostColumns } from '../utils/hostColumns';
 import {
   type EncryptionMode,
   encryptSymmetric,
@@ -16,12 +18,14 @@ interface ExportDialogProps {
   hosts: NmapHost[];
   selectedIds: Set<string>;
   notes: Note[];
-  rawScanData: string;
+  imports: ImportedScan[]; // every scan of the project, in import order
+  diffs: ScanDiff[];
+  hostColumns: HostColumnSettings;
   fileName: string;
   onClose: () => void;
 }
 
-export function ExportDialog({ scan, hosts, selectedIds, notes, rawScanData, fileName, onClose }: ExportDialogProps) {
+export function ExportDialog({ scan, hosts, selectedIds, notes, imports, diffs, hostColumns, fileName, onClose }: ExportDialogProps) {
   const [format, setFormat] = useState<ExportFormat>('csv');
   const [includeHostDetails, setIncludeHostDetails] = useState(true);
   const [includePorts, setIncludePorts] = useState(true);
@@ -29,6 +33,7 @@ export function ExportDialog({ scan, hosts, selectedIds, notes, rawScanData, fil
   const [includeOS, setIncludeOS] = useState(true);
   const [includeTrace, setIncludeTrace] = useState(false);
   const [includeNotes, setIncludeNotes] = useState(true);
+  const [useTableColumns, setUseTableColumns] = useState(true);
   const [exportScope, setExportScope] = useState<'all' | 'filtered' | 'selected'>(
     selectedIds.size > 0 ? 'selected' : 'filtered'
   );
@@ -98,7 +103,9 @@ export function ExportDialog({ scan, hosts, selectedIds, notes, rawScanData, fil
     try {
       if (isProjectFormat) {
         const ts = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-        const projectContent = exportProjectFile(rawScanData, fileName || scan.args || 'scan', notes);
+        const [first, ...merged] = imports;
+        const mergedScans = merged.map(i => ({ fileName: i.source.fileName, content: importedScanText(i), merge: i.merge }));
+        const projectContent = exportProjectFile(importedScanText(first), fileName || scan.args || 'scan', notes, mergedScans, diffs, hostColumns);
 
         if (encryptionMode === 'none') {
           downloadFile(projectContent, `nmap-project-${ts}.nmapui`, 'application/json');
@@ -132,6 +139,9 @@ export function ExportDialog({ scan, hosts, selectedIds, notes, rawScanData, fil
         includeTrace,
         includeNotes: includeNotes && notes.length > 0,
         notes: includeNotes ? notes : [],
+        hostColumns: format === 'csv' && useTableColumns
+          ? resolveHostColumns(hostColumns).map(c => ({ id: c.id, label: c.label }))
+          : undefined,
       };
 
       const content = exportData(scan, exportHosts, options);
@@ -151,7 +161,9 @@ export function ExportDialog({ scan, hosts, selectedIds, notes, rawScanData, fil
     { value: 'csv', label: 'CSV', desc: 'Spreadsheet-compatible, one row per host/port' },
     { value: 'json', label: 'JSON', desc: 'Structured data, ideal for programmatic use' },
     { value: 'html', label: 'HTML Report', desc: 'Styled report, printable and shareable' },
-    { value: 'xml', label: 'XML', desc: 'Simplified XML export' },
+    { value: 'xml', label: 'Nmap XML', desc: 'nmap -oX format for ndiff, Metasploit and other nmap tooling' },
+    { value: 'gnmap', label: 'Nmap Greppable', desc: 'nmap -oG format, one line per host for grep/awk' },
+    { value: 'nmap', label: 'Nmap Normal', desc: 'nmap -oN text output' },
     { value: 'markdown', label: 'Markdown', desc: 'Documentation-friendly format' },
   ];
 
@@ -217,6 +229,12 @@ export function ExportDialog({ scan, hosts, selectedIds, notes, rawScanData, fil
               <div className="form-group">
                 <div className="form-label">Include</div>
                 <div className="export-options">
+                  {format === 'csv' && (
+                    <label className="checkbox-label" title="Host columns as configured in the Hosts table, in the same order">
+                      <input type="checkbox" checked={useTableColumns} onChange={e => setUseTableColumns(e.target.checked)} />
+                      Hosts table columns
+                    </label>
+                  )}
                   <label className="checkbox-label">
                     <input type="checkbox" checked={includePorts} onChange={e => setIncludePorts(e.target.checked)} />
                     Port details
@@ -1,46 +1,370 @@
-import React, { useCallback } from 'react';
-import type { FilterGroup, FilterRule, FilterOperator } from '../types/nmap';
-import { FILTER_FIELDS, FILTER_OPERATORS } from '../utils/filterEngine';
+import React, { useCallback, useRef, useState } from 'react';
+import type { FilterGroup, FilterRule, FilterOperator, FilterPreset } from '../types/nmap';
+import type { AppStore } from '../store/appStore';
+import { FILTER_FIELDS, FILTER_OPERATORS, countActiveRules, isPortField } from '../utils/filterEngine';
+import { formatFilterQuery, newFilterId } from '../utils/filterQuery';
+import { downloadFile, exportFilterPresets, importFilterPresets } from '../utils/storage';
 
 interface FilterPanelProps {
   filterGroup: FilterGroup;
   onChange: (group: FilterGroup) => void;
   onClose: () => void;
+  store: AppStore;
 }
 
-function newRuleId(): string {
-  return `rule-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+function newRule(): FilterRule {
+  return {
+    id: newFilterId('rule'),
+    field: 'ip',
+    operator: 'contains',
+    value: '',
+    enabled: true,
+  };
 }
 
-export function FilterPanel({ filterGroup, onChange, onClose }: FilterPanelProps) {
-  const addRule = useCallback(() => {
-    const newRule: FilterRule = {
-      id: newRuleId(),
-      field: 'ip',
-      operator: 'contains',
-      value: '',
-      enabled: true,
+function newGroup(logic: 'AND' | 'OR'): FilterGroup {
+  return { id: newFilterId('group'), logic, rules: [newRule()], groups: [] };
+}
+
+const getOperatorsForField = (fieldName: string) => {
+  const field = FILTER_FIELDS.find(f => f.value === fieldName);
+  const fieldType = field?.type || 'string';
+  return FILTER_OPERATORS.filter(op => op.types.includes(fieldType));
+};
+
+function LogicLabel({ logic }: { logic: string }) {
+  return (
+    <span style={{ fontSize: 11, color: 'var(--text-muted)', width: 30, textAlign: 'center', flexShrink: 0 }}>
+      {logic}
+    </span>
+  );
+}
+
+interface RuleRowProps {
+  rule: FilterRule;
+  label: string;
+  connector: string | null;
+  onChange: (updates: Partial<FilterRule>) => void;
+  onRemove: () => void;
+}
+
+function RuleRow({ rule, label, connector, onChange, onRemove }: RuleRowProps) {
+  return (
+    <div className="filter-row">
+      {connector && <LogicLabel logic={connector} />}
+      <label className="checkbox-label" style={{ flexShrink: 0 }}>
+        <input
+          type="checkbox"
+          checked={rule.enabled}
+          onChange={e => onChange({ enabled: e.target.checked })}
+          aria-label={`Enable filter rule ${label}`}
+        />
+      </label>
+      <button
+        className={`btn btn-sm ${rule.negate ? 'btn-primary' : 'btn-ghost'}`}
+        onClick={() => onChange({ negate: !rule.negate || undefined })}
+        title="Negate this rule"
+        aria-pressed={!!rule.negate}
+        aria-label={`Negate filter rule ${label}`}
+      >
+        NOT
+      </button>
+      <select
+        className="select"
+        value={rule.field}
+        aria-label={`Filter field for rule ${label}`}
+        onChange={e => {
+          const newField = e.target.value;
+          const ops = getOperatorsForField(newField);
+          const currentOpValid = ops.find(o => o.value === rule.operator);
+          onChange({
+            field: newField,
+            operator: currentOpValid ? rule.operator : ops[0]?.value as FilterOperator,
+          });
+        }}
+      >
+        <optgroup label="Host">
+          {FILTER_FIELDS.filter(f => !isPortField(f.value)).map(f => (
+            <option key={f.value} value={f.value}>{f.label}</option>
+          ))}
+        </optgroup>
+        <optgroup label="Port (all port rules match the same port)">
+          {FILTER_FIELDS.filter(f => isPortField(f.value)).map(f => (
+            <option key={f.value} value={f.value}>{f.label}</option>
+          ))}
+        </optgroup>
+      </select>
+      <select
+        className="select"
+        value={rule.operator}
+        aria-label={`Filter operator for rule ${label}`}
+        onChange={e => onChange({ operator: e.target.value as FilterOperator })}
+      >
+        {getOperatorsForField(rule.field).map(op => (
+          <option key={op.value} value={op.value}>{op.label}</option>
+        ))}
+      </select>
+      {rule.operator !== 'is_empty' && rule.operator !== 'is_not_empty' && (
+        <input
+          className="input"
+          type="text"
+          value={rule.value}
+          placeholder={rule.operator === 'in_range' ? 'e.g. 1-1024' : 'Value...'}
+          onChange={e => onChange({ value: e.target.value })}
+          aria-label={`Filter value for rule ${label}`}
+        />
+      )}
+      <button
+        className="btn btn-sm btn-icon btn-ghost btn-danger"
+        onClick={onRemove}
+        title="Remove filter"
+        aria-label={`Remove filter rule ${label}`}
+      >
+        X
+      </button>
+    </div>
+  );
+}
+
+interface GroupEditorProps {
+  group: FilterGroup;
+  path: string; // e.g. "2.1", used in labels
+  onChange: (group: FilterGroup) => void;
+}
+
+// Rules and nested groups of one group; nested groups render recursively
+function GroupBody({ group, path, onChange }: GroupEditorProps) {
+  const groups = group.groups || [];
+  const prefix = path ? `${path}.` : '';
+
+  const updateRule = (id: string, updates: Partial<FilterRule>) => {
+    onChange({ ...group, rules: group.rules.map(r => r.id === id ? { ...r, ...updates } : r) });
+  };
+  const removeRule = (id: string) => {
+    onChange({ ...group, rules: group.rules.filter(r => r.id !== id) });
+  };
+  const updateGroup = (updated: FilterGroup) => {
+    onChange({ ...group, groups: groups.map(g => g.id === updated.id ? updated : g) });
+  };
+  const removeGroup = (id: string) => {
+    onChange({ ...group, groups: groups.filter(g => g.id !== id) });
+  };
+
+  return (
+    <>
+      {group.rules.map((rule, idx) => (
+        <RuleRow
+          key={rule.id}
+          rule={rule}
+          label={`${prefix}${idx + 1}`}
+          connector={idx > 0 ? group.logic : null}
+          onChange={updates => updateRule(rule.id, updates)}
+          onRemove={() => removeRule(rule.id)}
+        />
+      ))}
+      {groups.map((child, idx) => (
+        <NestedGroup
+          key={child.id}
+          group={child}
+          path={`${prefix}${group.rules.length + idx + 1}`}
+          connector={group.rules.length + idx > 0 ? group.logic : null}
+          onChange={updateGroup}
+          onRemove={() => removeGroup(child.id)}
+        />
+      ))}
+    </>
+  );
+}
+
+function NestedGroup({ group, path, connector, onChange, onRemove }: GroupEditorProps & { connector: string | null; onRemove: () => void }) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'flex-start', gap: 6, marginBottom: 6 }}>
+      {connector && <div style={{ paddingTop: 6 }}><LogicLabel logic={connector} /></div>}
+      <div className="filter-group" role="group" aria-label={`Filter group ${path}`}>
+        <div className="filter-row">
+          <button
+            className={`btn btn-sm ${group.negate ? 'btn-primary' : 'btn-ghost'}`}
+            onClick={() => onChange({ ...group, negate: !group.negate || undefined })}
+            title="Negate this group"
+            aria-pressed={!!group.negate}
+            aria-label={`Negate filter group ${path}`}
+          >
+            NOT
+          </button>
+          <button
+            className="btn btn-sm btn-ghost"
+            onClick={() => onChange({ ...group, logic: group.logic === 'AND' ? 'OR' : 'AND' })}
+            title="Toggle between AND/OR logic"
+            aria-label={`Group ${path} match logic: ${group.logic}. Click to toggle.`}
+          >
+            Match: {group.logic}
+          </button>
+          <div className="header-spacer" />
+          <button className="btn btn-sm btn-ghost" onClick={() => onChange({ ...group, rules: [...group.rules, newRule()] })} aria-label={`Add rule to group ${path}`}>
+            + Rule
+          </button>
+          <button
+            className="btn btn-sm btn-ghost"
+            onClick={() => onChange({ ...group, groups: [...(group.groups || []), newGroup(group.logic === 'AND' ? 'OR' : 'AND')] })}
+            aria-label={`Add nested group to group ${path}`}
+          >
+            + Group
+          </button>
+          <button
+            className="btn btn-sm btn-icon btn-ghost btn-danger"
+            onClick={onRemove}
+            title="Remove group"
+            aria-label={`Remove filter group ${path}`}
+          >
+            X
+          </button>
+        </div>
+        <GroupBody group={group} path={path} onChange={onChange} />
+      </div>
+    </div>
+  );
+}
+
+interface PresetBarProps {
+  presets: FilterPreset[];
+  canSave: boolean;
+  store: AppStore;
+}
+
+// Load, save and share named filters from the library
+function PresetBar({ presets, canSave, store }: PresetBarProps) {
+  const [selectedId, setSelectedId] = useState('');
+  const [newName, setNewName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = presets.find(p => p.id === selectedId);
+
+  const save = () => {
+    const name = (newName || '').trim();
+    if (!name) return;
+    const existing = presets.find(p => p.name === name);
+    if (existing) {
+      if (!confirm(`Replace the preset "${name}" with the current filters?`)) return;
+      store.updateFilterPreset(existing.id, { group: store.state.filterGroup });
+    } else {
+      store.saveFilterAsPreset(name);
+    }
+    setNewName(null);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const imported = importFilterPresets(reader.result as string);
+        if (imported.length === 0) throw new Error('No valid presets found in file');
+        store.importFilterPresets(imported);
+        setError(null);
+      } catch (err) {
+        setError((err instanceof Error ? err.message : String(err)) || 'Failed to import presets');
+      }
     };
-    onChange({
-      ...filterGroup,
-      rules: [...filterGroup.rules, newRule],
-    });
-  }, [filterGroup, onChange]);
+    reader.onerror = () => setError('Failed to read file');
+    reader.readAsText(file);
+  };
 
-  const updateRule = useCallback((id: string, updates: Partial<FilterRule>) => {
-    onChange({
-      ...filterGroup,
-      rules: filterGroup.rules.map(r => r.id === id ? { ...r, ...updates } : r),
-    });
-  }, [filterGroup, onChange]);
+  return (
+    <>
+      <div className="filter-row" style={{ borderBottom: '1px solid var(--border-color)', paddingBottom: 8 }}>
+        <span style={{ fontSize: 12, color: 'var(--text-muted)', flexShrink: 0 }}>Presets</span>
+        <select
+          className="select"
+          value={selectedId}
+          aria-label="Load filter preset"
+          onChange={e => {
+            setSelectedId(e.target.value);
+            if (e.target.value) store.applyFilterPreset(e.target.value);
+          }}
+        >
+          <option value="">{presets.length ? 'Load preset...' : 'No saved presets'}</option>
+          {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        {selected && (
+          <>
+            <button
+              className={`btn btn-sm ${selected.showOnDashboard ? 'btn-primary' : 'btn-ghost'}`}
+              onClick={() => store.updateFilterPreset(selected.id, { showOnDashboard: !selected.showOnDashboard })}
+              aria-pressed={selected.showOnDashboard}
+              title="Show the number of matching hosts on the dashboard"
+            >
+              Dashboard
+            </button>
+            <button
+              className="btn btn-sm btn-ghost btn-danger"
+              onClick={() => {
+                if (!confirm(`Delete the preset "${selected.name}"?`)) return;
+                store.deleteFilterPreset(selected.id);
+                setSelectedId('');
+              }}
+              aria-label={`Delete preset ${selected.name}`}
+            >
+              Delete
+            </button>
+          </>
+        )}
+        <div className="header-spacer" />
+        {newName === null ? (
+          <button className="btn btn-sm" onClick={() => setNewName(selected?.name || '')} disabled={!canSave} title="Save the current filters as a named preset">
+            Save as Preset
+          </button>
+        ) : (
+          <>
+            <input
+              className="input"
+              type="text"
+              value={newName}
+              placeholder="Preset name..."
+              autoFocus
+              onChange={e => setNewName(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') save();
+                if (e.key === 'Escape') { e.stopPropagation(); setNewName(null); }
+              }}
+              aria-label="Preset name"
+            />
+            <button className="btn btn-sm btn-primary" onClick={save} disabled={!newName.trim()}>Save</button>
+            <button className="btn btn-sm btn-ghost" onClick={() => setNewName(null)}>Cancel</button>
+          </>
+        )}
+        <button className="btn btn-sm btn-ghost" onClick={() => fileInputRef.current?.click()} title="Import presets from a JSON file">
+          Import
+        </button>
+        <button
+          className="btn btn-sm btn-ghost"
+          onClick={() => downloadFile(exportFilterPresets(presets), 'nmapui-filter-presets.json', 'application/json')}
+          disabled={presets.length === 0}
+          title="Export all presets as JSON"
+        >
+          Export
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json" style={{ display: 'none' }} onChange={handleImport} />
+      </div>
+      {error && <div className="error-banner" style={{ marginBottom: 8 }}>{error}</div>}
+    </>
+  );
+}
 
-  const removeRule = useCallback((id: string) => {
-    onChange({
-      ...filterGroup,
-      rules: filterGroup.rules.filter(r => r.id !== id),
-    });
+export function FilterPanel({ filterGroup, onChange, onClose, store }: FilterPanelProps) {
+  const groups = filterGroup.groups || [];
+  const isEmpty = filterGroup.rules.length === 0 && groups.length === 0;
+  const query = countActiveRules(filterGroup) > 0 ? formatFilterQuery(filterGroup) : '';
+
+  const addRule = useCallback(() => {
+    onChange({ ...filterGroup, rules: [...filterGroup.rules, newRule()] });
   }, [filterGroup, onChange]);
 
+  const addGroup = useCallback(() => {
+    onChange({ ...filterGroup, groups: [...groups, newGroup(filterGroup.logic === 'AND' ? 'OR' : 'AND')] });
+  }, [filterGroup, groups, onChange]);
+
   const toggleLogic = useCallback(() => {
     onChange({
       ...filterGroup,
@@ -49,21 +373,15 @@ export function FilterPanel({ filterGroup, onChange, onClose }: FilterPanelProps
   }, [filterGroup, onChange]);
 
   const clearAll = useCallback(() => {
-    onChange({ ...filterGroup, rules: [] });
+    onChange({ ...filterGroup, rules: [], groups: [], negate: undefined });
   }, [filterGroup, onChange]);
 
-  const getOperatorsForField = (fieldName: string) => {
-    const field = FILTER_FIELDS.find(f => f.value === fieldName);
-    const fieldType = field?.type || 'string';
-    return FILTER_OPERATORS.filter(op => op.types.includes(fieldType));
-  };
-
   return (
     <div className="filter-panel" role="region" aria-label="Filter panel">
       <div className="filter-header">
         <div className="filter-header-title">
           Filters
-          {filterGroup.rules.length > 0 && (
+          {!isEmpty && (
             <span style={{ marginLeft: 8 }}>
               <button
                 className="btn btn-sm btn-ghost"
@@ -77,7 +395,7 @@ export function FilterPanel({ filterGroup, onChange, onClose }: FilterPanelProps
           )}
         </div>
         <div style={{ display: 'flex', gap: 4 }}>
-          {filterGroup.rules.length > 0 && (
+          {!isEmpty && (
             <button className="btn btn-sm btn-ghost btn-danger" onClick={clearAll} aria-label="Clear all filters">
               Clear All
             </button>
@@ -85,79 +403,29 @@ export function FilterPanel({ filterGroup, onChange, onClose }: FilterPanelProps
           <button className="btn btn-sm btn-primary" onClick={addRule} aria-label="Add a new filter rule">
             + Add Filter
           </button>
+          <button className="btn btn-sm" onClick={addGroup} aria-label="Add a nested filter group">
+            + Add Group
+          </button>
           <button className="btn btn-sm btn-ghost" onClick={onClose} aria-label="Close filter panel">
             Close
           </button>
         </div>
       </div>
 
-      {filterGroup.rules.map((rule, idx) => (
-        <div key={rule.id} className="filter-row">
-          {idx > 0 && (
-            <span style={{ fontSize: 11, color: 'var(--text-muted)', width: 30, textAlign: 'center', flexShrink: 0 }}>
-              {filterGroup.logic}
-            </span>
-          )}
-          <label className="checkbox-label" style={{ flexShrink: 0 }}>
-            <input
-              type="checkbox"
-              checked={rule.enabled}
-              onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
-              aria-label={`Enable filter rule ${idx + 1}`}
-            />
-          </label>
-          <select
-            className="select"
-            value={rule.field}
-            aria-label={`Filter field for rule ${idx + 1}`}
-            onChange={e => {
-              const newField = e.target.value;
-              const ops = getOperatorsForField(newField);
-              const currentOpValid = ops.find(o => o.value === rule.operator);
-              updateRule(rule.id, {
-                field: newField,
-                operator: currentOpValid ? rule.operator : ops[0]?.value as FilterOperator,
-              });
-            }}
-          >
-            {FILTER_FIELDS.map(f => (
-              <option key={f.value} value={f.value}>{f.label}</option>
-            ))}
-          </select>
-          <select
-            className="select"
-            value={rule.operator}
-            aria-label={`Filter operator for rule ${idx + 1}`}
-            onChange={e => updateRule(rule.id, { operator: e.target.value as FilterOperator })}
-          >
-            {getOperatorsForField(rule.field).map(op => (
-              <option key={op.value} value={op.value}>{op.label}</option>
-            ))}
-          </select>
-          {rule.operator !== 'is_empty' && rule.operator !== 'is_not_empty' && (
-            <input
-              className="input"
-              type="text"
-              value={rule.value}
-              placeholder={rule.operator === 'in_range' ? 'e.g. 1-1024' : 'Value...'}
-              onChange={e => updateRule(rule.id, { value: e.target.value })}
-              aria-label={`Filter value for rule ${idx + 1}`}
-            />
-          )}
-          <button
-            className="btn btn-sm btn-icon btn-ghost btn-danger"
-            onClick={() => removeRule(rule.id)}
-            title="Remove filter"
-            aria-label={`Remove filter rule ${idx + 1}`}
-          >
-            X
-          </button>
-        </div>
-      ))}
+      <PresetBar presets={store.state.filterPresets} canSave={countActiveRules(filterGroup) > 0} store={store} />
+
+      <GroupBody group={filterGroup} path="" onChange={onChange} />
 
-      {filterGroup.rules.length === 0 && (
+      {isEmpty && (
         <div style={{ fontSize: 12, color: 'var(--text-muted)', padding: '4px 0' }}>
-          No filters applied. Click &quot;+ Add Filter&quot; to add one.
+          No filters applied. Click &quot;+ Add Filter&quot; to add one, or type a query such as
+          {' '}<code className="mono">port:443 os~linux -status:down</code> in the search box.
+        </div>
+      )}
+
+      {query && (
+        <div className="filter-query" title="Equivalent search query">
+          Query: <span className="mono">{query}</span>
         </div>
       )}
     </div>
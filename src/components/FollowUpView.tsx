@@ -0,0 +1,277 @@
+import React, { useState, useMemo, useRef } from 'react';
+import type { NmapHost } from '../types/nmap';
+import type { AppStore } from '../store/appStore';
+import type { ScanRunner, QueuedScan } from '../store/scanRunner';
+import {
+  collectFollowUpGroups, getGroupFollowUps, buildFollowUpQueue, followUpKey, followUpJobRequest,
+  describeFollowUpJob, formatFollowUpCommand, exportFollowUpScript, type FollowUpGroup,
+} from '../utils/followUpQueue';
+import { formatScriptArgs } from '../utils/scriptSuggestions';
+import { downloadFile } from '../utils/storage';
+
+interface FollowUpViewProps {
+  hosts: NmapHost[]; // hosts matching the current filters
+  store: AppStore;
+  runner: ScanRunner;
+  canRun: boolean; // nmap can be run from the app (Electron)
+}
+
+const CATEGORY_COLORS: Record<string, string> = {
+  vuln: 'var(--red)',
+  brute: 'var(--orange)',
+  auth: 'var(--yellow)',
+  discovery: 'var(--accent)',
+};
+
+const STATUS_TAGS: Record<QueuedScan['status'], string> = {
+  pending: 'tag',
+  running: 'tag tag-blue',
+  done: 'tag tag-green',
+  failed: 'tag tag-red',
+  canceled: 'tag tag-yellow',
+};
+
+function GroupCard({ group, picked, store }: { group: FollowUpGroup; picked: Set<string>; store: AppStore }) {
+  return (
+    <div className="card" style={{ marginBottom: 12 }}>
+      <div className="card-header">
+        <span className="mono" style={{ color: 'var(--accent)' }}>{group.key}</span>
+        <span className="mono truncate" style={{ color: 'var(--text-secondary)', fontWeight: 400, fontSize: 12 }} title={group.ports.join(', ')}>
+          {group.ports.join(', ')}
+        </span>
+        <div className="header-spacer" />
+        <span className="result-count">{group.instances.length} port{group.instances.length !== 1 ? 's' : ''}</span>
+      </div>
+      <div className="card-body" style={{ padding: '8px 16px' }}>
+        {group.suggestions.map(s => {
+          const followUps = getGroupFollowUps(group, s.scriptId);
+          const count = followUps.filter(f => picked.has(followUpKey(f))).length;
+          return (
+            <label key={s.scriptId} className="script-suggestion-row">
+              <input
+                type="checkbox"
+                checked={count === followUps.length}
+                ref={el => { if (el) el.indeterminate = count > 0 && count < followUps.length; }}
+                onChange={() => count === followUps.length ? store.removeFollowUps(followUps) : store.addFollowUps(followUps)}
+                style={{ accentColor: 'var(--accent)' }}
+                aria-label={`Run ${s.scriptId} on every ${group.key} port`}
+              />
+              <code className="script-suggestion-id">{s.scriptId}</code>
+              <span
+                className="script-suggestion-cat"
+                style={{ color: CATEGORY_COLORS[s.category] || 'var(--text-secondary)' }}
+                title={s.categories.join(', ')}
+              >
+                {s.category}
+              </span>
+              <span className="script-suggestion-desc">{s.description}</span>
+              {s.args && s.args.length > 0 && (
+                <span className="script-suggestion-args" title={formatScriptArgs(s.args)}>
+                  {s.args.length} arg{s.args.length !== 1 ? 's' : ''}
+                </span>
+              )}
+              <span className="result-count" style={{ flexShrink: 0 }}>{count > 0 ? `${count}/` : ''}{followUps.length}</span>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Import script.db and .nse files from a local nmap's scripts directory
+function CatalogBar({ store }: { store: AppStore }) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const imported = store.state.importedScripts.length;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).filter(f => /\.nse$|^script\.db$/i.test(f.name));
+    e.target.value = '';
+    try {
+      const contents = await Promise.all(files.map(async f => ({ name: f.name, content: await f.text() })));
+      const count = store.importScriptCatalog(contents);
+      setMessage({ text: `Imported ${count} script${count !== 1 ? 's' : ''}`, error: false });
+    } catch (err) {
+      setMessage({ text: (err instanceof Error ? err.message : String(err)) || 'Failed to import scripts', error: true });
+    }
+  };
+
+  return (
+    <div className="toolbar">
+      <span className="result-count" title={imported > 0 ? `${imported} imported from a local nmap` : 'Built-in catalog'}>
+        {store.scriptCatalog.length} scripts in catalog
+      </span>
+      {message && (
+        <span className="result-count" style={{ color: message.error ? 'var(--red)' : undefined }}>{message.text}</span>
+      )}
+      <div className="header-spacer" />
+      <button
+        className="btn btn-sm btn-ghost"
+        onClick={() => fileInputRef.current?.click()}
+        title="Select script.db and the .nse files of nmap's scripts directory (e.g. /usr/share/nmap/scripts)"
+      >
+        Import Scripts
+      </button>
+      {imported > 0 && (
+        <button
+          className="btn btn-sm btn-ghost"
+          onClick={() => { store.resetScriptCatalog(); setMessage(null); }}
+          title="Go back to the built-in catalog"
+        >
+          Reset
+        </button>
+      )}
+      <input ref={fileInputRef} type="file" accept=".nse,.db" multiple style={{ display: 'none' }} onChange={handleImport} />
+    </div>
+  );
+}
+
+export function FollowUpView({ hosts, store, runner, canRun }: FollowUpViewProps) {
+  const { followUps } = store.state;
+  const [categoryFilter, setCategoryFilter] = useState('all');
+
+  const groups = useMemo(() => collectFollowUpGroups(hosts, store.suggestionOptions), [hosts, store.suggestionOptions]);
+  const excluded = store.suggestionOptions.excludeCategories ?? [];
+  const categories = useMemo(
+    () => [...new Set(groups.flatMap(g => g.suggestions.map(s => s.category)))].sort(),
+    [groups],
+  );
+  const visibleGroups = useMemo(() => {
+    if (categoryFilter === 'all') return groups;
+    return groups
+      .map(g => ({ ...g, suggestions: g.suggestions.filter(s => s.category === categoryFilter) }))
+      .filter(g => g.suggestions.length > 0);
+  }, [groups, categoryFilter]);
+
+  const picked = useMemo(() => new Set(followUps.map(followUpKey)), [followUps]);
+  const jobs = useMemo(() => buildFollowUpQueue(followUps), [followUps]);
+  const queueActive = runner.queue.some(q => q.status === 'pending' || q.status === 'running');
+  const scanBusy = runner.run.status === 'starting' || runner.run.status === 'running';
+
+  const runQueue = () => {
+    runner.startQueue(jobs.map(job => ({ id: job.id, label: describeFollowUpJob(job), request: followUpJobRequest(job) })));
+    // The queue keeps the picks; their results show up as scripts that already ran
+    store.clearFollowUps();
+  };
+
+  return (
+    <div className="split-view">
+      <div className="split-list" style={{ overflowY: 'auto' }}>
+        <div className="toolbar">
+          <select className="select" value={categoryFilter} onChange={e => setCategoryFilter(e.target.value)} aria-label="Filter by category">
+            <option value="all">All Categories</option>
+            {categories.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <span className="result-count">
+            {groups.length} service{groups.length !== 1 ? 's' : ''} on {hosts.length} host{hosts.length !== 1 ? 's' : ''}
+          </span>
+          {excluded.length > 0 && (
+            <span className="result-count" title="Set in the engagement scope">Not allowed: {excluded.join(', ')}</span>
+          )}
+        </div>
+        <CatalogBar store={store} />
+        <div style={{ padding: 12 }}>
+          {visibleGroups.map(group => <GroupCard key={group.key} group={group} picked={picked} store={store} />)}
+          {groups.length === 0 && (
+            <div className="empty-state">
+              <div className="icon">{'\u2699'}</div>
+              <div>No script suggestions for the open ports of these hosts</div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="split-detail" style={{ overflowY: 'auto' }}>
+        {runner.queue.length > 0 ? (
+          <>
+            <div className="toolbar">
+              <span>Queue</span>
+              <span className="result-count">
+                {runner.queue.filter(q => q.status === 'done').length} of {runner.queue.length} scans done
+              </span>
+              <div className="header-spacer" />
+              {queueActive ? (
+                <button className="btn btn-sm" onClick={runner.cancelQueue}>Cancel Queue</button>
+              ) : (
+                <button className="btn btn-sm" onClick={runner.clearQueue}>Done</button>
+              )}
+            </div>
+            <table className="data-table">
+              <thead>
+                <tr><th>Scan</th><th>Status</th><th>Hosts</th></tr>
+              </thead>
+              <tbody>
+                {runner.queue.map(q => (
+                  <tr key={q.id}>
+                    <td>
+                      <div className="mono" style={{ fontSize: 12 }}>{q.label}</div>
+                      {q.error && <div style={{ color: 'var(--red)', fontSize: 11 }}>{q.error}</div>}
+                    </td>
+                    <td>
+                      <span className={STATUS_TAGS[q.status]}>
+                        {q.status === 'running' && runner.run.percent !== null ? `running ${Math.round(runner.run.percent)}%` : q.status}
+                      </span>
+                    </td>
+                    <td>{q.status === 'running' ? runner.run.hosts.length : q.status === 'pending' ? '' : q.hosts}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="result-count" style={{ padding: 12 }}>
+              Each scan is merged into the project when it finishes.
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="toolbar">
+              <span>Queue</span>
+              <span className="result-count">
+                {jobs.length} nmap run{jobs.length !== 1 ? 's' : ''} for {followUps.length} script{followUps.length !== 1 ? 's' : ''} on host ports
+              </span>
+              <div className="header-spacer" />
+              <button
+                className="btn btn-sm"
+                onClick={() => downloadFile(exportFollowUpScript(jobs), 'nmapui-followup.sh', 'text/x-sh')}
+                disabled={jobs.length === 0}
+                title="Shell script with a target list file (-iL) per run"
+              >
+                Export Script
+              </button>
+              {canRun && (
+                <button
+                  className="btn btn-sm btn-primary"
+                  onClick={runQueue}
+                  disabled={jobs.length === 0 || scanBusy}
+                  title={scanBusy ? 'Wait for the running scan to finish' : 'Run each scan with the local nmap and merge the results'}
+                >
+                  Run Queue
+                </button>
+              )}
+              <button className="btn btn-sm btn-ghost" onClick={store.clearFollowUps} disabled={followUps.length === 0}>Clear</button>
+            </div>
+            {jobs.length === 0 ? (
+              <div className="empty-state">
+                <div>Pick scripts for a service on the left, or in a host's Script Suggestions tab</div>
+              </div>
+            ) : (
+              <div style={{ padding: 12 }}>
+                {jobs.map(job => (
+                  <div key={job.id} className="card" style={{ marginBottom: 8, padding: 8 }}>
+                    <div style={{ fontSize: 12, marginBottom: 4 }}>{describeFollowUpJob(job)}</div>
+                    <div className="mono" style={{ fontSize: 11, color: 'var(--text-muted)', wordBreak: 'break-all' }}>
+                      {formatFollowUpCommand(job)}
+                    </div>
+                    <div className="mono truncate" style={{ fontSize: 11, color: 'var(--text-secondary)', marginTop: 4 }} title={job.targets.join(' ')}>
+                      {job.targets.join(' ')}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
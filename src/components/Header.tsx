@@ -8,11 +8,14 @@ interface HeaderProps {
   onDiff: () => void;
   onMerge: () => void;
   onNewNote: () => void;
+  onRunScan?: () => void; // only when nmap can be run (Electron)
+  onScanProfiles: () => void;
+  scanStatus?: string | null; // progress of a running scan
   onToggleTheme: () => void;
   theme: 'dark' | 'light';
 }
 
-export function Header({ fileName, hasScan, onImport, onExport, onDiff, onMerge, onNewNote, onToggleTheme, theme }: HeaderProps) {
+export function Header({ fileName, hasScan, onImport, onExport, onDiff, onMerge, onNewNote, onRunScan, onScanProfiles, scanStatus, onToggleTheme, theme }: HeaderProps) {
   return (
     <header className="app-header" role="banner">
       <div className="app-logo">
@@ -28,6 +31,14 @@ export function Header({ fileName, hasScan, onImport, onExport, onDiff, onMerge,
       >
         {theme === 'dark' ? '\u2600' : '\u263E'}
       </button>
+      <button className="btn btn-sm btn-ghost" onClick={onScanProfiles} title="Compose and save scan profiles" aria-label="Scan profiles">
+        Profiles
+      </button>
+      {onRunScan && (
+        <button className="btn btn-sm btn-ghost" onClick={onRunScan} title="Run nmap on this computer" aria-label="Run nmap">
+          {scanStatus || 'Run Nmap'}
+        </button>
+      )}
       {hasScan && (
         <>
           <button className="btn btn-sm btn-ghost" onClick={onNewNote} title="New note (Ctrl+N)" aria-label="New note">
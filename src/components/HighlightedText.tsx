@@ -0,0 +1,20 @@
+import React from 'react';
+import { splitHighlights } from '../utils/searchIndex';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+// Text with every occurrence of the search terms wrapped in <mark>
+export function HighlightedText({ text, terms }: HighlightedTextProps) {
+  if (terms.length === 0) return <>{text}</>;
+  return (
+    <>
+      {splitHighlights(text, terms).map((seg, i) => seg.match
+        ? <mark key={i} className="search-hit">{seg.text}</mark>
+        : <React.Fragment key={i}>{seg.text}</React.Fragment>
+      )}
+    </>
+  );
+}
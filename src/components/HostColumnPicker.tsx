@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import type { HostColumnSettings } from '../types/nmap';
+import { getAvailableHostColumns, createCustomColumn, DEFAULT_HOST_COLUMN_SETTINGS, type HostColumn } from '../utils/hostColumns';
+import { formatColumnExpression, type ColumnExpressionKind } from '../utils/columnExpressions';
+
+interface HostColumnPickerProps {
+  settings: HostColumnSettings;
+  scriptIds: string[]; // script ids seen in the scan, suggested when adding a column
+  onChange: (settings: HostColumnSettings) => void;
+}
+
+type ComputedKind = 'open' | 'state' | 'output' | 'element';
+
+const KIND_OPTIONS: { value: ComputedKind; label: string }[] = [
+  { value: 'open', label: 'Port is open' },
+  { value: 'state', label: 'Port state' },
+  { value: 'output', label: 'Script output' },
+  { value: 'element', label: 'Script element' },
+];
+
+// One-click examples of computed columns
+const EXAMPLES: { label: string; expression: string }[] = [
+  { label: '443 open', expression: 'open:443' },
+  { label: 'HTTP title (80)', expression: 'script:http-title@80' },
+  { label: 'TLS cert CN (443)', expression: 'script:ssl-cert.subject.commonName@443' },
+];
+
+const GROUP_LABELS: Record<HostColumn['group'], string> = {
+  host: 'Host',
+  port: 'Ports (all values)',
+  custom: 'Computed',
+};
+
+export function HostColumnPicker({ settings, scriptIds, onChange }: HostColumnPickerProps) {
+  const [kind, setKind] = useState<ComputedKind>('open');
+  const [port, setPort] = useState('');
+  const [script, setScript] = useState('');
+  const [key, setKey] = useState('');
+  const [label, setLabel] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const visible = new Set(settings.columns);
+  const available = getAvailableHostColumns(settings);
+
+  const toggle = (id: string, checked: boolean) => {
+    onChange({
+      ...settings,
+      columns: checked ? [...settings.columns, id] : settings.columns.filter(c => c !== id),
+    });
+  };
+
+  const addColumn = (expression: string, columnLabel = '') => {
+    try {
+      const column = createCustomColumn(expression, columnLabel);
+      const custom = settings.custom.some(c => c.expression === column.expression)
+        ? settings.custom
+        : [...settings.custom, column];
+      const columns = visible.has(column.expression) ? settings.columns : [...settings.columns, column.expression];
+      onChange({ ...settings, custom, columns });
+      setError(null);
+      setLabel('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const removeColumn = (id: string) => {
+    const { [id]: _, ...widths } = settings.widths;
+    onChange({
+      columns: settings.columns.filter(c => c !== id),
+      custom: settings.custom.filter(c => c.expression !== id),
+      widths,
+    });
+  };
+
+  const buildExpression = (): string => {
+    const [portId, protocol] = port.trim().split('/');
+    const portNumber = portId ? Number(portId) : undefined;
+    const exprKind: ColumnExpressionKind = kind === 'output' || kind === 'element' ? 'script' : kind;
+    return formatColumnExpression({
+      kind: exprKind,
+      port: portNumber,
+      protocol: protocol || undefined,
+      script: exprKind === 'script' ? script.trim() : undefined,
+      key: kind === 'element' ? key.trim() : undefined,
+    });
+  };
+
+  const needsScript = kind === 'output' || kind === 'element';
+  const canAdd = needsScript ? !!script.trim() && (kind !== 'element' || !!key.trim()) : !!port.trim();
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '100%',
+      right: 0,
+      zIndex: 100,
+      background: 'var(--bg-secondary)',
+      border: '1px solid var(--border-color)',
+      borderRadius: 'var(--radius-md)',
+      padding: 8,
+      boxShadow: 'var(--shadow-lg)',
+      width: 300,
+      maxHeight: '70vh',
+      overflowY: 'auto',
+    }}>
+      {(['host', 'port', 'custom'] as const).map(group => {
+        const columns = available.filter(c => c.group === group);
+        if (columns.length === 0) return null;
+        return (
+          <div key={group} style={{ marginBottom: 8 }}>
+            <div className="form-label">{GROUP_LABELS[group]}</div>
+            {columns.map(col => (
+              <div key={col.id} style={{ display: 'flex', alignItems: 'center' }}>
+                <label className="checkbox-label" style={{ padding: '3px 0', flex: 1, minWidth: 0 }} title={group === 'custom' ? col.id : undefined}>
+                  <input type="checkbox" checked={visible.has(col.id)} onChange={e => toggle(col.id, e.target.checked)} />
+                  <span className="truncate">{col.label}</span>
+                </label>
+                {group === 'custom' && (
+                  <button className="btn btn-sm btn-ghost" onClick={() => removeColumn(col.id)} aria-label={`Remove column ${col.label}`}>
+                    {'\u2715'}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+
+      <div style={{ borderTop: '1px solid var(--border-color)', paddingTop: 8 }}>
+        <div className="form-label">Add computed column</div>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginBottom: 6 }}>
+          {EXAMPLES.map(ex => (
+            <button key={ex.expression} className="btn btn-sm" onClick={() => addColumn(ex.expression)} title={ex.expression}>
+              + {ex.label}
+            </button>
+          ))}
+        </div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <select className="select" value={kind} onChange={e => setKind(e.target.value as ComputedKind)} aria-label="Column type">
+            {KIND_OPTIONS.map(k => <option key={k.value} value={k.value}>{k.label}</option>)}
+          </select>
+          {needsScript && (
+            <>
+              <input
+                className="input"
+                placeholder="Script ID, e.g. http-title"
+                value={script}
+                onChange={e => setScript(e.target.value)}
+                list="host-column-script-ids"
+                aria-label="Script ID"
+              />
+              <datalist id="host-column-script-ids">
+                {scriptIds.map(id => <option key={id} value={id} />)}
+              </datalist>
+            </>
+          )}
+          {kind === 'element' && (
+            <input
+              className="input"
+              placeholder="Element key, e.g. subject.commonName"
+              value={key}
+              onChange={e => setKey(e.target.value)}
+              aria-label="Element key"
+            />
+          )}
+          <input
+            className="input"
+            placeholder={needsScript ? 'Port (optional), e.g. 443 or 161/udp' : 'Port, e.g. 443 or 161/udp'}
+            value={port}
+            onChange={e => setPort(e.target.value)}
+            aria-label="Port"
+          />
+          <input
+            className="input"
+            placeholder="Label (optional)"
+            value={label}
+            onChange={e => setLabel(e.target.value)}
+            aria-label="Column label"
+          />
+          {error && <div style={{ color: 'var(--red)', fontSize: 11 }} role="alert">{error}</div>}
+          <div style={{ display: 'flex', gap: 4 }}>
+            <button className="btn btn-sm btn-primary" disabled={!canAdd} onClick={() => addColumn(buildExpression(), label)}>
+              Add Column
+            </button>
+            <div className="header-spacer" />
+            <button className="btn btn-sm btn-ghost" onClick={() => onChange({ ...DEFAULT_HOST_COLUMN_SETTINGS, custom: settings.custom })}>
+              Reset
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
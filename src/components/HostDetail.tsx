@@ -1,9 +1,13 @@
 import React, { useState } from 'react';
-import type { NmapHost, HostDetailTab, Note } from '../types/nmap';
+import type { NmapHost, HostDetailTab, Note, ScanSource, Script, Port } from '../types/nmap';
 import type { AppStore } from '../store/appStore';
-import { stateClass, formatUptime, copyToClipboard } from '../utils/helpers';
+import { stateClass, formatUptime, formatTimestamp, copyToClipboard } from '../utils/helpers';
 import { sanitizeNoteHtml } from '../utils/sanitize';
 import { ScriptSuggestions } from './ScriptSuggestions';
+import { HighlightedText } from './HighlightedText';
+import { ScriptOutput } from './ScriptOutput';
+import { splitHighlights } from '../utils/searchIndex';
+import { getSeenRange, sortSourcesByTime } from '../utils/scanMerge';
 
 interface HostDetailProps {
   host: NmapHost;
@@ -18,6 +22,8 @@ export function HostDetail({ host, onBack, store, onImportResults }: HostDetailP
   const [screenshotPreview, setScreenshotPreview] = useState<string | null>(null);
 
   const hostNotes = store.getNotesForHost(host.id);
+  const scopeViolation = store.scopeViolations.get(host.id);
+  const scanSources = store.state.scan?.sources || [];
 
   const toggleScript = (key: string) => {
     setExpandedScripts(prev => {
@@ -32,6 +38,7 @@ export function HostDetail({ host, onBack, store, onImportResults }: HostDetailP
     { id: 'ports', label: 'Ports', count: host.ports.length },
     { id: 'os', label: 'OS Detection', count: host.os.osmatch.length },
     { id: 'scripts', label: 'Scripts', count: host.hostscripts.length + host.ports.reduce((s, p) => s + p.scripts.length, 0) },
+    ...(scanSources.length > 1 ? [{ id: 'timeline' as const, label: 'Timeline' }] : []),
     { id: 'notes', label: 'Notes', count: hostNotes.length, highlight: hostNotes.length > 0 },
     { id: 'suggestions', label: 'Script Suggestions' },
     { id: 'trace', label: 'Trace & Timing' },
@@ -94,6 +101,13 @@ export function HostDetail({ host, onBack, store, onImportResults }: HostDetailP
         </div>
       </div>
 
+      {scopeViolation && (
+        <div className="warning-banner" role="alert">
+          <span style={{ fontWeight: 600 }}>Out of scope:</span>
+          <span>{scopeViolation}. Confirm authorization before testing this host.</span>
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="host-detail-tabs">
         {tabs.map(tab => (
@@ -114,13 +128,14 @@ export function HostDetail({ host, onBack, store, onImportResults }: HostDetailP
         )}
         {activeTab === 'os' && <OSTab host={host} />}
         {activeTab === 'scripts' && (
-          <ScriptsTab host={host} expandedScripts={expandedScripts} toggleScript={toggleScript} />
+          <ScriptsTab host={host} terms={store.searchTerms} expandedScripts={expandedScripts} toggleScript={toggleScript} />
         )}
+        {activeTab === 'timeline' && <TimelineTab host={host} sources={scanSources} />}
         {activeTab === 'notes' && (
           <NotesTab host={host} notes={hostNotes} store={store} onPreviewScreenshot={setScreenshotPreview} />
         )}
         {activeTab === 'suggestions' && (
-          <ScriptSuggestions host={host} onImportResults={onImportResults} />
+          <ScriptSuggestions host={host} onImportResults={onImportResults} onQueue={store.addFollowUps} options={store.suggestionOptions} />
         )}
         {activeTab === 'trace' && <TraceTab host={host} />}
         {activeTab === 'raw' && <RawTab host={host} />}
@@ -223,7 +238,7 @@ function PortsTab({ host, store, expandedScripts, toggleScript }: {
                         <div className="script-header" onClick={() => toggleScript(key)}>
                           {isExpanded ? '\u25BC' : '\u25B6'} {script.id}
                         </div>
-                        {isExpanded && <div className="script-output">{script.output}</div>}
+                        {isExpanded && <ScriptOutput script={script} port={port} />}
                       </div>
                     </td>
                   </tr>
@@ -412,23 +427,20 @@ function OSTab({ host }: { host: NmapHost }) {
   );
 }
 
-function ScriptsTab({ host, expandedScripts, toggleScript }: {
+function ScriptsTab({ host, terms, expandedScripts, toggleScript }: {
   host: NmapHost;
+  terms: string[]; // active search words, highlighted in the output
   expandedScripts: Set<string>;
   toggleScript: (key: string) => void;
 }) {
-  const allScripts: { source: string; id: string; output: string }[] = [];
+  const allScripts: { source: string; script: Script; port?: Port }[] = [];
 
   for (const script of host.hostscripts) {
-    allScripts.push({ source: 'host', id: script.id, output: script.output });
+    allScripts.push({ source: 'host', script });
   }
   for (const port of host.ports) {
     for (const script of port.scripts) {
-      allScripts.push({
-        source: `${port.portid}/${port.protocol}`,
-        id: script.id,
-        output: script.output,
-      });
+      allScripts.push({ source: `${port.portid}/${port.protocol}`, script, port });
     }
   }
 
@@ -438,18 +450,23 @@ function ScriptsTab({ host, expandedScripts, toggleScript }: {
 
   return (
     <div>
-      {allScripts.map((script, i) => {
+      {allScripts.map(({ source, script, port }, i) => {
         const key = `scripts-${i}-${script.id}`;
-        const isExpanded = expandedScripts.has(key);
+        const hits = terms.length > 0
+          ? splitHighlights(`${script.id}\n${script.output}`, terms).filter(seg => seg.match).length
+          : 0;
+        // Scripts matching the search start expanded; toggling flips from there
+        const isExpanded = expandedScripts.has(key) !== hits > 0;
         return (
           <div key={key} className="script-block">
             <div className="script-header" onClick={() => toggleScript(key)}>
-              {isExpanded ? '\u25BC' : '\u25B6'} {script.id}
+              {isExpanded ? '\u25BC' : '\u25B6'} <HighlightedText text={script.id} terms={terms} />
+              {hits > 0 && <span className="tag tag-yellow" style={{ marginLeft: 8 }}>{hits} match{hits === 1 ? '' : 'es'}</span>}
               <span style={{ float: 'right', color: 'var(--text-muted)', fontWeight: 400, fontSize: 11 }}>
-                {script.source}
+                {source}
               </span>
             </div>
-            {isExpanded && <div className="script-output">{script.output}</div>}
+            {isExpanded && <ScriptOutput script={script} port={port} terms={terms} />}
           </div>
         );
       })}
@@ -457,6 +474,127 @@ function ScriptsTab({ host, expandedScripts, toggleScript }: {
   );
 }
 
+function SeenCells({ seenIn, sources }: { seenIn?: string[]; sources: ScanSource[] }) {
+  const range = getSeenRange(seenIn, sources);
+  return (
+    <>
+      <td style={{ whiteSpace: 'nowrap' }}>{range ? formatTimestamp(range.first.start) : '-'}</td>
+      <td style={{ whiteSpace: 'nowrap' }}>{range ? formatTimestamp(range.last.start) : '-'}</td>
+    </>
+  );
+}
+
+// When each port and script result of the host was reported, across the project's scans
+function TimelineTab({ host, sources }: { host: NmapHost; sources: ScanSource[] }) {
+  const columns = sortSourcesByTime(sources);
+  const scannedIn = new Set(host.seenIn);
+  const scripts: { where: string; script: Script }[] = [
+    ...host.hostscripts.map(script => ({ where: 'host', script })),
+    ...host.ports.flatMap(port => port.scripts.map(script => ({ where: `${port.portid}/${port.protocol}`, script }))),
+  ];
+
+  // Blank where the scan didn't cover this host at all, a dash where it covered the host but not the result
+  const missing = (source: ScanSource) => scannedIn.has(source.id) ? '-' : '';
+
+  const sourceHeaders = columns.map(source => (
+    <th key={source.id} title={`${source.fileName}\n${source.args}`} style={{ whiteSpace: 'nowrap' }}>
+      #{sources.indexOf(source) + 1} {formatTimestamp(source.start)}
+    </th>
+  ));
+
+  return (
+    <div>
+      <div className="section-title">Scans</div>
+      <div className="card" style={{ marginBottom: 16 }}>
+        <div className="card-body">
+          <div className="info-grid">
+            {columns.map(source => (
+              <React.Fragment key={source.id}>
+                <span className="label">#{sources.indexOf(source) + 1} {formatTimestamp(source.start)}</span>
+                <span className="value">
+                  {source.fileName}{' '}
+                  <span className="mono" style={{ fontSize: 11, color: 'var(--text-muted)' }}>{source.args}</span>
+                  {!scannedIn.has(source.id) && <span className="tag" style={{ marginLeft: 8 }}>host not in scan</span>}
+                </span>
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="section-title">Ports</div>
+      {host.ports.length === 0 ? (
+        <div className="empty-state"><div>No port data available</div></div>
+      ) : (
+        <table className="data-table" style={{ marginBottom: 16 }}>
+          <thead>
+            <tr>
+              <th>Port</th>
+              <th>Service</th>
+              <th>First Seen</th>
+              <th>Last Seen</th>
+              {sourceHeaders}
+            </tr>
+          </thead>
+          <tbody>
+            {host.ports.map(port => {
+              const observed = new Map((port.history || []).map(o => [o.sourceId, o.state]));
+              return (
+                <tr key={`${port.portid}/${port.protocol}`}>
+                  <td className="mono">{port.portid}/{port.protocol}</td>
+                  <td>{port.service?.name || '-'}</td>
+                  <SeenCells seenIn={port.history?.map(o => o.sourceId)} sources={sources} />
+                  {columns.map(source => {
+                    const state = observed.get(source.id);
+                    return (
+                      <td key={source.id}>
+                        {state
+                          ? <span className={`state-badge state-${stateClass(state)}`}>{state}</span>
+                          : <span style={{ color: 'var(--text-muted)' }}>{missing(source)}</span>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {scripts.length > 0 && (
+        <>
+          <div className="section-title">Script Results</div>
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Script</th>
+                <th>Port</th>
+                <th>First Seen</th>
+                <th>Last Seen</th>
+                {sourceHeaders}
+              </tr>
+            </thead>
+            <tbody>
+              {scripts.map(({ where, script }) => (
+                <tr key={`${where}-${script.id}`}>
+                  <td className="mono">{script.id}</td>
+                  <td className="mono">{where}</td>
+                  <SeenCells seenIn={script.seenIn} sources={sources} />
+                  {columns.map(source => (
+                    <td key={source.id} style={{ color: script.seenIn?.includes(source.id) ? 'var(--green)' : 'var(--text-muted)' }}>
+                      {script.seenIn?.includes(source.id) ? '\u2713' : missing(source)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
+
 function TraceTab({ host }: { host: NmapHost }) {
   return (
     <div>
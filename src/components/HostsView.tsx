@@ -1,10 +1,16 @@
-import React, { useState, useCallback } from 'react';
-import type { NmapScan, NmapHost, SortConfig, FilterRule } from '../types/nmap';
+import React, { useState, useCallback, useMemo } from 'react';
+import type { NmapScan, NmapHost, SortConfig } from '../types/nmap';
 import type { AppStore } from '../store/appStore';
 import { FilterPanel } from './FilterPanel';
+import { ScopePanel } from './ScopePanel';
 import { HostDetail } from './HostDetail';
 import { ContextMenu, ContextMenuItem } from './ContextMenu';
 import { stateClass, copyToClipboard } from '../utils/helpers';
+import { countActiveRules } from '../utils/filterEngine';
+import { getMatchSnippets, type SearchSnippet } from '../utils/searchIndex';
+import { VirtualTable, type VirtualColumn } from './VirtualTable';
+import { HostColumnPicker } from './HostColumnPicker';
+import { resolveHostColumns, getHostColumnValue } from '../utils/hostColumns';
 
 interface HostsViewProps {
   scan: NmapScan;
@@ -13,54 +19,175 @@ interface HostsViewProps {
   onImportResults?: () => void;
 }
 
-const ALL_COLUMNS = [
-  { field: 'ip', label: 'IP Address', default: true },
-  { field: 'ipv6', label: 'IPv6', default: false },
-  { field: 'hostname', label: 'Hostname', default: true },
-  { field: 'status', label: 'Status', default: true },
-  { field: 'openPortCount', label: 'Open', default: true },
-  { field: 'closedPortCount', label: 'Closed', default: true },
-  { field: 'filteredPortCount', label: 'Filtered', default: true },
-  { field: 'mainOS', label: 'OS', default: true },
-  { field: 'mac', label: 'MAC', default: true },
-  { field: 'allHostnames', label: 'All Hostnames', default: false },
-];
+// Starting widths; computed and other columns use DEFAULT_COLUMN_WIDTH
+const COLUMN_WIDTHS: Record<string, number> = {
+  ip: 170,
+  ipv6: 240,
+  hostname: 220,
+  status: 90,
+  openPortCount: 80,
+  closedPortCount: 80,
+  filteredPortCount: 80,
+  mainOS: 240,
+  mac: 150,
+  allHostnames: 300,
+};
+const DEFAULT_COLUMN_WIDTH = 180;
 
-function getHostField(host: NmapHost, field: string): string {
+// Leading checkbox and notes columns, which stay in place
+const FIXED_COLUMNS = ['select', 'notes'];
+
+const SNIPPET_LINE_HEIGHT = 16;
+
+function renderHostCell(host: NmapHost, field: string, scopeViolations: Map<string, string>): React.ReactNode {
   switch (field) {
-    case 'ip': return host.ip || host.ipv6 || 'N/A';
-    case 'ipv6': return host.ipv6 || '-';
-    case 'hostname': return host.hostname || '-';
-    case 'allHostnames': return host.hostnames.map(h => h.name).join(', ') || '-';
-    case 'status': return host.status.state;
-    case 'openPortCount': return String(host.openPortCount);
-    case 'closedPortCount': return String(host.closedPortCount);
-    case 'filteredPortCount': return String(host.filteredPortCount);
-    case 'mainOS': return host.mainOS || '-';
-    case 'mac': return host.mac || '-';
-    default: return '-';
+    case 'status':
+      return <span className={`state-badge state-${stateClass(host.status.state)}`}>{host.status.state}</span>;
+    case 'openPortCount':
+      return <span style={{ color: 'var(--green)' }}>{host.openPortCount}</span>;
+    case 'closedPortCount':
+      return <span style={{ color: 'var(--red)' }}>{host.closedPortCount}</span>;
+    case 'filteredPortCount':
+      return <span style={{ color: 'var(--yellow)' }}>{host.filteredPortCount}</span>;
+    case 'ip':
+      if (!scopeViolations.has(host.id)) break;
+      return (
+        <>
+          {getHostColumnValue(host, field)}
+          <span className="tag tag-red" style={{ marginLeft: 6 }} title={scopeViolations.get(host.id)}>out of scope</span>
+        </>
+      );
+    case 'mac':
+      return <span style={{ fontSize: 11 }}>{host.mac || '-'}</span>;
   }
+  return getHostColumnValue(host, field) || '-';
 }
 
 export function HostsView({ scan, hosts, store, onImportResults }: HostsViewProps) {
   const { state, selectedHost } = store;
-  const [visibleColumns, setVisibleColumns] = useState<Set<string>>(
-    new Set(ALL_COLUMNS.filter(c => c.default).map(c => c.field))
-  );
+  const columnSettings = state.hostColumns;
   const [showColumnPicker, setShowColumnPicker] = useState(false);
+  const [showScopePanel, setShowScopePanel] = useState(false);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; host: NmapHost } | null>(null);
-  const [page, setPage] = useState(0);
-  const PAGE_SIZE = 200;
 
-  const columns = ALL_COLUMNS.filter(c => visibleColumns.has(c.field));
-  const pagedHosts = hosts.slice(0, (page + 1) * PAGE_SIZE);
-  const hasMore = pagedHosts.length < hosts.length;
+  const activeFilterCount = countActiveRules(state.filterGroup);
+  const searchError = store.searchFilter.error;
+
+  // Columns only change with what their cells show; store actions are stable
+  const selectedHostIds = state.selectedHostIds;
+  const { hostsWithNotes, scopeViolations, selectAllHosts, clearSelection, toggleHostSelection } = store;
+  const tableColumns = useMemo((): VirtualColumn<NmapHost>[] => [
+    {
+      id: 'select',
+      label: (
+        <input
+          type="checkbox"
+          checked={hosts.length > 0 && selectedHostIds.size === hosts.length}
+          onChange={e => e.target.checked ? selectAllHosts(hosts) : clearSelection()}
+          onClick={e => e.stopPropagation()}
+          style={{ accentColor: 'var(--accent)' }}
+          aria-label="Select all hosts"
+        />
+      ),
+      ariaLabel: 'Select',
+      width: 36,
+      minWidth: 36,
+      sortable: false,
+      resizable: false,
+      reorderable: false,
+      render: host => (
+        <input
+          type="checkbox"
+          checked={selectedHostIds.has(host.id)}
+          onChange={() => toggleHostSelection(host.id)}
+          style={{ accentColor: 'var(--accent)' }}
+          aria-label={`Select host ${host.ip || host.ipv6}`}
+          tabIndex={-1}
+        />
+      ),
+      cellProps: host => ({ onClick: e => { e.stopPropagation(); if (e.target === e.currentTarget) toggleHostSelection(host.id); } }),
+    },
+    {
+      id: 'notes',
+      label: '',
+      ariaLabel: 'Notes',
+      width: 28,
+      minWidth: 28,
+      sortable: false,
+      resizable: false,
+      reorderable: false,
+      render: host => hostsWithNotes.has(host.id)
+        ? <span className="note-indicator-small" title="Has notes">{'\u270E'}</span>
+        : null,
+      cellProps: () => ({ style: { textAlign: 'center', padding: '6px 2px' } }),
+    },
+    ...resolveHostColumns(columnSettings).map((col): VirtualColumn<NmapHost> => ({
+      id: col.id,
+      label: col.label,
+      width: COLUMN_WIDTHS[col.id] ?? DEFAULT_COLUMN_WIDTH,
+      render: host => renderHostCell(host, col.id, scopeViolations),
+      className: col.id === 'ip' || col.id === 'ipv6' || col.id === 'mac' ? 'mono' : undefined,
+      cellProps: col.group === 'custom' ? host => ({ title: getHostColumnValue(host, col.id) }) : undefined,
+    })),
+  ], [hosts, columnSettings, selectedHostIds, hostsWithNotes, scopeViolations, selectAllHosts, clearSelection, toggleHostSelection]);
 
-  const getSortIndicator = (field: string) => {
-    const sort = state.sorts.find((s: SortConfig) => s.field === field);
-    if (!sort) return '';
-    return sort.direction === 'asc' ? ' \u25B2' : ' \u25BC';
-  };
+  const columnOrder = useMemo(() => [...FIXED_COLUMNS, ...columnSettings.columns], [columnSettings.columns]);
+  const setColumnOrder = useCallback((order: string[]) => {
+    store.setHostColumns({ ...columnSettings, columns: order.filter(id => !FIXED_COLUMNS.includes(id)) });
+  }, [columnSettings, store.setHostColumns]);
+  const setColumnWidths = useCallback((widths: Record<string, number>) => {
+    store.setHostColumns({ ...columnSettings, widths });
+  }, [columnSettings, store.setHostColumns]);
+
+  // Suggestions for computed script columns
+  const scriptIds = useMemo(() => {
+    const ids = new Set<string>();
+    for (const host of scan.hosts) {
+      for (const port of host.ports) {
+        for (const script of port.scripts) ids.add(script.id);
+      }
+      for (const script of host.hostscripts) ids.add(script.id);
+    }
+    return [...ids].sort();
+  }, [scan]);
+
+  // Search snippets show under their host; computed once per host for each set of search terms
+  const searchTerms = store.searchTerms;
+  const getSnippets = useMemo(() => {
+    const cache = new WeakMap<NmapHost, SearchSnippet[]>();
+    return (host: NmapHost) => {
+      let snippets = cache.get(host);
+      if (!snippets) {
+        snippets = getMatchSnippets(host, searchTerms, 2);
+        cache.set(host, snippets);
+      }
+      return snippets;
+    };
+  }, [searchTerms]);
+  const snippetHeight = useCallback((host: NmapHost) => {
+    const count = getSnippets(host).length;
+    return count > 0 ? count * SNIPPET_LINE_HEIGHT + 6 : 0;
+  }, [getSnippets]);
+  const renderSnippets = useCallback((host: NmapHost) => {
+    const snippets = getSnippets(host);
+    if (snippets.length === 0) return null;
+    return (
+      <div style={{ padding: '0 12px 6px 76px' }}>
+        {snippets.map((snip, i) => (
+          <div key={i} className="search-snippet" style={{ lineHeight: `${SNIPPET_LINE_HEIGHT}px` }}>
+            <span className="search-snippet-label">
+              {snip.port ? `${snip.port} ` : ''}{snip.label}
+            </span>
+            {snip.before}<mark className="search-hit">{snip.match}</mark>{snip.after}
+          </div>
+        ))}
+      </div>
+    );
+  }, [getSnippets]);
+
+  // Stable row callbacks, so the visible rows only re-render when what they show changes
+  const getRowClassName = useCallback((host: NmapHost) => selectedHostIds.has(host.id) ? 'selected' : '', [selectedHostIds]);
+  const selectHost = useCallback((host: NmapHost) => store.setSelectedHostId(host.id), [store.setSelectedHostId]);
 
   const handleContextMenu = useCallback((e: React.MouseEvent, host: NmapHost) => {
     e.preventDefault();
@@ -120,23 +247,42 @@ export function HostsView({ scan, hosts, store, onImportResults }: HostsViewProp
         <div className="search-box">
           <span className="icon" aria-hidden="true">{'\u2315'}</span>
           <input
-            className="input"
+            className={`input ${searchError ? 'invalid' : ''}`}
             type="search"
-            placeholder="Search hosts (IP, hostname, service, OS...) - Ctrl+F"
+            placeholder="Search or query, e.g. port:443 os~linux -status:down - Ctrl+F"
             value={state.searchQuery}
             onChange={e => store.setSearchQuery(e.target.value)}
             style={{ paddingLeft: 28 }}
             aria-label="Search hosts"
+            aria-invalid={!!searchError}
+            aria-describedby={searchError ? 'search-query-error' : undefined}
           />
         </div>
+        {store.searchFilter.group && (
+          <button
+            className="btn btn-sm btn-ghost"
+            onClick={store.moveSearchToFilters}
+            title="Move this query into the filter panel to edit it as rules"
+            aria-label="Move search query to filters"
+          >
+            {'\u2192'} Filters
+          </button>
+        )}
         <button
           className={`btn btn-sm ${state.showFilterPanel ? 'btn-primary' : ''}`}
           onClick={() => store.setShowFilterPanel(!state.showFilterPanel)}
           aria-expanded={state.showFilterPanel}
           aria-label="Toggle filter panel"
         >
-          Filters {state.filterGroup.rules.filter((r: FilterRule) => r.enabled).length > 0 &&
-            `(${state.filterGroup.rules.filter((r: FilterRule) => r.enabled).length})`}
+          Filters {activeFilterCount > 0 && `(${activeFilterCount})`}
+        </button>
+        <button
+          className={`btn btn-sm ${showScopePanel ? 'btn-primary' : 'btn-ghost'}`}
+          onClick={() => setShowScopePanel(!showScopePanel)}
+          aria-expanded={showScopePanel}
+          title="Authorized and excluded ranges for this engagement"
+        >
+          Scope {store.scopeViolations.size > 0 && `(${store.scopeViolations.size} out)`}
         </button>
         <div style={{ position: 'relative' }}>
           <button
@@ -147,34 +293,7 @@ export function HostsView({ scan, hosts, store, onImportResults }: HostsViewProp
             Columns
           </button>
           {showColumnPicker && (
-            <div style={{
-              position: 'absolute',
-              top: '100%',
-              right: 0,
-              zIndex: 100,
-              background: 'var(--bg-secondary)',
-              border: '1px solid var(--border-color)',
-              borderRadius: 'var(--radius-md)',
-              padding: 8,
-              boxShadow: 'var(--shadow-lg)',
-              minWidth: 160,
-            }}>
-              {ALL_COLUMNS.map(col => (
-                <label key={col.field + col.label} className="checkbox-label" style={{ padding: '3px 0' }}>
-                  <input
-                    type="checkbox"
-                    checked={visibleColumns.has(col.field)}
-                    onChange={e => {
-                      const next = new Set(visibleColumns);
-                      if (e.target.checked) next.add(col.field);
-                      else next.delete(col.field);
-                      setVisibleColumns(next);
-                    }}
-                  />
-                  {col.label}
-                </label>
-              ))}
-            </div>
+            <HostColumnPicker settings={columnSettings} scriptIds={scriptIds} onChange={store.setHostColumns} />
           )}
         </div>
         <div className="toolbar-divider" />
@@ -202,118 +321,57 @@ export function HostsView({ scan, hosts, store, onImportResults }: HostsViewProp
         )}
       </div>
 
+      {/* Query syntax error, highlighted in place */}
+      {searchError && (
+        <div className="query-error" id="search-query-error" role="alert">
+          <span className="mono">
+            {state.searchQuery.slice(0, searchError.start)}
+            <mark>{state.searchQuery.slice(searchError.start, searchError.end) || ' '}</mark>
+            {state.searchQuery.slice(searchError.end)}
+          </span>
+          <span style={{ marginLeft: 12, color: 'var(--red)' }}>{searchError.message}</span>
+          <span style={{ marginLeft: 8 }}>(searching as plain text)</span>
+        </div>
+      )}
+
       {/* Filter Panel */}
       {state.showFilterPanel && (
         <FilterPanel
           filterGroup={state.filterGroup}
           onChange={store.setFilterGroup}
           onClose={() => store.setShowFilterPanel(false)}
+          store={store}
         />
       )}
 
+      {showScopePanel && <ScopePanel store={store} onClose={() => setShowScopePanel(false)} />}
+
       {/* Table */}
-      <div style={{ flex: 1, overflow: 'auto' }} role="region" aria-label="Hosts table">
-        <table className="data-table" role="grid" aria-label="Hosts">
-          <thead>
-            <tr>
-              <th style={{ width: 32 }} role="columnheader">
-                <input
-                  type="checkbox"
-                  checked={hosts.length > 0 && state.selectedHostIds.size === hosts.length}
-                  onChange={e => e.target.checked ? store.selectAllHosts(hosts) : store.clearSelection()}
-                  style={{ accentColor: 'var(--accent)' }}
-                  aria-label="Select all hosts"
-                />
-              </th>
-              <th style={{ width: 24, cursor: 'default' }} role="columnheader" title="Notes"></th>
-              {columns.map(col => (
-                <th
-                  key={col.field}
-                  onClick={() => store.toggleSort(col.field)}
-                  role="columnheader"
-                  aria-sort={
-                    state.sorts.find((s: SortConfig) => s.field === col.field)
-                      ? state.sorts.find((s: SortConfig) => s.field === col.field)!.direction === 'asc' ? 'ascending' : 'descending'
-                      : 'none'
-                  }
-                  tabIndex={0}
-                  onKeyDown={e => { if (e.key === 'Enter' || e.key === ' ') store.toggleSort(col.field); }}
-                >
-                  {col.label}
-                  <span className="sort-indicator" aria-hidden="true">{getSortIndicator(col.field)}</span>
-                </th>
-              ))}
-            </tr>
-          </thead>
-          <tbody>
-            {pagedHosts.map(host => (
-              <tr
-                key={host.id}
-                className={`clickable ${state.selectedHostIds.has(host.id) ? 'selected' : ''}`}
-                onClick={() => store.setSelectedHostId(host.id)}
-                onContextMenu={e => handleContextMenu(e, host)}
-                tabIndex={0}
-                onKeyDown={e => { if (e.key === 'Enter') store.setSelectedHostId(host.id); }}
-                role="row"
-              >
-                <td onClick={e => { e.stopPropagation(); store.toggleHostSelection(host.id); }}>
-                  <input
-                    type="checkbox"
-                    checked={state.selectedHostIds.has(host.id)}
-                    onChange={() => store.toggleHostSelection(host.id)}
-                    style={{ accentColor: 'var(--accent)' }}
-                    aria-label={`Select host ${host.ip || host.ipv6}`}
-                  />
-                </td>
-                <td style={{ textAlign: 'center', padding: '6px 2px' }}>
-                  {store.hostsWithNotes.has(host.id) && (
-                    <span className="note-indicator-small" title="Has notes">{'\u270E'}</span>
-                  )}
-                </td>
-                {columns.map(col => {
-                  if (col.field === 'status') {
-                    return (
-                      <td key={col.field}>
-                        <span className={`state-badge state-${stateClass(host.status.state)}`}>
-                          {host.status.state}
-                        </span>
-                      </td>
-                    );
-                  }
-                  if (col.field === 'openPortCount') {
-                    return <td key={col.field} style={{ color: 'var(--green)' }}>{host.openPortCount}</td>;
-                  }
-                  if (col.field === 'closedPortCount') {
-                    return <td key={col.field} style={{ color: 'var(--red)' }}>{host.closedPortCount}</td>;
-                  }
-                  if (col.field === 'filteredPortCount') {
-                    return <td key={col.field} style={{ color: 'var(--yellow)' }}>{host.filteredPortCount}</td>;
-                  }
-                  if (col.field === 'ip' || col.field === 'ipv6' || col.field === 'mac') {
-                    return <td key={col.field} className="mono" style={col.field === 'mac' ? { fontSize: 11 } : undefined}>{getHostField(host, col.field)}</td>;
-                  }
-                  if (col.field === 'mainOS') {
-                    return <td key={col.field} className="truncate" style={{ maxWidth: 200 }}>{host.mainOS || '-'}</td>;
-                  }
-                  return <td key={col.field}>{getHostField(host, col.field)}</td>;
-                })}
-              </tr>
-            ))}
-          </tbody>
-        </table>
-        {hasMore && (
-          <div style={{ padding: '12px 16px', textAlign: 'center' }}>
-            <button className="btn btn-sm" onClick={() => setPage(p => p + 1)}>
-              Load more ({hosts.length - pagedHosts.length} remaining)
-            </button>
-          </div>
-        )}
-        {hosts.length === 0 && (
-          <div className="empty-state" role="status">
-            <div className="icon" aria-hidden="true">{'\u2316'}</div>
-            <div>No hosts match your current filters</div>
-          </div>
-        )}
+      <div style={{ flex: 1, minHeight: 0, display: 'flex', flexDirection: 'column' }} role="region" aria-label="Hosts table">
+        <VirtualTable
+          rows={hosts}
+          columns={tableColumns}
+          getRowKey={host => host.id}
+          ariaLabel="Hosts"
+          renderDetail={renderSnippets}
+          detailHeight={snippetHeight}
+          getRowClassName={getRowClassName}
+          onRowClick={selectHost}
+          onRowToggle={host => store.toggleHostSelection(host.id)}
+          onRowContextMenu={handleContextMenu}
+          getSortDirection={field => state.sorts.find((s: SortConfig) => s.field === field)?.direction ?? null}
+          onSort={store.toggleSort}
+          columnOrder={columnOrder}
+          onColumnOrderChange={setColumnOrder}
+          columnWidths={columnSettings.widths}
+          onColumnWidthsChange={setColumnWidths}
+          emptyState={
+            <div className="empty-state" role="status">
+              <div className="icon" aria-hidden="true">{'\u2316'}</div>
+              <div>No hosts match your current filters</div>
+            </div>
+          }
+        />
       </div>
 
       {/* Context Menu */}
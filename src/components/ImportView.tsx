@@ -1,19 +1,31 @@
 import React, { useState, useCallback, useRef } from 'react';
+import { detectImporter, getImporters, getAcceptList, isImportableFileName } from '../parser/importers';
+import { PROJECT_FILE_EXTENSIONS } from '../utils/storage';
+import { LARGE_FILE_WARNING_SIZE, shouldStreamParse } from '../workers/parseClient';
 
 interface ImportViewProps {
   onFileLoad: (content: string, fileName: string) => void;
+  onFileStream: (file: File) => void;
   error: string | null;
 }
 
-export function ImportView({ onFileLoad, error }: ImportViewProps) {
+export function ImportView({ onFileLoad, onFileStream, error }: ImportViewProps) {
   const [dragOver, setDragOver] = useState(false);
+  const [rejected, setRejected] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100 MB
-
   const handleFile = useCallback((file: File) => {
-    if (file.size > MAX_FILE_SIZE) {
-      onFileLoad('', file.name);
+    if (!isImportableFileName(file.name, PROJECT_FILE_EXTENSIONS)) {
+      setRejected(`${file.name} is not a supported file type (${getAcceptList(PROJECT_FILE_EXTENSIONS).split(',').join(', ')})`);
+      return;
+    }
+    setRejected(null);
+    if (file.size > LARGE_FILE_WARNING_SIZE) {
+      const sizeMB = Math.round(file.size / (1024 * 1024));
+      if (!confirm(`${file.name} is ${sizeMB} MB. Large scans can take a while to load and use a lot of memory. Continue?`)) return;
+    }
+    if (shouldStreamParse(file.name, file.size)) {
+      onFileStream(file);
       return;
     }
     const reader = new FileReader();
@@ -27,7 +39,7 @@ export function ImportView({ onFileLoad, error }: ImportViewProps) {
       onFileLoad('', file.name); // will trigger error in parser
     };
     reader.readAsText(file);
-  }, [onFileLoad]);
+  }, [onFileLoad, onFileStream]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -56,16 +68,16 @@ export function ImportView({ onFileLoad, error }: ImportViewProps) {
 
   const handlePaste = useCallback((e: React.ClipboardEvent) => {
     const text = e.clipboardData.getData('text');
-    if (text && (text.includes('<nmaprun') || text.includes('# Nmap') || text.includes('Host:') || text.includes('Nmap scan report for') || text.includes('Starting Nmap'))) {
+    if (text && detectImporter(text)) {
       onFileLoad(text, 'pasted-scan.xml');
     }
   }, [onFileLoad]);
 
   return (
     <div className="import-zone" onPaste={handlePaste} role="main" aria-label="Import Nmap results">
-      {error && (
+      {(rejected || error) && (
         <div className="error-banner" role="alert" style={{ marginBottom: 20, maxWidth: 500 }}>
-          <span style={{ fontWeight: 600 }}>Error:</span> {error}
+          <span style={{ fontWeight: 600 }}>Error:</span> {rejected || error}
         </div>
       )}
       <div
@@ -86,16 +98,16 @@ export function ImportView({ onFileLoad, error }: ImportViewProps) {
           or paste XML content directly
         </p>
         <div className="formats">
-          <span className="format-badge">XML (-oX)</span>
-          <span className="format-badge">Greppable (-oG)</span>
-          <span className="format-badge">Normal (-oN)</span>
+          {getImporters().map(importer => (
+            <span key={importer.id} className="format-badge">{importer.name}</span>
+          ))}
           <span className="format-badge">NmapUI Project (.nmapui)</span>
           <span className="format-badge">Encrypted (.enc)</span>
         </div>
         <input
           ref={fileInputRef}
           type="file"
-          accept=".xml,.gnmap,.txt,.nmap,.nmapui,.enc"
+          accept={getAcceptList(PROJECT_FILE_EXTENSIONS)}
           style={{ display: 'none' }}
           onChange={handleInputChange}
         />
@@ -1,35 +1,115 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
 import { parseNmapOutput } from '../parser/nmapParser';
+import { getAcceptList } from '../parser/importers';
 import type { AppStore } from '../store/appStore';
+import type { NmapScan, MergeStrategies, MergeChoice, MergeConflict } from '../types/nmap';
+import { buildProjectScan, findMergeConflicts, DEFAULT_MERGE_STRATEGIES } from '../utils/scanMerge';
 
 interface MergeDialogProps {
   store: AppStore;
   onClose: () => void;
 }
 
+// A parsed file waiting for the conflicts to be reviewed
+interface StagedScan {
+  scan: NmapScan;
+  fileName: string;
+  content: string;
+}
+
+const STRATEGY_OPTIONS: { field: keyof MergeStrategies; label: string; options: { value: string; label: string }[] }[] = [
+  {
+    field: 'state', label: 'Port state', options: [
+      { value: 'newest', label: 'Newest scan' },
+      { value: 'most_open', label: 'Most open (open over filtered)' },
+      { value: 'existing', label: 'Keep existing' },
+    ],
+  },
+  {
+    field: 'service', label: 'Service', options: [
+      { value: 'highest_confidence', label: 'Highest confidence' },
+      { value: 'newest', label: 'Newest scan' },
+      { value: 'existing', label: 'Keep existing' },
+    ],
+  },
+  {
+    field: 'scripts', label: 'Scripts', options: [
+      { value: 'union', label: 'Union (newest output per script)' },
+      { value: 'newest', label: 'Newest scan' },
+      { value: 'existing', label: 'Keep existing' },
+    ],
+  },
+];
+
+// Beyond this, the remaining conflicts follow the strategies without being listed
+const MAX_LISTED_CONFLICTS = 200;
+
+function choiceLabel(choice: MergeChoice): string {
+  if (choice === 'existing') return 'Keep existing';
+  if (choice === 'incoming') return 'Use incoming';
+  return 'Keep both';
+}
+
 export function MergeDialog({ store, onClose }: MergeDialogProps) {
   const [dragOver, setDragOver] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [mergedFiles, setMergedFiles] = useState<string[]>([]);
   const [preview, setPreview] = useState<{ hosts: number; ports: number; scripts: number } | null>(null);
+  const [staged, setStaged] = useState<StagedScan | null>(null);
+  const [strategies, setStrategies] = useState<MergeStrategies>(DEFAULT_MERGE_STRATEGIES);
+  const [resolutions, setResolutions] = useState<Record<string, MergeChoice>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Conflicts are checked against the whole project, even while an earlier scan is being viewed
+  const { imports, asOfSourceId, scan: currentScan } = store.state;
+  const projectScan = useMemo(
+    () => asOfSourceId ? buildProjectScan(imports) : currentScan,
+    [asOfSourceId, imports, currentScan],
+  );
+  const conflicts = useMemo(
+    () => staged && projectScan ? findMergeConflicts(projectScan, staged.scan, strategies) : [],
+    [staged, projectScan, strategies],
+  );
+  const newHosts = useMemo(() => {
+    if (!staged || !projectScan) return 0;
+    const known = new Set(projectScan.hosts.map(h => h.ip || h.ipv6));
+    return staged.scan.hosts.filter(h => !known.has(h.ip || h.ipv6)).length;
+  }, [staged, projectScan]);
+
   const processMerge = useCallback((content: string, fileName: string) => {
     try {
-      const newScan = parseNmapOutput(content);
-      store.mergeScan(newScan);
-      setMergedFiles(prev => [...prev, fileName]);
-      setPreview({
-        hosts: newScan.hosts.length,
-        ports: newScan.hosts.reduce((s, h) => s + h.ports.length, 0),
-        scripts: newScan.hosts.reduce((s, h) =>
-          s + h.ports.reduce((ps, p) => ps + p.scripts.length, 0) + h.hostscripts.length, 0),
-      });
+      setStaged({ scan: parseNmapOutput(content), fileName, content });
+      setResolutions({});
       setError(null);
     } catch (err: any) {
       setError(err.message || 'Failed to parse file');
     }
-  }, [store]);
+  }, []);
+
+  const applyMerge = useCallback(() => {
+    if (!staged) return;
+    const { scan: newScan, fileName, content } = staged;
+    store.mergeScan(newScan, fileName, content, { strategies, resolutions });
+    setMergedFiles(prev => [...prev, fileName]);
+    setPreview({
+      hosts: newScan.hosts.length,
+      ports: newScan.hosts.reduce((s, h) => s + h.ports.length, 0),
+      scripts: newScan.hosts.reduce((s, h) =>
+        s + h.ports.reduce((ps, p) => ps + p.scripts.length, 0) + h.hostscripts.length, 0),
+    });
+    setStaged(null);
+    setResolutions({});
+  }, [staged, strategies, resolutions, store]);
+
+  // A choice matching the strategy is dropped, so it follows later strategy changes
+  const resolve = useCallback((conflict: MergeConflict, choice: MergeChoice) => {
+    setResolutions(prev => {
+      const next = { ...prev };
+      if (choice === conflict.resolution) delete next[conflict.id];
+      else next[conflict.id] = choice;
+      return next;
+    });
+  }, []);
 
   const handleFileRead = useCallback((file: File) => {
     const reader = new FileReader();
@@ -62,7 +142,7 @@ export function MergeDialog({ store, onClose }: MergeDialogProps) {
 
   return (
     <div className="modal-overlay" onClick={onClose}>
-      <div className="modal" onClick={e => e.stopPropagation()} style={{ maxWidth: 560 }}>
+      <div className="modal" onClick={e => e.stopPropagation()} style={{ maxWidth: staged ? 860 : 560 }}>
         <div className="modal-header">
           <span className="modal-title">Import Additional Scan Results</span>
           <button className="btn btn-sm btn-ghost btn-icon" onClick={onClose} aria-label="Close">
@@ -73,11 +153,11 @@ export function MergeDialog({ store, onClose }: MergeDialogProps) {
         <div className="modal-body">
           <p style={{ fontSize: 12, color: 'var(--text-secondary)', marginBottom: 12 }}>
             Import additional nmap scan results to merge into the current scan. New hosts, ports,
-            and script results will be added. Existing data will be updated if the new scan has
-            more detailed information.
+            and script results will be added. Where both scans report a port differently, the
+            conflicts are shown for review before anything is merged.
           </p>
 
-          <div
+          {!staged && <div
             className={`drop-area merge-drop-area ${dragOver ? 'drag-over' : ''}`}
             onDragOver={e => { e.preventDefault(); setDragOver(true); }}
             onDragLeave={() => setDragOver(false)}
@@ -96,11 +176,89 @@ export function MergeDialog({ store, onClose }: MergeDialogProps) {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".xml,.gnmap,.nmap,.txt"
+              accept={getAcceptList()}
               style={{ display: 'none' }}
               onChange={handleFileInput}
             />
-          </div>
+          </div>}
+
+          {staged && (
+            <div>
+              <div className="section-title" style={{ fontSize: 13 }}>
+                Review <span className="mono">{staged.fileName}</span>
+              </div>
+              <div style={{ fontSize: 12, color: 'var(--text-secondary)', marginBottom: 12 }}>
+                {staged.scan.hosts.length} host{staged.scan.hosts.length !== 1 ? 's' : ''}: {newHosts} new,{' '}
+                {staged.scan.hosts.length - newHosts} already in the project.{' '}
+                {conflicts.length === 0
+                  ? 'No conflicts.'
+                  : `${conflicts.length} conflict${conflicts.length !== 1 ? 's' : ''}, ${Object.keys(resolutions).length} resolved by hand.`}
+              </div>
+
+              <div style={{ display: 'flex', gap: 12, marginBottom: 12 }}>
+                {STRATEGY_OPTIONS.map(({ field, label, options }) => (
+                  <label key={field} className="form-group" style={{ flex: 1, margin: 0 }}>
+                    <div className="form-label">{label}</div>
+                    <select
+                      className="select"
+                      value={strategies[field]}
+                      onChange={e => setStrategies(prev => ({ ...prev, [field]: e.target.value }))}
+                    >
+                      {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              {conflicts.length > 0 && (
+                <div style={{ maxHeight: 320, overflowY: 'auto' }}>
+                  <table className="data-table">
+                    <thead>
+                      <tr>
+                        <th>Host</th>
+                        <th>Port</th>
+                        <th>Field</th>
+                        <th>Existing</th>
+                        <th>Incoming</th>
+                        <th>Result</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {conflicts.slice(0, MAX_LISTED_CONFLICTS).map(conflict => {
+                        const choice = resolutions[conflict.id] || conflict.resolution;
+                        const choices: MergeChoice[] = conflict.field === 'scripts' ? ['existing', 'incoming', 'both'] : ['existing', 'incoming'];
+                        return (
+                          <tr key={conflict.id}>
+                            <td className="mono">{conflict.address}</td>
+                            <td className="mono">{conflict.port || 'host'}</td>
+                            <td>{conflict.field}</td>
+                            <td style={{ color: choice === 'incoming' ? 'var(--text-muted)' : undefined }}>{conflict.existing}</td>
+                            <td style={{ color: choice === 'existing' ? 'var(--text-muted)' : undefined }}>{conflict.incoming}</td>
+                            <td style={{ whiteSpace: 'nowrap' }}>
+                              <select
+                                className="select"
+                                value={choice}
+                                onChange={e => resolve(conflict, e.target.value as MergeChoice)}
+                                aria-label={`Resolve ${conflict.field} of ${conflict.address} ${conflict.port || 'host scripts'}`}
+                              >
+                                {choices.map(c => <option key={c} value={c}>{choiceLabel(c)}</option>)}
+                              </select>
+                              {resolutions[conflict.id] && <span className="tag" style={{ marginLeft: 6 }}>manual</span>}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  {conflicts.length > MAX_LISTED_CONFLICTS && (
+                    <div style={{ fontSize: 11, color: 'var(--text-muted)', marginTop: 4 }}>
+                      {conflicts.length - MAX_LISTED_CONFLICTS} more conflicts follow the strategies above.
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
 
           {error && (
             <div className="error-banner" style={{ marginTop: 12 }}>
@@ -136,9 +294,25 @@ export function MergeDialog({ store, onClose }: MergeDialogProps) {
         </div>
 
         <div className="modal-footer">
-          <button className="btn btn-sm" onClick={onClose}>
-            {mergedFiles.length > 0 ? 'Done' : 'Cancel'}
-          </button>
+          {staged ? (
+            <>
+              {Object.keys(resolutions).length > 0 && (
+                <button className="btn btn-sm btn-ghost" onClick={() => setResolutions({})}>
+                  Reset Manual Choices
+                </button>
+              )}
+              <button className="btn btn-sm" onClick={() => setStaged(null)}>
+                Discard
+              </button>
+              <button className="btn btn-sm btn-primary" onClick={applyMerge}>
+                Merge
+              </button>
+            </>
+          ) : (
+            <button className="btn btn-sm" onClick={onClose}>
+              {mergedFiles.length > 0 ? 'Done' : 'Cancel'}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import type { NmapScan, ScanTask } from '../types/nmap';
+import { formatTimestamp, formatUptime } from '../utils/helpers';
+
+interface PartialScanBannerProps {
+  scan: NmapScan;
+}
+
+function describeTask(task: ScanTask): string {
+  switch (task.status) {
+    case 'begin':
+      return `${task.task} had just started`;
+    case 'end':
+      return `${task.task} had finished`;
+    case 'progress': {
+      const parts = [`${task.task} was ${task.percent !== null ? `${task.percent.toFixed(1)}%` : 'partly'} done`];
+      if (task.remaining) parts.push(`about ${formatUptime(task.remaining)} remaining`);
+      return parts.join(', ');
+    }
+  }
+}
+
+export function PartialScanBanner({ scan }: PartialScanBannerProps) {
+  const [dismissed, setDismissed] = useState(false);
+  const { runstats } = scan;
+  if (!runstats.incomplete || dismissed) return null;
+
+  const lastHost = scan.hosts[scan.hosts.length - 1];
+  const task = runstats.lastTask;
+
+  return (
+    <div className="warning-banner" role="alert">
+      <span style={{ fontWeight: 600 }}>Partial scan:</span>
+      <span style={{ flex: 1 }}>
+        nmap stopped before finishing.
+        {task
+          ? <> When it stopped, {describeTask(task)} ({formatTimestamp(task.time)}).</>
+          : <> No task progress was recorded (run nmap with <code className="mono">-v</code> or <code className="mono">--stats-every</code> to capture it).</>}
+        {' '}{scan.totalHosts} complete host{scan.totalHosts === 1 ? '' : 's'} recovered
+        {lastHost && <>, the last being <span className="mono">{lastHost.ip || lastHost.ipv6 || lastHost.hostname}</span></>}.
+      </span>
+      <button className="btn btn-sm btn-ghost btn-icon" onClick={() => setDismissed(true)} aria-label="Dismiss partial scan warning">{'\u2715'}</button>
+    </div>
+  );
+}
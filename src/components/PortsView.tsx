@@ -1,7 +1,8 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import type { NmapScan, NmapHost } from '../types/nmap';
 import type { AppStore } from '../store/appStore';
 import { stateClass } from '../utils/helpers';
+import { VirtualTable, ROW_HEIGHT, HEADER_HEIGHT, type VirtualColumn } from './VirtualTable';
 
 interface PortsViewProps {
   scan: NmapScan;
@@ -11,6 +12,45 @@ interface PortsViewProps {
 
 type PortSortField = 'port' | 'protocol' | 'state' | 'service' | 'product' | 'count';
 
+interface PortSummary {
+  port: number;
+  protocol: string;
+  state: string;
+  service: string;
+  product: string;
+  version: string;
+  count: number;
+  hosts: PortHost[];
+}
+
+interface PortHost {
+  ip: string;
+  hostname: string;
+  id: string;
+}
+
+// Rows shown at once in an expanded port's host list before it scrolls
+const EXPANDED_ROWS = 8;
+
+const summaryKey = (p: PortSummary) => `${p.port}/${p.protocol}/${p.state}`;
+
+const hostListHeight = (p: PortSummary) => HEADER_HEIGHT + Math.min(p.hosts.length, EXPANDED_ROWS) * ROW_HEIGHT;
+
+const COLUMNS: VirtualColumn<PortSummary>[] = [
+  { id: 'port', label: 'Port', width: 90, className: 'mono', render: p => p.port },
+  { id: 'protocol', label: 'Protocol', width: 90, render: p => p.protocol },
+  { id: 'state', label: 'State', width: 110, render: p => <span className={`state-badge state-${stateClass(p.state)}`}>{p.state}</span> },
+  { id: 'service', label: 'Service', width: 160, render: p => p.service || '-' },
+  { id: 'product', label: 'Product', width: 220, render: p => p.product || '-' },
+  { id: 'version', label: 'Version', width: 180, sortable: false, render: p => p.version || '-' },
+  { id: 'count', label: 'Hosts', width: 90, render: p => <span className="tag tag-blue">{p.count}</span> },
+];
+
+const HOST_COLUMNS: VirtualColumn<PortHost>[] = [
+  { id: 'ip', label: 'IP Address', width: 220, className: 'mono', render: h => <span style={{ color: 'var(--accent)' }}>{h.ip}</span> },
+  { id: 'hostname', label: 'Hostname', width: 320, render: h => h.hostname || '-' },
+];
+
 export function PortsView({ scan, hosts, store }: PortsViewProps) {
   const [search, setSearch] = useState('');
   const [stateFilter, setStateFilter] = useState<string>('all');
@@ -21,16 +61,7 @@ export function PortsView({ scan, hosts, store }: PortsViewProps) {
 
   // Recompute port summaries from filtered hosts
   const portSummaries = useMemo(() => {
-    const map = new Map<string, {
-      port: number;
-      protocol: string;
-      state: string;
-      service: string;
-      product: string;
-      version: string;
-      count: number;
-      hosts: { ip: string; id: string }[];
-    }>();
+    const map = new Map<string, PortSummary>();
     for (const host of hosts) {
       const hostAddr = host.ip || host.ipv6;
       for (const port of host.ports) {
@@ -38,7 +69,7 @@ export function PortsView({ scan, hosts, store }: PortsViewProps) {
         const existing = map.get(key);
         if (existing) {
           existing.count++;
-          existing.hosts.push({ ip: hostAddr, id: host.id });
+          existing.hosts.push({ ip: hostAddr, hostname: host.hostname, id: host.id });
         } else {
           map.set(key, {
             port: port.portid,
@@ -48,7 +79,7 @@ export function PortsView({ scan, hosts, store }: PortsViewProps) {
             product: port.service?.product || '',
             version: port.service?.version || '',
             count: 1,
-            hosts: [{ ip: hostAddr, id: host.id }],
+            hosts: [{ ip: hostAddr, hostname: host.hostname, id: host.id }],
           });
         }
       }
@@ -103,11 +134,36 @@ export function PortsView({ scan, hosts, store }: PortsViewProps) {
     }
   };
 
-  const getSortIndicator = (field: PortSortField) => {
-    if (sortField !== field) return '';
-    return sortDir === 'asc' ? ' \u25B2' : ' \u25BC';
+  const renderHostList = (p: PortSummary) => {
+    if (expandedPort !== summaryKey(p)) return null;
+    return (
+      <div
+        style={{ background: 'var(--bg-tertiary)', padding: '8px 16px' }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div style={{ fontSize: 11, color: 'var(--text-muted)', marginBottom: 4 }}>
+          Hosts with this port ({p.hosts.length}):
+        </div>
+        <VirtualTable
+          rows={p.hosts}
+          columns={HOST_COLUMNS}
+          getRowKey={h => h.id}
+          ariaLabel={`Hosts with port ${p.port}/${p.protocol}`}
+          height={hostListHeight(p)}
+          onRowClick={h => {
+            store.setSelectedHostId(h.id);
+            store.setViewMode('hosts');
+          }}
+        />
+      </div>
+    );
   };
 
+  // Label, padding and the host list of the expanded row
+  const detailHeight = useCallback((p: PortSummary) => {
+    return expandedPort === summaryKey(p) ? 20 + 16 + hostListHeight(p) : 0;
+  }, [expandedPort]);
+
   return (
     <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
       <div className="toolbar">
@@ -133,82 +189,23 @@ export function PortsView({ scan, hosts, store }: PortsViewProps) {
         <span className="result-count">{sorted.length} port entries</span>
       </div>
 
-      <div style={{ flex: 1, overflow: 'auto' }}>
-        <table className="data-table">
-          <thead>
-            <tr>
-              <th onClick={() => handleSort('port')}>Port{getSortIndicator('port')}</th>
-              <th onClick={() => handleSort('protocol')}>Protocol{getSortIndicator('protocol')}</th>
-              <th onClick={() => handleSort('state')}>State{getSortIndicator('state')}</th>
-              <th onClick={() => handleSort('service')}>Service{getSortIndicator('service')}</th>
-              <th onClick={() => handleSort('product')}>Product{getSortIndicator('product')}</th>
-              <th>Version</th>
-              <th onClick={() => handleSort('count')}>Hosts{getSortIndicator('count')}</th>
-            </tr>
-          </thead>
-          <tbody>
-            {sorted.map(p => {
-              const key = `${p.port}/${p.protocol}/${p.state}`;
-              const isExpanded = expandedPort === key;
-              return (
-                <React.Fragment key={key}>
-                  <tr
-                    className="clickable"
-                    onClick={() => setExpandedPort(isExpanded ? null : key)}
-                  >
-                    <td className="mono">{p.port}</td>
-                    <td>{p.protocol}</td>
-                    <td><span className={`state-badge state-${stateClass(p.state)}`}>{p.state}</span></td>
-                    <td>{p.service || '-'}</td>
-                    <td>{p.product || '-'}</td>
-                    <td>{p.version || '-'}</td>
-                    <td>
-                      <span className="tag tag-blue">{p.count}</span>
-                    </td>
-                  </tr>
-                  {isExpanded && (
-                    <tr>
-                      <td colSpan={7} style={{ background: 'var(--bg-tertiary)', padding: '8px 16px' }}>
-                        <div style={{ fontSize: 11, color: 'var(--text-muted)', marginBottom: 4 }}>
-                          Hosts with this port ({p.hosts.length}):
-                        </div>
-                        <div className="port-grid">
-                          {p.hosts.map((h, i) => (
-                            <span
-                              key={i}
-                              className="port-chip mono clickable"
-                              style={{
-                                background: 'var(--bg-primary)',
-                                color: 'var(--accent)',
-                                border: '1px solid var(--border-color)',
-                                cursor: 'pointer',
-                              }}
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                store.setSelectedHostId(h.id);
-                                store.setViewMode('hosts');
-                              }}
-                              title={`View ${h.ip} in Hosts`}
-                            >
-                              {h.ip}
-                            </span>
-                          ))}
-                        </div>
-                      </td>
-                    </tr>
-                  )}
-                </React.Fragment>
-              );
-            })}
-          </tbody>
-        </table>
-        {sorted.length === 0 && (
+      <VirtualTable
+        rows={sorted}
+        columns={COLUMNS}
+        getRowKey={summaryKey}
+        ariaLabel="Ports"
+        renderDetail={renderHostList}
+        detailHeight={detailHeight}
+        onRowClick={p => setExpandedPort(expandedPort === summaryKey(p) ? null : summaryKey(p))}
+        getSortDirection={field => field === sortField ? sortDir : null}
+        onSort={field => handleSort(field as PortSortField)}
+        emptyState={
           <div className="empty-state">
             <div className="icon">{'\u25C8'}</div>
             <div>No ports match your current filters</div>
           </div>
-        )}
-      </div>
+        }
+      />
     </div>
   );
 }
@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import type { ScanProfileOptions } from '../types/nmap';
+import type { AppStore } from '../store/appStore';
+import {
+  SCRIPT_CATEGORIES, formatProfileCommand, validateScanProfile, getIntrusiveCategories,
+  exportProfileCommands, parseTargetList, parseScriptList,
+} from '../utils/scanProfiles';
+import { downloadFile } from '../utils/storage';
+import { copyToClipboard } from '../utils/helpers';
+
+// Form values. Lists and numbers are kept as typed and parsed by draftToOptions.
+export interface ScanProfileDraft extends Omit<ScanProfileOptions, 'include' | 'exclude' | 'scripts' | 'topPorts'> {
+  include: string;
+  exclude: string;
+  scripts: string;
+  topPorts: string;
+}
+
+interface ScanProfileEditorProps {
+  store: AppStore;
+  draft: ScanProfileDraft;
+  onChange: (draft: ScanProfileDraft) => void;
+  targetsRequired: boolean; // when running a scan; saved profiles may leave the targets to run time
+}
+
+const SCAN_TYPES: { value: ScanProfileOptions['scanType']; label: string }[] = [
+  { value: 'connect', label: 'TCP connect (-sT)' },
+  { value: 'syn', label: 'TCP SYN (-sS, needs root)' },
+  { value: 'udp', label: 'UDP (-sU, needs root)' },
+  { value: 'ping', label: 'Host discovery only (-sn)' },
+];
+
+const TIMING_OPTIONS = ['T0 paranoid', 'T1 sneaky', 'T2 polite', 'T3 normal', 'T4 aggressive', 'T5 insane'];
+
+export function optionsToDraft(options: ScanProfileOptions): ScanProfileDraft {
+  return {
+    ...options,
+    include: options.include.join('\n'),
+    exclude: options.exclude.join(' '),
+    scripts: options.scripts.join(', '),
+    topPorts: options.topPorts === null ? '' : String(options.topPorts),
+  };
+}
+
+export function draftToOptions(draft: ScanProfileDraft): ScanProfileOptions {
+  return {
+    ...draft,
+    include: parseTargetList(draft.include),
+    exclude: parseTargetList(draft.exclude),
+    scripts: parseScriptList(draft.scripts),
+    topPorts: draft.topPorts.trim() ? Number(draft.topPorts) : null,
+  };
+}
+
+/**
+ * The command line of the form, or why it can't run. Without targets the
+ * command shows where they go, unless they are required.
+ */
+export function previewDraftCommand(draft: ScanProfileDraft, targetsRequired: boolean): { command: string; error: string | null } {
+  const options = draftToOptions(draft);
+  if (targetsRequired && options.include.length === 0) return { command: '', error: 'No targets given' };
+  try {
+    return { command: formatProfileCommand(options), error: null };
+  } catch (err) {
+    return { command: '', error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+// Load, save and export profiles from the library
+function ProfileBar({ store, draft, onChange, targetsRequired }: ScanProfileEditorProps) {
+  const profiles = store.state.scanProfiles;
+  const [selectedId, setSelectedId] = useState('');
+  const [newName, setNewName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const selected = profiles.find(p => p.id === selectedId);
+
+  const load = (id: string) => {
+    setSelectedId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    const next = optionsToDraft(profile);
+    // A profile without targets runs against the ones already entered
+    onChange(targetsRequired && profile.include.length === 0 ? { ...next, include: draft.include } : next);
+  };
+
+  const save = () => {
+    const name = (newName || '').trim();
+    const options = draftToOptions(draft);
+    const problem = validateScanProfile(name, options);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (profiles.some(p => p.name === name) && !confirm(`Replace the profile "${name}" with these settings?`)) return;
+    setSelectedId(store.saveScanProfile(name, options).id);
+    setNewName(null);
+    setError(null);
+  };
+
+  return (
+    <>
+      <div className="filter-row" style={{ borderBottom: '1px solid var(--border-color)', paddingBottom: 8, marginBottom: 12 }}>
+        <span style={{ fontSize: 12, color: 'var(--text-muted)', flexShrink: 0 }}>Profile</span>
+        <select className="select" value={selectedId} aria-label="Load scan profile" onChange={e => load(e.target.value)}>
+          <option value="">{profiles.length ? 'Load profile...' : 'No saved profiles'}</option>
+          {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        {selected && (
+          <button
+            className="btn btn-sm btn-ghost btn-danger"
+            onClick={() => {
+              if (!confirm(`Delete the profile "${selected.name}"?`)) return;
+              store.deleteScanProfile(selected.id);
+              setSelectedId('');
+            }}
+            aria-label={`Delete profile ${selected.name}`}
+          >
+            Delete
+          </button>
+        )}
+        <div className="header-spacer" />
+        {newName === null ? (
+          <button className="btn btn-sm" onClick={() => setNewName(selected?.name || '')} title="Save these settings as a named profile">
+            Save as Profile
+          </button>
+        ) : (
+          <>
+            <input
+              className="input"
+              type="text"
+              value={newName}
+              placeholder="Profile name..."
+              autoFocus
+              onChange={e => setNewName(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') save();
+                if (e.key === 'Escape') { e.stopPropagation(); setNewName(null); setError(null); }
+              }}
+              aria-label="Profile name"
+            />
+            <button className="btn btn-sm btn-primary" onClick={save} disabled={!newName.trim()}>Save</button>
+            <button className="btn btn-sm btn-ghost" onClick={() => { setNewName(null); setError(null); }}>Cancel</button>
+          </>
+        )}
+        <button
+          className="btn btn-sm btn-ghost"
+          onClick={() => downloadFile(exportProfileCommands(profiles), 'nmapui-scan-profiles.txt', 'text/plain')}
+          disabled={profiles.length === 0}
+          title="Export the command line of every profile for audit records"
+        >
+          Export
+        </button>
+      </div>
+      {error && <div className="error-banner" role="alert" style={{ marginBottom: 8 }}>{error}</div>}
+    </>
+  );
+}
+
+export function ScanProfileEditor(props: ScanProfileEditorProps) {
+  const { draft, onChange, targetsRequired } = props;
+  const [copied, setCopied] = useState(false);
+  const set = <K extends keyof ScanProfileDraft>(key: K, value: ScanProfileDraft[K]) => onChange({ ...draft, [key]: value });
+  const portScan = draft.scanType !== 'ping';
+  const preview = previewDraftCommand(draft, targetsRequired);
+  const intrusive = getIntrusiveCategories(draftToOptions(draft));
+
+  // Kept in catalog order, so the same selection gives the same command
+  const toggleCategory = (name: string) => {
+    set('scriptCategories', SCRIPT_CATEGORIES
+      .map(c => c.name)
+      .filter(c => c === name ? !draft.scriptCategories.includes(c) : draft.scriptCategories.includes(c)));
+  };
+
+  const copyCommand = async () => {
+    await copyToClipboard(preview.command);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <>
+      <ProfileBar {...props} />
+      <div className="form-group">
+        <label className="form-label" htmlFor="scan-targets">{targetsRequired ? 'Targets' : 'Targets (optional; otherwise given when the scan runs)'}</label>
+        <textarea
+          id="scan-targets"
+          className="input mono"
+          rows={3}
+          value={draft.include}
+          onChange={e => set('include', e.target.value)}
+          placeholder="10.0.0.0/24 192.168.1.10-50 scanme.nmap.org"
+          style={{ width: '100%', resize: 'vertical' }}
+        />
+      </div>
+      <div className="form-group">
+        <label className="form-label" htmlFor="scan-exclude">Exclude</label>
+        <input
+          id="scan-exclude"
+          className="input mono"
+          value={draft.exclude}
+          onChange={e => set('exclude', e.target.value)}
+          placeholder="10.0.0.1 10.0.0.128/25"
+          style={{ width: '100%' }}
+        />
+      </div>
+      <div style={{ display: 'flex', gap: 12 }}>
+        <div className="form-group" style={{ flex: 1 }}>
+          <label className="form-label" htmlFor="scan-type">Scan type</label>
+          <select id="scan-type" className="select" value={draft.scanType} onChange={e => set('scanType', e.target.value as ScanProfileOptions['scanType'])} style={{ width: '100%' }}>
+            {SCAN_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+          </select>
+        </div>
+        <div className="form-group" style={{ flex: 1 }}>
+          <label className="form-label" htmlFor="scan-timing">Timing</label>
+          <select id="scan-timing" className="select" value={draft.timing} onChange={e => set('timing', Number(e.target.value))} style={{ width: '100%' }}>
+            {TIMING_OPTIONS.map((label, i) => <option key={i} value={i}>{label}</option>)}
+          </select>
+        </div>
+      </div>
+      {portScan && (
+        <div style={{ display: 'flex', gap: 12 }}>
+          <div className="form-group" style={{ flex: 2 }}>
+            <label className="form-label" htmlFor="scan-ports">Ports</label>
+            <input id="scan-ports" className="input mono" value={draft.ports} onChange={e => set('ports', e.target.value)} placeholder="e.g. 22,80,443 or T:1-1024,U:53" style={{ width: '100%' }} />
+          </div>
+          <div className="form-group" style={{ flex: 1 }}>
+            <label className="form-label" htmlFor="scan-top-ports">Or top ports</label>
+            <input
+              id="scan-top-ports"
+              className="input mono"
+              type="number"
+              min={1}
+              max={65535}
+              value={draft.topPorts}
+              onChange={e => set('topPorts', e.target.value)}
+              disabled={!!draft.ports.trim()}
+              placeholder="1000"
+              style={{ width: '100%' }}
+            />
+          </div>
+        </div>
+      )}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 16px', marginBottom: 12 }}>
+        {portScan && (
+          <>
+            <label className="checkbox-label"><input type="checkbox" checked={draft.serviceDetection} onChange={e => set('serviceDetection', e.target.checked)} /> Service versions (-sV)</label>
+            <label className="checkbox-label"><input type="checkbox" checked={draft.defaultScripts} onChange={e => set('defaultScripts', e.target.checked)} /> Default scripts (-sC)</label>
+          </>
+        )}
+        <label className="checkbox-label"><input type="checkbox" checked={draft.osDetection} onChange={e => set('osDetection', e.target.checked)} /> OS detection (-O)</label>
+        <label className="checkbox-label"><input type="checkbox" checked={draft.traceroute} onChange={e => set('traceroute', e.target.checked)} /> Traceroute</label>
+        <label className="checkbox-label"><input type="checkbox" checked={draft.skipHostDiscovery} onChange={e => set('skipHostDiscovery', e.target.checked)} /> Skip host discovery (-Pn)</label>
+      </div>
+      <div className="form-group">
+        <span className="form-label">Script categories</span>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 16px' }} role="group" aria-label="Script categories">
+          {SCRIPT_CATEGORIES.map(c => (
+            <label key={c.name} className="checkbox-label" title={c.description} style={c.intrusive ? { color: 'var(--orange)' } : undefined}>
+              <input type="checkbox" checked={draft.scriptCategories.includes(c.name)} onChange={() => toggleCategory(c.name)} /> {c.name}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="form-group">
+        <label className="form-label" htmlFor="scan-scripts">Scripts</label>
+        <input id="scan-scripts" className="input mono" value={draft.scripts} onChange={e => set('scripts', e.target.value)} placeholder="e.g. http-title, ssl-cert" style={{ width: '100%' }} />
+      </div>
+      {intrusive.length > 0 && (
+        <div className="error-banner" style={{ marginBottom: 8 }}>
+          {'\u26A0'} The {intrusive.join(', ')} {intrusive.length === 1 ? 'category' : 'categories'} can disrupt services or lock accounts. Only run them with permission.
+        </div>
+      )}
+      {preview.error ? (
+        <div className="error-banner" role="alert">{preview.error}</div>
+      ) : (
+        <div style={{ display: 'flex', gap: 8, alignItems: 'flex-start' }}>
+          <div className="mono" style={{ flex: 1, fontSize: 11, padding: 8, background: 'var(--bg-tertiary)', borderRadius: 'var(--radius-sm)', wordBreak: 'break-all' }}>
+            {preview.command}
+          </div>
+          <button className="btn btn-sm btn-ghost" onClick={copyCommand} aria-label="Copy command">
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
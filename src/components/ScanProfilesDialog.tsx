@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import type { AppStore } from '../store/appStore';
+import { DEFAULT_SCAN_OPTIONS } from '../utils/scanProfiles';
+import { ScanProfileEditor, optionsToDraft } from './ScanProfileEditor';
+
+interface ScanProfilesDialogProps {
+  store: AppStore;
+  onClose: () => void;
+}
+
+// Compose and save scan profiles without running them, e.g. in the browser
+// build, to copy the command line or export the library for audit.
+export function ScanProfilesDialog({ store, onClose }: ScanProfilesDialogProps) {
+  const [draft, setDraft] = useState(() => optionsToDraft(DEFAULT_SCAN_OPTIONS));
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={e => e.stopPropagation()} style={{ maxWidth: 720 }} role="dialog" aria-label="Scan profiles">
+        <div className="modal-header">
+          <span className="modal-title">Scan Profiles</span>
+          <button className="btn btn-sm btn-ghost btn-icon" onClick={onClose} aria-label="Close">
+            {'\u2715'}
+          </button>
+        </div>
+
+        <div className="modal-body">
+          <p style={{ fontSize: 12, color: 'var(--text-secondary)', marginBottom: 12 }}>
+            Profiles are saved locally and can be loaded when running a scan in the desktop app. Their values
+            are checked with the same rules as scans run from the app.
+          </p>
+          <ScanProfileEditor store={store} draft={draft} onChange={setDraft} targetsRequired={false} />
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn btn-ghost" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import type { AppStore } from '../store/appStore';
+import type { ScanRunner } from '../store/scanRunner';
+import { DEFAULT_SCAN_OPTIONS, profileToRequest } from '../utils/scanProfiles';
+import { ScanProfileEditor, optionsToDraft, draftToOptions, previewDraftCommand } from './ScanProfileEditor';
+
+interface ScanRunnerDialogProps {
+  store: AppStore;
+  runner: ScanRunner;
+  onClose: () => void;
+}
+
+// Most recent hosts listed while a scan runs
+const MAX_LISTED_HOSTS = 100;
+
+function formatRemaining(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${Math.round(seconds % 60)}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function ScanRunnerDialog({ store, runner, onClose }: ScanRunnerDialogProps) {
+  const { run } = runner;
+  const { scan, selectedHostIds } = store.state;
+
+  // Start from the selected hosts, if any
+  const [draft, setDraft] = useState(() => optionsToDraft({
+    ...DEFAULT_SCAN_OPTIONS,
+    include: scan ? scan.hosts.filter(h => selectedHostIds.has(h.id)).map(h => h.ip || h.ipv6) : [],
+  }));
+  // Built with the same rules the main process checks the request with
+  const preview = previewDraftCommand(draft, true);
+
+  const busy = run.status === 'starting' || run.status === 'running';
+  const showForm = run.status === 'idle';
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={e => e.stopPropagation()} style={{ maxWidth: 720 }} role="dialog" aria-label="Run nmap">
+        <div className="modal-header">
+          <span className="modal-title">Run Nmap</span>
+          <button className="btn btn-sm btn-ghost btn-icon" onClick={onClose} aria-label="Close">
+            {'\u2715'}
+          </button>
+        </div>
+
+        <div className="modal-body">
+          {showForm ? (
+            <>
+              <p style={{ fontSize: 12, color: 'var(--text-secondary)', marginBottom: 12 }}>
+                Runs the nmap installed on this computer. Hosts show up as they are scanned, and the results
+                are merged into {scan ? 'the current project' : 'a new project'} when the scan finishes.
+              </p>
+              <ScanProfileEditor store={store} draft={draft} onChange={setDraft} targetsRequired />
+            </>
+          ) : (
+            <>
+              <div className="mono" style={{ fontSize: 11, color: 'var(--text-muted)', marginBottom: 12, wordBreak: 'break-all' }}>{run.command}</div>
+
+              {(busy || run.percent !== null) && (
+                <div style={{ marginBottom: 12 }} role="status" aria-live="polite">
+                  <div style={{ display: 'flex', fontSize: 12, marginBottom: 4 }}>
+                    <span>{run.status === 'starting' ? 'Starting nmap...' : run.task || 'Scanning...'}</span>
+                    <div className="header-spacer" />
+                    {run.percent !== null && <span>{Math.round(run.percent)}%</span>}
+                    {busy && run.remaining !== null && run.remaining > 0 && (
+                      <span style={{ color: 'var(--text-muted)', marginLeft: 8 }}>about {formatRemaining(run.remaining)} left</span>
+                    )}
+                  </div>
+                  <div style={{ height: 6, background: 'var(--bg-tertiary)', borderRadius: 3, overflow: 'hidden' }}>
+                    <div style={{ height: '100%', width: `${run.percent ?? 0}%`, background: 'var(--accent)', transition: 'width 0.3s' }} />
+                  </div>
+                </div>
+              )}
+
+              <div className="section-title" style={{ fontSize: 13 }}>
+                {run.hosts.length} host{run.hosts.length !== 1 ? 's' : ''} scanned
+              </div>
+              {run.hosts.length > 0 && (
+                <div style={{ maxHeight: 220, overflowY: 'auto', marginBottom: 12 }}>
+                  <table className="data-table">
+                    <tbody>
+                      {run.hosts.slice(-MAX_LISTED_HOSTS).reverse().map(host => (
+                        <tr key={host.id}>
+                          <td className="mono">{host.ip || host.ipv6}</td>
+                          <td>{host.hostname}</td>
+                          <td>{host.status.state}</td>
+                          <td>{host.openPortCount} open</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {run.status === 'done' && (
+                <div style={{ color: 'var(--green)', fontSize: 12 }}>
+                  {'\u2713'} Results merged into the project.
+                </div>
+              )}
+              {run.status === 'canceled' && (
+                <div style={{ fontSize: 12, color: 'var(--text-secondary)' }}>
+                  Scan canceled. {run.partial ? 'The hosts scanned so far can still be merged.' : 'Nothing was merged.'}
+                </div>
+              )}
+              {run.error && <div className="error-banner" role="alert">{run.error}</div>}
+              {run.stderr && (run.status === 'failed' || run.status === 'done') && (
+                <details style={{ marginTop: 8 }}>
+                  <summary style={{ fontSize: 12, cursor: 'pointer' }}>nmap messages</summary>
+                  <pre className="mono" style={{ fontSize: 11, whiteSpace: 'pre-wrap', maxHeight: 160, overflowY: 'auto' }}>{run.stderr}</pre>
+                </details>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          {showForm && (
+            <button className="btn btn-primary" disabled={!!preview.error} onClick={() => runner.start(profileToRequest(draftToOptions(draft)))}>
+              Run Scan
+            </button>
+          )}
+          {busy && (
+            <button className="btn" onClick={runner.cancel} disabled={run.status === 'starting'}>Cancel Scan</button>
+          )}
+          {run.status === 'canceled' && run.partial && (
+            <button className="btn btn-primary" onClick={runner.mergePartial}>
+              Merge {run.partial.scan.hosts.length} Host{run.partial.scan.hosts.length !== 1 ? 's' : ''}
+            </button>
+          )}
+          {!showForm && !busy && (
+            <button className="btn" onClick={runner.reset}>New Scan</button>
+          )}
+          <button className="btn btn-ghost" onClick={onClose}>{busy ? 'Run in Background' : 'Close'}</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import type { EngagementScope } from '../types/nmap';
+import type { AppStore } from '../store/appStore';
+import { parseAddressList } from '../utils/ipRanges';
+import { SCRIPT_CATEGORIES } from '../utils/scanProfiles';
+
+interface ScopePanelProps {
+  store: AppStore;
+  onClose: () => void;
+}
+
+function ScopeList({ label, hint, value, onChange }: { label: string; hint: string; value: string; onChange: (value: string) => void }) {
+  const { invalid } = parseAddressList(value);
+  return (
+    <label style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: 4, fontSize: 12 }}>
+      <span style={{ color: 'var(--text-secondary)', fontWeight: 600 }}>{label}</span>
+      <textarea
+        className={`input mono ${invalid.length > 0 ? 'invalid' : ''}`}
+        rows={3}
+        value={value}
+        placeholder={hint}
+        onChange={e => onChange(e.target.value)}
+        aria-invalid={invalid.length > 0}
+        style={{ resize: 'vertical', fontSize: 12 }}
+      />
+      {invalid.length > 0 && (
+        <span style={{ color: 'var(--red)' }}>Not an address, network or range: {invalid.join(', ')}</span>
+      )}
+    </label>
+  );
+}
+
+export function ScopePanel({ store, onClose }: ScopePanelProps) {
+  const [draft, setDraft] = useState<EngagementScope>(store.state.scope);
+  const saved = store.state.scope;
+  const excluded = draft.excludedCategories ?? [];
+  const dirty = draft.include !== saved.include || draft.exclude !== saved.exclude ||
+    excluded.join(',') !== (saved.excludedCategories ?? []).join(',');
+  const outOfScope = store.scopeViolations.size;
+
+  // Kept in catalog order, so comparing with the saved scope doesn't depend on click order
+  const toggleCategory = (name: string) => {
+    setDraft({
+      ...draft,
+      excludedCategories: SCRIPT_CATEGORIES
+        .map(c => c.name)
+        .filter(c => c === name ? !excluded.includes(c) : excluded.includes(c)),
+    });
+  };
+
+  return (
+    <div className="filter-panel" role="region" aria-label="Engagement scope">
+      <div className="filter-header">
+        <div className="filter-header-title">
+          Engagement Scope
+          {!dirty && (saved.include.trim() || saved.exclude.trim()) && (
+            <span style={{ marginLeft: 8, fontWeight: 400, color: outOfScope ? 'var(--red)' : 'var(--text-muted)' }}>
+              {outOfScope} host{outOfScope === 1 ? '' : 's'} out of scope
+            </span>
+          )}
+        </div>
+        <div style={{ display: 'flex', gap: 4 }}>
+          {!dirty && outOfScope > 0 && (
+            <button className="btn btn-sm" onClick={store.showOutOfScopeHosts}>
+              Show Out-of-Scope Hosts
+            </button>
+          )}
+          <button className="btn btn-sm btn-primary" onClick={() => store.setScope(draft)} disabled={!dirty}>
+            Apply
+          </button>
+          <button className="btn btn-sm btn-ghost" onClick={onClose} aria-label="Close scope panel">
+            Close
+          </button>
+        </div>
+      </div>
+      <div style={{ display: 'flex', gap: 12 }}>
+        <ScopeList
+          label="Authorized ranges"
+          hint="e.g. 10.20.0.0/16, 192.168.1.10-50, 2001:db8::/32 (empty: everything)"
+          value={draft.include}
+          onChange={include => setDraft({ ...draft, include })}
+        />
+        <ScopeList
+          label="Excluded ranges"
+          hint="e.g. 10.20.5.0/24, 10.20.0.1"
+          value={draft.exclude}
+          onChange={exclude => setDraft({ ...draft, exclude })}
+        />
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 4, fontSize: 12, marginTop: 8 }}>
+        <span style={{ color: 'var(--text-secondary)', fontWeight: 600 }}>Script categories not allowed</span>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 16px' }} role="group" aria-label="Script categories not allowed">
+          {SCRIPT_CATEGORIES.map(c => (
+            <label key={c.name} className="checkbox-label" title={c.description} style={c.intrusive ? { color: 'var(--orange)' } : undefined}>
+              <input type="checkbox" checked={excluded.includes(c.name)} onChange={() => toggleCategory(c.name)} /> {c.name}
+            </label>
+          ))}
+        </div>
+        <span style={{ color: 'var(--text-muted)' }}>Scripts in these categories are left out of script suggestions and follow-up scans</span>
+      </div>
+    </div>
+  );
+}
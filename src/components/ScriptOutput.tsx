@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import type { Port, Script, ScriptElement } from '../types/nmap';
+import {
+  parseSslCert, parseSslEnumCiphers, parseHttpTitle, parseHttpHeaders, parseSshHostKeys, parseSmb2SecurityMode,
+  getScriptFields, type ScriptField, type SslCertView, type CipherSuitesView,
+} from '../utils/scriptViews';
+import { HighlightedText } from './HighlightedText';
+
+interface ScriptOutputProps {
+  script: Script;
+  port?: Port; // the port the script ran on, for port scripts
+  terms?: string[]; // active search words, highlighted in the output
+}
+
+const GRADE_TAGS: Record<string, string> = {
+  A: 'tag tag-green',
+  B: 'tag tag-blue',
+  C: 'tag tag-yellow',
+  D: 'tag tag-red',
+  E: 'tag tag-red',
+  F: 'tag tag-red',
+};
+
+function Fields({ fields, terms }: { fields: ScriptField[]; terms: string[] }) {
+  return (
+    <table className="data-table script-fields">
+      <tbody>
+        {fields.map((f, i) => (
+          <tr key={`${f.label}-${i}`}>
+            <td>{f.label}</td>
+            <td className={f.warn ? 'warn' : undefined}><HighlightedText text={f.value} terms={terms} /></td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+const nameText = (fields: ScriptField[]) => fields.map(f => `${f.label}=${f.value}`).join(', ');
+
+function SslCert({ cert, terms }: { cert: SslCertView; terms: string[] }) {
+  const days = cert.daysLeft === null ? '' : Math.abs(cert.daysLeft) === 1 ? '1 day' : `${Math.abs(cert.daysLeft)} days`;
+  const status = {
+    valid: { tag: 'tag tag-green', text: `Valid, ${days} left` },
+    expiring: { tag: 'tag tag-yellow', text: `Expires in ${days}` },
+    expired: { tag: 'tag tag-red', text: `Expired ${days} ago` },
+    'not-yet-valid': { tag: 'tag tag-red', text: 'Not yet valid' },
+  };
+  const common = cert.subject.find(f => f.label === 'commonName')?.value;
+  const fields: ScriptField[] = [
+    { label: 'Subject', value: nameText(cert.subject) },
+    { label: 'Issuer', value: nameText(cert.issuer) },
+    { label: 'Valid from', value: cert.notBefore },
+    { label: 'Valid until', value: cert.notAfter, warn: cert.status !== null && cert.status !== 'valid' },
+    { label: 'Public key', value: cert.publicKey },
+    { label: 'Signature algorithm', value: cert.signatureAlgorithm, warn: /sha1|md5/i.test(cert.signatureAlgorithm) },
+    { label: 'SHA-1', value: cert.sha1 },
+  ].filter(f => f.value);
+
+  return (
+    <>
+      <div className="script-view-bar">
+        {common && <strong className="mono" style={{ color: 'var(--text-bright)' }}><HighlightedText text={common} terms={terms} /></strong>}
+        {cert.status && <span className={status[cert.status].tag}>{status[cert.status].text}</span>}
+        {cert.selfSigned && <span className="tag tag-yellow">self-signed</span>}
+      </div>
+      {cert.altNames.length > 0 && (
+        <div className="script-view-bar">
+          {cert.altNames.map(name => <span key={name} className="tag mono"><HighlightedText text={name} terms={terms} /></span>)}
+        </div>
+      )}
+      <Fields fields={fields} terms={terms} />
+    </>
+  );
+}
+
+function CipherSuites({ view, terms }: { view: CipherSuitesView; terms: string[] }) {
+  return (
+    <>
+      {view.leastStrength && (
+        <div className="script-view-bar">
+          Least strength <span className={GRADE_TAGS[view.leastStrength] || 'tag'}>{view.leastStrength}</span>
+        </div>
+      )}
+      {view.protocols.map(p => (
+        <div key={p.protocol} style={{ marginBottom: 8 }}>
+          <div className="script-view-bar">
+            <strong style={{ color: 'var(--text-bright)' }}>{p.protocol}</strong>
+            {p.deprecated && <span className="tag tag-red">deprecated</span>}
+            {p.preference && <span className="result-count">{p.preference} cipher preference</span>}
+          </div>
+          <table className="data-table">
+            <thead>
+              <tr><th>Cipher</th><th>Key exchange</th><th>Grade</th></tr>
+            </thead>
+            <tbody>
+              {p.ciphers.map(c => (
+                <tr key={c.name}>
+                  <td className="mono"><HighlightedText text={c.name} terms={terms} /></td>
+                  <td className="mono">{c.kex}</td>
+                  <td><span className={GRADE_TAGS[c.strength] || 'tag'}>{c.strength || '?'}</span></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {p.warnings.map(w => <div key={w} style={{ color: 'var(--orange)', marginTop: 4 }}>{'\u26A0'} {w}</div>)}
+        </div>
+      ))}
+    </>
+  );
+}
+
+// The dedicated view of a script, or null for scripts without one
+function renderStructured(script: Script, port: Port | undefined, terms: string[]): React.ReactNode {
+  switch (script.id) {
+    case 'ssl-cert': {
+      const cert = parseSslCert(script);
+      return cert && <SslCert cert={cert} terms={terms} />;
+    }
+    case 'ssl-enum-ciphers': {
+      const view = parseSslEnumCiphers(script);
+      return view && <CipherSuites view={view} terms={terms} />;
+    }
+    case 'http-title': {
+      const view = parseHttpTitle(script);
+      return view && (
+        <>
+          <div className="script-view-bar">
+            {view.title !== null
+              ? <strong style={{ color: 'var(--text-bright)' }}><HighlightedText text={view.title} terms={terms} /></strong>
+              : <span style={{ color: 'var(--text-muted)' }}>{view.note}</span>}
+          </div>
+          {view.redirect && <Fields fields={[{ label: 'Redirects to', value: view.redirect }]} terms={terms} />}
+        </>
+      );
+    }
+    case 'http-headers': {
+      const https = port?.service?.tunnel === 'ssl' || port?.service?.name === 'https';
+      const view = parseHttpHeaders(script, https);
+      return view && (
+        <>
+          <Fields fields={view.headers} terms={terms} />
+          <div className="script-view-bar" style={{ marginTop: 6 }}>
+            {view.requestType && <span className="result-count">{view.requestType} request</span>}
+            {view.missingSecurityHeaders.map(h => <span key={h} className="tag tag-yellow" title="Security header not set">no {h}</span>)}
+          </div>
+        </>
+      );
+    }
+    case 'ssh-hostkey': {
+      const keys = parseSshHostKeys(script);
+      return keys && (
+        <table className="data-table">
+          <thead>
+            <tr><th>Type</th><th>Bits</th><th>MD5 fingerprint</th></tr>
+          </thead>
+          <tbody>
+            {keys.map(k => (
+              <tr key={`${k.type}-${k.fingerprint}`}>
+                <td>{k.type} {k.weak && <span className="tag tag-red">weak</span>}</td>
+                <td>{k.bits ?? '-'}</td>
+                <td className="mono"><HighlightedText text={k.fingerprint} terms={terms} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    }
+    case 'smb2-security-mode': {
+      const rows = parseSmb2SecurityMode(script);
+      return rows && <Fields fields={rows.map(r => ({ label: `SMB ${r.dialect}`, value: r.message, warn: r.warn }))} terms={terms} />;
+    }
+    default: {
+      const fields = getScriptFields(script);
+      return fields && <Fields fields={fields} terms={terms} />;
+    }
+  }
+}
+
+// Path of an element, for its expanded state
+const elementPath = (parent: string, el: ScriptElement, i: number) => `${parent}/${i}:${el.key}`;
+
+function ElementRows({ elements, depth, parent, expanded, toggle, terms }: {
+  elements: ScriptElement[];
+  depth: number;
+  parent: string;
+  expanded: Set<string>;
+  toggle: (path: string) => void;
+  terms: string[];
+}) {
+  return (
+    <>
+      {elements.map((el, i) => {
+        const path = elementPath(parent, el, i);
+        const isTable = !!el.children;
+        const open = expanded.has(path);
+        return (
+          <React.Fragment key={path}>
+            <tr>
+              <td
+                className={isTable ? 'script-element-toggle' : undefined}
+                style={{ paddingLeft: 8 + depth * 16, color: 'var(--text-muted)' }}
+                onClick={isTable ? () => toggle(path) : undefined}
+              >
+                {isTable && (open ? '\u25BC ' : '\u25B6 ')}
+                {el.key || (isTable ? `[${i + 1}]` : '')}
+              </td>
+              <td className="mono">
+                {isTable
+                  ? !open && <span style={{ color: 'var(--text-muted)' }}>{el.children!.length} item{el.children!.length !== 1 ? 's' : ''}</span>
+                  : <HighlightedText text={el.value} terms={terms} />}
+              </td>
+            </tr>
+            {isTable && open && (
+              <ElementRows elements={el.children!} depth={depth + 1} parent={path} expanded={expanded} toggle={toggle} terms={terms} />
+            )}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+}
+
+// Any script's elements as a table; nested tables start collapsed
+function ElementTable({ elements, terms }: { elements: ScriptElement[]; terms: string[] }) {
+  const [expanded, setExpanded] = useState<Set<string>>(
+    () => new Set(elements.map((el, i) => elementPath('', el, i))),
+  );
+  const toggle = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+  return (
+    <table className="data-table script-fields">
+      <tbody>
+        <ElementRows elements={elements} depth={0} parent="" expanded={expanded} toggle={toggle} terms={terms} />
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * A script result: the dedicated view of well-known scripts, otherwise its
+ * elements as a table, otherwise the text output. Views can be switched to
+ * the text output nmap printed.
+ */
+export function ScriptOutput({ script, port, terms = [] }: ScriptOutputProps) {
+  const [showText, setShowText] = useState(false);
+  const view = renderStructured(script, port, terms)
+    ?? (script.elements.length > 0 ? <ElementTable elements={script.elements} terms={terms} /> : null);
+
+  if (!view) {
+    return <div className="script-output"><HighlightedText text={script.output} terms={terms} /></div>;
+  }
+  return (
+    <div className="script-view">
+      <div style={{ float: 'right' }}>
+        <button className="btn btn-sm btn-ghost" style={{ fontSize: 10 }} onClick={() => setShowText(!showText)}>
+          {showText ? 'Structured' : 'Text'}
+        </button>
+      </div>
+      {showText
+        ? <div className="script-output" style={{ padding: 0 }}><HighlightedText text={script.output} terms={terms} /></div>
+        : view}
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 import React, { useState, useMemo, useCallback } from 'react';
-import type { NmapHost, Port, ScriptSuggestion } from '../types/nmap';
-import { getScriptSuggestions, generateNmapCommand } from '../utils/scriptSuggestions';
+import type { NmapHost, Port, ScriptSuggestion, FollowUp } from '../types/nmap';
+import { getScriptSuggestions, generateNmapCommand, formatScriptArgs, type SuggestionOptions } from '../utils/scriptSuggestions';
 import { copyToClipboard } from '../utils/helpers';
 
 interface ScriptSuggestionsProps {
   host: NmapHost;
   onImportResults?: () => void;
+  onQueue?: (followUps: FollowUp[]) => void; // add the selected scripts to the follow-up queue
+  options?: SuggestionOptions; // script catalog and excluded categories
 }
 
 interface PortSuggestion {
@@ -14,7 +16,7 @@ interface PortSuggestion {
   alreadyRan: Set<string>;
 }
 
-export function ScriptSuggestions({ host, onImportResults }: ScriptSuggestionsProps) {
+export function ScriptSuggestions({ host, onImportResults, onQueue, options }: ScriptSuggestionsProps) {
   const [selectedScripts, setSelectedScripts] = useState<Map<string, Set<string>>>(new Map());
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
   const [copiedPort, setCopiedPort] = useState<string | null>(null);
@@ -23,12 +25,13 @@ export function ScriptSuggestions({ host, onImportResults }: ScriptSuggestionsPr
     return host.ports
       .filter(p => p.state.state === 'open' || p.state.state === 'open|filtered')
       .map(port => {
-        const suggestions = getScriptSuggestions(port.portid, port.service?.name);
+        const suggestions = getScriptSuggestions(port.portid, port.service?.name, options);
         const alreadyRan = new Set(port.scripts.map(s => s.id));
         return { port, suggestions, alreadyRan };
       })
       .filter(ps => ps.suggestions.length > 0);
-  }, [host.ports]);
+  }, [host.ports, options]);
+  const excluded = options?.excludeCategories ?? [];
 
   const allCategories = useMemo(() => {
     const cats = new Set<string>();
@@ -92,6 +95,19 @@ export function ScriptSuggestions({ host, onImportResults }: ScriptSuggestionsPr
     }
   }, [selectedScripts, portSuggestions, host]);
 
+  const queueSelected = useCallback(() => {
+    if (!onQueue) return;
+    const address = host.ip || host.ipv6;
+    const followUps: FollowUp[] = [];
+    for (const [portKey, scripts] of selectedScripts) {
+      const [portid, protocol] = portKey.split('/');
+      if (protocol !== 'tcp' && protocol !== 'udp') continue;
+      for (const script of scripts) followUps.push({ address, portid: Number(portid), protocol, script });
+    }
+    onQueue(followUps);
+    setSelectedScripts(new Map());
+  }, [onQueue, selectedScripts, host]);
+
   const totalSelected = useMemo(() => {
     let count = 0;
     for (const scripts of selectedScripts.values()) {
@@ -115,6 +131,7 @@ export function ScriptSuggestions({ host, onImportResults }: ScriptSuggestionsPr
       <div className="empty-state">
         <div className="icon">{'\u2699'}</div>
         <div>No script suggestions available for this host's open ports</div>
+        {excluded.length > 0 && <div className="result-count">Not allowed by the engagement scope: {excluded.join(', ')}</div>}
       </div>
     );
   }
@@ -131,6 +148,9 @@ export function ScriptSuggestions({ host, onImportResults }: ScriptSuggestionsPr
           <option value="all">All Categories</option>
           {allCategories.map(c => <option key={c} value={c}>{c}</option>)}
         </select>
+        {excluded.length > 0 && (
+          <span className="result-count" title="Set in the engagement scope">Not allowed: {excluded.join(', ')}</span>
+        )}
         <div className="header-spacer" />
         {totalSelected > 0 && (
           <>
@@ -138,6 +158,11 @@ export function ScriptSuggestions({ host, onImportResults }: ScriptSuggestionsPr
             <button className="btn btn-sm" onClick={copyAllCommands}>
               Copy All Commands
             </button>
+            {onQueue && (
+              <button className="btn btn-sm" onClick={queueSelected} title="Run with other hosts' picks from the Follow-up Scans view">
+                Add to Queue
+              </button>
+            )}
           </>
         )}
         {onImportResults && (
@@ -205,10 +230,16 @@ export function ScriptSuggestions({ host, onImportResults }: ScriptSuggestionsPr
                       <span
                         className="script-suggestion-cat"
                         style={{ color: getCategoryColor(s.category) }}
+                        title={s.categories.join(', ')}
                       >
                         {s.category}
                       </span>
                       <span className="script-suggestion-desc">{s.description}</span>
+                      {s.args && s.args.length > 0 && (
+                        <span className="script-suggestion-args" title={formatScriptArgs(s.args)}>
+                          {s.args.length} arg{s.args.length !== 1 ? 's' : ''}
+                        </span>
+                      )}
                     </label>
                   ))}
                 </div>
@@ -1,6 +1,7 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import type { NmapScan, NmapHost } from '../types/nmap';
 import type { AppStore } from '../store/appStore';
+import { VirtualTable, ROW_HEIGHT, HEADER_HEIGHT, type VirtualColumn } from './VirtualTable';
 
 interface ServicesViewProps {
   scan: NmapScan;
@@ -10,6 +11,73 @@ interface ServicesViewProps {
 
 type SvcSortField = 'name' | 'product' | 'version' | 'count' | 'ports';
 
+interface ServiceSummary {
+  name: string;
+  product: string;
+  version: string;
+  extrainfo: string;
+  tunnel: string;
+  count: number;
+  ports: number[];
+  hosts: ServiceInstance[];
+  cpes: string[];
+}
+
+interface ServiceInstance {
+  ip: string;
+  id: string;
+  port: number;
+  protocol: string;
+}
+
+// Rows shown at once in an expanded service's instance list before it scrolls
+const EXPANDED_ROWS = 8;
+const CPE_LINE_HEIGHT = 17;
+
+const summaryKey = (s: ServiceSummary) => `${s.name}/${s.product}/${s.version}`;
+
+const instanceListHeight = (s: ServiceSummary) => HEADER_HEIGHT + Math.min(s.hosts.length, EXPANDED_ROWS) * ROW_HEIGHT;
+
+const COLUMNS: VirtualColumn<ServiceSummary>[] = [
+  { id: 'name', label: 'Service', width: 150, render: s => <span style={{ fontWeight: 600 }}>{s.name}</span> },
+  { id: 'product', label: 'Product', width: 200, render: s => s.product || '-' },
+  { id: 'version', label: 'Version', width: 140, className: 'mono', render: s => s.version || '-' },
+  { id: 'extrainfo', label: 'Extra Info', width: 150, sortable: false, render: s => s.extrainfo || '-' },
+  { id: 'tunnel', label: 'Tunnel', width: 80, sortable: false, render: s => s.tunnel || '-' },
+  {
+    id: 'ports',
+    label: 'Ports',
+    width: 260,
+    render: s => (
+      <div className="port-grid" style={{ flexWrap: 'nowrap' }}>
+        {s.ports.slice(0, 5).map(p => (
+          <span key={p} className="port-chip mono" style={{ background: 'var(--green-dim)', color: 'var(--green)' }}>{p}</span>
+        ))}
+        {s.ports.length > 5 && (
+          <span className="port-chip" style={{ background: 'var(--bg-tertiary)', color: 'var(--text-muted)' }}>
+            +{s.ports.length - 5}
+          </span>
+        )}
+      </div>
+    ),
+  },
+  { id: 'count', label: 'Instances', width: 100, render: s => <span className="tag tag-purple">{s.count}</span> },
+  {
+    id: 'cpes',
+    label: 'CPEs',
+    width: 220,
+    sortable: false,
+    className: 'mono',
+    render: s => <span style={{ fontSize: 10 }}>{s.cpes.join(', ') || '-'}</span>,
+  },
+];
+
+const INSTANCE_COLUMNS: VirtualColumn<ServiceInstance>[] = [
+  { id: 'ip', label: 'Host IP', width: 220, className: 'mono', render: h => <span style={{ color: 'var(--accent)' }}>{h.ip}</span> },
+  { id: 'port', label: 'Port', width: 90, className: 'mono', render: h => h.port },
+  { id: 'protocol', label: 'Protocol', width: 90, render: h => h.protocol },
+];
+
 export function ServicesView({ scan, hosts, store }: ServicesViewProps) {
   const [search, setSearch] = useState('');
   const [sortField, setSortField] = useState<SvcSortField>('count');
@@ -18,17 +86,7 @@ export function ServicesView({ scan, hosts, store }: ServicesViewProps) {
 
   // Recompute service summaries from filtered hosts
   const serviceSummaries = useMemo(() => {
-    const map = new Map<string, {
-      name: string;
-      product: string;
-      version: string;
-      extrainfo: string;
-      tunnel: string;
-      count: number;
-      ports: number[];
-      hosts: { ip: string; id: string; port: number; protocol: string }[];
-      cpes: string[];
-    }>();
+    const map = new Map<string, ServiceSummary>();
     for (const host of hosts) {
       for (const port of host.ports) {
         if (!port.service?.name) continue;
@@ -99,11 +157,45 @@ export function ServicesView({ scan, hosts, store }: ServicesViewProps) {
     }
   };
 
-  const getSortIndicator = (field: SvcSortField) => {
-    if (sortField !== field) return '';
-    return sortDir === 'asc' ? ' \u25B2' : ' \u25BC';
+  const renderInstances = (svc: ServiceSummary) => {
+    if (expandedService !== summaryKey(svc)) return null;
+    return (
+      <div style={{ background: 'var(--bg-tertiary)', padding: '8px 16px' }} onClick={e => e.stopPropagation()}>
+        <div style={{ fontSize: 11, color: 'var(--text-muted)', marginBottom: 4 }}>
+          Host instances ({svc.hosts.length}):
+        </div>
+        <div style={{ background: 'var(--bg-primary)' }}>
+          <VirtualTable
+            rows={svc.hosts}
+            columns={INSTANCE_COLUMNS}
+            getRowKey={h => `${h.id}:${h.port}/${h.protocol}`}
+            ariaLabel={`Instances of ${svc.name}`}
+            height={instanceListHeight(svc)}
+            onRowClick={h => {
+              store.setSelectedHostId(h.id);
+              store.setViewMode('hosts');
+            }}
+          />
+        </div>
+        {svc.cpes.length > 0 && (
+          <div style={{ marginTop: 8 }}>
+            <div style={{ fontSize: 11, color: 'var(--text-muted)', marginBottom: 4 }}>CPEs:</div>
+            {svc.cpes.map((cpe, i) => (
+              <div key={i} className="mono" style={{ fontSize: 11, lineHeight: `${CPE_LINE_HEIGHT}px`, color: 'var(--accent)' }}>{cpe}</div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
   };
 
+  // Label, padding, instance list and CPEs of the expanded row
+  const detailHeight = useCallback((svc: ServiceSummary) => {
+    if (expandedService !== summaryKey(svc)) return 0;
+    const cpes = svc.cpes.length > 0 ? 8 + 20 + svc.cpes.length * CPE_LINE_HEIGHT : 0;
+    return 20 + 16 + instanceListHeight(svc) + cpes;
+  }, [expandedService]);
+
   return (
     <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
       <div className="toolbar">
@@ -121,110 +213,23 @@ export function ServicesView({ scan, hosts, store }: ServicesViewProps) {
         <span className="result-count">{sorted.length} services</span>
       </div>
 
-      <div style={{ flex: 1, overflow: 'auto' }}>
-        <table className="data-table">
-          <thead>
-            <tr>
-              <th onClick={() => handleSort('name')}>Service{getSortIndicator('name')}</th>
-              <th onClick={() => handleSort('product')}>Product{getSortIndicator('product')}</th>
-              <th onClick={() => handleSort('version')}>Version{getSortIndicator('version')}</th>
-              <th>Extra Info</th>
-              <th>Tunnel</th>
-              <th onClick={() => handleSort('ports')}>Ports{getSortIndicator('ports')}</th>
-              <th onClick={() => handleSort('count')}>Instances{getSortIndicator('count')}</th>
-              <th>CPEs</th>
-            </tr>
-          </thead>
-          <tbody>
-            {sorted.map((svc, idx) => {
-              const key = `${svc.name}/${svc.product}/${svc.version}`;
-              const isExpanded = expandedService === key;
-              return (
-                <React.Fragment key={key + idx}>
-                  <tr
-                    className="clickable"
-                    onClick={() => setExpandedService(isExpanded ? null : key)}
-                  >
-                    <td style={{ fontWeight: 600 }}>{svc.name}</td>
-                    <td>{svc.product || '-'}</td>
-                    <td className="mono">{svc.version || '-'}</td>
-                    <td className="truncate" style={{ maxWidth: 150 }}>{svc.extrainfo || '-'}</td>
-                    <td>{svc.tunnel || '-'}</td>
-                    <td>
-                      <div className="port-grid">
-                        {svc.ports.slice(0, 5).map(p => (
-                          <span key={p} className="port-chip mono" style={{ background: 'var(--green-dim)', color: 'var(--green)' }}>{p}</span>
-                        ))}
-                        {svc.ports.length > 5 && (
-                          <span className="port-chip" style={{ background: 'var(--bg-tertiary)', color: 'var(--text-muted)' }}>
-                            +{svc.ports.length - 5}
-                          </span>
-                        )}
-                      </div>
-                    </td>
-                    <td><span className="tag tag-purple">{svc.count}</span></td>
-                    <td className="mono truncate" style={{ fontSize: 10, maxWidth: 200 }}>
-                      {svc.cpes.join(', ') || '-'}
-                    </td>
-                  </tr>
-                  {isExpanded && (
-                    <tr>
-                      <td colSpan={8} style={{ background: 'var(--bg-tertiary)', padding: '8px 16px' }}>
-                        <div style={{ fontSize: 11, color: 'var(--text-muted)', marginBottom: 4 }}>
-                          Host instances ({svc.hosts.length}):
-                        </div>
-                        <table className="data-table" style={{ background: 'var(--bg-primary)' }}>
-                          <thead>
-                            <tr>
-                              <th>Host IP</th>
-                              <th>Port</th>
-                              <th>Protocol</th>
-                            </tr>
-                          </thead>
-                          <tbody>
-                            {svc.hosts.map((h, i) => (
-                              <tr key={i}>
-                                <td
-                                  className="mono clickable"
-                                  style={{ color: 'var(--accent)', cursor: 'pointer' }}
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    store.setSelectedHostId(h.id);
-                                    store.setViewMode('hosts');
-                                  }}
-                                  title={`View ${h.ip} in Hosts`}
-                                >
-                                  {h.ip}
-                                </td>
-                                <td className="mono">{h.port}</td>
-                                <td>{h.protocol}</td>
-                              </tr>
-                            ))}
-                          </tbody>
-                        </table>
-                        {svc.cpes.length > 0 && (
-                          <div style={{ marginTop: 8 }}>
-                            <div style={{ fontSize: 11, color: 'var(--text-muted)', marginBottom: 4 }}>CPEs:</div>
-                            {svc.cpes.map((cpe, i) => (
-                              <div key={i} className="mono" style={{ fontSize: 11, color: 'var(--accent)' }}>{cpe}</div>
-                            ))}
-                          </div>
-                        )}
-                      </td>
-                    </tr>
-                  )}
-                </React.Fragment>
-              );
-            })}
-          </tbody>
-        </table>
-        {sorted.length === 0 && (
+      <VirtualTable
+        rows={sorted}
+        columns={COLUMNS}
+        getRowKey={summaryKey}
+        ariaLabel="Services"
+        renderDetail={renderInstances}
+        detailHeight={detailHeight}
+        onRowClick={svc => setExpandedService(expandedService === summaryKey(svc) ? null : summaryKey(svc))}
+        getSortDirection={field => field === sortField ? sortDir : null}
+        onSort={field => handleSort(field as SvcSortField)}
+        emptyState={
           <div className="empty-state">
             <div className="icon">{'\u2699'}</div>
             <div>No services match your current search</div>
           </div>
-        )}
-      </div>
+        }
+      />
     </div>
   );
 }
@@ -1,5 +1,6 @@
 import React from 'react';
-import type { NmapScan, ViewMode } from '../types/nmap';
+import type { NmapScan, ViewMode, FilterPreset, ScanSource } from '../types/nmap';
+import { formatTimestamp } from '../utils/helpers';
 
 interface SidebarProps {
   viewMode: ViewMode;
@@ -7,14 +8,24 @@ interface SidebarProps {
   scan: NmapScan;
   filteredCount: number;
   noteCount: number;
+  vulnCount: number;
+  filterPresets: FilterPreset[];
+  onApplyPreset: (id: string) => void;
+  scanSources: ScanSource[]; // every imported scan, in import order
+  asOfSourceId: string | null;
+  onAsOfChange: (sourceId: string | null) => void;
 }
 
-export function Sidebar({ viewMode, onViewChange, scan, filteredCount, noteCount }: SidebarProps) {
+export function Sidebar({ viewMode, onViewChange, scan, filteredCount, noteCount, vulnCount, filterPresets, onApplyPreset, scanSources, asOfSourceId, onAsOfChange }: SidebarProps) {
   const navItems: { mode: ViewMode; icon: string; label: string; badge?: string | number }[] = [
     { mode: 'dashboard', icon: '\u25A6', label: 'Dashboard' },
     { mode: 'hosts', icon: '\u2316', label: 'Hosts', badge: filteredCount },
     { mode: 'ports', icon: '\u25C8', label: 'Ports', badge: scan.uniquePorts.length },
     { mode: 'services', icon: '\u2699', label: 'Services', badge: scan.uniqueServices.length },
+    { mode: 'subnets', icon: '\u25A9', label: 'Subnets' },
+    { mode: 'topology', icon: '\u2B95', label: 'Topology' },
+    { mode: 'vulnerabilities', icon: '\u26A0', label: 'Vulnerabilities', badge: vulnCount || undefined },
+    { mode: 'followup', icon: '\u21BB', label: 'Follow-up Scans' },
     { mode: 'notes', icon: '\u270E', label: 'Notes', badge: noteCount || undefined },
   ];
 
@@ -42,6 +53,61 @@ export function Sidebar({ viewMode, onViewChange, scan, filteredCount, noteCount
         </div>
       </div>
 
+      {filterPresets.length > 0 && (
+        <>
+          <div className="sidebar-divider" role="separator" />
+          <div className="sidebar-section">
+            <div className="sidebar-section-title" id="presets-heading">Filter Presets</div>
+            <div role="list" aria-labelledby="presets-heading">
+              {filterPresets.map(preset => (
+                <div
+                  key={preset.id}
+                  role="listitem"
+                  className="sidebar-item"
+                  onClick={() => onApplyPreset(preset.id)}
+                  onKeyDown={e => { if (e.key === 'Enter' || e.key === ' ') onApplyPreset(preset.id); }}
+                  tabIndex={0}
+                  title={`Apply filter preset "${preset.name}"`}
+                >
+                  <span className="icon" aria-hidden="true">{'\u29E9'}</span>
+                  <span className="truncate">{preset.name}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      {scanSources.length > 1 && (
+        <>
+          <div className="sidebar-divider" role="separator" />
+          <div className="sidebar-section">
+            <div className="sidebar-section-title" id="history-heading">Scan History</div>
+            <div role="list" aria-labelledby="history-heading">
+              {scanSources.map((source, i) => {
+                const active = asOfSourceId === source.id || (!asOfSourceId && i === scanSources.length - 1);
+                const select = () => onAsOfChange(i === scanSources.length - 1 ? null : source.id);
+                return (
+                  <div
+                    key={source.id}
+                    role="listitem"
+                    className={`sidebar-item ${active ? 'active' : ''}`}
+                    onClick={select}
+                    onKeyDown={e => { if (e.key === 'Enter' || e.key === ' ') select(); }}
+                    tabIndex={0}
+                    aria-current={active ? 'true' : undefined}
+                    title={`View the project as of ${source.fileName} (${formatTimestamp(source.start)})\n${source.args}`}
+                  >
+                    <span className="icon" aria-hidden="true">{i + 1}</span>
+                    <span className="truncate">{source.fileName}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </>
+      )}
+
       <div className="sidebar-divider" role="separator" />
 
       <div className="sidebar-section">
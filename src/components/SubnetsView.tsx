@@ -0,0 +1,274 @@
+import React, { useState, useMemo } from 'react';
+import type { NmapScan, NmapHost } from '../types/nmap';
+import type { AppStore } from '../store/appStore';
+import { buildSubnetTree, buildHeatmap, getSubnetFilter, type SubnetNode } from '../utils/subnets';
+
+interface SubnetsViewProps {
+  scan: NmapScan;
+  hosts: NmapHost[]; // hosts matching the current filters, subnet included
+  store: AppStore;
+}
+
+// Mini heatmaps drawn for a /8 or /16 (or the whole scan) before asking to narrow down
+const MAX_HEATMAPS = 64;
+
+const EXPOSURE_LEGEND: { className: string; label: string }[] = [
+  { className: 'heat-cell', label: 'Not scanned' },
+  { className: 'heat-cell down', label: 'Down' },
+  { className: 'heat-cell up', label: 'Up, none open' },
+  { className: 'heat-cell up l1', label: '1-2 open' },
+  { className: 'heat-cell up l2', label: '3-5 open' },
+  { className: 'heat-cell up l3', label: '6-10 open' },
+  { className: 'heat-cell up l4', label: '11+ open' },
+];
+
+function collectNodes(nodes: SubnetNode[], into = new Map<string, SubnetNode>()): Map<string, SubnetNode> {
+  for (const node of nodes) {
+    into.set(node.cidr, node);
+    collectNodes(node.children, into);
+  }
+  return into;
+}
+
+// IPv4 /24s under the given nodes, in address order
+function collectHeatmapSubnets(nodes: SubnetNode[], into: SubnetNode[] = []): SubnetNode[] {
+  for (const node of nodes) {
+    if (node.version !== 4) continue;
+    if (node.prefix === 24) into.push(node);
+    else collectHeatmapSubnets(node.children, into);
+  }
+  return into;
+}
+
+// The chain of subnets from a root down to the given one
+function findPath(nodes: SubnetNode[], cidr: string): string[] {
+  for (const node of nodes) {
+    if (node.cidr === cidr) return [cidr];
+    const path = findPath(node.children, cidr);
+    if (path.length > 0) return [node.cidr, ...path];
+  }
+  return [];
+}
+
+function describeCell(address: string, host: NmapHost | null): string {
+  if (!host) return `${address} \u2014 not scanned`;
+  const name = host.hostname ? ` (${host.hostname})` : '';
+  return `${address}${name} \u2014 ${host.status.state}, ${host.openPortCount} open port${host.openPortCount !== 1 ? 's' : ''}`;
+}
+
+function cellClass(host: NmapHost | null, exposure: number): string {
+  if (!host) return 'heat-cell';
+  if (host.status.state !== 'up') return 'heat-cell down';
+  return `heat-cell up${exposure > 0 ? ` l${exposure}` : ''}`;
+}
+
+function Heatmap({ subnet, onOpenHost }: { subnet: SubnetNode; onOpenHost: (host: NmapHost) => void }) {
+  const cells = useMemo(() => buildHeatmap(subnet), [subnet]);
+  return (
+    <div className="heatmap-grid" role="group" aria-label={`Heatmap of ${subnet.cidr}`}>
+      {cells.map(({ octet, address, host, exposure }) => (
+        <div
+          key={octet}
+          className={cellClass(host, exposure)}
+          title={describeCell(address, host)}
+          onClick={host ? () => onOpenHost(host) : undefined}
+          onKeyDown={host ? e => { if (e.key === 'Enter' || e.key === ' ') onOpenHost(host); } : undefined}
+          tabIndex={host ? 0 : undefined}
+          role={host ? 'button' : undefined}
+          aria-label={host ? describeCell(address, host) : undefined}
+        />
+      ))}
+    </div>
+  );
+}
+
+// Small, non-interactive heatmap of a /24; the card around it selects the subnet
+function MiniHeatmap({ subnet }: { subnet: SubnetNode }) {
+  const cells = useMemo(() => buildHeatmap(subnet), [subnet]);
+  return (
+    <div className="heatmap-grid mini" aria-hidden="true">
+      {cells.map(({ octet, host, exposure }) => <div key={octet} className={cellClass(host, exposure)} />)}
+    </div>
+  );
+}
+
+function SubnetCounts({ node }: { node: SubnetNode }) {
+  return (
+    <span className="subnet-counts">
+      {node.up}/{node.total} up {'\u00B7'} {node.openPorts} open
+    </span>
+  );
+}
+
+export function SubnetsView({ scan, hosts, store }: SubnetsViewProps) {
+  const tree = useMemo(() => buildSubnetTree(scan.hosts), [scan.hosts]);
+  const nodes = useMemo(() => collectNodes(tree), [tree]);
+  const active = getSubnetFilter(store.state.filterGroup);
+  const selected = active ? nodes.get(active) || null : null;
+
+  // Open the way down to the active subnet, or the only top-level network
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(
+    active ? findPath(tree, active).slice(0, -1) : tree.length === 1 ? [tree[0].cidr] : [],
+  ));
+
+  const toggle = (cidr: string, open?: boolean) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (open ?? !next.has(cidr)) next.add(cidr);
+      else next.delete(cidr);
+      return next;
+    });
+  };
+
+  const openHost = (host: NmapHost) => {
+    // Switching views clears the selected host, so switch first
+    store.setViewMode('hosts');
+    store.setSelectedHostId(host.id);
+  };
+
+  const heatmaps = useMemo(() => {
+    if (selected) return selected.version === 4 && selected.prefix !== 24 ? collectHeatmapSubnets(selected.children) : [];
+    return collectHeatmapSubnets(tree);
+  }, [selected, tree]);
+
+  const renderNode = (node: SubnetNode, depth: number): React.ReactNode => {
+    const isOpen = expanded.has(node.cidr);
+    const hasChildren = node.children.length > 0 || node.hosts.length > 0;
+    return (
+      <React.Fragment key={node.cidr}>
+        <div
+          className={`subnet-row ${node.cidr === active ? 'active' : ''}`}
+          style={{ paddingLeft: 12 + depth * 16 }}
+          role="treeitem"
+          aria-level={depth + 1}
+          aria-expanded={hasChildren ? isOpen : undefined}
+          aria-selected={node.cidr === active}
+          tabIndex={0}
+          onClick={() => store.setSubnetFilter(node.cidr)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); store.setSubnetFilter(node.cidr); }
+            else if (e.key === 'ArrowRight') toggle(node.cidr, true);
+            else if (e.key === 'ArrowLeft') toggle(node.cidr, false);
+          }}
+        >
+          <span
+            className="subnet-toggle"
+            onClick={e => { e.stopPropagation(); toggle(node.cidr); }}
+            aria-hidden="true"
+          >
+            {hasChildren ? (isOpen ? '\u25BE' : '\u25B8') : ''}
+          </span>
+          <span className="mono">{node.cidr}</span>
+          <SubnetCounts node={node} />
+        </div>
+        {isOpen && node.children.map(child => renderNode(child, depth + 1))}
+        {isOpen && node.hosts.map(host => (
+          <div
+            key={host.id}
+            className="subnet-row"
+            style={{ paddingLeft: 12 + (depth + 1) * 16 }}
+            role="treeitem"
+            aria-level={depth + 2}
+            tabIndex={0}
+            onClick={() => openHost(host)}
+            onKeyDown={e => { if (e.key === 'Enter') openHost(host); }}
+            title="Open host details"
+          >
+            <span className="subnet-toggle" aria-hidden="true" />
+            <span className="mono">{host.ip || host.ipv6}</span>
+            {host.hostname && <span className="truncate" style={{ color: 'var(--text-secondary)' }}>{host.hostname}</span>}
+            <span className="subnet-counts">
+              {host.status.state === 'up' ? `${host.openPortCount} open` : host.status.state}
+            </span>
+          </div>
+        ))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="split-view">
+      <div className="split-list subnet-tree">
+        <div className="toolbar">
+          <span className="result-count">
+            {tree.length} top-level network{tree.length !== 1 ? 's' : ''}
+          </span>
+        </div>
+        <div role="tree" aria-label="Subnets" style={{ overflowY: 'auto', flex: 1, paddingBottom: 8 }}>
+          {tree.map(node => renderNode(node, 0))}
+        </div>
+      </div>
+
+      <div className="split-detail" style={{ overflowY: 'auto' }}>
+        <div className="toolbar">
+          {active ? (
+            <>
+              <span>Subnet <span className="mono">{active}</span></span>
+              {selected && <SubnetCounts node={selected} />}
+              <div className="header-spacer" />
+              <button className="btn btn-sm btn-primary" onClick={() => store.setViewMode('hosts')}>
+                Show {hosts.length} host{hosts.length !== 1 ? 's' : ''}
+              </button>
+              <button className="btn btn-sm" onClick={() => store.setSubnetFilter(null)}>Clear Subnet</button>
+            </>
+          ) : (
+            <span className="result-count">Select a subnet to limit the hosts and exports to it</span>
+          )}
+        </div>
+
+        <div style={{ padding: 16 }}>
+          <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', fontSize: 11, color: 'var(--text-secondary)', marginBottom: 16 }}>
+            {EXPOSURE_LEGEND.map(entry => (
+              <span key={entry.label} style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+                <span className={entry.className} style={{ width: 10, height: 10, display: 'inline-block', cursor: 'default' }} />
+                {entry.label}
+              </span>
+            ))}
+          </div>
+
+          {active && !selected && (
+            <div className="empty-state">
+              <div>No hosts of this scan are in {active}</div>
+            </div>
+          )}
+
+          {selected && selected.version === 4 && selected.prefix === 24 && (
+            <Heatmap subnet={selected} onOpenHost={openHost} />
+          )}
+
+          {selected && selected.version === 6 && selected.children.length === 0 && (
+            <div className="result-count">IPv6 networks are too large to draw; the hosts are listed in the tree.</div>
+          )}
+
+          {heatmaps.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 16 }}>
+              {heatmaps.slice(0, MAX_HEATMAPS).map(subnet => (
+                <div
+                  key={subnet.cidr}
+                  className="card"
+                  style={{ padding: 8, cursor: 'pointer' }}
+                  onClick={() => store.setSubnetFilter(subnet.cidr)}
+                  onKeyDown={e => { if (e.key === 'Enter') store.setSubnetFilter(subnet.cidr); }}
+                  tabIndex={0}
+                  role="button"
+                  aria-label={`Select ${subnet.cidr}: ${subnet.up} of ${subnet.total} hosts up, ${subnet.openPorts} open ports`}
+                >
+                  <div className="mono" style={{ fontSize: 11, marginBottom: 4 }}>{subnet.cidr}</div>
+                  <MiniHeatmap subnet={subnet} />
+                  <div style={{ fontSize: 10, color: 'var(--text-muted)', marginTop: 4 }}>
+                    {subnet.up}/{subnet.total} up {'\u00B7'} {subnet.openPorts} open
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {heatmaps.length > MAX_HEATMAPS && (
+            <div className="result-count" style={{ marginTop: 12 }}>
+              Showing {MAX_HEATMAPS} of {heatmaps.length} /24 networks; select a /8 or /16 in the tree to narrow them down.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
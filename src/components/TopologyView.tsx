@@ -0,0 +1,164 @@
+import React, { useState, useMemo } from 'react';
+import type { NmapScan, NmapHost } from '../types/nmap';
+import type { AppStore } from '../store/appStore';
+import {
+  buildTopology, layoutTopology, getNodeColor, getColorLegend, formatEdgeLabel, topologyToDOT, topologyToSVG,
+  type TopologyColorMode, type TopologyNode,
+} from '../utils/topology';
+import { downloadExport } from '../utils/exportEngine';
+
+interface TopologyViewProps {
+  scan: NmapScan;
+  hosts: NmapHost[];
+  store: AppStore;
+}
+
+// Beyond this the SVG gets too heavy to draw; the DOT export still works
+const MAX_DRAWN_NODES = 2000;
+const ZOOM_STEPS = [0.25, 0.5, 0.75, 1, 1.5, 2];
+
+export function TopologyView({ scan, hosts, store }: TopologyViewProps) {
+  const [colorMode, setColorMode] = useState<TopologyColorMode>('os');
+  const [zoom, setZoom] = useState(1);
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const topology = useMemo(() => buildTopology(hosts), [hosts]);
+  const layout = useMemo(() => layoutTopology(topology), [topology]);
+  const tooLarge = topology.nodes.length > MAX_DRAWN_NODES;
+  const routerCount = topology.nodes.filter(n => n.kind === 'router').length;
+  const tracedCount = hosts.length - topology.untraced;
+
+  const openHost = (node: TopologyNode) => {
+    if (!node.hostId) return;
+    // Switching views clears the selected host, so switch first
+    store.setViewMode('hosts');
+    store.setSelectedHostId(node.hostId);
+  };
+
+  const exportFile = (format: 'svg' | 'dot') => {
+    const ts = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+    if (format === 'svg') {
+      downloadExport(topologyToSVG(topology, layout, colorMode), `nmap-topology-${ts}.svg`, 'image/svg+xml');
+    } else {
+      downloadExport(topologyToDOT(topology, colorMode), `nmap-topology-${ts}.dot`, 'text/vnd.graphviz');
+    }
+  };
+
+  const zoomBy = (step: number) => {
+    const i = ZOOM_STEPS.indexOf(zoom);
+    setZoom(ZOOM_STEPS[Math.max(0, Math.min(ZOOM_STEPS.length - 1, i + step))]);
+  };
+
+  // Edges touching the hovered node are highlighted
+  const isHighlighted = (from: string, to: string) => hovered !== null && (from === hovered || to === hovered);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <div className="toolbar" role="toolbar" aria-label="Topology controls">
+        <label className="form-label" style={{ margin: 0 }} htmlFor="topology-color">Color by</label>
+        <select id="topology-color" className="select" value={colorMode} onChange={e => setColorMode(e.target.value as TopologyColorMode)}>
+          <option value="os">OS family</option>
+          <option value="ports">Open ports</option>
+        </select>
+        <div className="toolbar-divider" />
+        <button className="btn btn-sm btn-ghost" onClick={() => zoomBy(-1)} disabled={zoom === ZOOM_STEPS[0]} aria-label="Zoom out">{'\u2212'}</button>
+        <span className="result-count">{Math.round(zoom * 100)}%</span>
+        <button className="btn btn-sm btn-ghost" onClick={() => zoomBy(1)} disabled={zoom === ZOOM_STEPS[ZOOM_STEPS.length - 1]} aria-label="Zoom in">+</button>
+        <div className="toolbar-divider" />
+        <span className="result-count" aria-live="polite">
+          {tracedCount} traced host{tracedCount !== 1 ? 's' : ''}, {routerCount} router{routerCount !== 1 ? 's' : ''}
+          {topology.untraced > 0 && ` (${topology.untraced} without traceroute)`}
+        </span>
+        <div className="header-spacer" />
+        <button className="btn btn-sm" onClick={() => exportFile('svg')} disabled={tracedCount === 0}>Export SVG</button>
+        <button className="btn btn-sm" onClick={() => exportFile('dot')} disabled={tracedCount === 0}>Export DOT</button>
+      </div>
+
+      <div style={{ display: 'flex', gap: 12, padding: '6px 16px', flexWrap: 'wrap', fontSize: 11, color: 'var(--text-secondary)' }}>
+        {getColorLegend(colorMode).map(entry => (
+          <span key={entry.label} style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+            <span style={{ width: 10, height: 10, borderRadius: entry.label === 'Router' ? 2 : '50%', background: entry.color }} />
+            {entry.label}
+          </span>
+        ))}
+      </div>
+
+      <div style={{ flex: 1, overflow: 'auto' }}>
+        {tracedCount === 0 ? (
+          <div className="empty-state">
+            <div className="icon">{'\u2B95'}</div>
+            <div>No traceroute data in {hosts.length === scan.hosts.length ? 'this scan' : 'the filtered hosts'}</div>
+            <div style={{ fontSize: 12, marginTop: 4 }}>Scan with <span className="mono">--traceroute</span> (or <span className="mono">-A</span>) to map the network</div>
+          </div>
+        ) : tooLarge ? (
+          <div className="empty-state">
+            <div>The graph has {topology.nodes.length} nodes, too many to draw here.</div>
+            <div style={{ fontSize: 12, marginTop: 4 }}>Narrow the hosts with filters, or export it as DOT for Graphviz.</div>
+          </div>
+        ) : (
+          <svg
+            width={layout.width * zoom}
+            height={layout.height * zoom}
+            viewBox={`0 0 ${layout.width} ${layout.height}`}
+            role="img"
+            aria-label="Network topology"
+            style={{ display: 'block' }}
+          >
+            {topology.edges.map(edge => {
+              const a = layout.positions.get(edge.from)!;
+              const b = layout.positions.get(edge.to)!;
+              const label = formatEdgeLabel(edge);
+              const highlighted = isHighlighted(edge.from, edge.to);
+              return (
+                <g key={`${edge.from}>${edge.to}`}>
+                  <line
+                    x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+                    stroke={highlighted ? 'var(--accent)' : 'var(--border-light)'}
+                    strokeWidth={Math.min(4, 1 + Math.log2(edge.traces))}
+                    strokeDasharray={edge.skipped > 0 ? '4 3' : undefined}
+                  />
+                  {label && (
+                    <text x={(a.x + b.x) / 2} y={(a.y + b.y) / 2 - 4} fontSize={9} textAnchor="middle"
+                      fill={highlighted ? 'var(--accent)' : 'var(--text-muted)'}>
+                      {label}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+            {topology.nodes.map(node => {
+              const { x, y } = layout.positions.get(node.id)!;
+              const fill = getNodeColor(node, colorMode);
+              const clickable = !!node.hostId;
+              return (
+                <g
+                  key={node.id}
+                  onClick={clickable ? () => openHost(node) : undefined}
+                  onKeyDown={clickable ? e => { if (e.key === 'Enter') openHost(node); } : undefined}
+                  onMouseEnter={() => setHovered(node.id)}
+                  onMouseLeave={() => setHovered(null)}
+                  tabIndex={clickable ? 0 : undefined}
+                  role={clickable ? 'button' : undefined}
+                  style={{ cursor: clickable ? 'pointer' : 'default' }}
+                >
+                  <title>
+                    {node.address ? `${node.label} (${node.address})` : node.label}
+                    {node.kind !== 'scanner' && `\n${node.depth} hop${node.depth !== 1 ? 's' : ''}, ${node.traces} trace${node.traces !== 1 ? 's' : ''}`}
+                    {node.hostId && `\n${node.osFamily || 'Unknown OS'}, ${node.openPorts} open port${node.openPorts !== 1 ? 's' : ''}`}
+                  </title>
+                  {node.kind === 'target' ? (
+                    <circle cx={x} cy={y} r={9} fill={fill} stroke={hovered === node.id ? 'var(--accent)' : 'var(--bg-primary)'} strokeWidth={2} />
+                  ) : (
+                    <rect x={x - 8} y={y - 8} width={16} height={16} rx={3} fill={fill}
+                      stroke={hovered === node.id ? 'var(--accent)' : 'var(--bg-primary)'} strokeWidth={2} />
+                  )}
+                  <text x={x} y={y + 22} fontSize={10} textAnchor="middle" fill="var(--text-secondary)">{node.label}</text>
+                </g>
+              );
+            })}
+          </svg>
+        )}
+      </div>
+    </div>
+  );
+}
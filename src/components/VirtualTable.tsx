@@ -0,0 +1,394 @@
+import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { VariableSizeList, areEqual, type ListChildComponentProps, type ListOnItemsRenderedProps } from 'react-window';
+
+// Virtualized table shared by the Hosts, Ports and Services views. Only the
+// rows in view are rendered, so lists of 100k+ rows scroll without paging.
+// The header sticks to the top of the scroll area; columns can be resized
+// (drag the header edge, or Alt+Shift+Arrow) and reordered (drag a header,
+// or Alt+Arrow); rows are navigated with the arrow, Page and Home/End keys.
+
+export const ROW_HEIGHT = 32;
+export const HEADER_HEIGHT = 33;
+const DEFAULT_MIN_WIDTH = 48;
+const RESIZE_STEP = 16;
+
+export interface VirtualColumn<T> {
+  id: string;
+  label: React.ReactNode;
+  ariaLabel?: string; // for headers whose label isn't text
+  width: number;
+  minWidth?: number;
+  sortable?: boolean; // default: true when the table has onSort
+  resizable?: boolean; // default true
+  reorderable?: boolean; // default true
+  className?: string;
+  render: (row: T, index: number) => React.ReactNode;
+  cellProps?: (row: T) => React.HTMLAttributes<HTMLDivElement>;
+}
+
+interface VirtualTableProps<T> {
+  rows: T[];
+  columns: VirtualColumn<T>[];
+  getRowKey: (row: T) => string;
+  ariaLabel: string;
+  /** Content shown under a row's cells (expanded details, search snippets), and its height. */
+  renderDetail?: (row: T, index: number) => React.ReactNode;
+  detailHeight?: (row: T, index: number) => number;
+  getRowClassName?: (row: T) => string;
+  onRowClick?: (row: T, index: number) => void;
+  onRowActivate?: (row: T, index: number) => void; // Enter; defaults to onRowClick
+  onRowToggle?: (row: T, index: number) => void; // Space
+  onRowContextMenu?: (e: React.MouseEvent, row: T) => void;
+  getSortDirection?: (columnId: string) => 'asc' | 'desc' | null;
+  onSort?: (columnId: string) => void;
+  /** Column order and widths, when the caller keeps them (otherwise they live in the table). */
+  columnOrder?: string[];
+  onColumnOrderChange?: (order: string[]) => void;
+  columnWidths?: Record<string, number>;
+  onColumnWidthsChange?: (widths: Record<string, number>) => void;
+  height?: number; // fixed height; fills the parent when unset
+  emptyState?: React.ReactNode;
+}
+
+// What rows render from; kept stable between renders so memoized rows only update when it changes
+interface RowData<T> {
+  rows: T[];
+  renderDetail: VirtualTableProps<T>['renderDetail'];
+  getRowClassName: VirtualTableProps<T>['getRowClassName'];
+  onRowClick: VirtualTableProps<T>['onRowClick'];
+  onRowContextMenu: VirtualTableProps<T>['onRowContextMenu'];
+  columns: VirtualColumn<T>[];
+  widths: Record<string, number>;
+  totalWidth: number;
+  activeIndex: number;
+  idPrefix: string;
+  setActiveIndex: (index: number) => void;
+}
+
+function RowContent<T>({ index, style, data }: ListChildComponentProps<RowData<T>>) {
+  const { rows, renderDetail, getRowClassName, onRowClick, onRowContextMenu, columns, widths, totalWidth, activeIndex, idPrefix, setActiveIndex } = data;
+  const row = rows[index];
+  const detail = renderDetail?.(row, index);
+  const className = ['vt-row', onRowClick ? 'clickable' : '', index === activeIndex ? 'active' : '', getRowClassName?.(row) || '']
+    .filter(Boolean).join(' ');
+  return (
+    <div
+      id={`${idPrefix}-row-${index}`}
+      role="row"
+      aria-rowindex={index + 2}
+      aria-selected={index === activeIndex}
+      className={className}
+      style={{ ...style, width: totalWidth, minWidth: '100%' }}
+      onClick={() => {
+        setActiveIndex(index);
+        onRowClick?.(row, index);
+      }}
+      onContextMenu={onRowContextMenu ? e => onRowContextMenu(e, row) : undefined}
+    >
+      <div className="vt-cells" style={{ height: ROW_HEIGHT }}>
+        {columns.map(col => {
+          const cellProps = col.cellProps?.(row);
+          return (
+            <div
+              key={col.id}
+              role="gridcell"
+              {...cellProps}
+              className={`vt-cell ${col.className || ''}`}
+              style={{ ...cellProps?.style, width: widths[col.id] }}
+            >
+              {col.render(row, index)}
+            </div>
+          );
+        })}
+      </div>
+      {detail && <div className="vt-detail">{detail}</div>}
+    </div>
+  );
+}
+
+const Row = memo(RowContent, areEqual) as typeof RowContent;
+
+// Height of the element, kept up to date as it resizes
+function useElementHeight(ref: React.RefObject<HTMLElement>): number {
+  const [height, setHeight] = useState(0);
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    setHeight(el.clientHeight);
+    const observer = new ResizeObserver(() => setHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [ref]);
+  return height;
+}
+
+// Keep a saved column order in step with the columns currently shown
+function reconcileOrder(order: string[], columns: VirtualColumn<unknown>[]): string[] {
+  const ids = columns.map(c => c.id);
+  return [...order.filter(id => ids.includes(id)), ...ids.filter(id => !order.includes(id))];
+}
+
+let tableCount = 0;
+
+export function VirtualTable<T>(props: VirtualTableProps<T>) {
+  const { rows, columns, ariaLabel, getSortDirection, onSort, emptyState } = props;
+  const listRef = useRef<VariableSizeList>(null);
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLDivElement>(null);
+  const outerRef = useRef<HTMLDivElement>(null);
+  const height = useElementHeight(bodyRef);
+  const [idPrefix] = useState(() => `vt${++tableCount}`);
+
+  const [ownOrder, setOwnOrder] = useState<string[]>(() => columns.map(c => c.id));
+  const [ownWidths, setOwnWidths] = useState<Record<string, number>>({});
+  // Widths while a column is being dragged wider or narrower
+  const [dragWidths, setDragWidths] = useState<Record<string, number> | null>(null);
+  const order = props.columnOrder ?? ownOrder;
+  const savedWidths = dragWidths ?? props.columnWidths ?? ownWidths;
+  const setOrder = useCallback((next: string[]) => {
+    setOwnOrder(next);
+    props.onColumnOrderChange?.(next);
+  }, [props.onColumnOrderChange]);
+  const setWidths = useCallback((next: Record<string, number>) => {
+    setOwnWidths(next);
+    props.onColumnWidthsChange?.(next);
+  }, [props.onColumnWidthsChange]);
+
+  const orderedColumns = useMemo(() => {
+    const byId = new Map(columns.map(c => [c.id, c]));
+    return reconcileOrder(order, columns as VirtualColumn<unknown>[]).map(id => byId.get(id)!);
+  }, [columns, order]);
+  const widths = useMemo(() => {
+    const result: Record<string, number> = {};
+    for (const col of columns) result[col.id] = Math.max(col.minWidth ?? DEFAULT_MIN_WIDTH, savedWidths[col.id] ?? col.width);
+    return result;
+  }, [columns, savedWidths]);
+  const totalWidth = orderedColumns.reduce((sum, col) => sum + widths[col.id], 0);
+
+  // ========== Rows ==========
+
+  const [activeIndex, setActiveIndex] = useState(-1);
+  useEffect(() => {
+    if (activeIndex >= rows.length) setActiveIndex(rows.length - 1);
+  }, [rows.length, activeIndex]);
+
+  const itemSize = useCallback((index: number) => {
+    const row = rows[index];
+    return ROW_HEIGHT + (props.detailHeight ? props.detailHeight(row, index) : 0);
+  }, [rows, props.detailHeight]);
+
+  // Heights are cached by react-window; drop the cache whenever they may have changed
+  useEffect(() => {
+    listRef.current?.resetAfterIndex(0);
+  }, [itemSize]);
+
+  const moveTo = useCallback((index: number) => {
+    if (rows.length === 0) return;
+    const next = Math.max(0, Math.min(rows.length - 1, index));
+    setActiveIndex(next);
+    listRef.current?.scrollToItem(next);
+  }, [rows.length]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keys typed into inputs and headers inside the table are theirs
+    if (e.target !== e.currentTarget) return;
+    const page = Math.max(1, Math.floor(height / ROW_HEIGHT) - 1);
+    const current = activeIndex < 0 ? -1 : activeIndex;
+    switch (e.key) {
+      case 'ArrowDown': moveTo(current + 1); break;
+      case 'ArrowUp': moveTo(current - 1); break;
+      case 'PageDown': moveTo(current + page); break;
+      case 'PageUp': moveTo(current - page); break;
+      case 'Home': moveTo(0); break;
+      case 'End': moveTo(rows.length - 1); break;
+      case 'Enter': {
+        if (current < 0) return;
+        const activate = props.onRowActivate ?? props.onRowClick;
+        activate?.(rows[current], current);
+        break;
+      }
+      case ' ':
+        if (current < 0 || !props.onRowToggle) return;
+        props.onRowToggle(rows[current], current);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  // ========== Columns ==========
+
+  const dragColumn = useRef<string | null>(null);
+
+  const moveColumn = (id: string, beforeId: string | null) => {
+    const current = orderedColumns.map(c => c.id).filter(c => c !== id);
+    const at = beforeId ? current.indexOf(beforeId) : current.length;
+    current.splice(at < 0 ? current.length : at, 0, id);
+    setOrder(current);
+  };
+
+  const shiftColumn = (id: string, delta: number) => {
+    const ids = orderedColumns.map(c => c.id);
+    const from = ids.indexOf(id);
+    const to = from + delta;
+    if (to < 0 || to >= ids.length || orderedColumns[to].reorderable === false) return;
+    ids.splice(from, 1);
+    ids.splice(to, 0, id);
+    setOrder(ids);
+  };
+
+  const resizeColumn = (col: VirtualColumn<T>, width: number) => {
+    setWidths({ ...savedWidths, [col.id]: Math.max(col.minWidth ?? DEFAULT_MIN_WIDTH, Math.round(width)) });
+  };
+
+  const startResize = (e: React.MouseEvent, col: VirtualColumn<T>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = widths[col.id];
+    let latest = { ...savedWidths };
+    const onMove = (ev: MouseEvent) => {
+      latest = { ...latest, [col.id]: Math.max(col.minWidth ?? DEFAULT_MIN_WIDTH, Math.round(startWidth + ev.clientX - startX)) };
+      setDragWidths(latest);
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+      // Controlled widths are reported once, at the end of the drag
+      setWidths(latest);
+      setDragWidths(null);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const header = (
+    <div className="vt-header" role="row" aria-rowindex={1} style={{ width: totalWidth, minWidth: '100%', height: HEADER_HEIGHT }}>
+      {orderedColumns.map(col => {
+        const sortable = !!onSort && col.sortable !== false;
+        const direction = getSortDirection?.(col.id) ?? null;
+        const reorderable = col.reorderable !== false;
+        return (
+          <div
+            key={col.id}
+            role="columnheader"
+            className={`vt-header-cell ${sortable ? 'sortable' : ''}`}
+            style={{ width: widths[col.id] }}
+            aria-label={col.ariaLabel}
+            aria-sort={sortable ? direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none' : undefined}
+            tabIndex={sortable || reorderable ? 0 : undefined}
+            draggable={reorderable}
+            onDragStart={reorderable ? e => {
+              dragColumn.current = col.id;
+              e.dataTransfer.effectAllowed = 'move';
+            } : undefined}
+            onDragOver={e => {
+              if (dragColumn.current && reorderable) e.preventDefault();
+            }}
+            onDrop={e => {
+              e.preventDefault();
+              if (dragColumn.current && dragColumn.current !== col.id && reorderable) moveColumn(dragColumn.current, col.id);
+              dragColumn.current = null;
+            }}
+            onDragEnd={() => { dragColumn.current = null; }}
+            onClick={sortable ? () => onSort!(col.id) : undefined}
+            onKeyDown={e => {
+              if (e.target !== e.currentTarget) return;
+              if (e.altKey && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+                const delta = e.key === 'ArrowLeft' ? -1 : 1;
+                if (e.shiftKey) {
+                  if (col.resizable !== false) resizeColumn(col, widths[col.id] + delta * RESIZE_STEP);
+                } else if (reorderable) {
+                  shiftColumn(col.id, delta);
+                }
+                e.preventDefault();
+              } else if (sortable && (e.key === 'Enter' || e.key === ' ')) {
+                onSort!(col.id);
+                e.preventDefault();
+              }
+            }}
+          >
+            <span className="vt-header-label">{col.label}</span>
+            {direction && <span className="sort-indicator" aria-hidden="true">{direction === 'asc' ? ' \u25B2' : ' \u25BC'}</span>}
+            {col.resizable !== false && (
+              <span
+                className="vt-resize-handle"
+                onMouseDown={e => startResize(e, col)}
+                onClick={e => e.stopPropagation()}
+                aria-hidden="true"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const { renderDetail, getRowClassName, onRowClick, onRowContextMenu } = props;
+  const itemData = useMemo((): RowData<T> => ({
+    rows,
+    renderDetail,
+    getRowClassName,
+    onRowClick,
+    onRowContextMenu,
+    columns: orderedColumns,
+    widths,
+    totalWidth,
+    activeIndex,
+    idPrefix,
+    setActiveIndex,
+  }), [rows, renderDetail, getRowClassName, onRowClick, onRowContextMenu, orderedColumns, widths, totalWidth, activeIndex, idPrefix, setActiveIndex]);
+
+  // The header sits outside the scrolling list and follows it sideways
+  const listShown = rows.length > 0 && height > 0;
+
+  // Rows currently mounted, overscan included; aria-activedescendant may only point at one of them
+  const [renderedRange, setRenderedRange] = useState<[number, number]>([0, -1]);
+  const onItemsRendered = useCallback(({ overscanStartIndex, overscanStopIndex }: ListOnItemsRenderedProps) => {
+    setRenderedRange(prev => prev[0] === overscanStartIndex && prev[1] === overscanStopIndex ? prev : [overscanStartIndex, overscanStopIndex]);
+  }, []);
+  const activeRendered = listShown && activeIndex >= renderedRange[0] && activeIndex <= renderedRange[1];
+  useEffect(() => {
+    const outer = outerRef.current;
+    if (!listShown || !outer) return;
+    const sync = () => {
+      if (headerRef.current) headerRef.current.scrollLeft = outer.scrollLeft;
+    };
+    outer.addEventListener('scroll', sync);
+    return () => outer.removeEventListener('scroll', sync);
+  }, [listShown]);
+
+  return (
+    <div
+      className="vt-container"
+      style={props.height !== undefined ? { height: props.height, flex: 'none' } : undefined}
+      role="grid"
+      aria-label={ariaLabel}
+      aria-rowcount={rows.length + 1}
+      aria-activedescendant={activeRendered ? `${idPrefix}-row-${activeIndex}` : undefined}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+    >
+      <div ref={headerRef} className="vt-header-scroll">{header}</div>
+      <div ref={bodyRef} className="vt-body">
+        {rows.length === 0 ? emptyState : listShown && (
+          <VariableSizeList<RowData<T>>
+            ref={listRef}
+            outerRef={outerRef}
+            height={height}
+            width="100%"
+            itemCount={rows.length}
+            itemSize={itemSize}
+            itemData={itemData}
+            itemKey={index => props.getRowKey(rows[index])}
+            onItemsRendered={onItemsRendered}
+            overscanCount={8}
+          >
+            {Row}
+          </VariableSizeList>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import React, { useState, useMemo } from 'react';
+import type { NmapScan, VulnFinding, VulnState } from '../types/nmap';
+import type { AppStore } from '../store/appStore';
+import { cvssSeverity } from '../utils/vulnExtractor';
+import { compareIPs } from '../utils/filterEngine';
+
+interface VulnerabilitiesViewProps {
+  scan: NmapScan;
+  findings: VulnFinding[];
+  store: AppStore;
+}
+
+type VulnSortField = 'vulnId' | 'cvss' | 'state' | 'host' | 'script';
+type VulnGroupBy = 'none' | 'cve' | 'host';
+
+const STATE_ORDER: Record<VulnState, number> = {
+  'VULNERABLE': 0,
+  'LIKELY': 1,
+  'UNKNOWN': 2,
+  'NOT VULNERABLE': 3,
+};
+
+const SEVERITY_TAG: Record<ReturnType<typeof cvssSeverity>, string> = {
+  critical: 'tag-red',
+  high: 'tag-red',
+  medium: 'tag-yellow',
+  low: 'tag-green',
+  none: 'tag-blue',
+};
+
+export function VulnerabilitiesView({ scan, findings, store }: VulnerabilitiesViewProps) {
+  const [search, setSearch] = useState('');
+  const [stateFilter, setStateFilter] = useState<string>('affected');
+  const [groupBy, setGroupBy] = useState<VulnGroupBy>('none');
+  const [sortField, setSortField] = useState<VulnSortField>('cvss');
+  const [sortDir, setSortDir] = useState<'asc' | 'desc'>('desc');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+
+  // Filter
+  const filtered = useMemo(() => {
+    let result = findings;
+    if (stateFilter === 'affected') result = result.filter(f => f.state !== 'NOT VULNERABLE');
+    else if (stateFilter !== 'all') result = result.filter(f => f.state === stateFilter);
+    if (search) {
+      const q = search.toLowerCase();
+      result = result.filter(f =>
+        f.vulnId.toLowerCase().includes(q) ||
+        f.title.toLowerCase().includes(q) ||
+        f.scriptId.toLowerCase().includes(q) ||
+        f.hostAddr.toLowerCase().includes(q) ||
+        f.hostname.toLowerCase().includes(q) ||
+        String(f.port ?? '').includes(q)
+      );
+    }
+    return result;
+  }, [findings, stateFilter, search]);
+
+  // Sort
+  const sorted = useMemo(() => {
+    return [...filtered].sort((a, b) => {
+      const dir = sortDir === 'asc' ? 1 : -1;
+      switch (sortField) {
+        case 'vulnId': return a.vulnId.localeCompare(b.vulnId) * dir;
+        case 'cvss': return ((a.cvss ?? -1) - (b.cvss ?? -1)) * dir;
+        case 'state': return (STATE_ORDER[a.state] - STATE_ORDER[b.state]) * dir;
+        case 'host': return (compareIPs(a.hostAddr, b.hostAddr) || (a.port ?? -1) - (b.port ?? -1)) * dir;
+        case 'script': return a.scriptId.localeCompare(b.scriptId) * dir;
+        default: return 0;
+      }
+    });
+  }, [filtered, sortField, sortDir]);
+
+  // Group (preserving the sort order inside each group)
+  const groups = useMemo(() => {
+    if (groupBy === 'none') return [{ key: '', label: '', findings: sorted }];
+    const map = new Map<string, { key: string; label: string; findings: VulnFinding[] }>();
+    for (const f of sorted) {
+      const key = groupBy === 'cve' ? f.vulnId : f.hostId;
+      const existing = map.get(key);
+      if (existing) {
+        existing.findings.push(f);
+      } else {
+        map.set(key, {
+          key,
+          label: groupBy === 'cve' ? f.vulnId : `${f.hostAddr}${f.hostname ? ` (${f.hostname})` : ''}`,
+          findings: [f],
+        });
+      }
+    }
+    return Array.from(map.values());
+  }, [sorted, groupBy]);
+
+  const counts = useMemo(() => ({
+    vulnerable: findings.filter(f => f.state === 'VULNERABLE').length,
+    likely: findings.filter(f => f.state === 'LIKELY').length,
+    hosts: new Set(findings.filter(f => f.state !== 'NOT VULNERABLE').map(f => f.hostId)).size,
+    cves: new Set(findings.filter(f => f.state !== 'NOT VULNERABLE').map(f => f.vulnId)).size,
+  }), [findings]);
+
+  const handleSort = (field: VulnSortField) => {
+    if (sortField === field) {
+      setSortDir(prev => prev === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortDir(field === 'cvss' ? 'desc' : 'asc');
+    }
+  };
+
+  const getSortIndicator = (field: VulnSortField) => {
+    if (sortField !== field) return '';
+    return sortDir === 'asc' ? ' \u25B2' : ' \u25BC';
+  };
+
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const openHost = (hostId: string) => {
+    store.setViewMode('hosts');
+    store.setSelectedHostId(hostId);
+  };
+
+  const renderRow = (f: VulnFinding) => {
+    const isExpanded = expandedId === f.id;
+    return (
+      <React.Fragment key={f.id}>
+        <tr className="vuln-table-row" onClick={() => setExpandedId(isExpanded ? null : f.id)}>
+          <td className="mono">
+            {f.vulnId}
+            {f.exploit && <span className="tag tag-red" style={{ marginLeft: 6 }} title="Public exploit available">exploit</span>}
+          </td>
+          <td>
+            {f.cvss !== null
+              ? <span className={`tag ${SEVERITY_TAG[cvssSeverity(f.cvss)]}`}>{f.cvss.toFixed(1)}</span>
+              : '-'}
+          </td>
+          <td><span className={`vuln-state vuln-state-${f.state.toLowerCase().replace(/\s+/g, '-')}`}>{f.state}</span></td>
+          <td
+            className="mono"
+            style={{ color: 'var(--accent)' }}
+            onClick={e => { e.stopPropagation(); openHost(f.hostId); }}
+            title={`View ${f.hostAddr} in Hosts`}
+          >
+            {f.hostAddr}{f.port !== null ? `:${f.port}/${f.protocol}` : ''}
+          </td>
+          <td>{f.scriptId}</td>
+          <td className="truncate" style={{ maxWidth: 360 }} title={f.title}>{f.title || '-'}</td>
+        </tr>
+        {isExpanded && (
+          <tr>
+            <td colSpan={6} style={{ background: 'var(--bg-tertiary)', padding: '8px 16px' }}>
+              <div className="info-grid" style={{ marginBottom: 8 }}>
+                <span className="label">Title</span>
+                <span className="value">{f.title || '-'}</span>
+                <span className="label">Host</span>
+                <span className="value mono">{f.hostAddr}{f.hostname ? ` (${f.hostname})` : ''}</span>
+                <span className="label">Location</span>
+                <span className="value mono">{f.port !== null ? `${f.port}/${f.protocol}` : 'host script'}</span>
+              </div>
+              {f.references.length > 0 && (
+                <>
+                  <div style={{ fontSize: 11, color: 'var(--text-muted)', marginBottom: 4 }}>
+                    References ({f.references.length}):
+                  </div>
+                  {f.references.map((ref, i) => (
+                    <div key={i} className="mono" style={{ fontSize: 11, color: 'var(--accent)', wordBreak: 'break-all' }}>{ref}</div>
+                  ))}
+                </>
+              )}
+              <button className="btn btn-sm" style={{ marginTop: 8 }} onClick={() => openHost(f.hostId)}>
+                Open host details
+              </button>
+            </td>
+          </tr>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <div className="toolbar">
+        <div className="search-box" style={{ maxWidth: 300 }}>
+          <span className="icon">{'\u2315'}</span>
+          <input
+            className="input"
+            type="text"
+            placeholder="Search CVEs, hosts, scripts..."
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            style={{ paddingLeft: 28 }}
+          />
+        </div>
+        <select className="select" value={stateFilter} onChange={e => setStateFilter(e.target.value)} aria-label="Filter by state">
+          <option value="affected">Vulnerable + Likely + Unknown</option>
+          <option value="all">All States</option>
+          <option value="VULNERABLE">VULNERABLE</option>
+          <option value="LIKELY">LIKELY</option>
+          <option value="NOT VULNERABLE">NOT VULNERABLE</option>
+          <option value="UNKNOWN">UNKNOWN</option>
+        </select>
+        <select className="select" value={groupBy} onChange={e => setGroupBy(e.target.value as VulnGroupBy)} aria-label="Group findings">
+          <option value="none">No grouping</option>
+          <option value="cve">Group by CVE</option>
+          <option value="host">Group by host</option>
+        </select>
+        <span className="result-count">{sorted.length} findings</span>
+        <div className="header-spacer" />
+        <span className="result-count">
+          {counts.vulnerable} vulnerable / {counts.likely} likely across {counts.hosts} of {scan.hosts.length} hosts ({counts.cves} IDs)
+        </span>
+      </div>
+
+      <div style={{ flex: 1, overflow: 'auto' }}>
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th onClick={() => handleSort('vulnId')}>ID{getSortIndicator('vulnId')}</th>
+              <th onClick={() => handleSort('cvss')}>CVSS{getSortIndicator('cvss')}</th>
+              <th onClick={() => handleSort('state')}>State{getSortIndicator('state')}</th>
+              <th onClick={() => handleSort('host')}>Host:Port{getSortIndicator('host')}</th>
+              <th onClick={() => handleSort('script')}>Script{getSortIndicator('script')}</th>
+              <th>Title</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map(group => {
+              if (groupBy === 'none') return group.findings.map(renderRow);
+              const isCollapsed = collapsedGroups.has(group.key);
+              const maxCvss = Math.max(...group.findings.map(f => f.cvss ?? -1));
+              return (
+                <React.Fragment key={group.key}>
+                  <tr className="clickable vuln-group-row" onClick={() => toggleGroup(group.key)}>
+                    <td colSpan={6}>
+                      {isCollapsed ? '\u25B6' : '\u25BC'}{' '}
+                      <span className="mono">{group.label}</span>
+                      <span className="tag tag-purple" style={{ marginLeft: 8 }}>{group.findings.length}</span>
+                      {maxCvss >= 0 && (
+                        <span className={`tag ${SEVERITY_TAG[cvssSeverity(maxCvss)]}`} style={{ marginLeft: 6 }}>
+                          max {maxCvss.toFixed(1)}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                  {!isCollapsed && group.findings.map(renderRow)}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+        {sorted.length === 0 && (
+          <div className="empty-state">
+            <div className="icon">{'\u26A0'}</div>
+            <div>
+              {findings.length === 0
+                ? 'No vulnerability findings. Run nmap with --script vuln or vulners to populate this view.'
+                : 'No findings match your current filters'}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,96 @@
 import { app, BrowserWindow, Menu, dialog, ipcMain, shell } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
+import { StringDecoder } from 'string_decoder';
+import { startScan, cancelScan, stopRunningScan } from './scanRunner';
 
 let mainWindow: BrowserWindow | null = null;
 
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100 MB
+// Scan files above this size are streamed to the renderer in chunks instead of one IPC message
+const STREAM_THRESHOLD = 16 * 1024 * 1024; // 16 MB
+const STREAM_CHUNK_SIZE = 4 * 1024 * 1024;
+
+const ALL_FILES_FILTER: Electron.FileFilter = { name: 'All Files', extensions: ['*'] };
+// Open dialog filters, as reported by the renderer's importer registry
+let openFilters: Electron.FileFilter[] = [];
+let fileArgsHandled = false;
+
+// Validate filters shape from renderer to prevent misleading dialog
+function validateFilters(filters: unknown): Electron.FileFilter[] {
+  if (!Array.isArray(filters)) return [];
+  return filters.filter((f: unknown): f is Electron.FileFilter => {
+    const filter = f as Partial<Record<keyof Electron.FileFilter, unknown>> | null;
+    return !!filter && typeof filter.name === 'string' && Array.isArray(filter.extensions) &&
+      filter.extensions.every((ext: unknown) => typeof ext === 'string');
+  });
+}
+
+function hasOpenableExtension(filePath: string): boolean {
+  const lower = filePath.toLowerCase();
+  return openFilters.some(f => f.extensions.some(ext => ext !== '*' && lower.endsWith(`.${ext}`)));
+}
+
+// Stream a large scan file to the renderer, which parses it in a Web Worker
+function streamFileToRenderer(filePath: string, totalBytes: number) {
+  const fileName = path.basename(filePath);
+  const send = (data: object) => mainWindow?.webContents.send('file-stream', { fileName, totalBytes, ...data });
+  const decoder = new StringDecoder('utf8');
+  let bytesRead = 0;
+
+  send({ type: 'start', bytesRead: 0 });
+  const stream = fs.createReadStream(filePath, { highWaterMark: STREAM_CHUNK_SIZE });
+  stream.on('data', (chunk) => {
+    bytesRead += chunk.length;
+    send({ type: 'chunk', text: decoder.write(chunk as Buffer), bytesRead });
+  });
+  stream.on('end', () => {
+    const rest = decoder.end();
+    if (rest) send({ type: 'chunk', text: rest, bytesRead });
+    send({ type: 'end', bytesRead });
+  });
+  stream.on('error', (err) => {
+    send({ type: 'error', bytesRead, message: err.message });
+  });
+}
+
+/**
+ * Read a file chosen by the user. Files over MAX_FILE_SIZE need confirmation;
+ * large scan files are streamed over 'file-stream' and null is returned.
+ */
+async function readUserFile(filePath: string): Promise<{ content: string; fileName: string } | null> {
+  const stat = fs.statSync(filePath);
+  if (!stat.isFile()) return null;
+  if (stat.size > MAX_FILE_SIZE && mainWindow) {
+    const { response } = await dialog.showMessageBox(mainWindow, {
+      type: 'warning',
+      buttons: ['Open', 'Cancel'],
+      defaultId: 0,
+      cancelId: 1,
+      title: 'Large file',
+      message: `${path.basename(filePath)} is ${Math.round(stat.size / (1024 * 1024))} MB.`,
+      detail: 'Large scans can take a while to load and use a lot of memory.',
+    });
+    if (response !== 0) return null;
+  }
+  const isProject = filePath.endsWith('.nmapui') || filePath.endsWith('.enc');
+  if (!isProject && stat.size > STREAM_THRESHOLD) {
+    streamFileToRenderer(filePath, stat.size);
+    return null;
+  }
+  const content = fs.readFileSync(filePath, 'utf-8');
+  return { content, fileName: path.basename(filePath) };
+}
+
+async function openFileInRenderer(filePath: string) {
+  try {
+    const file = await readUserFile(filePath);
+    if (file) mainWindow?.webContents.send('file-opened', file);
+  } catch {
+    // Unreadable file: nothing to open
+  }
+}
 
 function createWindow() {
   mainWindow = new BrowserWindow({
@@ -69,24 +154,10 @@ function createMenu() {
           click: async () => {
             const result = await dialog.showOpenDialog(mainWindow!, {
               properties: ['openFile'],
-              filters: [
-                { name: 'Nmap Files', extensions: ['xml', 'gnmap', 'nmap', 'txt'] },
-                { name: 'NmapUI Projects', extensions: ['nmapui', 'enc'] },
-                { name: 'All Files', extensions: ['*'] },
-              ],
+              filters: [...openFilters, ALL_FILES_FILTER],
             });
             if (!result.canceled && result.filePaths.length > 0) {
-              const filePath = result.filePaths[0];
-              const stat = fs.statSync(filePath);
-              if (stat.size > MAX_FILE_SIZE) {
-                dialog.showErrorBox('File too large', 'Maximum file size is 100 MB.');
-                return;
-              }
-              const content = fs.readFileSync(filePath, 'utf-8');
-              mainWindow?.webContents.send('file-opened', {
-                content,
-                fileName: path.basename(filePath),
-              });
+              await openFileInRenderer(result.filePaths[0]);
             }
           },
         },
@@ -172,44 +243,39 @@ function createMenu() {
 // Handle file open from command line arguments
 // Path traversal is acceptable here: this runs in the Electron main process and
 // only opens files passed as CLI arguments by the OS (e.g. double-click or "open with").
-// We still validate extension, existence, regular-file check, and size limit.
+// We still validate extension, existence, regular-file check, and confirm very large files.
 function handleFileArgs() {
-  const allowedExtensions = ['.xml', '.gnmap', '.nmap', '.txt', '.nmapui', '.enc'];
   const filePath = process.argv.find(arg => {
     // Skip electron/chromium flags
     if (arg.startsWith('-')) return false;
-    return allowedExtensions.some(ext => arg.endsWith(ext));
+    return hasOpenableExtension(arg);
   });
   if (filePath && fs.existsSync(filePath)) {
-    // Resolve to absolute and verify it's a regular file
-    const resolved = path.resolve(filePath);
-    try {
-      const stat = fs.statSync(resolved);
-      if (!stat.isFile()) return;
-      if (stat.size > MAX_FILE_SIZE) return;
-    } catch {
-      return;
-    }
-    const content = fs.readFileSync(resolved, 'utf-8');
-    mainWindow?.webContents.send('file-opened', {
-      content,
-      fileName: path.basename(resolved),
-    });
+    // Resolve to absolute; readUserFile verifies it's a regular file
+    openFileInRenderer(path.resolve(filePath));
   }
 }
 
 // IPC handlers
+
+// The renderer reports the file types its importers accept once it has loaded;
+// files passed on the command line are opened after that, when they can be checked
+ipcMain.on('set-open-filters', (_event, filters) => {
+  openFilters = validateFilters(filters);
+  if (!fileArgsHandled) {
+    fileArgsHandled = true;
+    handleFileArgs();
+  }
+});
+
 ipcMain.handle('save-file', async (_event, { content, defaultName, filters }) => {
   if (typeof content !== 'string' || Buffer.byteLength(content, 'utf-8') > MAX_FILE_SIZE) {
     return null;
   }
-  // Validate filters shape from renderer to prevent misleading dialog
-  const safeFilters = Array.isArray(filters)
-    ? filters.filter((f: any) => f && typeof f.name === 'string' && Array.isArray(f.extensions))
-    : [{ name: 'All Files', extensions: ['*'] }];
+  const safeFilters = validateFilters(filters);
   const result = await dialog.showSaveDialog(mainWindow!, {
     defaultPath: defaultName,
-    filters: safeFilters.length > 0 ? safeFilters : [{ name: 'All Files', extensions: ['*'] }],
+    filters: safeFilters.length > 0 ? safeFilters : [ALL_FILES_FILTER],
   });
   if (!result.canceled && result.filePath) {
     fs.writeFileSync(result.filePath, content, 'utf-8');
@@ -221,34 +287,29 @@ ipcMain.handle('save-file', async (_event, { content, defaultName, filters }) =>
 ipcMain.handle('open-file-dialog', async () => {
   const result = await dialog.showOpenDialog(mainWindow!, {
     properties: ['openFile'],
-    filters: [
-      { name: 'Nmap Files', extensions: ['xml', 'gnmap', 'nmap', 'txt'] },
-      { name: 'NmapUI Projects', extensions: ['nmapui', 'enc'] },
-      { name: 'All Files', extensions: ['*'] },
-    ],
+    filters: [...openFilters, ALL_FILES_FILTER],
   });
   if (!result.canceled && result.filePaths.length > 0) {
-    const filePath = result.filePaths[0];
-    const stat = fs.statSync(filePath);
-    if (stat.size > MAX_FILE_SIZE) {
-      dialog.showErrorBox('File too large', 'Maximum file size is 100 MB.');
-      return null;
-    }
-    const content = fs.readFileSync(filePath, 'utf-8');
-    return { content, fileName: path.basename(filePath) };
+    // Streamed files are delivered through 'file-stream' instead of the return value
+    return readUserFile(result.filePaths[0]);
   }
   return null;
 });
 
+// Scans run with the local nmap; the main process rebuilds and validates the
+// arguments from the structured request, and streams the output over 'scan-event'
+ipcMain.handle('start-scan', (_event, request) => {
+  return startScan(request, (data) => mainWindow?.webContents.send('scan-event', data));
+});
+
+ipcMain.on('cancel-scan', (_event, scanId) => {
+  if (typeof scanId === 'string') cancelScan(scanId);
+});
+
 // App lifecycle
 app.whenReady().then(() => {
   createWindow();
 
-  // Handle file open after window loads
-  mainWindow?.webContents.on('did-finish-load', () => {
-    handleFileArgs();
-  });
-
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
       createWindow();
@@ -257,6 +318,7 @@ app.whenReady().then(() => {
 });
 
 app.on('window-all-closed', () => {
+  stopRunningScan();
   if (process.platform !== 'darwin') {
     app.quit();
   }
@@ -266,16 +328,6 @@ app.on('window-all-closed', () => {
 app.on('open-file', (_event, filePath) => {
   if (!mainWindow) return;
   const resolved = path.resolve(filePath);
-  const allowedExtensions = ['.xml', '.gnmap', '.nmap', '.txt', '.nmapui', '.enc'];
-  if (!allowedExtensions.some(ext => resolved.endsWith(ext))) return;
-  try {
-    const stat = fs.statSync(resolved);
-    if (!stat.isFile()) return;
-    if (stat.size > MAX_FILE_SIZE) return;
-  } catch { return; }
-  const content = fs.readFileSync(resolved, 'utf-8');
-  mainWindow.webContents.send('file-opened', {
-    content,
-    fileName: path.basename(resolved),
-  });
+  if (!hasOpenableExtension(resolved)) return;
+  openFileInRenderer(resolved);
 });
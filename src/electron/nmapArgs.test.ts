@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { buildNmapArgs, buildScanOptions, formatNmapCommand, isValidTarget, type ScanRequest } from './nmapArgs';
+
+const base: ScanRequest = { targets: ['10.0.0.0/24'], scanType: 'connect' };
+
+describe('buildNmapArgs', () => {
+  it('builds the options in order, with XML on stdout and periodic stats', () => {
+    const args = buildNmapArgs({
+      targets: ['10.0.0.0/24', 'scanme.nmap.org', '192.168.1.10-50'],
+      scanType: 'syn',
+      ports: 'T:22,80,U:53,8000-8100',
+      serviceDetection: true,
+      defaultScripts: true,
+      scripts: ['http-title', 'ssl-cert'],
+      traceroute: true,
+      skipHostDiscovery: true,
+      timing: 4,
+    });
+    expect(formatNmapCommand(args)).toBe(
+      'nmap -sS -p T:22,80,U:53,8000-8100 -sV -sC --script=http-title,ssl-cert --traceroute -Pn -T4 ' +
+      '-oX - --stats-every 2s 10.0.0.0/24 scanme.nmap.org 192.168.1.10-50',
+    );
+  });
+
+  it('uses top ports and leaves port options out of ping scans', () => {
+    expect(buildNmapArgs({ ...base, topPorts: 100 }).slice(0, 3)).toEqual(['-sT', '--top-ports', '100']);
+    expect(buildNmapArgs({ ...base, scanType: 'ping', serviceDetection: true, defaultScripts: true })[0]).toBe('-sn');
+    expect(buildNmapArgs({ ...base, scanType: 'ping', serviceDetection: true })).not.toContain('-sV');
+    expect(() => buildNmapArgs({ ...base, scanType: 'ping', ports: '80' })).toThrow('ping scan');
+  });
+
+  it('rejects values that could become options, files or shell syntax', () => {
+    for (const target of ['-iL', '--script=x', '10.0.0.1;id', '$(id)', 'a b', '`id`', '10.0.0.1|nc']) {
+      expect(isValidTarget(target)).toBe(false);
+      expect(() => buildNmapArgs({ ...base, targets: [target] })).toThrow('Invalid target');
+    }
+    expect(() => buildNmapArgs({ ...base, scripts: ['http-title,../../evil'] })).toThrow('Invalid script name');
+    expect(() => buildNmapArgs({ ...base, scripts: ['x --script-args-file=/etc/passwd'] })).toThrow('Invalid script name');
+    expect(() => buildNmapArgs({ ...base, ports: '80 -oN /tmp/x' })).toThrow('Invalid port list');
+    expect(() => buildNmapArgs({ ...base, ports: '70000' })).toThrow('Invalid port list');
+    expect(() => buildNmapArgs({ ...base, ports: '100-20' })).toThrow('Invalid port list');
+  });
+
+  it('passes excluded targets as one list after the scan options', () => {
+    expect(buildScanOptions({ scanType: 'connect', timing: 3, exclude: ['10.0.0.1', '10.0.0.64/26'] }))
+      .toEqual(['-sT', '-T3', '--exclude', '10.0.0.1,10.0.0.64/26']);
+    expect(() => buildScanOptions({ scanType: 'connect', exclude: ['10.0.0.1,2'] })).toThrow('Invalid excluded target');
+    expect(buildScanOptions({ scanType: 'udp', ipv6: true, exclude: ['2001:db8::1'] })).toEqual(['-sU', '-6', '--exclude', '2001:db8::1']);
+    expect(() => buildNmapArgs({ ...base, exclude: ['--resume'] })).toThrow('Invalid excluded target');
+  });
+
+  it('scans one address family at a time, IPv6 with -6', () => {
+    expect(buildNmapArgs({ ...base, targets: ['2001:db8::/120', 'scanme.nmap.org'], ipv6: true }).slice(0, 2)).toEqual(['-sT', '-6']);
+    expect(() => buildNmapArgs({ ...base, targets: ['2001:db8::1'] })).toThrow('IPv6 targets need an IPv6 scan');
+    expect(() => buildNmapArgs({ ...base, targets: ['2001:db8::1', '10.0.0.1'], ipv6: true })).toThrow('separate scans');
+    expect(() => buildNmapArgs({ ...base, exclude: ['2001:db8::1'] })).toThrow('must be IPv4');
+    expect(() => buildNmapArgs({ ...base, targets: ['2001:db8::/64'], ipv6: true, exclude: ['10.0.0.0/8'] })).toThrow('must be IPv6');
+  });
+
+  it('rejects malformed requests', () => {
+    expect(() => buildNmapArgs({ ...base, targets: [] })).toThrow('No targets');
+    expect(() => buildNmapArgs({ ...base, scanType: 'idle' as any })).toThrow('Unknown scan type');
+    expect(() => buildNmapArgs({ ...base, scanType: 'toString' as any })).toThrow('Unknown scan type');
+    expect(() => buildNmapArgs({ ...base, timing: 6 })).toThrow('Invalid timing');
+    expect(() => buildNmapArgs({ ...base, topPorts: 0 })).toThrow('Invalid top ports');
+    expect(() => buildNmapArgs({ ...base, targets: [42 as any] })).toThrow('Invalid target');
+    expect(() => buildNmapArgs(null as any)).toThrow('Invalid scan request');
+  });
+});
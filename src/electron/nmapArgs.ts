@@ -0,0 +1,168 @@
+// Argument builder for scans run from the app. The renderer sends a
+// structured request rather than a command line; every value is checked
+// against what nmap accepts for it, so nothing from the request can become
+// an extra option, an output file or a shell construct. nmap is spawned
+// without a shell, so the arguments are passed exactly as built here.
+//
+// This module has no Node or Electron imports: the renderer uses it to
+// preview the command, and the main process rebuilds the arguments itself
+// from the request it receives.
+
+export type ScanType = 'connect' | 'syn' | 'udp' | 'ping';
+
+export interface ScanRequest {
+  targets: string[]; // addresses, CIDRs, octet ranges (10.0.0.1-50) or hostnames
+  scanType: ScanType;
+  ports?: string; // nmap -p syntax, e.g. 22,80,1000-2000 or T:80,U:53
+  topPorts?: number;
+  serviceDetection?: boolean; // -sV
+  osDetection?: boolean; // -O
+  defaultScripts?: boolean; // -sC
+  scripts?: string[]; // --script
+  traceroute?: boolean;
+  skipHostDiscovery?: boolean; // -Pn
+  timing?: number; // -T0 .. -T5
+  exclude?: string[]; // --exclude; like targets, but without commas
+  ipv6?: boolean; // -6, for IPv6 targets
+}
+
+export const SCAN_TYPE_FLAGS: Record<ScanType, string> = {
+  connect: '-sT',
+  syn: '-sS',
+  udp: '-sU',
+  ping: '-sn',
+};
+
+// How often nmap reports progress while a scan runs
+export const STATS_INTERVAL = '2s';
+
+// XML on stdout, where the app reads it, with periodic progress
+export const OUTPUT_ARGS = ['-oX', '-', '--stats-every', STATS_INTERVAL];
+
+export const MAX_TARGETS = 256;
+
+// Targets can't start with '-'; script names are checked the same way for script suggestions
+const TARGET_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9.:*,/-]*$/;
+const SCRIPT_PATTERN = /^[a-zA-Z0-9_.-]+$/;
+const PORT_ITEM_PATTERN = /^(?:[TUS]:)?(\d{1,5})(?:-(\d{1,5}))?$/;
+// IPv4 addresses, ranges and networks (10.0.0.1,5 10.0.0-5.1 10.0.0.0/24); hostnames fit either family
+const IPV4_TARGET_PATTERN = /^[\d.,*/-]+$/;
+
+function validatePorts(ports: string): void {
+  for (const item of ports.split(',')) {
+    const m = PORT_ITEM_PATTERN.exec(item);
+    if (!m || Number(m[1]) > 65535 || (m[2] !== undefined && (Number(m[2]) > 65535 || Number(m[2]) < Number(m[1])))) {
+      throw new Error(`Invalid port list: ${ports}`);
+    }
+  }
+}
+
+/**
+ * Check a target the way it will be passed to nmap. Anything starting with
+ * '-' would be read as an option, so targets must start with a letter or digit.
+ */
+export function isValidTarget(target: string): boolean {
+  return target.length <= 255 && TARGET_PATTERN.test(target);
+}
+
+// nmap scans one address family at a time, IPv6 only with -6
+function isOtherFamily(target: string, ipv6: boolean): boolean {
+  return ipv6 ? IPV4_TARGET_PATTERN.test(target) : target.includes(':');
+}
+
+export function isValidScriptName(name: string): boolean {
+  return SCRIPT_PATTERN.test(name) && !name.includes('..');
+}
+
+/**
+ * The scan options of a request, without the output options and targets.
+ * Profiles are built with this when the targets are only given at run time.
+ * Throws when any value is invalid.
+ */
+export function buildScanOptions(request: Omit<ScanRequest, 'targets'>): string[] {
+  if (!request || typeof request !== 'object') throw new Error('Invalid scan request');
+
+  if (!Object.prototype.hasOwnProperty.call(SCAN_TYPE_FLAGS, request.scanType)) {
+    throw new Error(`Unknown scan type: ${request.scanType}`);
+  }
+  const args = [SCAN_TYPE_FLAGS[request.scanType]];
+  if (request.ipv6) args.push('-6');
+  const portScan = request.scanType !== 'ping';
+
+  if (request.ports !== undefined && request.ports !== '') {
+    if (!portScan) throw new Error('A ping scan does not take ports');
+    if (typeof request.ports !== 'string') throw new Error('Invalid port list');
+    validatePorts(request.ports);
+    args.push('-p', request.ports);
+  } else if (request.topPorts !== undefined) {
+    if (!portScan) throw new Error('A ping scan does not take ports');
+    if (!Number.isInteger(request.topPorts) || request.topPorts < 1 || request.topPorts > 65535) {
+      throw new Error(`Invalid top ports count: ${request.topPorts}`);
+    }
+    args.push('--top-ports', String(request.topPorts));
+  }
+
+  if (request.serviceDetection && portScan) args.push('-sV');
+  if (request.osDetection) args.push('-O');
+  if (request.defaultScripts && portScan) args.push('-sC');
+
+  const scripts = Array.isArray(request.scripts) ? request.scripts : [];
+  for (const script of scripts) {
+    if (typeof script !== 'string' || !isValidScriptName(script)) throw new Error(`Invalid script name: ${script}`);
+  }
+  if (scripts.length > 0) args.push(`--script=${scripts.join(',')}`);
+
+  if (request.traceroute) args.push('--traceroute');
+  if (request.skipHostDiscovery) args.push('-Pn');
+
+  if (request.timing !== undefined) {
+    if (!Number.isInteger(request.timing) || request.timing < 0 || request.timing > 5) {
+      throw new Error(`Invalid timing template: ${request.timing}`);
+    }
+    args.push(`-T${request.timing}`);
+  }
+
+  // --exclude takes one comma-separated list
+  const exclude = Array.isArray(request.exclude) ? request.exclude : [];
+  if (exclude.length > MAX_TARGETS) throw new Error(`Too many excluded targets (at most ${MAX_TARGETS})`);
+  for (const target of exclude) {
+    if (typeof target !== 'string' || !isValidTarget(target) || target.includes(',')) {
+      throw new Error(`Invalid excluded target: ${target}`);
+    }
+    if (isOtherFamily(target, request.ipv6 === true)) {
+      throw new Error(`Excluded targets must be ${request.ipv6 ? 'IPv6' : 'IPv4'} like the targets: ${target}`);
+    }
+  }
+  if (exclude.length > 0) args.push('--exclude', exclude.join(','));
+
+  return args;
+}
+
+/**
+ * Build the nmap arguments for a request. XML goes to stdout and progress
+ * is reported every STATS_INTERVAL. Throws when any value is invalid.
+ */
+export function buildNmapArgs(request: ScanRequest): string[] {
+  if (!request || typeof request !== 'object') throw new Error('Invalid scan request');
+
+  const targets = Array.isArray(request.targets) ? request.targets : [];
+  if (targets.length === 0) throw new Error('No targets given');
+  if (targets.length > MAX_TARGETS) throw new Error(`Too many targets (at most ${MAX_TARGETS})`);
+  for (const target of targets) {
+    if (typeof target !== 'string' || !isValidTarget(target)) throw new Error(`Invalid target: ${target}`);
+    if (isOtherFamily(target, request.ipv6 === true)) {
+      throw new Error(request.ipv6
+        ? 'IPv4 and IPv6 targets need separate scans (nmap scans IPv6 only with -6)'
+        : `IPv6 targets need an IPv6 scan (-6): ${target}`);
+    }
+  }
+
+  return [...buildScanOptions(request), ...OUTPUT_ARGS, ...targets];
+}
+
+/**
+ * The command line for display, e.g. in the run dialog and scan history.
+ */
+export function formatNmapCommand(args: string[]): string {
+  return ['nmap', ...args].join(' ');
+}
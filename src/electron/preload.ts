@@ -1,11 +1,38 @@
 import { contextBridge, ipcRenderer } from 'electron';
 
+interface FileStreamEvent {
+  type: 'start' | 'chunk' | 'end' | 'error';
+  fileName: string;
+  totalBytes: number;
+  bytesRead: number;
+  text?: string;
+  message?: string;
+}
+
+interface ScanEvent {
+  type: 'start' | 'chunk' | 'progress' | 'stderr' | 'end' | 'error';
+  scanId: string;
+  command?: string;
+  text?: string;
+  task?: string;
+  percent?: number | null;
+  remaining?: number | null;
+  exitCode?: number | null;
+  canceled?: boolean;
+  message?: string;
+}
+
 contextBridge.exposeInMainWorld('electronAPI', {
   onFileOpened: (callback: (data: { content: string; fileName: string }) => void) => {
     const handler = (_event: Electron.IpcRendererEvent, data: { content: string; fileName: string }) => callback(data);
     ipcRenderer.on('file-opened', handler);
     return () => { ipcRenderer.removeListener('file-opened', handler); };
   },
+  onFileStream: (callback: (data: FileStreamEvent) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: FileStreamEvent) => callback(data);
+    ipcRenderer.on('file-stream', handler);
+    return () => { ipcRenderer.removeListener('file-stream', handler); };
+  },
   onTriggerExport: (callback: () => void) => {
     const handler = () => callback();
     ipcRenderer.on('trigger-export', handler);
@@ -17,4 +44,18 @@ contextBridge.exposeInMainWorld('electronAPI', {
   openFileDialog: () => {
     return ipcRenderer.invoke('open-file-dialog');
   },
+  setOpenFilters: (filters: { name: string; extensions: string[] }[]) => {
+    ipcRenderer.send('set-open-filters', filters);
+  },
+  startScan: (request: object) => {
+    return ipcRenderer.invoke('start-scan', request);
+  },
+  cancelScan: (scanId: string) => {
+    ipcRenderer.send('cancel-scan', scanId);
+  },
+  onScanEvent: (callback: (data: ScanEvent) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: ScanEvent) => callback(data);
+    ipcRenderer.on('scan-event', handler);
+    return () => { ipcRenderer.removeListener('scan-event', handler); };
+  },
 });
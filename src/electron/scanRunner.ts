@@ -0,0 +1,149 @@
+import { spawn, type ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+import { buildNmapArgs, formatNmapCommand, type ScanRequest } from './nmapArgs';
+
+// Runs a locally installed nmap for the renderer. XML output is forwarded
+// as it is written and the --stats-every progress elements are reported
+// separately, so the renderer can parse hosts incrementally and show progress.
+
+export interface ScanEvent {
+  type: 'start' | 'chunk' | 'progress' | 'stderr' | 'end' | 'error';
+  scanId: string;
+  command?: string; // start
+  text?: string; // chunk, stderr
+  task?: string; // progress
+  percent?: number | null;
+  remaining?: number | null; // seconds
+  exitCode?: number | null; // end
+  canceled?: boolean; // end
+  message?: string; // error
+}
+
+interface RunningScan {
+  id: string;
+  child: ChildProcess;
+  canceled: boolean;
+}
+
+// Where nmap is usually installed when it isn't on the PATH of a GUI app
+const EXTRA_NMAP_DIRS: Record<string, string[]> = {
+  darwin: ['/usr/local/bin', '/opt/homebrew/bin', '/opt/local/bin'],
+  linux: ['/usr/bin', '/usr/local/bin', '/snap/bin'],
+  win32: ['C:\\Program Files (x86)\\Nmap', 'C:\\Program Files\\Nmap'],
+};
+
+// Progress elements can be split across chunks, so a little of the previous chunk is kept
+const PROGRESS_TAIL = 1024;
+
+let running: RunningScan | null = null;
+let nextScanId = 1;
+
+function findNmap(): string {
+  const exe = process.platform === 'win32' ? 'nmap.exe' : 'nmap';
+  const dirs = [...(process.env.PATH || '').split(path.delimiter), ...(EXTRA_NMAP_DIRS[process.platform] || [])];
+  for (const dir of dirs) {
+    if (!dir) continue;
+    const candidate = path.join(dir, exe);
+    try {
+      if (fs.statSync(candidate).isFile()) return candidate;
+    } catch {
+      // Not in this directory
+    }
+  }
+  throw new Error('nmap was not found. Install it from https://nmap.org/download and make sure it is on the PATH.');
+}
+
+function readAttr(tag: string, name: string): string | null {
+  const m = new RegExp(`\\b${name}="([^"]*)"`).exec(tag);
+  return m ? m[1] : null;
+}
+
+// The last task element in the text, as a progress event
+function findProgress(text: string): Pick<ScanEvent, 'task' | 'percent' | 'remaining'> | null {
+  const pattern = /<task(begin|progress|end)\b[^>]*>/g;
+  let last: RegExpExecArray | null = null;
+  for (let m = pattern.exec(text); m; m = pattern.exec(text)) last = m;
+  if (!last) return null;
+  const optionalNum = (name: string) => {
+    const value = readAttr(last![0], name);
+    return value === null ? null : Number(value);
+  };
+  return {
+    task: readAttr(last[0], 'task') || '',
+    percent: last[1] === 'begin' ? 0 : last[1] === 'end' ? 100 : optionalNum('percent'),
+    remaining: last[1] === 'progress' ? optionalNum('remaining') : null,
+  };
+}
+
+/**
+ * Start a scan. Only one scan runs at a time. Throws when the request is
+ * invalid, nmap can't be found or a scan is already running.
+ */
+export function startScan(request: ScanRequest, send: (event: ScanEvent) => void): { scanId: string; command: string } {
+  if (running) throw new Error('A scan is already running');
+  const args = buildNmapArgs(request);
+  const nmap = findNmap();
+  const scanId = `scan-${nextScanId++}`;
+  const command = formatNmapCommand(args);
+
+  const child = spawn(nmap, args, { shell: false, windowsHide: true });
+  const scan: RunningScan = { id: scanId, child, canceled: false };
+  running = scan;
+  send({ type: 'start', scanId, command });
+
+  const stdout = new StringDecoder('utf8');
+  const stderr = new StringDecoder('utf8');
+  let tail = '';
+  let lastProgress = '';
+  child.stdout?.on('data', (chunk: Buffer) => {
+    const text = stdout.write(chunk);
+    if (!text) return;
+    send({ type: 'chunk', scanId, text });
+    const progress = findProgress(tail + text);
+    // The tail may only hold the element reported last time
+    if (progress && JSON.stringify(progress) !== lastProgress) {
+      lastProgress = JSON.stringify(progress);
+      send({ type: 'progress', scanId, ...progress });
+    }
+    tail = (tail + text).slice(-PROGRESS_TAIL);
+  });
+  child.stderr?.on('data', (chunk: Buffer) => {
+    const text = stderr.write(chunk);
+    if (text) send({ type: 'stderr', scanId, text });
+  });
+
+  let finished = false;
+  child.on('error', (err) => {
+    if (finished) return;
+    finished = true;
+    if (running === scan) running = null;
+    send({ type: 'error', scanId, message: err.message });
+  });
+  child.on('close', (exitCode) => {
+    if (finished) return;
+    finished = true;
+    if (running === scan) running = null;
+    const rest = stdout.end();
+    if (rest) send({ type: 'chunk', scanId, text: rest });
+    send({ type: 'end', scanId, exitCode, canceled: scan.canceled });
+  });
+
+  return { scanId, command };
+}
+
+/**
+ * Stop the running scan. The output written so far is still delivered,
+ * followed by an 'end' event with canceled set.
+ */
+export function cancelScan(scanId: string): void {
+  if (!running || running.id !== scanId) return;
+  running.canceled = true;
+  running.child.kill();
+}
+
+// Stop a scan still running when the app quits
+export function stopRunningScan(): void {
+  if (running) cancelScan(running.id);
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  detectImporter, registerImporter, unregisterImporter, getImporters, getOpenDialogFilters,
+  getAcceptList, isImportableFileName, unrecognizedFormatMessage,
+} from './importers';
+import { parseNmapOutput } from './nmapParser';
+import type { NmapScan } from '../types/nmap';
+
+const detect = (content: string) => detectImporter(content)?.id ?? null;
+
+describe('detectImporter', () => {
+  it('picks the built-in importer for each format', () => {
+    expect(detect('<?xml version="1.0"?>\n<nmaprun scanner="nmap">')).toBe('nmap-xml');
+    expect(detect('<?xml version="1.0"?>\n<!-- masscan v1.3 scan -->\n<nmaprun scanner="masscan">')).toBe('masscan-xml');
+    expect(detect('# Nmap 7.94 scan initiated Tue Nov 14 as: nmap 10.0.0.1\nHost: 10.0.0.1 ()\tStatus: Up')).toBe('nmap-greppable');
+    expect(detect('# Nmap 7.94 scan initiated Tue Nov 14 as: nmap 10.0.0.1\nNmap scan report for 10.0.0.1')).toBe('nmap-normal');
+    expect(detect('[{"ip": "10.0.0.1", "ports": [{"port": 80}]}]')).toBe('masscan-json');
+    expect(detect('{"ip":"10.0.0.1","port":80}')).toBe('naabu-json');
+    expect(detect('#masscan\nopen tcp 80 10.0.0.1 1700000000')).toBe('masscan-list');
+    expect(detect('10.0.0.1 -> [22,80]')).toBe('rustscan');
+  });
+
+  it('returns null for unrecognized content', () => {
+    expect(detectImporter('hello world')).toBeNull();
+    expect(detectImporter('{"magic":"NMAPUI_PROJECT"}')).toBeNull();
+  });
+});
+
+describe('registry', () => {
+  const custom = {
+    id: 'custom',
+    name: 'Custom CSV',
+    extensions: ['csv'],
+    sniff: (c: string) => c.startsWith('ip,port') ? 0.95 : 0,
+    parse: (c: string) => parseNmapOutput(`10.0.0.9 -> [${c.split('\n')[1].split(',')[1]}]`),
+  };
+
+  afterEach(() => unregisterImporter('custom'));
+
+  it('routes parseNmapOutput through registered importers', () => {
+    registerImporter(custom);
+    const scan: NmapScan = parseNmapOutput('ip,port\n10.0.0.9,8080');
+    expect(scan.hosts[0].ports[0].portid).toBe(8080);
+  });
+
+  it('replaces importers with the same id', () => {
+    registerImporter(custom);
+    registerImporter({ ...custom, name: 'Custom CSV v2' });
+    expect(getImporters().filter(i => i.id === 'custom').map(i => i.name)).toEqual(['Custom CSV v2']);
+  });
+
+  it('ignores importers whose sniff throws', () => {
+    registerImporter({ ...custom, sniff: () => { throw new Error('boom'); } });
+    expect(detect('10.0.0.1 -> [22]')).toBe('rustscan');
+  });
+
+  it('lists every importer in the format error', () => {
+    registerImporter(custom);
+    expect(unrecognizedFormatMessage()).toContain('Nmap XML (-oX)');
+    expect(unrecognizedFormatMessage()).toContain('Custom CSV');
+    expect(() => parseNmapOutput('not a scan')).toThrow(/Unrecognized scan output format.*naabu JSON/);
+  });
+
+  it('builds dialog filters and accept lists from the importers', () => {
+    registerImporter(custom);
+    const [all, ...perImporter] = getOpenDialogFilters();
+    expect(all.extensions).toEqual(['xml', 'nmap', 'txt', 'gnmap', 'json', 'lst', 'csv']);
+    expect(perImporter.map(f => f.name)).toContain('Custom CSV');
+    expect(getAcceptList(['nmapui'])).toBe('.xml,.nmap,.txt,.gnmap,.json,.lst,.csv,.nmapui');
+  });
+
+  it('checks file names against the registered extensions', () => {
+    expect(isImportableFileName('scan.XML')).toBe(true);
+    expect(isImportableFileName('scan-output')).toBe(true);
+    expect(isImportableFileName('project.nmapui', ['nmapui'])).toBe(true);
+    expect(isImportableFileName('report.pdf')).toBe(false);
+  });
+});
@@ -0,0 +1,178 @@
+import type { NmapScan } from '../types/nmap';
+import { parseNmapXML, parseNmapGreppable, parseNmapNormal } from './nmapParser';
+import { parseMasscanXML, parseMasscanJSON, parseMasscanList, parseRustScan, parseNaabuJSON } from './portScanners';
+
+// Importer registry. Every supported scan output format is an importer;
+// parseNmapOutput picks the one whose sniff is most confident, and the file
+// dialogs, import view and format error message are all built from the list.
+
+export interface Importer {
+  id: string;
+  name: string; // shown in file dialogs, the import view and errors
+  extensions: string[]; // without the dot
+  /** Confidence (0 to 1) that the content is this format; 0 when it isn't. */
+  sniff: (content: string) => number;
+  parse: (content: string) => NmapScan;
+}
+
+export interface FileFilter {
+  name: string;
+  extensions: string[];
+}
+
+const MASSCAN_XML = /^(<\?xml[^>]*>\s*)?(<!--[^]*?-->\s*)?<nmaprun[^>]*scanner="masscan"/;
+const MASSCAN_LIST_LINE = /^(open|closed|banner) (tcp|udp|sctp) \d+ \S+ \d+/m;
+const RUSTSCAN_LINE = /^\S+ -> \[[\d,\s]*\]$/m;
+
+const isJSON = (content: string) => content.startsWith('[') || content.startsWith('{');
+
+// Parsers are wrapped rather than referenced so the circular import with nmapParser stays harmless
+const BUILTIN_IMPORTERS: Importer[] = [
+  {
+    id: 'nmap-xml',
+    name: 'Nmap XML (-oX)',
+    extensions: ['xml'],
+    sniff: c => {
+      if (!c.startsWith('<')) return 0;
+      return c.includes('<nmaprun') ? 0.9 : 0.2;
+    },
+    parse: c => parseNmapXML(c),
+  },
+  {
+    id: 'nmap-normal',
+    name: 'Nmap Normal (-oN)',
+    extensions: ['nmap', 'txt'],
+    // Starts with the same "# Nmap" comment as greppable output, so it needs to outscore it
+    sniff: c => {
+      if (c.includes('Nmap scan report for')) return 0.9;
+      return c.startsWith('Starting Nmap') ? 0.8 : 0;
+    },
+    parse: c => parseNmapNormal(c),
+  },
+  {
+    id: 'nmap-greppable',
+    name: 'Nmap Greppable (-oG)',
+    extensions: ['gnmap', 'txt'],
+    sniff: c => {
+      if (c.startsWith('Host:') || /^Host: \S+ \(.*\)\t/m.test(c)) return 0.8;
+      return c.startsWith('# Nmap') ? 0.6 : 0;
+    },
+    parse: c => parseNmapGreppable(c),
+  },
+  {
+    id: 'masscan-xml',
+    name: 'masscan XML (-oX)',
+    extensions: ['xml'],
+    // masscan's XML mimics nmap's, so it has to beat the nmap XML importer
+    sniff: c => MASSCAN_XML.test(c) ? 1 : 0,
+    parse: c => parseMasscanXML(c),
+  },
+  {
+    id: 'masscan-json',
+    name: 'masscan JSON (-oJ)',
+    extensions: ['json'],
+    // Entries carry a "ports" array, where naabu lines have a single "port"
+    sniff: c => isJSON(c) && /"ports"\s*:/.test(c) ? 0.9 : 0,
+    parse: c => parseMasscanJSON(c),
+  },
+  {
+    id: 'masscan-list',
+    name: 'masscan List (-oL)',
+    extensions: ['txt', 'lst'],
+    sniff: c => {
+      if (c.startsWith('#masscan')) return 1;
+      return MASSCAN_LIST_LINE.test(c) ? 0.7 : 0;
+    },
+    parse: c => parseMasscanList(c),
+  },
+  {
+    id: 'rustscan',
+    name: 'RustScan Greppable (-g)',
+    extensions: ['txt'],
+    sniff: c => RUSTSCAN_LINE.test(c) ? 0.7 : 0,
+    parse: c => parseRustScan(c),
+  },
+  {
+    id: 'naabu-json',
+    name: 'naabu JSON (-json)',
+    extensions: ['json', 'txt'],
+    sniff: c => isJSON(c) && /"port"\s*:/.test(c) ? 0.8 : 0,
+    parse: c => parseNaabuJSON(c),
+  },
+];
+
+let importers: Importer[] = [...BUILTIN_IMPORTERS];
+
+/**
+ * Add an importer, replacing any registered importer with the same id.
+ */
+export function registerImporter(importer: Importer): void {
+  importers = [...importers.filter(i => i.id !== importer.id), importer];
+}
+
+export function unregisterImporter(id: string): void {
+  importers = importers.filter(i => i.id !== id);
+}
+
+export function getImporters(): Importer[] {
+  return importers;
+}
+
+/**
+ * The importer most confident about the content (the first registered on a
+ * tie), or null when none recognizes it. A sniff that throws counts as 0.
+ */
+export function detectImporter(content: string): Importer | null {
+  const trimmed = content.trim();
+  let best: Importer | null = null;
+  let bestScore = 0;
+  for (const importer of importers) {
+    let score = 0;
+    try {
+      score = importer.sniff(trimmed);
+    } catch {
+      // A broken sniff shouldn't keep the other formats from loading
+    }
+    if (score > bestScore) {
+      best = importer;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function unrecognizedFormatMessage(): string {
+  return `Unrecognized scan output format. Supported formats: ${importers.map(i => i.name).join(', ')}`;
+}
+
+// Every extension some importer declares, deduplicated, in registration order
+export function getImportExtensions(): string[] {
+  return [...new Set(importers.flatMap(i => i.extensions))];
+}
+
+/**
+ * Open dialog filters: one for all supported scan files, then one per
+ * importer.
+ */
+export function getOpenDialogFilters(): FileFilter[] {
+  return [
+    { name: 'Scan Files', extensions: getImportExtensions() },
+    ...importers.map(i => ({ name: i.name, extensions: i.extensions })),
+  ];
+}
+
+// For <input type="file" accept="...">
+export function getAcceptList(extra: string[] = []): string {
+  return [...getImportExtensions(), ...extra].map(ext => `.${ext}`).join(',');
+}
+
+/**
+ * Whether a dropped or picked file looks importable by name: files
+ * without an extension are let through and left to the sniffers.
+ */
+export function isImportableFileName(fileName: string, extra: string[] = []): boolean {
+  const dot = fileName.lastIndexOf('.');
+  if (dot <= 0) return true;
+  const ext = fileName.slice(dot + 1).toLowerCase();
+  return getImportExtensions().includes(ext) || extra.includes(ext);
+}
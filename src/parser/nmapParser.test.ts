@@ -275,6 +275,71 @@ describe('parseNmapXML', () => {
   });
 });
 
+// ========== Truncated XML Recovery Tests ==========
+
+const INTERRUPTED_XML = `<?xml version="1.0"?>
+<nmaprun scanner="nmap" args="nmap -v -sS 10.0.0.0/24" start="1700000000" startstr="test" version="7.94" xmloutputversion="1.05">
+  <verbose level="1"/>
+  <debugging level="0"/>
+  <taskbegin task="SYN Stealth Scan" time="1700000002"/>
+  <host starttime="1700000002" endtime="1700000020">
+    <status state="up" reason="syn-ack"/>
+    <address addr="10.0.0.1" addrtype="ipv4"/>
+    <ports><port protocol="tcp" portid="22"><state state="open"/><service name="ssh" method="table" conf="3"/></port></ports>
+  </host>
+  <taskprogress task="SYN Stealth Scan" time="1700000030" percent="42.50" remaining="60" etc="1700000090"/>
+  <host starttime="1700000002" endtime="1700000035">
+    <status state="up" reason="syn-ack"/>
+    <address addr="10.0.0.2" addrtype="ipv4"/>
+  </host>
+  <host starttime="1700000003"><status state="up" reason="syn-ack"/><address addr="10.0.0.3" addr`;
+
+describe('parseNmapXML recovery', () => {
+  it('keeps every complete host of an interrupted scan', () => {
+    const scan = parseNmapXML(INTERRUPTED_XML);
+    expect(scan.hosts.map(h => h.ip)).toEqual(['10.0.0.1', '10.0.0.2']);
+    expect(scan.args).toBe('nmap -v -sS 10.0.0.0/24');
+    expect(scan.uniquePorts).toHaveLength(1);
+  });
+
+  it('synthesizes run stats marked as incomplete', () => {
+    const { runstats, scanDuration } = parseNmapXML(INTERRUPTED_XML);
+    expect(runstats.incomplete).toBe(true);
+    expect(runstats.hosts).toEqual({ up: 2, down: 0, total: 2 });
+    expect(runstats.finished.exit).toBe('incomplete');
+    expect(runstats.finished.time).toBe(1700000035);
+    expect(scanDuration).toBe(35);
+  });
+
+  it('records the last task progress', () => {
+    const { runstats } = parseNmapXML(INTERRUPTED_XML);
+    expect(runstats.lastTask).toEqual({
+      task: 'SYN Stealth Scan', status: 'progress', time: 1700000030,
+      percent: 42.5, remaining: 60, etc: 1700000090,
+    });
+  });
+
+  it('recovers a scan cut off before the first host', () => {
+    const xml = INTERRUPTED_XML.slice(0, INTERRUPTED_XML.indexOf('<host') + 3);
+    const scan = parseNmapXML(xml);
+    expect(scan.hosts).toHaveLength(0);
+    expect(scan.verbose).toBe(1);
+    expect(scan.runstats.incomplete).toBe(true);
+    expect(scan.runstats.lastTask?.status).toBe('begin');
+  });
+
+  it('does not flag a scan that only lacks the closing tag', () => {
+    const scan = parseNmapXML(MULTI_HOST_XML.replace('</nmaprun>', ''));
+    expect(scan.hosts).toHaveLength(2);
+    expect(scan.runstats.incomplete).toBeUndefined();
+    expect(scan.runstats.finished.exit).toBe('success');
+  });
+
+  it('leaves complete scans untouched', () => {
+    expect(parseNmapXML(MULTI_HOST_XML).runstats.incomplete).toBeUndefined();
+  });
+});
+
 // ========== Greppable Output Tests ==========
 
 const GREPPABLE_OUTPUT = `# Nmap 7.94 scan initiated Tue Nov 14 2023 as: nmap -sV -oG output.gnmap 192.168.1.0/24
@@ -333,6 +398,18 @@ describe('parseNmapGreppable', () => {
     expect(scan.totalHosts).toBe(2);
     expect(scan.hostsUp).toBe(2);
   });
+
+  it('combines the Status and Ports lines of a host', () => {
+    const scan = parseNmapGreppable(`# Nmap 7.94 scan initiated Mon Jan 01 2024 as: nmap -oG - 10.0.0.1
+Host: 10.0.0.1 (server.test)\tStatus: Up
+Host: 10.0.0.1 (server.test)\tPorts: 22/closed/tcp//ssh///
+Host: 10.0.0.2 ()\tStatus: Down`);
+    expect(scan.hosts).toHaveLength(2);
+    expect(scan.hosts[0].status.state).toBe('up');
+    expect(scan.hosts[0].ports).toHaveLength(1);
+    expect(scan.hostsDown).toBe(1);
+    expect(scan.version).toBe('7.94');
+  });
 });
 
 // ========== Normal Output Tests ==========
@@ -444,7 +521,18 @@ describe('parseNmapOutput', () => {
     expect(scan.hosts.length).toBeGreaterThan(0);
   });
 
+  it('detects normal output that starts with the "# Nmap" comment line', () => {
+    const scan = parseNmapOutput(`# Nmap 7.94 scan initiated Tue Nov 14 2023 as: nmap -oN scan.nmap 10.0.0.1
+Nmap scan report for 10.0.0.1
+Host is up, received syn-ack (0.0010s latency).
+PORT   STATE SERVICE
+22/tcp open  ssh`);
+    expect(scan.args).toBe('nmap -oN scan.nmap 10.0.0.1');
+    expect(scan.hosts[0].status.reason).toBe('syn-ack');
+    expect(scan.hosts[0].ports).toHaveLength(1);
+  });
+
   it('throws on unrecognized format', () => {
-    expect(() => parseNmapOutput('this is not nmap output')).toThrow('Unrecognized nmap output format');
+    expect(() => parseNmapOutput('this is not nmap output')).toThrow('Unrecognized scan output format');
   });
 });
@@ -4,7 +4,9 @@ import type {
   Port, PortState, Service, Script, ScriptElement, OSInfo, OSMatch,
   OSClass, PortUsed, Uptime, TCPSequence, IPIDSequence, TCPTSSequence,
   Times, TraceInfo, TraceHop, HostStatus, Smurf, PortSummary, ServiceSummary,
+  ScanTask,
 } from '../types/nmap';
+import { detectImporter, unrecognizedFormatMessage } from './importers';
 
 function generateId(): string {
   return `host-${crypto.randomUUID()}`;
@@ -26,9 +28,14 @@ function toNum(val: any, defaultVal: number = 0): number {
   return isNaN(n) ? defaultVal : n;
 }
 
-export function parseNmapXML(xmlContent: string): NmapScan {
+const ARRAY_TAGS = [
+  'host', 'port', 'hostname', 'address', 'osmatch', 'osclass',
+  'portused', 'table', 'elem', 'script', 'hop', 'scaninfo',
+  'cpe', 'smurf',
+];
 
-  const parser = new XMLParser({
+function createXMLParser(): XMLParser {
+  return new XMLParser({
     ignoreAttributes: false,
     attributeNamePrefix: '@_',
     allowBooleanAttributes: true,
@@ -36,15 +43,20 @@ export function parseNmapXML(xmlContent: string): NmapScan {
     processEntities: true,
     htmlEntities: true,
     trimValues: true,
-    isArray: (name: string) => {
-      const arrayTags = [
-        'host', 'port', 'hostname', 'address', 'osmatch', 'osclass',
-        'portused', 'table', 'elem', 'script', 'hop', 'scaninfo',
-        'cpe', 'smurf',
-      ];
-      return arrayTags.includes(name);
-    },
+    isArray: (name: string) => ARRAY_TAGS.includes(name),
   });
+}
+
+export function parseNmapXML(xmlContent: string): NmapScan {
+  // An interrupted nmap leaves the document without its closing tag
+  if (!xmlContent.trimEnd().endsWith('</nmaprun>') && xmlContent.includes('<nmaprun')) {
+    return recoverTruncatedXML(xmlContent);
+  }
+  return parseCompleteXML(xmlContent);
+}
+
+function parseCompleteXML(xmlContent: string): NmapScan {
+  const parser = createXMLParser();
 
   const parsed = parser.parse(xmlContent);
   const nmaprun = parsed.nmaprun;
@@ -74,17 +86,130 @@ export function parseNmapXML(xmlContent: string): NmapScan {
     uniqueServices: [],
   };
 
-  // Compute derived fields
+  computeHostCounts(scan);
+  scan.uniquePorts = computePortSummaries(scan.hosts);
+  scan.uniqueServices = computeServiceSummaries(scan.hosts);
+
+  return scan;
+}
+
+/**
+ * Salvage a truncated document: keep every complete <host> element and
+ * synthesize the run stats from what was recovered.
+ */
+function recoverTruncatedXML(xml: string): NmapScan {
+  const lastHostEnd = xml.lastIndexOf('</host>');
+  let cut: number;
+  if (lastHostEnd >= 0) {
+    cut = lastHostEnd + '</host>'.length;
+  } else {
+    const firstHost = xml.search(/<host[\s>]/);
+    cut = firstHost >= 0 ? firstHost : xml.lastIndexOf('>') + 1;
+  }
+
+  // Only the closing tag is missing: the scan itself finished
+  const runstatsEnd = xml.indexOf('</runstats>', cut);
+  const finished = runstatsEnd >= 0;
+  if (finished) cut = runstatsEnd + '</runstats>'.length;
+
+  let scan: NmapScan;
+  try {
+    scan = parseCompleteXML(`${xml.slice(0, cut)}</nmaprun>`);
+  } catch {
+    // The cut landed inside another element (e.g. <hosthint>); keep only the scan header
+    const rootEnd = xml.indexOf('>', xml.indexOf('<nmaprun'));
+    if (rootEnd < 0) {
+      throw new Error('Invalid Nmap XML: file ends inside the <nmaprun> element');
+    }
+    scan = parseCompleteXML(`${xml.slice(0, rootEnd + 1)}</nmaprun>`);
+  }
+
+  if (!finished) markScanIncomplete(scan, parseLastTask(xml));
+  return scan;
+}
+
+/**
+ * Parse the last <taskbegin>, <taskprogress> or <taskend> element in the text.
+ */
+export function parseLastTask(text: string): ScanTask | null {
+  const pattern = /<task(begin|progress|end)\b[^>]*>/g;
+  let last: RegExpExecArray | null = null;
+  for (let m = pattern.exec(text); m; m = pattern.exec(text)) last = m;
+  if (!last) return null;
+
+  const tag = last[0].endsWith('/>') ? last[0] : `${last[0].slice(0, -1)}/>`;
+  const status = last[1] as ScanTask['status'];
+  const raw = getFragmentParser().parse(tag)[`task${status}`];
+  const optionalNum = (key: string) => {
+    const val = getAttr(raw, key, null);
+    return val === null ? null : toNum(val);
+  };
+  return {
+    task: getAttr(raw, 'task'),
+    status,
+    time: toNum(getAttr(raw, 'time')),
+    percent: optionalNum('percent'),
+    remaining: optionalNum('remaining'),
+    etc: optionalNum('etc'),
+  };
+}
+
+/**
+ * Replace the run stats of an interrupted scan with ones derived from
+ * the recovered hosts, flagged as incomplete.
+ */
+export function markScanIncomplete(scan: NmapScan, lastTask: ScanTask | null): void {
+  computeHostCounts(scan);
+  const lastHostTime = scan.hosts.reduce((max, h) => Math.max(max, h.endtime), 0);
+  const time = Math.max(lastTask?.time ?? 0, lastHostTime) || scan.start;
+  const elapsed = scan.start && time ? Math.max(0, time - scan.start) : 0;
+
+  scan.runstats = {
+    finished: {
+      time,
+      timestr: '',
+      elapsed,
+      summary: `Scan interrupted; ${scan.totalHosts} complete host${scan.totalHosts === 1 ? '' : 's'} recovered (${scan.hostsUp} up)`,
+      exit: 'incomplete',
+    },
+    hosts: { up: scan.hostsUp, down: scan.hostsDown, total: scan.totalHosts },
+    incomplete: true,
+    lastTask,
+  };
+  scan.scanDuration = elapsed;
+}
+
+/**
+ * Compute the derived host count and duration fields of a scan.
+ */
+export function computeHostCounts(scan: NmapScan): void {
   scan.totalHosts = scan.hosts.length;
   scan.hostsUp = scan.hosts.filter(h => h.status.state === 'up').length;
   scan.hostsDown = scan.hosts.filter(h => h.status.state === 'down').length;
   // hostsFiltered = hosts not classified as up or down (unknown, skipped, etc.)
   scan.hostsFiltered = scan.hosts.filter(h => h.status.state !== 'up' && h.status.state !== 'down').length;
   scan.scanDuration = scan.runstats.finished.elapsed;
-  scan.uniquePorts = computePortSummaries(scan.hosts);
-  scan.uniqueServices = computeServiceSummaries(scan.hosts);
+}
 
-  return scan;
+// Reused across calls: the streaming parser invokes this once per <host>
+let fragmentParser: XMLParser | null = null;
+
+function getFragmentParser(): XMLParser {
+  if (!fragmentParser) fragmentParser = createXMLParser();
+  return fragmentParser;
+}
+
+/**
+ * Parse a single <host>...</host> element, e.g. one cut out of a
+ * streamed document.
+ */
+export function parseHostXML(fragment: string): NmapHost {
+  const parsed = getFragmentParser().parse(fragment);
+  const raw = ensureArray(parsed.host)[0];
+  if (!raw) {
+    throw new Error('Invalid Nmap XML: expected a <host> element');
+  }
+  return parseHost(raw);
 }
 
 function parseScanInfo(raw: any): ScanInfo[] {
@@ -362,20 +487,25 @@ function parseSmurfs(raw: any): Smurf[] {
   }));
 }
 
+// "# Nmap 7.94 scan initiated <start> as: <args>", the first line of -oG and -oN files
+function parseOutputHeader(line: string): { version: string; startstr: string; args: string } | null {
+  const match = line.match(/^# Nmap (?:(\S+) )?scan initiated (.+?) as: (.+)/);
+  return match ? { version: match[1] || '', startstr: match[2], args: match[3] } : null;
+}
+
 // Greppable output parser
 export function parseNmapGreppable(content: string): NmapScan {
   const lines = content.split('\n');
   const hosts: NmapHost[] = [];
+  const byAddress = new Map<string, NmapHost>();
   let args = '';
   let startstr = '';
+  let version = '';
 
   for (const line of lines) {
     if (line.startsWith('# Nmap')) {
-      const argsMatch = line.match(/# Nmap .+ scan initiated (.+) as: (.+)/);
-      if (argsMatch) {
-        startstr = argsMatch[1];
-        args = argsMatch[2];
-      }
+      const header = parseOutputHeader(line);
+      if (header) ({ version, startstr, args } = header);
       continue;
     }
 
@@ -383,7 +513,15 @@ export function parseNmapGreppable(content: string): NmapScan {
 
     if (line.startsWith('Host:')) {
       const host = parseGreppableLine(line);
-      if (host) hosts.push(host);
+      if (!host) continue;
+      // nmap writes a "Status:" line and a "Ports:" line for the same host
+      const existing = byAddress.get(host.ip);
+      if (existing) {
+        mergeGreppableHost(existing, host);
+      } else {
+        hosts.push(host);
+        byAddress.set(host.ip, host);
+      }
     }
   }
 
@@ -392,7 +530,7 @@ export function parseNmapGreppable(content: string): NmapScan {
     args,
     start: 0,
     startstr,
-    version: '',
+    version,
     xmloutputversion: '',
     scaninfo: [],
     verbose: 0,
@@ -400,11 +538,11 @@ export function parseNmapGreppable(content: string): NmapScan {
     hosts,
     runstats: {
       finished: { time: 0, timestr: '', elapsed: 0, summary: '', exit: 'success' },
-      hosts: { up: hosts.filter(h => h.status.state === 'up').length, down: 0, total: hosts.length },
+      hosts: { up: hosts.filter(h => h.status.state === 'up').length, down: hosts.filter(h => h.status.state === 'down').length, total: hosts.length },
     },
     totalHosts: hosts.length,
     hostsUp: hosts.filter(h => h.status.state === 'up').length,
-    hostsDown: 0,
+    hostsDown: hosts.filter(h => h.status.state === 'down').length,
     hostsFiltered: 0,
     scanDuration: 0,
     uniquePorts: [],
@@ -486,57 +624,102 @@ function parseGreppableLine(line: string): NmapHost | null {
   };
 }
 
+function mergeGreppableHost(existing: NmapHost, line: NmapHost): void {
+  existing.ports.push(...line.ports);
+  if (line.status.state === 'up') existing.status = line.status;
+  if (!existing.hostname && line.hostname) {
+    existing.hostname = line.hostname;
+    existing.hostnames = line.hostnames;
+  }
+  existing.openPortCount = existing.ports.filter(p => p.state.state === 'open').length;
+  existing.closedPortCount = existing.ports.filter(p => p.state.state === 'closed').length;
+  existing.filteredPortCount = existing.ports.filter(p => p.state.state === 'filtered').length;
+}
+
 // Aggregation helpers
-function computePortSummaries(hosts: NmapHost[]): PortSummary[] {
-  const map = new Map<string, PortSummary>();
-  for (const host of hosts) {
-    for (const port of host.ports) {
-      const key = `${port.portid}/${port.protocol}/${port.state.state}`;
-      const existing = map.get(key);
-      if (existing) {
-        existing.count++;
-        existing.hosts.push(host.ip || host.ipv6);
-      } else {
-        map.set(key, {
-          port: port.portid,
-          protocol: port.protocol,
-          state: port.state.state,
-          service: port.service?.name || '',
-          product: port.service?.product || '',
-          count: 1,
-          hosts: [host.ip || host.ipv6],
-        });
+export interface SummaryAccumulator {
+  add(host: NmapHost): void;
+  portSummaries(): PortSummary[];
+  serviceSummaries(): ServiceSummary[];
+}
+
+/**
+ * Build port and service summaries one host at a time, so that streamed
+ * scans don't need a second pass over all hosts.
+ */
+export function createSummaryAccumulator(): SummaryAccumulator {
+  const ports = new Map<string, PortSummary>();
+  const services = new Map<string, { summary: ServiceSummary; ports: Set<number>; hosts: Set<string> }>();
+
+  return {
+    add(host: NmapHost) {
+      const hostAddr = host.ip || host.ipv6;
+      for (const port of host.ports) {
+        const portKey = `${port.portid}/${port.protocol}/${port.state.state}`;
+        const existingPort = ports.get(portKey);
+        if (existingPort) {
+          existingPort.count++;
+          existingPort.hosts.push(hostAddr);
+        } else {
+          ports.set(portKey, {
+            port: port.portid,
+            protocol: port.protocol,
+            state: port.state.state,
+            service: port.service?.name || '',
+            product: port.service?.product || '',
+            count: 1,
+            hosts: [hostAddr],
+          });
+        }
+
+        if (!port.service?.name) continue;
+        const svcKey = `${port.service.name}/${port.service.product || ''}/${port.service.version || ''}`;
+        const existingSvc = services.get(svcKey);
+        if (existingSvc) {
+          existingSvc.summary.count++;
+          if (!existingSvc.ports.has(port.portid)) {
+            existingSvc.ports.add(port.portid);
+            existingSvc.summary.ports.push(port.portid);
+          }
+          if (!existingSvc.hosts.has(hostAddr)) {
+            existingSvc.hosts.add(hostAddr);
+            existingSvc.summary.hosts.push(hostAddr);
+          }
+        } else {
+          services.set(svcKey, {
+            summary: {
+              name: port.service.name,
+              product: port.service.product || '',
+              version: port.service.version || '',
+              count: 1,
+              ports: [port.portid],
+              hosts: [hostAddr],
+            },
+            ports: new Set([port.portid]),
+            hosts: new Set([hostAddr]),
+          });
+        }
       }
-    }
-  }
-  return Array.from(map.values()).sort((a, b) => a.port - b.port);
+    },
+    portSummaries() {
+      return Array.from(ports.values()).sort((a, b) => a.port - b.port);
+    },
+    serviceSummaries() {
+      return Array.from(services.values(), s => s.summary).sort((a, b) => a.name.localeCompare(b.name));
+    },
+  };
+}
+
+function computePortSummaries(hosts: NmapHost[]): PortSummary[] {
+  const acc = createSummaryAccumulator();
+  for (const host of hosts) acc.add(host);
+  return acc.portSummaries();
 }
 
 function computeServiceSummaries(hosts: NmapHost[]): ServiceSummary[] {
-  const map = new Map<string, ServiceSummary>();
-  for (const host of hosts) {
-    for (const port of host.ports) {
-      if (!port.service?.name) continue;
-      const key = `${port.service.name}/${port.service.product || ''}/${port.service.version || ''}`;
-      const existing = map.get(key);
-      if (existing) {
-        existing.count++;
-        if (!existing.ports.includes(port.portid)) existing.ports.push(port.portid);
-        const hostAddr = host.ip || host.ipv6;
-        if (!existing.hosts.includes(hostAddr)) existing.hosts.push(hostAddr);
-      } else {
-        map.set(key, {
-          name: port.service.name,
-          product: port.service.product || '',
-          version: port.service.version || '',
-          count: 1,
-          ports: [port.portid],
-          hosts: [host.ip || host.ipv6],
-        });
-      }
-    }
-  }
-  return Array.from(map.values()).sort((a, b) => a.name.localeCompare(b.name));
+  const acc = createSummaryAccumulator();
+  for (const host of hosts) acc.add(host);
+  return acc.serviceSummaries();
 }
 
 // Normal output (-oN) parser
@@ -547,18 +730,15 @@ export function parseNmapNormal(content: string): NmapScan {
   let startstr = '';
   let version = '';
 
-  // Parse header
+  // Parse header: the "# Nmap ... as:" line of -oN files, or the "Starting Nmap" console banner
+  const header = parseOutputHeader(lines[0] || '');
   const headerMatch = content.match(/Starting Nmap ([\d.]+)[^\n]*at (.+)/);
-  if (headerMatch) {
+  if (header) {
+    ({ version, startstr, args } = header);
+  } else if (headerMatch) {
     version = headerMatch[1];
     startstr = headerMatch[2];
   }
-  const argsMatch = content.match(/Nmap scan report/);
-  if (!argsMatch) {
-    // Try to extract command from first comment line
-    const cmdMatch = lines[0]?.match(/# Nmap (.+)/);
-    if (cmdMatch) args = cmdMatch[1];
-  }
 
   let currentHost: {
     ip: string; hostname: string; status: string; reason: string;
@@ -589,11 +769,12 @@ export function parseNmapNormal(content: string): NmapScan {
       continue;
     }
 
-    // Host is up/down
-    const statusMatch = line.match(/^Host is (up|down)\s*(?:\((.+?)\))?/);
+    // Host is up/down: "Host is up, received syn-ack (0.0012s latency)." with --reason
+    const statusMatch = line.match(/^Host is (up|down)(?:, received ([\w-]+))?\s*(?:\((.+?)\))?/);
     if (statusMatch && currentHost) {
       currentHost.status = statusMatch[1];
-      currentHost.reason = statusMatch[2] || '';
+      const note = statusMatch[3] || '';
+      currentHost.reason = statusMatch[2] || (note.endsWith('latency') ? '' : note);
       continue;
     }
 
@@ -757,25 +938,11 @@ function buildNormalHost(h: {
   };
 }
 
-// Auto-detect format and parse
+/**
+ * Auto-detect the format with the importer registry and parse.
+ */
 export function parseNmapOutput(content: string): NmapScan {
-  const trimmed = content.trim();
-  if (trimmed.startsWith('<?xml') || trimmed.startsWith('<nmaprun')) {
-    return parseNmapXML(trimmed);
-  }
-  if (trimmed.startsWith('# Nmap') || trimmed.startsWith('Host:')) {
-    return parseNmapGreppable(trimmed);
-  }
-  // Detect normal output format
-  if (trimmed.includes('Nmap scan report for') || trimmed.startsWith('Starting Nmap')) {
-    return parseNmapNormal(trimmed);
-  }
-  // Try XML parse anyway
-  try {
-    return parseNmapXML(trimmed);
-  } catch {
-    throw new Error(
-      'Unrecognized nmap output format. Supported formats: XML (-oX), Greppable (-oG), Normal (-oN)'
-    );
-  }
+  const importer = detectImporter(content);
+  if (!importer) throw new Error(unrecognizedFormatMessage());
+  return importer.parse(content.trim());
 }
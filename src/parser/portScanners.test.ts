@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { parseNmapOutput, parseNmapXML } from './nmapParser';
+import { parseMasscanJSON, parseMasscanList, parseRustScan, parseNaabuJSON } from './portScanners';
+import { mergeScans } from '../utils/scanMerge';
+
+const MASSCAN_XML = `<?xml version="1.0"?>
+<!-- masscan v1.3 scan -->
+<nmaprun scanner="masscan" start="1700000000" version="1.3-xml" xmloutputversion="1.03">
+<scaninfo type="syn" protocol="tcp" />
+<host endtime="1700000005"><address addr="10.0.0.1" addrtype="ipv4"/><ports><port protocol="tcp" portid="443"><state state="open" reason="syn-ack" reason_ttl="64"/></port></ports></host>
+<host endtime="1700000003"><address addr="10.0.0.2" addrtype="ipv4"/><ports><port protocol="tcp" portid="22"><state state="open" reason="syn-ack" reason_ttl="63"/></port></ports></host>
+<host endtime="1700000002"><address addr="10.0.0.1" addrtype="ipv4"/><ports><port protocol="tcp" portid="80"><state state="open" reason="syn-ack" reason_ttl="64"/></port></ports></host>
+<host endtime="1700000006"><address addr="10.0.0.1" addrtype="ipv4"/><ports><port protocol="tcp" portid="80"><state state="open" reason="response" reason_ttl="64"/><service name="http" banner="HTTP/1.1 200 OK&#x0d;&#x0a;Server: nginx"></service></port></ports></host>
+<runstats>
+<finished time="1700000010" timestr="2023-11-14 22:13:30" elapsed="10" />
+<hosts up="4" down="0" total="4" />
+</runstats>
+</nmaprun>`;
+
+const NMAP_XML = `<?xml version="1.0"?>
+<nmaprun scanner="nmap" args="nmap -sV -p80,443 10.0.0.1" start="1700001000" version="7.94" xmloutputversion="1.05">
+  <host starttime="1700001001" endtime="1700001010">
+    <status state="up" reason="syn-ack" reason_ttl="64"/>
+    <address addr="10.0.0.1" addrtype="ipv4"/>
+    <ports>
+      <port protocol="tcp" portid="80">
+        <state state="open" reason="syn-ack" reason_ttl="64"/>
+        <service name="http" product="nginx" version="1.18.0" method="probed" conf="10"/>
+      </port>
+      <port protocol="tcp" portid="8080">
+        <state state="open" reason="syn-ack" reason_ttl="64"/>
+        <service name="http-proxy" method="table" conf="3"/>
+      </port>
+    </ports>
+  </host>
+  <runstats><finished time="1700001010" elapsed="10"/><hosts up="1" down="0" total="1"/></runstats>
+</nmaprun>`;
+
+describe('masscan', () => {
+  it('regroups the one-port hosts of masscan XML by address', () => {
+    const scan = parseNmapOutput(MASSCAN_XML);
+    expect(scan.scanner).toBe('masscan');
+    expect(scan.hosts.map(h => h.ip)).toEqual(['10.0.0.1', '10.0.0.2']);
+    const host = scan.hosts[0];
+    expect(host.ports.map(p => p.portid)).toEqual([80, 443]);
+    expect(host.openPortCount).toBe(2);
+    expect(host.starttime).toBe(1700000002);
+    expect(host.endtime).toBe(1700000006);
+    expect(host.ports[0].service?.name).toBe('http');
+    expect(host.ports[0].scripts).toEqual([{ id: 'banner', output: 'HTTP/1.1 200 OK\r\nServer: nginx', elements: [] }]);
+    expect(scan.totalHosts).toBe(2);
+    expect(scan.uniquePorts.map(p => p.port)).toEqual(expect.arrayContaining([22, 80, 443]));
+  });
+
+  it('parses JSON with trailing commas and a finished record', () => {
+    const json = `[
+{   "ip": "10.0.0.1",   "timestamp": "1700000001", "ports": [ {"port": 80, "proto": "tcp", "status": "open", "reason": "syn-ack", "ttl": 64} ] },
+{   "ip": "10.0.0.1",   "timestamp": "1700000004", "ports": [ {"port": 80, "proto": "tcp", "service": {"name": "http", "banner": "nginx"} } ] },
+{   "ip": "10.0.0.3",   "timestamp": "1700000002", "ports": [ {"port": 53, "proto": "udp", "status": "open", "reason": "udp-response", "ttl": 60} ] },
+{"finished": 1}
+]`;
+    const scan = parseNmapOutput(json);
+    expect(scan.scanner).toBe('masscan');
+    expect(scan.hosts).toHaveLength(2);
+    const [first, second] = scan.hosts;
+    expect(first.ports).toHaveLength(1);
+    expect(first.ports[0].service?.name).toBe('http');
+    expect(first.ports[0].scripts[0].output).toBe('nginx');
+    expect(first.status.reason).toBe('syn-ack');
+    expect(second.ports[0]).toMatchObject({ portid: 53, protocol: 'udp', state: { state: 'open', reason_ttl: 60 } });
+    expect(scan.start).toBe(1700000001);
+    expect(scan.runstats.finished.time).toBe(1700000004);
+  });
+
+  it('parses JSON lines', () => {
+    const scan = parseMasscanJSON('{"ip": "10.0.0.1", "ports": [{"port": 22, "proto": "tcp", "status": "open"}]}\n' +
+      '{"ip": "10.0.0.2", "ports": [{"port": 22, "proto": "tcp", "status": "open"}]}\n');
+    expect(scan.hosts.map(h => h.ip)).toEqual(['10.0.0.1', '10.0.0.2']);
+  });
+
+  it('parses list output with banners', () => {
+    const list = `#masscan
+open tcp 80 10.0.0.1 1700000001
+open tcp 22 10.0.0.1 1700000002
+banner tcp 22 10.0.0.1 1700000003 ssh SSH-2.0-OpenSSH_8.9p1 Ubuntu-3
+open tcp 443 2001:db8::1 1700000004
+# end
+`;
+    const scan = parseNmapOutput(list);
+    expect(scan.hosts).toHaveLength(2);
+    const [v4, v6] = scan.hosts;
+    expect(v4.ports.map(p => p.portid)).toEqual([22, 80]);
+    expect(v4.ports[0].service?.name).toBe('ssh');
+    expect(v4.ports[0].scripts[0].output).toBe('SSH-2.0-OpenSSH_8.9p1 Ubuntu-3');
+    expect(v6.ipv6).toBe('2001:db8::1');
+    expect(v6.addresses[0].addrtype).toBe('ipv6');
+    expect(parseMasscanList(list).hosts).toHaveLength(2);
+  });
+});
+
+describe('parseRustScan', () => {
+  it('parses greppable output', () => {
+    const scan = parseNmapOutput('10.0.0.1 -> [22,80,443]\n10.0.0.2 -> [3389]\n');
+    expect(scan.scanner).toBe('rustscan');
+    expect(scan.hosts.map(h => h.ip)).toEqual(['10.0.0.1', '10.0.0.2']);
+    expect(scan.hosts[0].ports.map(p => p.portid)).toEqual([22, 80, 443]);
+    expect(scan.hosts[0].ports.every(p => p.state.state === 'open' && p.protocol === 'tcp')).toBe(true);
+    expect(scan.hostsUp).toBe(2);
+  });
+
+  it('ignores lines that are not results', () => {
+    expect(parseRustScan('Open 10.0.0.1:22\n10.0.0.1 -> [22]').hosts[0].ports).toHaveLength(1);
+  });
+});
+
+describe('parseNaabuJSON', () => {
+  it('parses JSON lines with hostnames', () => {
+    const lines = [
+      '{"host":"www.example.com","ip":"93.184.216.34","port":443,"protocol":"tcp","timestamp":"2023-11-14T22:13:20Z"}',
+      '{"host":"www.example.com","ip":"93.184.216.34","port":80,"protocol":"tcp","timestamp":"2023-11-14T22:13:21Z"}',
+      '{"host":"10.0.0.5","ip":"10.0.0.5","port":22}',
+    ].join('\n');
+    const scan = parseNmapOutput(lines);
+    expect(scan.scanner).toBe('naabu');
+    const [web, plain] = scan.hosts;
+    expect(web.ip).toBe('93.184.216.34');
+    expect(web.hostname).toBe('www.example.com');
+    expect(web.ports.map(p => p.portid)).toEqual([80, 443]);
+    expect(web.starttime).toBe(1700000000);
+    expect(plain.hostname).toBe('');
+  });
+
+  it('reads the nested port of older versions', () => {
+    const scan = parseNaabuJSON('{"ip":"10.0.0.1","port":{"Port":8443,"Protocol":0,"TLS":true}}');
+    expect(scan.hosts[0].ports[0].portid).toBe(8443);
+  });
+});
+
+describe('merging with nmap results', () => {
+  it('combines ports and keeps the nmap service identification', () => {
+    const discovery = parseNmapOutput(MASSCAN_XML);
+    const nmap = parseNmapXML(NMAP_XML);
+
+    for (const [base, incoming] of [[discovery, nmap], [nmap, discovery]]) {
+      const merged = mergeScans(base, incoming);
+      const host = merged.hosts.find(h => h.ip === '10.0.0.1')!;
+      expect(host.ports.map(p => p.portid).sort((a, b) => a - b)).toEqual([80, 443, 8080]);
+      expect(host.ports.find(p => p.portid === 80)!.service?.product).toBe('nginx');
+      expect(host.openPortCount).toBe(3);
+      expect(merged.totalHosts).toBe(2);
+    }
+  });
+});
@@ -0,0 +1,329 @@
+import type { NmapScan, NmapHost, Port, Service } from '../types/nmap';
+import { parseNmapXML, computeHostCounts, createSummaryAccumulator } from './nmapParser';
+
+// Importers for port scanners often run before nmap for discovery: masscan
+// (-oX, -oJ, -oL), RustScan (-g) and naabu (-json). They only report ports,
+// so each result becomes an up host with its ports, ready to be merged with
+// nmap data of the same addresses.
+
+// One port seen by a scanner
+interface PortRecord {
+  ip: string;
+  hostname?: string;
+  port: number;
+  protocol: string;
+  state: string;
+  reason?: string;
+  ttl?: number;
+  time?: number; // unix seconds
+  service?: string;
+  banner?: string;
+}
+
+function createHost(ip: string): NmapHost {
+  const ipv6 = ip.includes(':');
+  return {
+    id: `host-${crypto.randomUUID()}`,
+    starttime: 0,
+    endtime: 0,
+    status: { state: 'up', reason: '', reason_ttl: 0 },
+    addresses: [{ addr: ip, addrtype: ipv6 ? 'ipv6' : 'ipv4' }],
+    hostnames: [],
+    ports: [],
+    os: { osmatch: [], osfingerprint: [], portused: [] },
+    uptime: null,
+    distance: null,
+    tcpsequence: null,
+    ipidsequence: null,
+    tcptssequence: null,
+    times: null,
+    trace: null,
+    hostscripts: [],
+    smurfs: [],
+    ip: ipv6 ? '' : ip,
+    ipv6: ipv6 ? ip : '',
+    mac: '',
+    hostname: '',
+    mainOS: '',
+    openPortCount: 0,
+    closedPortCount: 0,
+    filteredPortCount: 0,
+  };
+}
+
+// A banner grab names the service; the low confidence lets nmap's version detection win merges
+function bannerService(name: string): Service {
+  return { name, method: 'probed', conf: 3, cpes: [] };
+}
+
+function addRecord(host: NmapHost, record: PortRecord): void {
+  let port = host.ports.find(p => p.portid === record.port && p.protocol === record.protocol);
+  if (!port) {
+    port = {
+      protocol: record.protocol,
+      portid: record.port,
+      state: { state: record.state, reason: record.reason || '', reason_ttl: record.ttl || 0 },
+      service: null,
+      scripts: [],
+    };
+    host.ports.push(port);
+  }
+  if (record.service && !port.service) port.service = bannerService(record.service);
+  if (record.banner) port.scripts.push({ id: 'banner', output: record.banner, elements: [] });
+}
+
+/**
+ * Group port records into hosts (by address, in order of first sighting)
+ * and build a scan around them.
+ */
+function buildScan(scanner: string, records: PortRecord[], base: Partial<NmapScan> = {}): NmapScan {
+  const hosts = new Map<string, NmapHost>();
+  for (const record of records) {
+    let host = hosts.get(record.ip);
+    if (!host) {
+      host = createHost(record.ip);
+      hosts.set(record.ip, host);
+    }
+    if (record.hostname && record.hostname !== record.ip && !host.hostname) {
+      host.hostname = record.hostname;
+      host.hostnames = [{ name: record.hostname, type: 'user' }];
+    }
+    if (record.time) {
+      host.starttime = host.starttime ? Math.min(host.starttime, record.time) : record.time;
+      host.endtime = Math.max(host.endtime, record.time);
+    }
+    if (!host.status.reason && record.reason) {
+      host.status = { state: 'up', reason: record.reason, reason_ttl: record.ttl || 0 };
+    }
+    addRecord(host, record);
+  }
+
+  for (const host of hosts.values()) {
+    host.ports.sort((a, b) => a.portid - b.portid || a.protocol.localeCompare(b.protocol));
+    host.openPortCount = host.ports.filter(p => p.state.state === 'open').length;
+    host.closedPortCount = host.ports.filter(p => p.state.state === 'closed').length;
+    host.filteredPortCount = host.ports.filter(p => p.state.state === 'filtered').length;
+  }
+
+  const times = records.map(r => r.time || 0).filter(Boolean);
+  const start = times.length > 0 ? Math.min(...times) : 0;
+  const end = times.length > 0 ? Math.max(...times) : 0;
+  const hostList = [...hosts.values()];
+  const scan: NmapScan = {
+    scanner,
+    args: '',
+    start,
+    startstr: start ? new Date(start * 1000).toUTCString() : '',
+    version: '',
+    xmloutputversion: '',
+    scaninfo: [],
+    verbose: 0,
+    debugging: 0,
+    hosts: hostList,
+    runstats: {
+      finished: {
+        time: end, timestr: end ? new Date(end * 1000).toUTCString() : '', elapsed: end - start, summary: '', exit: 'success',
+      },
+      hosts: { up: hostList.length, down: 0, total: hostList.length },
+    },
+    totalHosts: 0,
+    hostsUp: 0,
+    hostsDown: 0,
+    hostsFiltered: 0,
+    scanDuration: 0,
+    uniquePorts: [],
+    uniqueServices: [],
+    ...base,
+  };
+
+  computeHostCounts(scan);
+  const summaries = createSummaryAccumulator();
+  for (const host of hostList) summaries.add(host);
+  scan.uniquePorts = summaries.portSummaries();
+  scan.uniqueServices = summaries.serviceSummaries();
+  return scan;
+}
+
+function toNum(val: unknown): number {
+  const n = Number(val);
+  return isNaN(n) ? 0 : n;
+}
+
+// ========== masscan ==========
+
+function decodeXMLText(s: string): string {
+  return s
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * masscan -oX: nmap-like XML with one <host> per port, and banners as
+ * <service name="http" banner="..."> (an attribute nmap doesn't have).
+ * Regrouped into one host per address.
+ */
+export function parseMasscanXML(content: string): NmapScan {
+  const scan = parseNmapXML(content);
+  // The parsed hosts follow the <host> elements, one port each
+  const banners = [...content.matchAll(/<host\b[\s\S]*?<\/host>/g)].map(([hostXML]) => {
+    const banner = hostXML.match(/<service [^>]*banner="([^"]*)"/)?.[1];
+    return banner === undefined ? undefined : decodeXMLText(banner);
+  });
+
+  const records: PortRecord[] = [];
+  scan.hosts.forEach((host, i) => {
+    for (const port of host.ports) {
+      records.push({
+        ip: host.ip || host.ipv6,
+        port: port.portid,
+        protocol: port.protocol,
+        state: port.state.state,
+        reason: port.state.reason,
+        ttl: port.state.reason_ttl,
+        time: host.endtime || undefined,
+        service: port.service?.name || undefined,
+        banner: banners[i],
+      });
+    }
+  });
+  return buildScan('masscan', records, {
+    args: scan.args,
+    start: scan.start,
+    startstr: scan.startstr,
+    version: scan.version,
+    xmloutputversion: scan.xmloutputversion,
+    scaninfo: scan.scaninfo,
+    runstats: scan.runstats,
+  });
+}
+
+// A parsed JSON object; its fields are checked where they are read
+type JSONObject = Record<string, unknown>;
+
+function isJSONObject(value: unknown): value is JSONObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+const optionalString = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+
+// masscan's JSON has had trailing commas and a closing {"finished": 1} record in some versions
+function parseJSONRecords(content: string): unknown[] {
+  const text = content.trim().replace(/,\s*([\]}])/g, '$1');
+  if (text.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(text);
+      return Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      // One object per line inside the brackets
+    }
+  }
+  const records: unknown[] = [];
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim().replace(/^,|,$/g, '');
+    if (!trimmed.startsWith('{')) continue;
+    try {
+      records.push(JSON.parse(trimmed));
+    } catch {
+      throw new Error('Invalid JSON scan output: a line could not be parsed');
+    }
+  }
+  return records;
+}
+
+/**
+ * masscan -oJ: [{"ip": "...", "timestamp": "...", "ports": [{"port": 80, "proto": "tcp",
+ * "status": "open", "reason": "syn-ack", "ttl": 64}]}], with banners as
+ * ports entries carrying a "service" object.
+ */
+export function parseMasscanJSON(content: string): NmapScan {
+  const records: PortRecord[] = [];
+  for (const entry of parseJSONRecords(content)) {
+    if (!isJSONObject(entry) || typeof entry.ip !== 'string' || !Array.isArray(entry.ports)) continue;
+    for (const p of entry.ports) {
+      if (!isJSONObject(p)) continue;
+      const service = isJSONObject(p.service) ? p.service : {};
+      records.push({
+        ip: entry.ip,
+        port: toNum(p.port),
+        protocol: optionalString(p.proto) || 'tcp',
+        state: optionalString(p.status) || 'open',
+        reason: optionalString(p.reason),
+        ttl: p.ttl !== undefined ? toNum(p.ttl) : undefined,
+        time: toNum(entry.timestamp) || undefined,
+        service: optionalString(service.name),
+        banner: optionalString(service.banner),
+      });
+    }
+  }
+  return buildScan('masscan', records);
+}
+
+/**
+ * masscan -oL: "open tcp 80 10.0.0.1 1700000000" per port and
+ * "banner tcp 80 10.0.0.1 1700000000 http Server: nginx" per banner.
+ */
+export function parseMasscanList(content: string): NmapScan {
+  const records: PortRecord[] = [];
+  for (const line of content.split('\n')) {
+    const match = line.trim().match(/^(\S+) (tcp|udp|sctp) (\d+) (\S+) (\d+)(?: (\S+) ?(.*))?$/);
+    if (!match) continue;
+    const [, kind, protocol, port, ip, time, service, banner] = match;
+    records.push({
+      ip,
+      port: toNum(port),
+      protocol,
+      state: kind === 'banner' ? 'open' : kind,
+      time: toNum(time) || undefined,
+      service: kind === 'banner' ? service : undefined,
+      banner: kind === 'banner' ? banner : undefined,
+    });
+  }
+  return buildScan('masscan', records);
+}
+
+// ========== RustScan ==========
+
+/**
+ * RustScan -g (greppable): "10.0.0.1 -> [22,80,443]" per host.
+ */
+export function parseRustScan(content: string): NmapScan {
+  const records: PortRecord[] = [];
+  for (const line of content.split('\n')) {
+    const match = line.trim().match(/^(\S+) -> \[([\d,\s]*)\]$/);
+    if (!match) continue;
+    for (const port of match[2].split(',').map(s => s.trim()).filter(Boolean)) {
+      records.push({ ip: match[1], port: toNum(port), protocol: 'tcp', state: 'open' });
+    }
+  }
+  return buildScan('rustscan', records);
+}
+
+// ========== naabu ==========
+
+/**
+ * naabu -json: one {"host": "...", "ip": "...", "port": 80, "protocol": "tcp",
+ * "timestamp": "..."} object per line. Older versions nest the port as
+ * {"Port": 80}.
+ */
+export function parseNaabuJSON(content: string): NmapScan {
+  const records: PortRecord[] = [];
+  for (const entry of parseJSONRecords(content)) {
+    if (!isJSONObject(entry) || entry.port === undefined) continue;
+    const ip = optionalString(entry.ip) || optionalString(entry.host);
+    if (!ip) continue;
+    const port = isJSONObject(entry.port) ? toNum(entry.port.Port ?? entry.port.port) : toNum(entry.port);
+    const timestamp = optionalString(entry.timestamp);
+    const time = timestamp ? Math.floor(Date.parse(timestamp) / 1000) : NaN;
+    records.push({
+      ip,
+      hostname: optionalString(entry.host),
+      port,
+      protocol: typeof entry.protocol === 'string' ? entry.protocol : 'tcp',
+      state: 'open',
+      time: isNaN(time) ? undefined : time,
+    });
+  }
+  return buildScan('naabu', records);
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { createNmapStreamParser } from './streamParser';
+import { parseNmapXML } from './nmapParser';
+import type { NmapScan } from '../types/nmap';
+
+const STREAM_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE nmaprun>
+<?xml-stylesheet href="file:///usr/bin/../share/nmap/nmap.xsl" type="text/xsl"?>
+<nmaprun scanner="nmap" args="nmap -sV 10.0.0.0/24" start="1700000000" startstr="test" version="7.94" xmloutputversion="1.05">
+  <scaninfo type="syn" protocol="tcp" numservices="1000" services="1-1000"/>
+  <verbose level="0"/>
+  <debugging level="0"/>
+  <hosthint><status state="up" reason="arp-response" reason_ttl="0"/><address addr="10.0.0.1" addrtype="ipv4"/><hostnames></hostnames></hosthint>
+  <host starttime="1700000001" endtime="1700000005">
+    <status state="up" reason="syn-ack" reason_ttl="64"/>
+    <address addr="10.0.0.1" addrtype="ipv4"/>
+    <hostnames><hostname name="gw.local" type="PTR"/></hostnames>
+    <ports>
+      <port protocol="tcp" portid="22"><state state="open" reason="syn-ack" reason_ttl="64"/><service name="ssh" product="OpenSSH" version="8.9p1" method="probed" conf="10"/></port>
+      <port protocol="tcp" portid="80"><state state="open" reason="syn-ack" reason_ttl="64"/><service name="http" product="nginx" method="probed" conf="10"/>
+        <script id="http-title" output="Welcome &amp; hello"><elem key="title">Welcome &amp; hello</elem></script>
+      </port>
+    </ports>
+    <hostscript><script id="smb-os-discovery" output="OS: Linux"/></hostscript>
+  </host>
+  <host>
+    <status state="down" reason="no-response" reason_ttl="0"/>
+    <address addr="10.0.0.2" addrtype="ipv4"/>
+  </host>
+  <host>
+    <status state="up" reason="syn-ack" reason_ttl="64"/>
+    <address addr="10.0.0.3" addrtype="ipv4"/>
+    <ports>
+      <port protocol="tcp" portid="22"><state state="open" reason="syn-ack" reason_ttl="64"/><service name="ssh" product="OpenSSH" version="8.9p1" method="probed" conf="10"/></port>
+    </ports>
+  </host>
+  <runstats>
+    <finished time="1700000010" timestr="test" elapsed="10" summary="3 IP addresses (2 hosts up) scanned" exit="success"/>
+    <hosts up="2" down="1" total="3"/>
+  </runstats>
+</nmaprun>
+`;
+
+function streamInChunks(xml: string, size: number): NmapScan {
+  const parser = createNmapStreamParser();
+  for (let i = 0; i < xml.length; i += size) {
+    parser.write(xml.slice(i, i + size));
+  }
+  return parser.end();
+}
+
+// Host IDs are random; compare everything else
+function withoutIds(scan: NmapScan) {
+  return { ...scan, hosts: scan.hosts.map(({ id: _, ...rest }) => rest) };
+}
+
+describe('createNmapStreamParser', () => {
+  const expected = withoutIds(parseNmapXML(STREAM_XML));
+
+  it.each([1, 7, 64, 1024, STREAM_XML.length])('matches parseNmapXML with %i-char chunks', (size) => {
+    expect(withoutIds(streamInChunks(STREAM_XML, size))).toEqual(expected);
+  });
+
+  it('emits each host as soon as its element is complete', () => {
+    const seen: string[] = [];
+    const parser = createNmapStreamParser(host => seen.push(host.ip));
+    const secondHost = STREAM_XML.indexOf('<address addr="10.0.0.2"');
+    parser.write(STREAM_XML.slice(0, secondHost));
+    expect(seen).toEqual(['10.0.0.1']);
+    expect(parser.hostCount).toBe(1);
+    parser.write(STREAM_XML.slice(secondHost));
+    parser.end();
+    expect(seen).toEqual(['10.0.0.1', '10.0.0.2', '10.0.0.3']);
+  });
+
+  it('builds port and service summaries incrementally', () => {
+    const scan = streamInChunks(STREAM_XML, 50);
+    const ssh = scan.uniquePorts.find(p => p.port === 22);
+    expect(ssh?.count).toBe(2);
+    expect(ssh?.hosts).toEqual(['10.0.0.1', '10.0.0.3']);
+    const svc = scan.uniqueServices.find(s => s.name === 'ssh');
+    expect(svc?.hosts).toEqual(['10.0.0.1', '10.0.0.3']);
+  });
+
+  it('keeps scan header and runstats', () => {
+    const scan = streamInChunks(STREAM_XML, 13);
+    expect(scan.args).toBe('nmap -sV 10.0.0.0/24');
+    expect(scan.scaninfo).toHaveLength(1);
+    expect(scan.runstats.finished.elapsed).toBe(10);
+    expect(scan.runstats.hosts.total).toBe(3);
+    expect(scan.hostsUp).toBe(2);
+    expect(scan.hostsDown).toBe(1);
+  });
+
+  it('handles a scan without hosts', () => {
+    const xml = '<?xml version="1.0"?><nmaprun scanner="nmap" args="nmap 10.9.9.9"><runstats><finished elapsed="1"/><hosts up="0" down="1" total="1"/></runstats></nmaprun>';
+    const scan = streamInChunks(xml, 5);
+    expect(scan.hosts).toHaveLength(0);
+    expect(scan.args).toBe('nmap 10.9.9.9');
+    expect(scan.runstats.hosts.down).toBe(1);
+  });
+
+  it('recovers the complete hosts of an interrupted scan', () => {
+    const cut = STREAM_XML.indexOf('<address addr="10.0.0.3"');
+    const xml = STREAM_XML.slice(0, cut).replace('<host>\n    <status state="down"',
+      '<taskprogress task="Service scan" time="1700000007" percent="50.00" remaining="8"/>\n  <host>\n    <status state="down"');
+    const scan = streamInChunks(xml, 64);
+    expect(withoutIds(scan)).toEqual(withoutIds(parseNmapXML(xml)));
+    expect(scan.hosts.map(h => h.ip)).toEqual(['10.0.0.1', '10.0.0.2']);
+    expect(scan.runstats.incomplete).toBe(true);
+    expect(scan.runstats.lastTask?.task).toBe('Service scan');
+  });
+
+  it('throws when the root element is missing', () => {
+    const parser = createNmapStreamParser();
+    parser.write('<?xml version="1.0"?><foo></foo>');
+    expect(() => parser.end()).toThrow('missing <nmaprun>');
+  });
+});
@@ -0,0 +1,141 @@
+import type { NmapScan, NmapHost, ScanTask } from '../types/nmap';
+import {
+  parseNmapXML, parseHostXML, parseLastTask, markScanIncomplete,
+  computeHostCounts, createSummaryAccumulator,
+} from './nmapParser';
+
+export interface NmapStreamParser {
+  /** Feed the next chunk of the document. Complete <host> elements are parsed immediately. */
+  write(chunk: string): void;
+  /** Flush the remaining input and assemble the scan. */
+  end(): NmapScan;
+  /** Number of hosts parsed so far. */
+  readonly hostCount: number;
+}
+
+const HOST_CLOSE = '</host>';
+
+// Find "<host" followed by whitespace or ">", skipping <hostnames>, <hostscript>, <hosthint>, ...
+function findHostStart(buf: string, from: number): number {
+  let idx = buf.indexOf('<host', from);
+  while (idx >= 0) {
+    const next = buf.charAt(idx + 5);
+    if (next === '>' || next === ' ' || next === '\t' || next === '\n' || next === '\r') return idx;
+    if (next === '') return -1; // tag name split across chunks
+    idx = buf.indexOf('<host', idx + 5);
+  }
+  return -1;
+}
+
+/**
+ * Incremental nmap XML parser. Instead of building the whole document tree,
+ * it cuts the input into top-level <host> elements and parses each one on
+ * its own, so memory stays proportional to a single host plus the result.
+ *
+ * Everything before the first host (scaninfo, verbose, ...) and the
+ * <runstats> element are kept and parsed as a host-less document at the end.
+ * If the input stops before </nmaprun> (interrupted scan), the hosts parsed
+ * so far are kept and the run stats are marked incomplete.
+ */
+export function createNmapStreamParser(onHost?: (host: NmapHost) => void): NmapStreamParser {
+  const hosts: NmapHost[] = [];
+  const summaries = createSummaryAccumulator();
+  let buffer = '';
+  let prolog: string | null = null;
+  let runstats = '';
+  let closed = false;
+  let lastTask: ScanTask | null = null;
+
+  // Keep the parts of the text between hosts that matter for the scan model
+  const scanInterHost = (text: string) => {
+    const start = text.indexOf('<runstats');
+    if (start >= 0) {
+      const end = text.indexOf('</runstats>', start);
+      if (end >= 0) runstats = text.slice(start, end + '</runstats>'.length);
+    }
+    if (text.includes('</nmaprun>')) closed = true;
+    lastTask = parseLastTask(text) ?? lastTask;
+  };
+
+  const emit = (fragment: string) => {
+    const host = parseHostXML(fragment);
+    hosts.push(host);
+    summaries.add(host);
+    onHost?.(host);
+  };
+
+  const drain = () => {
+    let pos = 0;
+
+    if (prolog === null) {
+      const first = findHostStart(buffer, 0);
+      if (first < 0) return;
+      prolog = buffer.slice(0, first);
+      lastTask = parseLastTask(prolog);
+      pos = first;
+    }
+
+    for (;;) {
+      const start = findHostStart(buffer, pos);
+      if (start < 0) break;
+      const end = buffer.indexOf(HOST_CLOSE, start);
+      if (end < 0) {
+        scanInterHost(buffer.slice(pos, start));
+        pos = start;
+        buffer = buffer.slice(pos);
+        return;
+      }
+      scanInterHost(buffer.slice(pos, start));
+      emit(buffer.slice(start, end + HOST_CLOSE.length));
+      pos = end + HOST_CLOSE.length;
+    }
+
+    // No further host start: keep an unfinished <runstats> or a tag cut at the chunk boundary
+    let keepFrom = buffer.length;
+    const runstatsStart = buffer.indexOf('<runstats', pos);
+    if (runstatsStart >= 0 && buffer.indexOf('</runstats>', runstatsStart) < 0) {
+      keepFrom = runstatsStart;
+    } else {
+      const lastOpen = buffer.lastIndexOf('<');
+      if (lastOpen >= pos && buffer.indexOf('>', lastOpen) < 0) keepFrom = lastOpen;
+    }
+    scanInterHost(buffer.slice(pos, keepFrom));
+    buffer = buffer.slice(keepFrom);
+  };
+
+  return {
+    write(chunk: string) {
+      buffer += chunk;
+      drain();
+    },
+
+    end(): NmapScan {
+      drain();
+      // No host seen: the whole (small) document is still buffered
+      if (prolog === null) {
+        const doc = buffer;
+        buffer = '';
+        return parseNmapXML(doc);
+      }
+
+      // Whatever is left is either trailing markup or a host cut off mid-element
+      scanInterHost(buffer);
+      buffer = '';
+
+      const scan = parseNmapXML(`${prolog}${runstats}</nmaprun>`);
+      scan.hosts = hosts;
+      if (!closed && !runstats) {
+        markScanIncomplete(scan, lastTask);
+      } else {
+        computeHostCounts(scan);
+      }
+      scan.uniquePorts = summaries.portSummaries();
+      scan.uniqueServices = summaries.serviceSummaries();
+      return scan;
+    },
+
+    get hostCount() {
+      return hosts.length;
+    },
+  };
+}
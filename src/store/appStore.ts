@@ -1,7 +1,26 @@
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import type { NmapScan, NmapHost, FilterGroup, SortConfig, ViewMode, Note, NoteTarget } from '../types/nmap';
-import { applyFilters, applySearch, applySorting } from '../utils/filterEngine';
-import { saveNotes, loadNotes, generateProjectId, createDebouncedSave } from '../utils/storage';
+import type { NmapScan, NmapHost, FilterGroup, FilterPreset, EngagementScope, SortConfig, ViewMode, Note, NoteTarget, LoadProgress, QueryProgress, MergeOptions, ScanDiff, HostColumnSettings, ScanProfile, ScanProfileOptions, FollowUp, NseScript } from '../types/nmap';
+import { countActiveRules, collectTextTerms } from '../utils/filterEngine';
+import type { HostQuery } from '../utils/hostQuery';
+import { createHostQueryClient, type HostQueryClient, type PendingQuery } from '../workers/queryClient';
+import { parseFilterQuery, newFilterId } from '../utils/filterQuery';
+import { withSubnetFilter } from '../utils/subnets';
+import { followUpKey } from '../utils/followUpQueue';
+import { BUILTIN_SCRIPTS, importScriptFiles, mergeScriptCatalogs } from '../utils/scriptCatalog';
+import type { SuggestionOptions } from '../utils/scriptSuggestions';
+import { extractVulnerabilities } from '../utils/vulnExtractor';
+import { getScopeViolation, isScopeEmpty } from '../utils/ipRanges';
+import { createScanSource, tagProvenance, mergeScans, buildProjectScan, type ImportedScan } from '../utils/scanMerge';
+import {
+  saveNotes, loadNotes, generateProjectId, createDebouncedSave,
+  saveFilterPreset, listFilterPresets, deleteFilterPreset as removeStoredFilterPreset,
+  saveScope, loadScope,
+  saveDiff, loadDiffs, deleteDiff,
+  saveHostColumns, loadHostColumns,
+  saveScanProfile as storeScanProfile, listScanProfiles, deleteScanProfile as removeStoredScanProfile,
+  saveScriptCatalog, listScriptCatalog, clearScriptCatalog,
+} from '../utils/storage';
+import { DEFAULT_HOST_COLUMN_SETTINGS } from '../utils/hostColumns';
 
 export interface AppState {
   scan: NmapScan | null;
@@ -17,11 +36,21 @@ export interface AppState {
   showFilterPanel: boolean;
   error: string | null;
   loading: boolean;
+  loadingProgress: LoadProgress | null; // set while a large file is parsed in the background
   notes: Note[];
   editingNoteId: string | null;
   showNoteEditor: boolean;
   noteEditorDefaults: { hostId?: string; ip?: string; portId?: number; protocol?: string } | null;
   previousViewMode: ViewMode | null;
+  filterPresets: FilterPreset[]; // shared filter library, loaded from IndexedDB on startup
+  scanProfiles: ScanProfile[]; // saved scan templates, loaded like the filter library
+  importedScripts: NseScript[]; // script catalog imported from a local nmap, on top of the built-in one
+  followUps: FollowUp[]; // scripts picked for follow-up scans of this scan's hosts
+  scope: EngagementScope; // authorized ranges for the current project
+  imports: ImportedScan[]; // every scan of the project in import order; scan is merged from these
+  asOfSourceId: string | null; // when set, scan only includes imports up to this one
+  diffs: ScanDiff[]; // saved scan comparisons of the project, newest first
+  hostColumns: HostColumnSettings; // Hosts table columns of the current project
 }
 
 const initialFilterGroup: FilterGroup = {
@@ -44,13 +73,30 @@ const initialState: AppState = {
   showFilterPanel: false,
   error: null,
   loading: false,
+  loadingProgress: null,
   notes: [],
   editingNoteId: null,
   showNoteEditor: false,
   noteEditorDefaults: null,
   previousViewMode: null,
+  filterPresets: [],
+  scanProfiles: [],
+  importedScripts: [],
+  followUps: [],
+  scope: { include: '', exclude: '', excludedCategories: [] },
+  imports: [],
+  asOfSourceId: null,
+  diffs: [],
+  hostColumns: DEFAULT_HOST_COLUMN_SETTINGS,
 };
 
+// The first scan of a project, stamped with its provenance
+function importFirstScan(scan: NmapScan, fileName: string, content: string): ImportedScan {
+  const source = createScanSource(scan, fileName, 0);
+  tagProvenance(scan, source);
+  return { source, scan, content };
+}
+
 export function useAppStore() {
   const [state, setState] = useState<AppState>(initialState);
   const debouncedSave = useRef(createDebouncedSave(800));
@@ -58,6 +104,8 @@ export function useAppStore() {
   const notesInitialized = useRef(false);
   // Track whether we should skip the auto-load from IndexedDB (for project imports)
   const skipAutoLoad = useRef(false);
+  // Scans imported into the current project, so merges can be tagged before they reach state
+  const importCount = useRef(0);
 
   // Auto-save notes when they change
   const projectId = useMemo(() => {
@@ -72,6 +120,19 @@ export function useAppStore() {
     debouncedSave.current(() => saveNotes(projectId, state.notes));
   }, [state.notes, projectId]);
 
+  // The filter library is independent of the loaded scan
+  useEffect(() => {
+    listFilterPresets()
+      .then(filterPresets => setState(prev => ({ ...prev, filterPresets })))
+      .catch(err => console.error('Failed to load filter presets:', err));
+    listScanProfiles()
+      .then(scanProfiles => setState(prev => ({ ...prev, scanProfiles })))
+      .catch(err => console.error('Failed to load scan profiles:', err));
+    listScriptCatalog()
+      .then(importedScripts => setState(prev => ({ ...prev, importedScripts })))
+      .catch(err => console.error('Failed to load script catalog:', err));
+  }, []);
+
   // Load notes when scan is loaded
   const loadSavedNotes = useCallback(async (fileName: string, scanStart: number) => {
     // Skip if the caller already provided notes (e.g., project file import)
@@ -91,16 +152,48 @@ export function useAppStore() {
     }
   }, []);
 
+  const loadSavedScope = useCallback(async (fileName: string, scanStart: number) => {
+    try {
+      const scope = await loadScope(generateProjectId(fileName, scanStart));
+      if (scope) setState(prev => ({ ...prev, scope }));
+    } catch (err) {
+      console.error('Failed to load engagement scope:', err);
+    }
+  }, []);
+
+  const loadSavedHostColumns = useCallback(async (fileName: string, scanStart: number) => {
+    try {
+      const hostColumns = await loadHostColumns(generateProjectId(fileName, scanStart));
+      if (hostColumns) setState(prev => ({ ...prev, hostColumns }));
+    } catch (err) {
+      console.error('Failed to load Hosts columns:', err);
+    }
+  }, []);
+
+  const loadSavedDiffs = useCallback(async (fileName: string, scanStart: number) => {
+    try {
+      const diffs = await loadDiffs(generateProjectId(fileName, scanStart));
+      if (diffs.length > 0) setState(prev => ({ ...prev, diffs }));
+    } catch (err) {
+      console.error('Failed to load saved diffs:', err);
+    }
+  }, []);
+
   const setScan = useCallback((scan: NmapScan, fileName: string, rawData?: string) => {
     notesInitialized.current = false;
+    importCount.current = 1;
+    const imported = importFirstScan(scan, fileName, rawData || '');
     setState(prev => ({
       ...prev,
       scan,
+      imports: [imported],
+      asOfSourceId: null,
       fileName,
       rawScanData: rawData || '',
       viewMode: 'dashboard',
       error: null,
       loading: false,
+      loadingProgress: null,
       selectedHostId: null,
       selectedHostIds: new Set(),
       searchQuery: '',
@@ -111,10 +204,17 @@ export function useAppStore() {
       showNoteEditor: false,
       noteEditorDefaults: null,
       previousViewMode: null,
+      scope: initialState.scope,
+      diffs: [],
+      hostColumns: initialState.hostColumns,
+      followUps: [],
     }));
-    // Load any previously saved notes for this scan
+    // Load any previously saved notes, scope, diffs and columns for this scan
     loadSavedNotes(fileName, scan.start);
-  }, [loadSavedNotes]);
+    loadSavedScope(fileName, scan.start);
+    loadSavedDiffs(fileName, scan.start);
+    loadSavedHostColumns(fileName, scan.start);
+  }, [loadSavedNotes, loadSavedScope, loadSavedDiffs, loadSavedHostColumns]);
 
   const setNotes = useCallback((notes: Note[]) => {
     notesInitialized.current = true;
@@ -122,20 +222,27 @@ export function useAppStore() {
   }, []);
 
   /**
-   * setScan variant that also loads notes from provided data instead of IndexedDB.
-   * Used for project file imports to avoid the race condition.
+   * setScan variant that also loads notes (and saved diffs and columns) from provided
+   * data instead of IndexedDB. Used for project file imports to avoid the race condition.
    */
-  const setScanWithNotes = useCallback((scan: NmapScan, fileName: string, rawData: string, notes: Note[]) => {
+  const setScanWithNotes = useCallback((
+    scan: NmapScan, fileName: string, rawData: string, notes: Note[], diffs: ScanDiff[] = [], hostColumns?: HostColumnSettings
+  ) => {
     skipAutoLoad.current = true;
     notesInitialized.current = notes.length > 0;
+    importCount.current = 1;
+    const imported = importFirstScan(scan, fileName, rawData);
     setState(prev => ({
       ...prev,
       scan,
+      imports: [imported],
+      asOfSourceId: null,
       fileName,
       rawScanData: rawData,
       viewMode: 'dashboard',
       error: null,
       loading: false,
+      loadingProgress: null,
       selectedHostId: null,
       selectedHostIds: new Set(),
       searchQuery: '',
@@ -146,8 +253,22 @@ export function useAppStore() {
       showNoteEditor: false,
       noteEditorDefaults: null,
       previousViewMode: null,
+      scope: initialState.scope,
+      diffs,
+      hostColumns: hostColumns || initialState.hostColumns,
+      followUps: [],
     }));
-  }, []);
+    loadSavedScope(fileName, scan.start);
+    const pid = generateProjectId(fileName, scan.start);
+    for (const diff of diffs) {
+      saveDiff(pid, diff).catch(err => console.error('Failed to save diff:', err));
+    }
+    if (hostColumns) {
+      saveHostColumns(pid, hostColumns).catch(err => console.error('Failed to save Hosts columns:', err));
+    } else {
+      loadSavedHostColumns(fileName, scan.start);
+    }
+  }, [loadSavedScope, loadSavedHostColumns]);
 
   const setViewMode = useCallback((viewMode: ViewMode) => {
     setState(prev => ({ ...prev, viewMode, selectedHostId: null }));
@@ -161,6 +282,23 @@ export function useAppStore() {
     setState(prev => ({ ...prev, filterGroup }));
   }, []);
 
+  // Turn the parsed search query into filter panel rules so it can be edited as a tree
+  const moveSearchToFilters = useCallback(() => {
+    setState(prev => {
+      const { group } = parseFilterQuery(prev.searchQuery);
+      if (!group) return prev;
+      const filterGroup: FilterGroup = countActiveRules(prev.filterGroup) > 0
+        ? { id: 'root', logic: 'AND', rules: [], groups: [{ ...prev.filterGroup, id: newFilterId('group') }, group] }
+        : { ...group, id: 'root' };
+      return { ...prev, filterGroup, searchQuery: '', showFilterPanel: true };
+    });
+  }, []);
+
+  // Limit the hosts (and filtered exports) to a subnet, or lift the limit with null
+  const setSubnetFilter = useCallback((cidr: string | null) => {
+    setState(prev => ({ ...prev, filterGroup: withSubnetFilter(prev.filterGroup, cidr) }));
+  }, []);
+
   const setSorts = useCallback((sorts: SortConfig[]) => {
     setState(prev => ({ ...prev, sorts }));
   }, []);
@@ -214,16 +352,21 @@ export function useAppStore() {
   }, []);
 
   const setError = useCallback((error: string | null) => {
-    setState(prev => ({ ...prev, error, loading: false }));
+    setState(prev => ({ ...prev, error, loading: false, loadingProgress: null }));
   }, []);
 
   const setLoading = useCallback((loading: boolean) => {
-    setState(prev => ({ ...prev, loading }));
+    setState(prev => ({ ...prev, loading, loadingProgress: loading ? prev.loadingProgress : null }));
+  }, []);
+
+  const setLoadingProgress = useCallback((loadingProgress: LoadProgress | null) => {
+    setState(prev => ({ ...prev, loading: loadingProgress !== null, loadingProgress }));
   }, []);
 
   const reset = useCallback(() => {
     notesInitialized.current = false;
-    setState(initialState);
+    importCount.current = 0;
+    setState(prev => ({ ...initialState, filterPresets: prev.filterPresets, scanProfiles: prev.scanProfiles, importedScripts: prev.importedScripts }));
   }, []);
 
   // ========== Notes Management ==========
@@ -297,93 +440,289 @@ export function useAppStore() {
 
   // ========== Merge Scan ==========
 
-  const mergeScan = useCallback((newScan: NmapScan) => {
+  // Fold another scan into the project, keeping track of which scan reported what
+  const mergeScan = useCallback((newScan: NmapScan, fileName: string, content: string = '', merge?: MergeOptions) => {
+    if (importCount.current === 0) return;
+    const source = createScanSource(newScan, fileName, importCount.current++);
+    tagProvenance(newScan, source);
     setState(prev => {
       if (!prev.scan) return prev;
-      // Deep clone hosts array to avoid mutating previous state
-      const mergedHosts = prev.scan.hosts.map(h => ({
-        ...h,
-        ports: h.ports.map(p => ({ ...p, scripts: [...p.scripts] })),
-        hostscripts: [...h.hostscripts],
-      }));
-      const merged = { ...prev.scan, hosts: mergedHosts };
-
-      for (const newHost of newScan.hosts) {
-        const hostIp = newHost.ip || newHost.ipv6;
-        const existingIdx = merged.hosts.findIndex(h => (h.ip || h.ipv6) === hostIp);
-
-        if (existingIdx >= 0) {
-          // Merge ports and scripts into existing host
-          const existing = merged.hosts[existingIdx];
-          const existingPortKeys = new Set(existing.ports.map(p => `${p.portid}/${p.protocol}`));
-
-          for (const port of newHost.ports) {
-            const portKey = `${port.portid}/${port.protocol}`;
-            if (existingPortKeys.has(portKey)) {
-              // Merge scripts into existing port
-              const existingPort = existing.ports.find(p => `${p.portid}/${p.protocol}` === portKey);
-              if (existingPort) {
-                const existingScriptIds = new Set(existingPort.scripts.map(s => s.id));
-                for (const script of port.scripts) {
-                  if (!existingScriptIds.has(script.id)) {
-                    existingPort.scripts.push(script);
-                  } else {
-                    // Update existing script output with newer data
-                    const idx = existingPort.scripts.findIndex(s => s.id === script.id);
-                    if (idx >= 0) existingPort.scripts[idx] = script;
-                  }
-                }
-                // Update service info if the new data has more detail
-                if (port.service && (!existingPort.service || (port.service.conf > existingPort.service.conf))) {
-                  existingPort.service = port.service;
-                }
-                // Update state if different
-                if (port.state.state !== existingPort.state.state) {
-                  existingPort.state = port.state;
-                }
-              }
-            } else {
-              existing.ports.push(port);
-            }
-          }
-
-          // Merge host scripts
-          const existingHostScriptIds = new Set(existing.hostscripts.map(s => s.id));
-          for (const script of newHost.hostscripts) {
-            if (!existingHostScriptIds.has(script.id)) {
-              existing.hostscripts.push(script);
-            }
-          }
-
-          // Update port counts
-          existing.openPortCount = existing.ports.filter(p => p.state.state === 'open').length;
-          existing.closedPortCount = existing.ports.filter(p => p.state.state === 'closed').length;
-          existing.filteredPortCount = existing.ports.filter(p => p.state.state === 'filtered' || p.state.state === 'open|filtered').length;
-        } else {
-          // New host, add it
-          merged.hosts.push(newHost);
-        }
+      const imports = [...prev.imports, { source, scan: newScan, content, merge }];
+      // A new import always shows the latest state of the project
+      const scan = prev.asOfSourceId ? buildProjectScan(imports) : mergeScans(prev.scan, newScan, merge);
+      return { ...prev, scan, imports, asOfSourceId: null };
+    });
+  }, []);
+
+  // View the project as it was after one of its imported scans (null: all of them)
+  const setAsOfSource = useCallback((sourceId: string | null) => {
+    setState(prev => {
+      if (prev.imports.length === 0 || sourceId === prev.asOfSourceId) return prev;
+      const last = prev.imports[prev.imports.length - 1].source.id;
+      const asOfSourceId = sourceId === last ? null : sourceId;
+      return { ...prev, scan: buildProjectScan(prev.imports, asOfSourceId), asOfSourceId };
+    });
+  }, []);
+
+  // ========== Scan Diffs ==========
+
+  const saveScanDiff = useCallback((diff: ScanDiff) => {
+    setState(prev => ({ ...prev, diffs: [diff, ...prev.diffs.filter(d => d.id !== diff.id)] }));
+    if (projectId) {
+      saveDiff(projectId, diff).catch(err => console.error('Failed to save diff:', err));
+    }
+  }, [projectId]);
+
+  const deleteScanDiff = useCallback((id: string) => {
+    setState(prev => ({ ...prev, diffs: prev.diffs.filter(d => d.id !== id) }));
+    deleteDiff(id).catch(err => console.error('Failed to delete diff:', err));
+  }, []);
+
+  // ========== Filter Presets ==========
+
+  const putFilterPresets = useCallback((presets: FilterPreset[]) => {
+    setState(prev => {
+      const ids = new Set(presets.map(p => p.id));
+      const filterPresets = [...prev.filterPresets.filter(p => !ids.has(p.id)), ...presets]
+        .sort((a, b) => a.name.localeCompare(b.name));
+      return { ...prev, filterPresets };
+    });
+    Promise.all(presets.map(saveFilterPreset))
+      .catch(err => console.error('Failed to save filter presets:', err));
+  }, []);
+
+  const saveFilterAsPreset = useCallback((name: string) => {
+    const now = Date.now();
+    putFilterPresets([{
+      id: newFilterId('preset'),
+      name,
+      group: state.filterGroup,
+      showOnDashboard: false,
+      createdAt: now,
+      updatedAt: now,
+    }]);
+  }, [state.filterGroup, putFilterPresets]);
+
+  const updateFilterPreset = useCallback((id: string, updates: Partial<Omit<FilterPreset, 'id' | 'createdAt'>>) => {
+    const preset = state.filterPresets.find(p => p.id === id);
+    if (!preset) return;
+    putFilterPresets([{ ...preset, ...updates, updatedAt: Date.now() }]);
+  }, [state.filterPresets, putFilterPresets]);
+
+  const deleteFilterPreset = useCallback((id: string) => {
+    setState(prev => ({ ...prev, filterPresets: prev.filterPresets.filter(p => p.id !== id) }));
+    removeStoredFilterPreset(id).catch(err => console.error('Failed to delete filter preset:', err));
+  }, []);
+
+  // Replace the active filters with a preset and show the result
+  const applyFilterPreset = useCallback((id: string) => {
+    setState(prev => {
+      const preset = prev.filterPresets.find(p => p.id === id);
+      if (!preset) return prev;
+      return {
+        ...prev,
+        filterGroup: { ...preset.group, id: 'root' },
+        viewMode: 'hosts',
+        selectedHostId: null,
+        showFilterPanel: true,
+      };
+    });
+  }, []);
+
+  // ========== Scan Profiles ==========
+
+  // Save options under a name, replacing the profile of that name if there is one.
+  // Callers check the options with validateScanProfile first.
+  const saveScanProfile = useCallback((name: string, options: ScanProfileOptions): ScanProfile => {
+    const now = Date.now();
+    const existing = state.scanProfiles.find(p => p.name === name);
+    const profile: ScanProfile = {
+      ...options,
+      id: existing?.id || `profile-${crypto.randomUUID()}`,
+      name,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    setState(prev => ({
+      ...prev,
+      scanProfiles: [...prev.scanProfiles.filter(p => p.id !== profile.id), profile].sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+    storeScanProfile(profile).catch(err => console.error('Failed to save scan profile:', err));
+    return profile;
+  }, [state.scanProfiles]);
+
+  const deleteScanProfile = useCallback((id: string) => {
+    setState(prev => ({ ...prev, scanProfiles: prev.scanProfiles.filter(p => p.id !== id) }));
+    removeStoredScanProfile(id).catch(err => console.error('Failed to delete scan profile:', err));
+  }, []);
+
+  // ========== Script Catalog ==========
+
+  // Add scripts read from a local nmap's scripts directory to the catalog.
+  // Throws when the files hold no scripts; returns the number of scripts read.
+  const importScriptCatalog = useCallback((files: Array<{ name: string; content: string }>): number => {
+    const scripts = importScriptFiles(files);
+    const importedScripts = mergeScriptCatalogs(state.importedScripts, scripts);
+    setState(prev => ({ ...prev, importedScripts }));
+    saveScriptCatalog(importedScripts).catch(err => console.error('Failed to save script catalog:', err));
+    return scripts.length;
+  }, [state.importedScripts]);
+
+  const resetScriptCatalog = useCallback(() => {
+    setState(prev => ({ ...prev, importedScripts: [] }));
+    clearScriptCatalog().catch(err => console.error('Failed to clear script catalog:', err));
+  }, []);
+
+  // ========== Follow-up Scans ==========
+
+  const addFollowUps = useCallback((followUps: FollowUp[]) => {
+    setState(prev => {
+      const keys = new Set(prev.followUps.map(followUpKey));
+      const added: FollowUp[] = [];
+      for (const f of followUps) {
+        const key = followUpKey(f);
+        if (keys.has(key)) continue;
+        keys.add(key);
+        added.push(f);
       }
+      return added.length > 0 ? { ...prev, followUps: [...prev.followUps, ...added] } : prev;
+    });
+  }, []);
 
-      // Update scan-level stats
-      merged.totalHosts = merged.hosts.length;
-      merged.hostsUp = merged.hosts.filter(h => h.status.state === 'up').length;
-      merged.hostsDown = merged.hosts.filter(h => h.status.state === 'down').length;
+  const removeFollowUps = useCallback((followUps: FollowUp[]) => {
+    const keys = new Set(followUps.map(followUpKey));
+    setState(prev => ({ ...prev, followUps: prev.followUps.filter(f => !keys.has(followUpKey(f))) }));
+  }, []);
+
+  const clearFollowUps = useCallback(() => {
+    setState(prev => ({ ...prev, followUps: [] }));
+  }, []);
+
+  // ========== Engagement Scope ==========
+
+  const setScope = useCallback((scope: EngagementScope) => {
+    setState(prev => ({ ...prev, scope }));
+    if (projectId) {
+      saveScope(projectId, scope).catch(err => console.error('Failed to save engagement scope:', err));
+    }
+  }, [projectId]);
 
-      return { ...prev, scan: merged };
+  // ========== Hosts Columns ==========
+
+  const setHostColumns = useCallback((hostColumns: HostColumnSettings) => {
+    setState(prev => ({ ...prev, hostColumns }));
+    if (projectId) {
+      saveHostColumns(projectId, hostColumns).catch(err => console.error('Failed to save Hosts columns:', err));
+    }
+  }, [projectId]);
+
+  // Filter the host list down to out-of-scope hosts using the network operators
+  const showOutOfScopeHosts = useCallback(() => {
+    const asList = (text: string) => text.trim().split(/[\s,]+/).join(',');
+    setState(prev => {
+      const rules: FilterGroup['rules'] = [];
+      if (prev.scope.include.trim()) {
+        rules.push({ id: newFilterId('rule'), field: 'ip', operator: 'not_in_cidr', value: asList(prev.scope.include), enabled: true });
+      }
+      if (prev.scope.exclude.trim()) {
+        rules.push({ id: newFilterId('rule'), field: 'ip', operator: 'in_cidr', value: asList(prev.scope.exclude), enabled: true });
+      }
+      if (rules.length === 0) return prev;
+      return {
+        ...prev,
+        filterGroup: { id: 'root', logic: 'OR', rules, groups: [] },
+        viewMode: 'hosts',
+        selectedHostId: null,
+        showFilterPanel: true,
+      };
     });
   }, []);
 
   // ========== Computed values ==========
 
-  const filteredHosts = useMemo(() => {
+  const searchFilter = useMemo(() => parseFilterQuery(state.searchQuery), [state.searchQuery]);
+
+  // Free-text words of the active search and filters, for match highlighting
+  const searchTerms = useMemo((): string[] => {
+    const terms = collectTextTerms(state.filterGroup);
+    if (searchFilter.group) terms.push(...collectTextTerms(searchFilter.group));
+    else if (searchFilter.error && state.searchQuery.trim()) terms.push(state.searchQuery.trim());
+    return [...new Set(terms)];
+  }, [state.filterGroup, searchFilter, state.searchQuery]);
+
+  // Filtering, search and sorting run in a worker that holds the scan's hosts and search index
+  const queryClient = useRef<HostQueryClient | null>(null);
+  const [queryResult, setQueryResult] = useState<{ scan: NmapScan; hosts: NmapHost[] } | null>(null);
+  const [queryProgress, setQueryProgress] = useState<QueryProgress | null>(null);
+
+  // Created on first use, so child components' effects (which run first) can query too
+  const getQueryClient = useCallback((): HostQueryClient => {
+    if (!queryClient.current) queryClient.current = createHostQueryClient();
+    return queryClient.current;
+  }, []);
+
+  useEffect(() => () => {
+    queryClient.current?.dispose();
+    queryClient.current = null;
+  }, []);
+
+  // Every change starts a new query; the cleanup cancels the previous one, so typing doesn't queue stale work
+  useEffect(() => {
+    const scan = state.scan;
+    if (!scan) {
+      setQueryProgress(null);
+      return;
+    }
+    const project = { hosts: scan.hosts, imports: state.imports, asOf: state.asOfSourceId };
+    const pending = getQueryClient().query(project, { filterGroup: state.filterGroup, searchQuery: state.searchQuery, sorts: state.sorts }, setQueryProgress);
+    pending.promise
+      .then(hosts => {
+        if (!hosts) return;
+        setQueryResult({ scan, hosts });
+        setQueryProgress(null);
+      })
+      .catch(err => {
+        console.error('Failed to filter hosts:', err);
+        setQueryProgress(null);
+      });
+    return () => pending.cancel();
+  }, [state.scan, state.imports, state.asOfSourceId, state.filterGroup, state.searchQuery, state.sorts, getQueryClient]);
+
+  // Until the first result for a scan arrives, its hosts are shown unfiltered
+  const filteredHosts = useMemo((): NmapHost[] => {
     if (!state.scan) return [];
-    let hosts = state.scan.hosts;
-    hosts = applyFilters(hosts, state.filterGroup);
-    hosts = applySearch(hosts, state.searchQuery);
-    hosts = applySorting(hosts, state.sorts);
-    return hosts;
-  }, [state.scan, state.filterGroup, state.searchQuery, state.sorts]);
+    return queryResult && queryResult.scan === state.scan ? queryResult.hosts : state.scan.hosts;
+  }, [state.scan, queryResult]);
+
+  // A one-off query against the whole scan, e.g. for preset counts. Resolves to null when cancelled.
+  const queryHosts = useCallback((query: HostQuery): PendingQuery => {
+    if (!state.scan) return { promise: Promise.resolve(null), cancel: () => {} };
+    return getQueryClient().query({ hosts: state.scan.hosts, imports: state.imports, asOf: state.asOfSourceId }, query);
+  }, [state.scan, state.imports, state.asOfSourceId, getQueryClient]);
+
+  const vulnerabilities = useMemo(() => extractVulnerabilities(filteredHosts), [filteredHosts]);
+
+  // Host ID -> reason, for every host outside the engagement scope
+  const scopeViolations = useMemo((): Map<string, string> => {
+    const violations = new Map<string, string>();
+    if (!state.scan || isScopeEmpty(state.scope)) return violations;
+    for (const host of state.scan.hosts) {
+      const reason = getScopeViolation(host, state.scope);
+      if (reason) violations.set(host.id, reason);
+    }
+    return violations;
+  }, [state.scan, state.scope]);
+
+  const scriptCatalog = useMemo(
+    () => mergeScriptCatalogs(BUILTIN_SCRIPTS, state.importedScripts),
+    [state.importedScripts],
+  );
+
+  // Script suggestions come from the catalog, without the categories the scope rules out
+  const suggestionOptions = useMemo((): SuggestionOptions => ({
+    catalog: scriptCatalog,
+    excludeCategories: state.scope.excludedCategories ?? [],
+  }), [scriptCatalog, state.scope.excludedCategories]);
 
   const selectedHost = useMemo(() => {
     if (!state.selectedHostId || !state.scan) return null;
@@ -426,12 +765,22 @@ export function useAppStore() {
   return {
     state,
     filteredHosts,
+    searchFilter,
+    searchTerms,
+    queryProgress,
+    queryHosts,
+    vulnerabilities,
+    scopeViolations,
+    scriptCatalog,
+    suggestionOptions,
     selectedHost,
     setScan,
     setScanWithNotes,
     setViewMode,
     setSearchQuery,
     setFilterGroup,
+    moveSearchToFilters,
+    setSubnetFilter,
     setSorts,
     toggleSort,
     setSelectedHostId,
@@ -442,6 +791,7 @@ export function useAppStore() {
     setShowFilterPanel,
     setError,
     setLoading,
+    setLoadingProgress,
     reset,
     // Notes
     addNote,
@@ -457,6 +807,31 @@ export function useAppStore() {
     portsWithNotes,
     // Scan merge
     mergeScan,
+    setAsOfSource,
+    // Scan diffs
+    saveScanDiff,
+    deleteScanDiff,
+    // Filter presets
+    saveFilterAsPreset,
+    updateFilterPreset,
+    deleteFilterPreset,
+    applyFilterPreset,
+    importFilterPresets: putFilterPresets,
+    // Scan profiles
+    saveScanProfile,
+    deleteScanProfile,
+    // Script catalog
+    importScriptCatalog,
+    resetScriptCatalog,
+    // Follow-up scans
+    addFollowUps,
+    removeFollowUps,
+    clearFollowUps,
+    // Engagement scope
+    setScope,
+    showOutOfScopeHosts,
+    // Hosts columns
+    setHostColumns,
   };
 }
 
@@ -0,0 +1,222 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { NmapScan, NmapHost } from '../types/nmap';
+import type { AppStore } from './appStore';
+import type { ScanRequest } from '../electron/nmapArgs';
+import { createNmapStreamParser, type NmapStreamParser } from '../parser/streamParser';
+
+// State of a scan run with the local nmap (Electron only). Hosts are parsed
+// from the XML as nmap writes it; when the scan finishes the results are
+// merged into the open project, or become the project when none is open.
+
+export type ScanRunStatus = 'idle' | 'starting' | 'running' | 'done' | 'canceled' | 'failed';
+
+export interface ScanRunState {
+  status: ScanRunStatus;
+  command: string;
+  task: string; // current nmap phase, e.g. "SYN Stealth Scan"
+  percent: number | null;
+  remaining: number | null; // seconds
+  hosts: NmapHost[]; // parsed so far
+  stderr: string;
+  error: string | null;
+  // Results of a canceled scan, kept until merged or discarded
+  partial: { scan: NmapScan; content: string; fileName: string } | null;
+}
+
+const initialRunState: ScanRunState = {
+  status: 'idle',
+  command: '',
+  task: '',
+  percent: null,
+  remaining: null,
+  hosts: [],
+  stderr: '',
+  error: null,
+  partial: null,
+};
+
+// A scan of a queue, run one after the other; each is merged as it finishes
+export interface QueuedScan {
+  id: string;
+  label: string;
+  request: ScanRequest;
+  status: 'pending' | 'running' | 'done' | 'failed' | 'canceled';
+  hosts: number; // hosts the scan reported
+  error: string | null;
+}
+
+// nmap's stderr is only shown for diagnostics; keep the end of it
+const MAX_STDERR = 16 * 1024;
+
+export function isScanRunnerAvailable(): boolean {
+  return typeof window !== 'undefined' && !!window.electronAPI?.startScan;
+}
+
+function resultFileName(): string {
+  return `nmap-${new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19)}.xml`;
+}
+
+// ipcRenderer.invoke wraps errors thrown in the main process
+function remoteErrorMessage(err: unknown): string {
+  return (err instanceof Error ? err.message : String(err)).replace(/^Error invoking remote method '[^']+': (Error: )?/, '');
+}
+
+interface ActiveScan {
+  scanId: string | null; // null until the main process has started it
+  parser: NmapStreamParser;
+  found: NmapHost[]; // parsed since the last state update
+  content: string;
+}
+
+export function useScanRunner(store: AppStore) {
+  const [run, setRun] = useState<ScanRunState>(initialRunState);
+  const [queue, setQueue] = useState<QueuedScan[]>([]);
+  const activeRef = useRef<ActiveScan | null>(null);
+  // Events arrive outside React; read the latest store from here
+  const storeRef = useRef(store);
+  storeRef.current = store;
+
+  const applyResult = useCallback((scan: NmapScan, content: string, fileName: string) => {
+    const current = storeRef.current;
+    if (current.state.scan) current.mergeScan(scan, fileName, content);
+    else current.setScan(scan, fileName, content);
+  }, []);
+
+  const finish = useCallback((active: ActiveScan, canceled: boolean, exitCode: number | null) => {
+    activeRef.current = null;
+    let scan: NmapScan | null = null;
+    try {
+      scan = active.parser.end();
+    } catch {
+      // No usable XML; reported below
+    }
+    const fileName = resultFileName();
+
+    if (canceled) {
+      const partial = scan && scan.hosts.length > 0 ? { scan, content: active.content, fileName } : null;
+      setRun(prev => ({ ...prev, status: 'canceled', partial }));
+      return;
+    }
+    if (!scan || (exitCode !== 0 && scan.hosts.length === 0)) {
+      setRun(prev => ({ ...prev, status: 'failed', error: `nmap exited with code ${exitCode ?? 'unknown'}` }));
+      return;
+    }
+    applyResult(scan, active.content, fileName);
+    setRun(prev => ({ ...prev, status: 'done', percent: 100, remaining: null }));
+  }, [applyResult]);
+
+  useEffect(() => {
+    if (!isScanRunnerAvailable()) return;
+    const cleanup = window.electronAPI!.onScanEvent((event) => {
+      const active = activeRef.current;
+      if (!active) return;
+      // Events can arrive before startScan() resolves; only one scan runs at a time
+      if (active.scanId === null) active.scanId = event.scanId;
+      if (event.scanId !== active.scanId) return;
+
+      switch (event.type) {
+        case 'start':
+          setRun(prev => ({ ...prev, status: 'running', command: event.command || prev.command }));
+          break;
+        case 'chunk':
+          active.content += event.text || '';
+          try {
+            active.parser.write(event.text || '');
+          } catch {
+            // A malformed host; the rest of the output is still kept
+          }
+          if (active.found.length > 0) {
+            const found = active.found;
+            active.found = [];
+            setRun(prev => ({ ...prev, hosts: [...prev.hosts, ...found] }));
+          }
+          break;
+        case 'progress':
+          setRun(prev => ({ ...prev, task: event.task || prev.task, percent: event.percent ?? null, remaining: event.remaining ?? null }));
+          break;
+        case 'stderr':
+          setRun(prev => ({ ...prev, stderr: (prev.stderr + (event.text || '')).slice(-MAX_STDERR) }));
+          break;
+        case 'end':
+          finish(active, !!event.canceled, event.exitCode ?? null);
+          break;
+        case 'error':
+          activeRef.current = null;
+          setRun(prev => ({ ...prev, status: 'failed', error: event.message || 'nmap could not be started' }));
+          break;
+      }
+    });
+    return () => { cleanup?.(); };
+  }, [finish]);
+
+  const start = useCallback(async (request: ScanRequest) => {
+    if (activeRef.current) return;
+    const active: ActiveScan = { scanId: null, parser: createNmapStreamParser(host => active.found.push(host)), found: [], content: '' };
+    activeRef.current = active;
+    setRun({ ...initialRunState, status: 'starting' });
+    try {
+      const { scanId, command } = await window.electronAPI!.startScan(request);
+      active.scanId = scanId;
+      setRun(prev => ({ ...prev, command, status: prev.status === 'starting' ? 'running' : prev.status }));
+    } catch (err) {
+      activeRef.current = null;
+      setRun({ ...initialRunState, status: 'failed', error: remoteErrorMessage(err) });
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    const scanId = activeRef.current?.scanId;
+    if (scanId) window.electronAPI!.cancelScan(scanId);
+  }, []);
+
+  // Merge what a canceled scan found before it was stopped
+  const mergePartial = useCallback(() => {
+    if (!run.partial) return;
+    applyResult(run.partial.scan, run.partial.content, run.partial.fileName);
+    setRun(prev => ({ ...prev, status: 'done', partial: null }));
+  }, [run.partial, applyResult]);
+
+  const reset = useCallback(() => {
+    if (!activeRef.current) setRun(initialRunState);
+  }, []);
+
+  // ========== Queue ==========
+
+  const startQueue = useCallback((scans: { id: string; label: string; request: ScanRequest }[]) => {
+    if (activeRef.current || queue.some(q => q.status === 'pending' || q.status === 'running')) return;
+    setQueue(scans.map(scan => ({ ...scan, status: 'pending', hosts: 0, error: null })));
+  }, [queue]);
+
+  // Stop the running scan and skip the rest
+  const cancelQueue = useCallback(() => {
+    setQueue(prev => prev.map(q => q.status === 'pending' ? { ...q, status: 'canceled' } : q));
+    cancel();
+  }, [cancel]);
+
+  const clearQueue = useCallback(() => {
+    setQueue(prev => prev.some(q => q.status === 'running') ? prev : []);
+  }, []);
+
+  // Record how the current scan ended and start the next one. A canceled scan
+  // stops the queue; after a failed one the queue goes on.
+  useEffect(() => {
+    const current = queue.find(q => q.status === 'running');
+    if (current) {
+      if (run.status !== 'done' && run.status !== 'failed' && run.status !== 'canceled') return;
+      const canceled = run.status === 'canceled';
+      setQueue(prev => prev.map(q => {
+        if (q.id === current.id) return { ...q, status: run.status as QueuedScan['status'], hosts: run.hosts.length, error: run.error };
+        return canceled && q.status === 'pending' ? { ...q, status: 'canceled' } : q;
+      }));
+      return;
+    }
+    const next = queue.find(q => q.status === 'pending');
+    if (!next || activeRef.current) return;
+    setQueue(prev => prev.map(q => q.id === next.id ? { ...q, status: 'running' } : q));
+    start(next.request);
+  }, [queue, run.status, run.hosts.length, run.error, start]);
+
+  return { run, start, cancel, mergePartial, reset, queue, startQueue, cancelQueue, clearQueue };
+}
+
+export type ScanRunner = ReturnType<typeof useScanRunner>;
@@ -20,6 +20,8 @@ export interface NmapScan {
   scanDuration: number;
   uniquePorts: PortSummary[];
   uniqueServices: ServiceSummary[];
+  // Imported scans of a project, in import order; the scan data is merged from these (see utils/scanMerge)
+  sources?: ScanSource[];
 }
 
 export interface ScanInfo {
@@ -42,6 +44,19 @@ export interface RunStats {
     down: number;
     total: number;
   };
+  // Set when the scan was interrupted and the stats were synthesized from the hosts that were recovered
+  incomplete?: boolean;
+  lastTask?: ScanTask | null;
+}
+
+// Last <taskbegin>/<taskprogress>/<taskend> seen in the XML (emitted with -v or --stats-every)
+export interface ScanTask {
+  task: string;
+  status: 'begin' | 'progress' | 'end';
+  time: number;
+  percent: number | null;
+  remaining: number | null; // seconds
+  etc: number | null; // estimated completion time
 }
 
 export interface NmapHost {
@@ -71,6 +86,8 @@ export interface NmapHost {
   openPortCount: number;
   closedPortCount: number;
   filteredPortCount: number;
+  // Provenance: ids of the scan sources that reported this host, in import order
+  seenIn?: string[];
 }
 
 export interface HostStatus {
@@ -97,6 +114,13 @@ export interface Port {
   service: Service | null;
   scripts: Script[];
   owner?: string;
+  // Provenance: the state each scan source reported for this port, in import order
+  history?: PortObservation[];
+}
+
+export interface PortObservation {
+  sourceId: string;
+  state: string;
 }
 
 export interface PortState {
@@ -129,6 +153,8 @@ export interface Script {
   id: string;
   output: string;
   elements: ScriptElement[];
+  // Provenance: ids of the scan sources that reported this script result, in import order
+  seenIn?: string[];
 }
 
 export interface ScriptElement {
@@ -209,6 +235,39 @@ export interface Smurf {
   responses: string;
 }
 
+// One scan file imported into a project
+export interface ScanSource {
+  id: string;
+  fileName: string;
+  start: number; // scan start time (unix seconds)
+  args: string; // nmap command line
+}
+
+// How mergeScans settles a port (or host script set) reported differently by two scans
+export interface MergeStrategies {
+  state: 'newest' | 'existing' | 'most_open';
+  service: 'highest_confidence' | 'newest' | 'existing';
+  scripts: 'union' | 'newest' | 'existing';
+}
+
+// Which side wins a conflict; 'both' keeps the union (scripts only)
+export type MergeChoice = 'existing' | 'incoming' | 'both';
+
+export interface MergeOptions {
+  strategies: MergeStrategies;
+  resolutions: Record<string, MergeChoice>; // conflict id -> choice made by hand, overriding the strategy
+}
+
+export interface MergeConflict {
+  id: string; // stable across re-parsing: address, port and field
+  address: string;
+  port: string | null; // "80/tcp", null for host scripts
+  field: 'state' | 'service' | 'scripts';
+  existing: string; // display values
+  incoming: string;
+  resolution: MergeChoice; // what the strategy picks
+}
+
 // Aggregation types
 export interface PortSummary {
   port: number;
@@ -229,10 +288,29 @@ export interface ServiceSummary {
   hosts: string[];
 }
 
+// Vulnerability types (extracted from NSE script output)
+export type VulnState = 'VULNERABLE' | 'LIKELY' | 'NOT VULNERABLE' | 'UNKNOWN';
+
+export interface VulnFinding {
+  id: string;
+  hostId: string;
+  hostAddr: string;
+  hostname: string;
+  port: number | null; // null for host scripts
+  protocol: string;
+  scriptId: string;
+  vulnId: string; // CVE ID when available, otherwise the script's own identifier
+  title: string;
+  cvss: number | null;
+  state: VulnState;
+  exploit: boolean;
+  references: string[];
+}
+
 // Filter types
 export type FilterOperator = 'equals' | 'not_equals' | 'contains' | 'not_contains' |
   'starts_with' | 'ends_with' | 'greater_than' | 'less_than' | 'in_range' |
-  'regex' | 'is_empty' | 'is_not_empty';
+  'regex' | 'is_empty' | 'is_not_empty' | 'has' | 'in_cidr' | 'not_in_cidr' | 'in_ip_range';
 
 export interface FilterRule {
   id: string;
@@ -240,12 +318,72 @@ export interface FilterRule {
   operator: FilterOperator;
   value: string;
   enabled: boolean;
+  negate?: boolean;
 }
 
 export interface FilterGroup {
   id: string;
   logic: 'AND' | 'OR';
   rules: FilterRule[];
+  groups?: FilterGroup[]; // nested sub-expressions, combined with the rules using `logic`
+  negate?: boolean;
+}
+
+// Syntax error in a search bar query; start/end are character offsets into the query
+export interface FilterQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+// Named filter saved to the shared library (IndexedDB), independent of any one scan
+export interface FilterPreset {
+  id: string;
+  name: string;
+  group: FilterGroup;
+  showOnDashboard: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What a scan profile runs; turned into nmap arguments by utils/scanProfiles
+export interface ScanProfileOptions {
+  scanType: 'connect' | 'syn' | 'udp' | 'ping';
+  ports: string; // nmap -p syntax; empty for topPorts or nmap's defaults
+  topPorts: number | null;
+  timing: number; // -T0 .. -T5
+  serviceDetection: boolean;
+  osDetection: boolean;
+  defaultScripts: boolean;
+  scriptCategories: string[]; // NSE categories, e.g. safe, discovery
+  scripts: string[];
+  traceroute: boolean;
+  skipHostDiscovery: boolean;
+  include: string[]; // targets; empty when they are given at run time
+  exclude: string[];
+}
+
+// Named scan template saved to the shared library (IndexedDB)
+export interface ScanProfile extends ScanProfileOptions {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// An NSE script picked for one open port of one host, queued for a follow-up scan
+export interface FollowUp {
+  address: string;
+  portid: number;
+  protocol: 'tcp' | 'udp';
+  script: string;
+}
+
+// Authorized ranges for an engagement; both are address/CIDR/range lists (see utils/ipRanges)
+export interface EngagementScope {
+  include: string; // when set, hosts outside these ranges are out of scope
+  exclude: string; // hosts in these ranges are always out of scope
+  excludedCategories?: string[]; // NSE script categories the rules of engagement don't allow
 }
 
 export type SortDirection = 'asc' | 'desc';
@@ -255,6 +393,19 @@ export interface SortConfig {
   direction: SortDirection;
 }
 
+// User-defined Hosts table column; the expression is evaluated per host (see utils/columnExpressions)
+export interface CustomHostColumn {
+  expression: string; // e.g. "open:443" or "script:ssl-cert.subject.commonName@443"
+  label: string;
+}
+
+// Hosts table column set of a project (see utils/hostColumns)
+export interface HostColumnSettings {
+  columns: string[]; // visible column ids in display order: filter fields or custom expressions
+  custom: CustomHostColumn[];
+  widths: Record<string, number>; // resized columns only
+}
+
 // Column definition for table views
 export interface ColumnDef {
   id: string;
@@ -268,8 +419,57 @@ export interface ColumnDef {
   render?: (value: any, host: NmapHost) => string;
 }
 
+// ========== Scan Diffs ==========
+
+export type ChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+// One attribute that differs between the two scans; '' stands for "not present"
+export interface FieldChange {
+  field: string; // status, hostname, os, state, service, product, version, extrainfo, cpe, or "script <id>"
+  before: string;
+  after: string;
+}
+
+export interface PortDiff {
+  port: number;
+  protocol: string;
+  status: ChangeStatus;
+  baseState?: string;
+  compareState?: string;
+  baseService?: string;
+  compareService?: string;
+  changes: FieldChange[];
+}
+
+export interface HostDiff {
+  ip: string;
+  hostname: string;
+  status: ChangeStatus;
+  changes: FieldChange[]; // host-level: status, hostname, OS match, host scripts
+  portChanges: PortDiff[]; // changed ports only
+  baseOpenPorts: number | null; // null when the host is missing from that side
+  compareOpenPorts: number | null;
+}
+
+export interface ScanDiffSide {
+  fileName: string;
+  start: number; // scan start time (unix seconds)
+  args: string;
+}
+
+// Comparison of two scans, self-contained so it can be saved with the project and exported
+export interface ScanDiff {
+  id: string;
+  name: string;
+  createdAt: number;
+  base: ScanDiffSide;
+  compare: ScanDiffSide;
+  summary: Record<ChangeStatus, number>; // host counts
+  hosts: HostDiff[]; // added, removed and changed hosts
+}
+
 // Export types
-export type ExportFormat = 'csv' | 'json' | 'html' | 'xml' | 'markdown' | 'project';
+export type ExportFormat = 'csv' | 'json' | 'html' | 'xml' | 'gnmap' | 'nmap' | 'markdown' | 'project';
 
 export interface ExportOptions {
   format: ExportFormat;
@@ -281,13 +481,27 @@ export interface ExportOptions {
   includeNotes?: boolean;
   notes?: Note[];
   selectedHostIds?: string[];
+  hostColumns?: { id: string; label: string }[]; // CSV: host columns in place of the fixed address/status set
+}
+
+// Progress of a background (streamed) import
+export interface LoadProgress {
+  bytesRead: number;
+  totalBytes: number;
+  hostCount: number;
+}
+
+// Progress of a background filter/search/sort of the host list
+export interface QueryProgress {
+  done: number; // hosts checked so far
+  total: number;
 }
 
 // View types
-export type ViewMode = 'dashboard' | 'hosts' | 'ports' | 'services' | 'notes' | 'vulnerabilities';
+export type ViewMode = 'dashboard' | 'hosts' | 'ports' | 'services' | 'subnets' | 'topology' | 'notes' | 'vulnerabilities' | 'followup';
 
 // Tab types for host detail
-export type HostDetailTab = 'ports' | 'os' | 'scripts' | 'trace' | 'timing' | 'notes' | 'suggestions' | 'raw';
+export type HostDetailTab = 'ports' | 'os' | 'scripts' | 'timeline' | 'trace' | 'timing' | 'notes' | 'suggestions' | 'raw';
 
 // ========== Notes & Screenshots ==========
 
@@ -317,21 +531,45 @@ export interface Note {
 
 // ========== Nmap Script Suggestions ==========
 
+// A documented --script-args argument of a script
+export interface NseScriptArg {
+  name: string;
+  description: string;
+}
+
+// An NSE script in the script catalog
+export interface NseScript {
+  id: string; // file name without .nse
+  description: string;
+  categories: string[];
+  ports: number[]; // portrule hints: the ports and service names the script runs against
+  services: string[];
+  args: NseScriptArg[];
+}
+
 export interface ScriptSuggestion {
   scriptId: string;
   description: string;
-  category: string;
-  args?: string;
+  category: string; // the most notable of categories, for display
+  categories: string[];
+  args?: NseScriptArg[];
 }
 
 // ========== Saved Project ==========
 
+// A scan merged into a project, with the merge settings used so reloading reproduces the result
+export interface MergedScanFile {
+  fileName: string;
+  content: string;
+  merge?: MergeOptions;
+}
+
 export interface SavedProject {
   id: string;
   name: string;
   scanData: string; // raw scan file content
   scanFileName: string;
   notes: Note[];
-  mergedScans: { fileName: string; content: string }[];
+  mergedScans: MergedScanFile[];
   savedAt: number;
 }
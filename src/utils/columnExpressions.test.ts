@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { parseColumnExpression, formatColumnExpression, describeColumnExpression, evaluateColumnExpression } from './columnExpressions';
+import { applySorting } from './filterEngine';
+import { getHostColumnValue, resolveHostColumns, normalizeHostColumnSettings } from './hostColumns';
+import { parseNmapXML } from '../parser/nmapParser';
+
+const XML = `<?xml version="1.0"?>
+<nmaprun scanner="nmap" args="nmap -sV -sC 10.0.0.0/30" start="1700000000" version="7.94" xmloutputversion="1.05">
+  <host>
+    <status state="up" reason="syn-ack" reason_ttl="64"/>
+    <address addr="10.0.0.1" addrtype="ipv4"/>
+    <ports>
+      <port protocol="tcp" portid="80">
+        <state state="open" reason="syn-ack" reason_ttl="64"/>
+        <service name="http" product="nginx"/>
+        <script id="http-title" output="Welcome to nginx!"><elem key="title">Welcome to nginx!</elem></script>
+      </port>
+      <port protocol="tcp" portid="443">
+        <state state="open" reason="syn-ack" reason_ttl="64"/>
+        <service name="http" tunnel="ssl"/>
+        <script id="ssl-cert" output="Subject: commonName=www.example.com&#xa;Issuer: commonName=Example CA">
+          <table key="subject"><elem key="commonName">www.example.com</elem><elem key="organizationName">Example</elem></table>
+          <table key="issuer"><elem key="commonName">Example CA</elem></table>
+        </script>
+      </port>
+    </ports>
+  </host>
+  <host>
+    <status state="up" reason="syn-ack" reason_ttl="64"/>
+    <address addr="10.0.0.2" addrtype="ipv4"/>
+    <ports>
+      <port protocol="tcp" portid="443"><state state="closed" reason="reset" reason_ttl="64"/></port>
+      <port protocol="udp" portid="161"><state state="open|filtered" reason="no-response" reason_ttl="0"/></port>
+    </ports>
+    <hostscript><script id="smb-os-discovery" output="OS: Windows"><elem key="os">Windows Server 2019</elem></script></hostscript>
+  </host>
+  <runstats><finished time="1700000010" elapsed="10"/><hosts up="2" down="0" total="2"/></runstats>
+</nmaprun>`;
+
+const [web, other] = parseNmapXML(XML).hosts;
+
+describe('parseColumnExpression', () => {
+  it('parses each kind and round-trips through formatColumnExpression', () => {
+    for (const text of ['open:443', 'state:161/udp', 'script:http-title@80', 'script:ssl-cert.subject.commonName@443', 'script:smb-os-discovery.os']) {
+      const expr = parseColumnExpression(text);
+      expect(expr).not.toBeNull();
+      expect(formatColumnExpression(expr!)).toBe(text);
+    }
+    expect(parseColumnExpression('script:ssl-cert.issuer.commonName@443/tcp')).toEqual({
+      kind: 'script', script: 'ssl-cert', key: 'issuer.commonName', port: 443, protocol: 'tcp',
+    });
+  });
+
+  it('rejects malformed expressions', () => {
+    for (const text of ['', 'ip', 'open:', 'open:http', 'open:70000', 'state:53/icmp', 'script:', 'script:a..b', 'script:http-title@x']) {
+      expect(parseColumnExpression(text)).toBeNull();
+    }
+  });
+
+  it('describes expressions for default labels', () => {
+    expect(describeColumnExpression(parseColumnExpression('open:443')!)).toBe('443/tcp open');
+    expect(describeColumnExpression(parseColumnExpression('script:ssl-cert.subject.commonName@443')!)).toBe('ssl-cert subject.commonName (443/tcp)');
+  });
+});
+
+describe('evaluateColumnExpression', () => {
+  it('reports whether a port is open and its state', () => {
+    expect(evaluateColumnExpression(web, 'open:443')).toBe('yes');
+    expect(evaluateColumnExpression(other, 'open:443')).toBe('no');
+    expect(evaluateColumnExpression(other, 'state:443')).toBe('closed');
+    expect(evaluateColumnExpression(other, 'state:161/udp')).toBe('open|filtered');
+    expect(evaluateColumnExpression(web, 'state:22')).toBe('');
+  });
+
+  it('reads script output and structured elements', () => {
+    expect(evaluateColumnExpression(web, 'script:http-title@80')).toBe('Welcome to nginx!');
+    expect(evaluateColumnExpression(web, 'script:ssl-cert.subject.commonName@443')).toBe('www.example.com');
+    expect(evaluateColumnExpression(web, 'script:ssl-cert.issuer.commonName@443')).toBe('Example CA');
+    // Keys are found at any depth, and tables give their values
+    expect(evaluateColumnExpression(web, 'script:ssl-cert.organizationName')).toBe('Example');
+    expect(evaluateColumnExpression(web, 'script:ssl-cert.subject@443')).toBe('www.example.com, Example');
+    // Multi-line output is flattened
+    expect(evaluateColumnExpression(web, 'script:ssl-cert@443')).toBe('Subject: commonName=www.example.com Issuer: commonName=Example CA');
+    expect(evaluateColumnExpression(web, 'script:http-title@443')).toBe('');
+  });
+
+  it('looks in host scripts when no port is given', () => {
+    expect(evaluateColumnExpression(other, 'script:smb-os-discovery.os')).toBe('Windows Server 2019');
+    expect(evaluateColumnExpression(web, 'script:smb-os-discovery.os')).toBe('');
+  });
+
+  it('sorts hosts by computed columns', () => {
+    const sorted = applySorting([other, web], [{ field: 'script:ssl-cert.subject.commonName@443', direction: 'desc' }]);
+    expect(sorted.map(h => h.ip)).toEqual(['10.0.0.1', '10.0.0.2']);
+  });
+});
+
+describe('host columns', () => {
+  it('gives every filter field and computed column a value', () => {
+    expect(getHostColumnValue(web, 'ip')).toBe('10.0.0.1');
+    expect(getHostColumnValue(web, 'openPortCount')).toBe('2');
+    expect(getHostColumnValue(web, 'port.service')).toBe('http');
+    expect(getHostColumnValue(other, 'port.state')).toBe('closed, open|filtered');
+    expect(getHostColumnValue(web, 'open:80')).toBe('yes');
+  });
+
+  it('resolves visible columns in order, including computed ones', () => {
+    const settings = normalizeHostColumnSettings({
+      columns: ['open:443', 'ip', 'port.service'],
+      custom: [{ expression: 'open:443', label: '' }],
+    })!;
+    expect(resolveHostColumns(settings).map(c => [c.id, c.label, c.group])).toEqual([
+      ['open:443', '443/tcp open', 'custom'],
+      ['ip', 'IP Address', 'host'],
+      ['port.service', 'Port: Service', 'port'],
+    ]);
+  });
+
+  it('drops computed columns that are not defined', () => {
+    expect(normalizeHostColumnSettings({ columns: ['open:443', 'ip'] })!.columns).toEqual(['ip']);
+    expect(normalizeHostColumnSettings(null)).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+import type { NmapHost, Port, Script, ScriptElement } from '../types/nmap';
+
+// Computed host columns. A column is described by a short expression that
+// doubles as its id and sort field, so sorting works anywhere the host list
+// is sorted (including the query worker) without passing definitions around:
+//
+//   open:443            'yes' when 443/tcp is open, else 'no'
+//   state:161/udp       state of 161/udp, '' when not scanned
+//   script:http-title@80                     output of http-title on 80/tcp
+//   script:ssl-cert.subject.commonName@443   an element of the script's structured output
+//   script:smb-os-discovery.os               a host script (or any port) when no port is given
+
+export type ColumnExpressionKind = 'open' | 'state' | 'script';
+
+export interface ColumnExpression {
+  kind: ColumnExpressionKind;
+  port?: number;
+  protocol?: string; // defaults to tcp when a port is given
+  script?: string;
+  key?: string; // dot-separated element key path, for script columns
+}
+
+const EXPRESSION_PATTERN = /^(open|state|script):(.+)$/;
+const PORT_PATTERN = /^(\d{1,5})(?:\/(tcp|udp|sctp|ip))?$/;
+const SCRIPT_PATTERN = /^([\w-]+)(?:\.([^@]+))?$/;
+
+export function isColumnExpression(field: string): boolean {
+  return EXPRESSION_PATTERN.test(field);
+}
+
+function parsePort(text: string): { port: number; protocol: string } | null {
+  const m = PORT_PATTERN.exec(text.trim());
+  if (!m) return null;
+  const port = Number(m[1]);
+  if (port < 0 || port > 65535) return null;
+  return { port, protocol: m[2] || 'tcp' };
+}
+
+/**
+ * Parse a column expression, or return null when it isn't valid.
+ */
+export function parseColumnExpression(text: string): ColumnExpression | null {
+  const m = EXPRESSION_PATTERN.exec(text.trim());
+  if (!m) return null;
+  const kind = m[1] as ColumnExpressionKind;
+  if (kind === 'open' || kind === 'state') {
+    const port = parsePort(m[2]);
+    return port ? { kind, ...port } : null;
+  }
+
+  const at = m[2].lastIndexOf('@');
+  const scriptPart = at >= 0 ? m[2].slice(0, at) : m[2];
+  const script = SCRIPT_PATTERN.exec(scriptPart);
+  if (!script) return null;
+  const expr: ColumnExpression = { kind, script: script[1] };
+  if (script[2]) {
+    const key = script[2].split('.').map(s => s.trim());
+    if (key.some(s => !s)) return null;
+    expr.key = key.join('.');
+  }
+  if (at >= 0) {
+    const port = parsePort(m[2].slice(at + 1));
+    if (!port) return null;
+    Object.assign(expr, port);
+  }
+  return expr;
+}
+
+// Canonical text of an expression; round-trips through parseColumnExpression
+export function formatColumnExpression(expr: ColumnExpression): string {
+  const port = expr.port !== undefined ? `${expr.port}${expr.protocol && expr.protocol !== 'tcp' ? `/${expr.protocol}` : ''}` : '';
+  if (expr.kind !== 'script') return `${expr.kind}:${port}`;
+  return `script:${expr.script}${expr.key ? `.${expr.key}` : ''}${port ? `@${port}` : ''}`;
+}
+
+// Default column header for an expression
+export function describeColumnExpression(expr: ColumnExpression): string {
+  const port = expr.port !== undefined ? `${expr.port}/${expr.protocol || 'tcp'}` : '';
+  switch (expr.kind) {
+    case 'open': return `${port} open`;
+    case 'state': return `${port} state`;
+    case 'script': {
+      const name = expr.key ? `${expr.script} ${expr.key}` : expr.script!;
+      return port ? `${name} (${port})` : name;
+    }
+  }
+}
+
+function findPort(host: NmapHost, port: number, protocol = 'tcp'): Port | undefined {
+  return host.ports.find(p => p.portid === port && p.protocol === protocol);
+}
+
+// Elements matching each key in turn; a key is looked for at any depth below the previous one
+export function findElement(elements: ScriptElement[], path: string[]): ScriptElement | undefined {
+  const [key, ...rest] = path;
+  const stack = [...elements];
+  while (stack.length > 0) {
+    const el = stack.shift()!;
+    if (el.key === key) {
+      if (rest.length === 0) return el;
+      const found = findElement(el.children || [], rest);
+      if (found) return found;
+    } else if (el.children) {
+      stack.push(...el.children);
+    }
+  }
+  return undefined;
+}
+
+export function elementText(el: ScriptElement): string {
+  if (!el.children || el.children.length === 0) return el.value;
+  return el.children.map(elementText).filter(Boolean).join(', ');
+}
+
+function scriptValue(script: Script, key?: string): string {
+  if (!key) return script.output.trim().replace(/\s*\n\s*/g, ' ');
+  const el = findElement(script.elements, key.split('.'));
+  return el ? elementText(el) : '';
+}
+
+// Sorting evaluates the same few expressions for every comparison
+const parsedCache = new Map<string, ColumnExpression | null>();
+
+/**
+ * Value of a column expression for a host ('' when it doesn't apply).
+ */
+export function evaluateColumnExpression(host: NmapHost, field: string): string {
+  let expr = parsedCache.get(field);
+  if (expr === undefined) {
+    expr = parseColumnExpression(field);
+    parsedCache.set(field, expr);
+  }
+  if (!expr) return '';
+  if (expr.kind === 'open') {
+    return findPort(host, expr.port!, expr.protocol)?.state.state === 'open' ? 'yes' : 'no';
+  }
+  if (expr.kind === 'state') {
+    return findPort(host, expr.port!, expr.protocol)?.state.state || '';
+  }
+
+  const scripts = expr.port !== undefined
+    ? findPort(host, expr.port, expr.protocol)?.scripts || []
+    : [...host.ports.flatMap(p => p.scripts), ...host.hostscripts];
+  for (const script of scripts) {
+    if (script.id !== expr.script) continue;
+    const value = scriptValue(script, expr.key);
+    if (value) return value;
+  }
+  return '';
+}
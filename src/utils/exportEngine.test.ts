@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { exportData, getExportFilename, getExportMimeType } from './exportEngine';
+import { exportData, exportDiff, importedScanText, getExportFilename, getDiffExportFilename, getExportMimeType } from './exportEngine';
+import { diffScans, describeSide } from './scanDiff';
+import { mergeScans, createScanSource } from './scanMerge';
+import { exportProjectFile, importProjectFile } from './storage';
+import { parseNmapXML, parseNmapGreppable, parseNmapNormal, parseNmapOutput } from '../parser/nmapParser';
 import type { NmapScan, NmapHost, ExportOptions } from '../types/nmap';
 
 function makeScan(overrides: Partial<NmapScan> = {}): NmapScan {
@@ -146,6 +150,19 @@ describe('exportData - CSV', () => {
     const header = csv.split('\n')[0];
     expect(header).not.toContain('OS Accuracy');
   });
+
+  it('uses the Hosts table columns in place of the fixed host columns', () => {
+    const hostColumns = [
+      { id: 'hostname', label: 'Hostname' },
+      { id: 'services', label: 'Services' },
+      { id: 'open:22', label: '22/tcp open' },
+      { id: 'open:443', label: '443/tcp open' },
+    ];
+    const csv = exportData(makeScan(), [makeHost()], { ...defaultOptions, includeOS: false, hostColumns });
+    const [header, row] = csv.split('\n');
+    expect(header).toBe('Hostname,Services,22/tcp open,443/tcp open,Port,Protocol,State,Service,Product,Version,Extra Info');
+    expect(row).toBe('test.local,ssh,yes,no,22,tcp,open,ssh,OpenSSH,8.9p1,');
+  });
 });
 
 describe('exportData - JSON', () => {
@@ -241,16 +258,68 @@ describe('exportData - HTML', () => {
   });
 });
 
+// Uses every part of the model that nmap's XML can carry
+const FULL_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE nmaprun>
+<nmaprun scanner="nmap" args="nmap -A -oX scan.xml 10.0.0.0/30" start="1700000000" startstr="Tue Nov 14 22:13:20 2023" version="7.94" xmloutputversion="1.05">
+<scaninfo type="syn" protocol="tcp" numservices="1000" services="1-1000"/>
+<verbose level="1"/>
+<debugging level="0"/>
+<host starttime="1700000001" endtime="1700000050"><status state="up" reason="arp-response" reason_ttl="0"/>
+<address addr="10.0.0.1" addrtype="ipv4"/>
+<address addr="AA:BB:CC:DD:EE:FF" addrtype="mac" vendor="Acme &amp; Sons"/>
+<hostnames>
+<hostname name="gw.example.com" type="PTR"/>
+</hostnames>
+<ports><port protocol="tcp" portid="22"><state state="open" reason="syn-ack" reason_ttl="64"/><owner name="root"/><service name="ssh" product="OpenSSH" version="8.9p1 Ubuntu 3" extrainfo="Ubuntu Linux; protocol 2.0" ostype="Linux" method="probed" conf="10"><cpe>cpe:/a:openbsd:openssh:8.9p1</cpe><cpe>cpe:/o:linux:linux_kernel</cpe></service><script id="ssh-hostkey" output="&#xa;  256 aa:bb (ECDSA)&#xa;  256 cc:dd (ED25519)"><table><elem key="type">ecdsa-sha2-nistp256</elem><elem key="bits">256</elem></table><table><elem key="type">ssh-ed25519</elem><elem key="bits">256</elem></table></script></port>
+<port protocol="tcp" portid="80"><state state="open" reason="syn-ack" reason_ttl="64"/><service name="http" product="nginx" tunnel="ssl" method="probed" conf="10"/><script id="http-title" output="Login &lt;admin&gt; &quot;panel&quot;"><elem key="title">Login &lt;admin&gt; &quot;panel&quot;</elem></script></port>
+<port protocol="udp" portid="161"><state state="open|filtered" reason="no-response" reason_ttl="0"/><service name="snmp" method="table" conf="3"/></port>
+</ports>
+<os><portused state="open" proto="tcp" portid="22"/><portused state="closed" proto="tcp" portid="1"/>
+<osmatch name="Linux 5.0 - 5.4" accuracy="100" line="67082">
+<osclass type="general purpose" vendor="Linux" osfamily="Linux" osgen="5.X" accuracy="100"><cpe>cpe:/o:linux:linux_kernel:5</cpe></osclass>
+</osmatch>
+<osfingerprint fingerprint="OS:SCAN(V=7.94%E=4%D=11/14)&#xa;OS:SEQ(SP=104)"/>
+</os>
+<uptime seconds="86400" lastboot="Mon Nov 13 22:13:20 2023"/>
+<distance value="1"/>
+<tcpsequence index="260" difficulty="Good luck!" values="A,B,C"/>
+<ipidsequence class="All zeros" values="0,0,0"/>
+<tcptssequence class="1000HZ" values="1,2,3"/>
+<hostscript><script id="smb-os-discovery" output="OS: Linux"/><script id="nbstat" output="NetBIOS name: GW"><elem>GW</elem></script></hostscript>
+<trace port="80" proto="tcp">
+<hop ttl="1" ipaddr="10.0.0.1" rtt="0.45" host="gw.example.com"/>
+</trace>
+<times srtt="1234" rttvar="567" to="100000"/>
+</host>
+<host starttime="1700000002" endtime="1700000003"><status state="down" reason="no-response" reason_ttl="0"/>
+<address addr="10.0.0.2" addrtype="ipv4"/>
+<hostnames>
+</hostnames>
+</host>
+<runstats><finished time="1700000060" timestr="Tue Nov 14 22:14:20 2023" summary="Nmap done; 4 IP addresses (1 host up) scanned in 60.00 seconds" elapsed="60" exit="success"/><hosts up="1" down="3" total="4"/>
+</runstats>
+</nmaprun>
+`;
+
+const ALL_SECTIONS: ExportOptions = { ...defaultOptions, format: 'xml', includeScripts: true, includeTrace: true };
+
+// Generated ids differ between parses
+function withoutIds(scan: NmapScan) {
+  return { ...scan, hosts: scan.hosts.map(({ id: _, ...host }) => host) };
+}
+
 describe('exportData - XML', () => {
-  it('produces valid XML', () => {
+  it('writes an nmaprun document', () => {
     const xml = exportData(makeScan(), [makeHost()], { ...defaultOptions, format: 'xml' });
     expect(xml).toContain('<?xml version');
-    expect(xml).toContain('nmapui-export');
-    expect(xml).toContain('192.168.1.1');
+    expect(xml).toContain('<nmaprun scanner="nmap" args="nmap -sV 192.168.1.0/24"');
+    expect(xml).toContain('<address addr="192.168.1.1" addrtype="ipv4"/>');
+    expect(xml.trimEnd().endsWith('</nmaprun>')).toBe(true);
   });
 
   it('escapes XML special characters including single quotes', () => {
-    const host = makeHost({ hostname: "test<>&\"'host" });
+    const host = makeHost({ hostnames: [{ name: "test<>&\"'host", type: 'PTR' }] });
     const xml = exportData(makeScan(), [host], { ...defaultOptions, format: 'xml' });
     expect(xml).toContain('&amp;');
     expect(xml).toContain('&lt;');
@@ -258,6 +327,207 @@ describe('exportData - XML', () => {
     expect(xml).toContain('&quot;');
     expect(xml).toContain('&#x27;');
   });
+
+  it('round-trips the full scan model through parseNmapXML', () => {
+    const scan = parseNmapXML(FULL_XML);
+    const exported = exportData(scan, scan.hosts, ALL_SECTIONS);
+    expect(withoutIds(parseNmapXML(exported))).toEqual(withoutIds(scan));
+  });
+
+  it('is stable when exported twice', () => {
+    const scan = parseNmapXML(FULL_XML);
+    const once = exportData(scan, scan.hosts, ALL_SECTIONS);
+    expect(exportData(parseNmapXML(once), parseNmapXML(once).hosts, ALL_SECTIONS)).toBe(once);
+  });
+
+  it('leaves out sections that are not included', () => {
+    const scan = parseNmapXML(FULL_XML);
+    const xml = exportData(scan, scan.hosts, { ...ALL_SECTIONS, includeOS: false, includeScripts: false, includeTrace: false });
+    expect(xml).not.toContain('<os>');
+    expect(xml).not.toContain('<script');
+    expect(xml).not.toContain('<trace');
+    expect(parseNmapXML(xml).hosts[0].ports).toHaveLength(3);
+  });
+
+  it('counts the exported hosts in the run stats of a filtered export', () => {
+    const scan = parseNmapXML(FULL_XML);
+    const reparsed = parseNmapXML(exportData(scan, [scan.hosts[0]], ALL_SECTIONS));
+    expect(reparsed.runstats.hosts).toEqual({ up: 1, down: 0, total: 1 });
+    expect(reparsed.hosts).toHaveLength(1);
+  });
+
+  it('exports merged hosts', () => {
+    const base = parseNmapXML(FULL_XML);
+    const later = parseNmapXML(FULL_XML.replace(/10\.0\.0\.2/g, '10.0.0.3').replace('portid="161"', 'portid="162"'));
+    const merged = mergeScans(base, later);
+    const reparsed = parseNmapXML(exportData(merged, merged.hosts, ALL_SECTIONS));
+    expect(reparsed.hosts.map(h => h.ip)).toEqual(['10.0.0.1', '10.0.0.2', '10.0.0.3']);
+    expect(reparsed.hosts[0].ports.map(p => p.portid)).toEqual([22, 80, 161, 162]);
+  });
+});
+
+describe('importedScanText', () => {
+  it('keeps the source text of an import', () => {
+    const scan = parseNmapXML(FULL_XML);
+    expect(importedScanText({ source: createScanSource(scan, 'scan.xml', 0), scan, content: FULL_XML })).toBe(FULL_XML);
+  });
+
+  it('round-trips streamed scans through a project file', () => {
+    const scan = parseNmapXML(FULL_XML);
+    const later = parseNmapXML(FULL_XML.replace(/10\.0\.0\.2/g, '10.0.0.3'));
+    const first = { source: createScanSource(scan, 'big.xml', 0), scan, content: '' };
+    const merged = { source: createScanSource(later, 'later.xml', 1), scan: later, content: '' };
+
+    const project = importProjectFile(exportProjectFile(
+      importedScanText(first), 'big.xml', [], [{ fileName: 'later.xml', content: importedScanText(merged) }],
+    ));
+    expect(withoutIds(parseNmapOutput(project.scanData))).toEqual(withoutIds(parseNmapXML(FULL_XML)));
+    expect(parseNmapOutput(project.mergedScans[0].content).hosts.map(h => h.ip)).toEqual(['10.0.0.1', '10.0.0.3']);
+  });
+});
+
+const GREPPABLE = `# Nmap 7.94 scan initiated Tue Nov 14 22:13:20 2023 as: nmap -sV -oG scan.gnmap 10.0.0.0/30
+Host: 10.0.0.1 (gw.example.com)\tStatus: Up
+Host: 10.0.0.1 (gw.example.com)\tPorts: 22/open/tcp//ssh//OpenSSH 8.9p1 Ubuntu 3 (Ubuntu Linux; protocol 2.0)/, 161/open|filtered/udp//snmp///
+Host: 10.0.0.2 ()\tStatus: Down
+# Nmap done at Tue Nov 14 22:14:20 2023 -- 4 IP addresses (1 host up) scanned in 60.00 seconds
+`;
+
+const NORMAL = `# Nmap 7.94 scan initiated Tue Nov 14 22:13:20 2023 as: nmap -A -oN scan.nmap 10.0.0.0/30
+Nmap scan report for gw.example.com (10.0.0.1)
+Host is up, received arp-response (0.0012s latency).
+PORT    STATE         SERVICE VERSION
+22/tcp  open          ssh     OpenSSH 8.9p1 Ubuntu 3 (Ubuntu Linux; protocol 2.0)
+| ssh-hostkey:
+|_  256 aa:bb (ECDSA)
+161/udp open|filtered snmp
+MAC Address: AA:BB:CC:DD:EE:FF (Acme)
+OS details: Linux 5.0 - 5.4
+Uptime guess: 1.000 days (since Mon Nov 13 22:13:20 2023)
+Network Distance: 1 hop
+
+Nmap scan report for 10.0.0.2
+Host is down.
+
+# Nmap done at Tue Nov 14 22:14:20 2023 -- 4 IP addresses (1 host up) scanned in 60.00 seconds
+`;
+
+// The fields every nmap output format carries
+function essentials(scan: NmapScan) {
+  return scan.hosts.map(h => ({
+    ip: h.ip, hostname: h.hostname, status: h.status.state,
+    ports: h.ports.map(p => `${p.portid}/${p.protocol} ${p.state.state} ${p.service?.name}`),
+  }));
+}
+
+describe('exportData - greppable', () => {
+  it('round-trips through parseNmapGreppable', () => {
+    const scan = parseNmapGreppable(GREPPABLE);
+    const exported = exportData(scan, scan.hosts, { ...ALL_SECTIONS, format: 'gnmap' });
+    expect(withoutIds(parseNmapGreppable(exported))).toEqual(withoutIds(scan));
+  });
+
+  it('writes a Status line and a Ports line per host, like nmap -oG', () => {
+    const scan = parseNmapXML(FULL_XML);
+    const lines = exportData(scan, scan.hosts, { ...ALL_SECTIONS, format: 'gnmap' }).split('\n');
+    expect(lines[0]).toBe('# Nmap 7.94 scan initiated Tue Nov 14 22:13:20 2023 as: nmap -A -oX scan.xml 10.0.0.0/30');
+    expect(lines[1]).toBe('Host: 10.0.0.1 (gw.example.com)\tStatus: Up');
+    expect(lines[2]).toContain('Ports: 22/open/tcp/root/ssh//OpenSSH 8.9p1 Ubuntu 3 (Ubuntu Linux; protocol 2.0)/, 80/open/tcp//ssl|http//nginx/');
+    expect(lines[2]).toContain('\tOS: Linux 5.0 - 5.4');
+    expect(lines[3]).toBe('Host: 10.0.0.2 ()\tStatus: Down');
+  });
+
+  it('keeps hosts, ports and states of an XML scan', () => {
+    const scan = parseNmapXML(FULL_XML);
+    const reparsed = parseNmapGreppable(exportData(scan, scan.hosts, { ...ALL_SECTIONS, format: 'gnmap' }));
+    expect(essentials(reparsed)).toEqual(essentials(scan).map(h => ({
+      ...h, ports: h.ports.map(p => p.replace(' http', ' ssl|http')),
+    })));
+    expect(reparsed.args).toBe(scan.args);
+  });
+
+  it('only writes the hosts in scope', () => {
+    const scan = parseNmapXML(FULL_XML);
+    const exported = exportData(scan, [scan.hosts[1]], { ...ALL_SECTIONS, format: 'gnmap' });
+    expect(exported).not.toContain('10.0.0.1');
+    expect(exported).toContain('-- 1 IP address (0 hosts up)');
+  });
+});
+
+describe('exportData - normal', () => {
+  it('round-trips through parseNmapNormal', () => {
+    const scan = parseNmapNormal(NORMAL);
+    const exported = exportData(scan, scan.hosts, { ...ALL_SECTIONS, format: 'nmap' });
+    expect(withoutIds(parseNmapNormal(exported))).toEqual(withoutIds(scan));
+  });
+
+  it('keeps hosts, ports, OS, MAC and distance of an XML scan', () => {
+    const scan = parseNmapXML(FULL_XML);
+    const exported = exportData(scan, scan.hosts, { ...ALL_SECTIONS, format: 'nmap' });
+    const reparsed = parseNmapOutput(exported);
+    expect(essentials(reparsed)).toEqual(essentials(scan));
+    const [host] = reparsed.hosts;
+    expect(host.status.reason).toBe('arp-response');
+    expect(host.mac).toBe('AA:BB:CC:DD:EE:FF');
+    expect(host.mainOS).toBe('Linux 5.0 - 5.4');
+    expect(host.distance).toBe(1);
+    expect(host.uptime?.seconds).toBe(86400);
+    expect(reparsed.version).toBe('7.94');
+    expect(reparsed.args).toBe(scan.args);
+  });
+
+  it('prints script results and the traceroute like nmap', () => {
+    const scan = parseNmapXML(FULL_XML);
+    const exported = exportData(scan, scan.hosts, { ...ALL_SECTIONS, format: 'nmap' });
+    expect(exported).toContain('| ssh-hostkey: \n|   256 aa:bb (ECDSA)\n|_  256 cc:dd (ED25519)\n');
+    expect(exported).toContain('Host script results:\n|_smb-os-discovery: OS: Linux\n');
+    expect(exported).toContain('TRACEROUTE (using port 80/tcp)');
+    expect(exported).toContain('1   0.45 ms  gw.example.com (10.0.0.1)');
+  });
+});
+
+describe('exportDiff', () => {
+  const before = makeScan({ hosts: [makeHost(), makeHost({ id: 'host-2', ip: '192.168.1.2', hostname: '' })] });
+  const afterHost = makeHost({ mainOS: 'Linux 6.1' });
+  afterHost.ports = [{ ...afterHost.ports[0], service: { ...afterHost.ports[0].service!, version: '9.6p1' } }];
+  const after = makeScan({ start: 1700600000, hosts: [afterHost, makeHost({ id: 'host-3', ip: '192.168.1.3', hostname: '<new>' })] });
+  const diff = diffScans(before, after, { base: describeSide(before, 'monday.xml'), compare: describeSide(after, 'friday.xml') });
+
+  it('writes one CSV row per field change', () => {
+    const lines = exportDiff(diff, 'csv').split('\n');
+    expect(lines[0]).toBe('Host,Hostname,Host Change,Port,Port Change,Field,Before,After');
+    expect(lines).toContain('192.168.1.3,<new>,added,,,,,');
+    expect(lines).toContain('192.168.1.1,test.local,changed,,,os,Linux 5.4,Linux 6.1');
+    expect(lines).toContain('192.168.1.1,test.local,changed,22/tcp,changed,version,8.9p1,9.6p1');
+  });
+
+  it('keeps the structured changes in JSON', () => {
+    const parsed = JSON.parse(exportDiff(diff, 'json'));
+    expect(parsed.summary).toEqual({ added: 1, removed: 1, changed: 1, unchanged: 0 });
+    expect(parsed.base.fileName).toBe('monday.xml');
+    expect(parsed.hosts).toHaveLength(3);
+  });
+
+  it('lists new, removed and changed hosts in Markdown', () => {
+    const md = exportDiff(diff, 'markdown');
+    expect(md).toContain('# Nmap Change Report');
+    expect(md).toContain('## New Hosts');
+    expect(md).toContain('## Removed Hosts');
+    expect(md).toContain('| 22/tcp | changed | version | 8.9p1 | 9.6p1 |');
+  });
+
+  it('escapes values in the HTML report', () => {
+    const html = exportDiff(diff, 'html');
+    expect(html).toContain('Nmap Change Report');
+    expect(html).toContain('&lt;new&gt;');
+    expect(html).not.toContain('<new>');
+    expect(html).toContain('change-added');
+  });
+
+  it('names report files by format', () => {
+    expect(getDiffExportFilename('markdown')).toMatch(/^nmap-changes-.*\.md$/);
+    expect(getDiffExportFilename('html')).toMatch(/\.html$/);
+  });
 });
 
 describe('getExportFilename', () => {
@@ -269,6 +539,11 @@ describe('getExportFilename', () => {
     expect(getExportFilename('markdown')).toMatch(/\.md$/);
   });
 
+  it('uses the nmap file extensions for greppable and normal output', () => {
+    expect(getExportFilename('gnmap')).toMatch(/\.gnmap$/);
+    expect(getExportFilename('nmap')).toMatch(/\.nmap$/);
+  });
+
   it('returns .json extension for json format', () => {
     expect(getExportFilename('json')).toMatch(/\.json$/);
   });
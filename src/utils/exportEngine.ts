@@ -1,4 +1,9 @@
-import type { NmapScan, NmapHost, Note, ExportOptions, ExportFormat } from '../types/nmap';
+import type {
+  NmapScan, NmapHost, Port, Script, ScriptElement, OSInfo, RunStats, Note, ExportOptions, ExportFormat,
+  ScanDiff, ScanDiffSide, FieldChange,
+} from '../types/nmap';
+import type { ImportedScan } from './scanMerge';
+import { getHostColumnValue } from './hostColumns';
 
 export function exportData(scan: NmapScan, hosts: NmapHost[], options: ExportOptions): string {
   switch (options.format) {
@@ -7,6 +12,8 @@ export function exportData(scan: NmapScan, hosts: NmapHost[], options: ExportOpt
     case 'html': return exportHTML(scan, hosts, options);
     case 'xml': return exportXML(scan, hosts, options);
     case 'markdown': return exportMarkdown(scan, hosts, options);
+    case 'gnmap': return exportGreppable(scan, hosts, options);
+    case 'nmap': return exportNormal(scan, hosts, options);
     default: return '';
   }
 }
@@ -30,7 +37,11 @@ export function getExportMimeType(format: ExportFormat): string {
 
 function exportCSV(scan: NmapScan, hosts: NmapHost[], options: ExportOptions): string {
   const rows: string[][] = [];
-  const headers = ['IP', 'IPv6', 'MAC', 'MAC Vendor', 'Hostname', 'Status', 'Status Reason'];
+  // The Hosts table's columns when given, otherwise the fixed address and status set
+  const hostColumns = options.hostColumns;
+  const headers = hostColumns
+    ? hostColumns.map(c => c.label)
+    : ['IP', 'IPv6', 'MAC', 'MAC Vendor', 'Hostname', 'Status', 'Status Reason'];
 
   if (options.includeOS) {
     headers.push('OS', 'OS Accuracy', 'OS Family', 'OS Vendor');
@@ -47,22 +58,35 @@ function exportCSV(scan: NmapScan, hosts: NmapHost[], options: ExportOptions): s
 
   rows.push(headers);
 
+  const hostCells = (host: NmapHost): string[] => {
+    const row = hostColumns
+      ? hostColumns.map(c => getHostColumnValue(host, c.id))
+      : [
+        host.ip, host.ipv6, host.mac,
+        host.addresses.find(a => a.addrtype === 'mac')?.vendor || '',
+        host.hostname, host.status.state, host.status.reason,
+      ];
+    if (options.includeOS) {
+      row.push(
+        host.mainOS,
+        String(host.os.osmatch[0]?.accuracy || ''),
+        host.os.osmatch[0]?.osclass[0]?.osfamily || '',
+        host.os.osmatch[0]?.osclass[0]?.vendor || '',
+      );
+    }
+    return row;
+  };
+
+  const traceCells = (host: NmapHost): string[] => [
+    String(host.distance || ''),
+    String(host.uptime?.seconds || ''),
+    host.uptime?.lastboot || '',
+  ];
+
   for (const host of hosts) {
     if (options.includePorts && host.ports.length > 0) {
       for (const port of host.ports) {
-        const row = [
-          host.ip, host.ipv6, host.mac,
-          host.addresses.find(a => a.addrtype === 'mac')?.vendor || '',
-          host.hostname, host.status.state, host.status.reason,
-        ];
-        if (options.includeOS) {
-          row.push(
-            host.mainOS,
-            String(host.os.osmatch[0]?.accuracy || ''),
-            host.os.osmatch[0]?.osclass[0]?.osfamily || '',
-            host.os.osmatch[0]?.osclass[0]?.vendor || '',
-          );
-        }
+        const row = hostCells(host);
         row.push(
           String(port.portid), port.protocol, port.state.state,
           port.service?.name || '', port.service?.product || '',
@@ -73,46 +97,26 @@ function exportCSV(scan: NmapScan, hosts: NmapHost[], options: ExportOptions): s
           const outputs = port.scripts.map(s => s.output.replace(/\n/g, ' ')).join('; ');
           row.push(scripts, outputs);
         }
-        if (options.includeTrace) {
-          row.push(
-            String(host.distance || ''),
-            String(host.uptime?.seconds || ''),
-            host.uptime?.lastboot || '',
-          );
-        }
+        if (options.includeTrace) row.push(...traceCells(host));
         rows.push(row);
       }
     } else {
-      const row = [
-        host.ip, host.ipv6, host.mac,
-        host.addresses.find(a => a.addrtype === 'mac')?.vendor || '',
-        host.hostname, host.status.state, host.status.reason,
-      ];
-      if (options.includeOS) {
-        row.push(
-          host.mainOS,
-          String(host.os.osmatch[0]?.accuracy || ''),
-          host.os.osmatch[0]?.osclass[0]?.osfamily || '',
-          host.os.osmatch[0]?.osclass[0]?.vendor || '',
-        );
-      }
+      const row = hostCells(host);
       if (options.includePorts) {
         row.push('', '', '', '', '', '', '');
       }
       if (options.includeScripts) {
         row.push('', '');
       }
-      if (options.includeTrace) {
-        row.push(
-          String(host.distance || ''),
-          String(host.uptime?.seconds || ''),
-          host.uptime?.lastboot || '',
-        );
-      }
+      if (options.includeTrace) row.push(...traceCells(host));
       rows.push(row);
     }
   }
 
+  return toCSV(rows);
+}
+
+function toCSV(rows: string[][]): string {
   return rows.map(row =>
     row.map(cell => {
       const str = String(cell);
@@ -234,16 +238,10 @@ function exportJSON(scan: NmapScan, hosts: NmapHost[], options: ExportOptions):
   return JSON.stringify(output, null, 2);
 }
 
-function exportHTML(scan: NmapScan, hosts: NmapHost[], options: ExportOptions): string {
-  const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#x27;');
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#x27;');
 
-  let html = `<!DOCTYPE html>
-<html lang="en">
-<head>
-<meta charset="UTF-8">
-<meta name="viewport" content="width=device-width, initial-scale=1.0">
-<title>Nmap Scan Report</title>
-<style>
+// Shared by the scan and change reports
+const HTML_REPORT_STYLE = `
   * { margin: 0; padding: 0; box-sizing: border-box; }
   body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #0f172a; color: #e2e8f0; padding: 2rem; line-height: 1.6; }
   h1 { color: #38bdf8; margin-bottom: 0.5rem; font-size: 1.8rem; }
@@ -270,8 +268,20 @@ function exportHTML(scan: NmapScan, hosts: NmapHost[], options: ExportOptions):
   .tag-up { background: rgba(74,222,128,0.15); color: #4ade80; }
   .tag-down { background: rgba(248,113,113,0.15); color: #f87171; }
   .script-output { background: #0f172a; padding: 0.75rem; border-radius: 4px; font-family: monospace; font-size: 0.8rem; white-space: pre-wrap; margin: 0.5rem 0; overflow-x: auto; }
+  .change-added { color: #4ade80; }
+  .change-removed { color: #f87171; }
+  .change-changed { color: #fbbf24; }
   @media print { body { background: #fff; color: #1e293b; } .host-card { border-color: #e2e8f0; } table, th, td { border: 1px solid #e2e8f0; } }
-</style>
+`;
+
+function exportHTML(scan: NmapScan, hosts: NmapHost[], options: ExportOptions): string {
+  let html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Nmap Scan Report</title>
+<style>${HTML_REPORT_STYLE}</style>
 </head>
 <body>
 <h1>Nmap Scan Report</h1>
@@ -384,34 +394,299 @@ function exportHTML(scan: NmapScan, hosts: NmapHost[], options: ExportOptions):
   return html;
 }
 
-function exportXML(scan: NmapScan, hosts: NmapHost[], _options: ExportOptions): string {
-  // Re-export as simplified XML
-  let xml = `<?xml version="1.0" encoding="UTF-8"?>\n`;
-  xml += `<nmapui-export scanner="${esc(scan.scanner)}" args="${esc(scan.args)}" start="${scan.start}" version="${esc(scan.version)}">\n`;
-  xml += `  <summary total="${scan.totalHosts}" up="${scan.hostsUp}" down="${scan.hostsDown}" duration="${scan.scanDuration}" />\n`;
+// ========== Nmap XML (-oX) ==========
 
-  for (const host of hosts) {
-    xml += `  <host ip="${esc(host.ip)}" ipv6="${esc(host.ipv6)}" mac="${esc(host.mac)}" hostname="${esc(host.hostname)}" status="${host.status.state}"`;
-    if (host.mainOS) xml += ` os="${esc(host.mainOS)}"`;
-    xml += `>\n`;
-    for (const port of host.ports) {
-      xml += `    <port number="${port.portid}" protocol="${esc(port.protocol)}" state="${esc(port.state.state)}"`;
-      if (port.service) {
-        xml += ` service="${esc(port.service.name)}"`;
-        if (port.service.product) xml += ` product="${esc(port.service.product)}"`;
-        if (port.service.version) xml += ` version="${esc(port.service.version)}"`;
+// Attribute values keep their line breaks and tabs as character references, like nmap writes them
+function xmlEsc(s: string): string {
+  return esc(s).replace(/\n/g, '&#xa;').replace(/\r/g, '&#xd;').replace(/\t/g, '&#x9;');
+}
+
+// Attributes in the given order; undefined values are left out
+function xmlAttrs(attrs: Record<string, string | number | undefined>): string {
+  return Object.entries(attrs)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${xmlEsc(String(value))}"`)
+    .join('');
+}
+
+function xmlScriptElements(elements: ScriptElement[], indent: string): string {
+  let xml = '';
+  for (const el of elements) {
+    const key = el.key ? xmlAttrs({ key: el.key }) : '';
+    if (el.children) {
+      xml += `${indent}<table${key}>\n${xmlScriptElements(el.children, indent + '  ')}${indent}</table>\n`;
+    } else {
+      xml += `${indent}<elem${key}>${esc(el.value)}</elem>\n`;
+    }
+  }
+  return xml;
+}
+
+function xmlScript(script: Script, indent: string): string {
+  const open = `${indent}<script${xmlAttrs({ id: script.id, output: script.output })}`;
+  if (script.elements.length === 0) return `${open}/>\n`;
+  return `${open}>\n${xmlScriptElements(script.elements, indent + '  ')}${indent}</script>\n`;
+}
+
+function xmlCpes(cpes: string[], indent: string): string {
+  return cpes.map(cpe => `${indent}<cpe>${esc(cpe)}</cpe>\n`).join('');
+}
+
+function xmlPort(port: Port, options: ExportOptions): string {
+  let xml = `<port${xmlAttrs({ protocol: port.protocol, portid: port.portid })}>`;
+  xml += `<state${xmlAttrs({
+    state: port.state.state, reason: port.state.reason, reason_ttl: port.state.reason_ttl, reason_ip: port.state.reason_ip,
+  })}/>`;
+  if (port.owner) xml += `<owner${xmlAttrs({ name: port.owner })}/>`;
+  if (port.service) {
+    const svc = port.service;
+    const attrs = xmlAttrs({
+      name: svc.name, product: svc.product, version: svc.version, extrainfo: svc.extrainfo,
+      hostname: svc.hostname, ostype: svc.ostype, devicetype: svc.devicetype, servicefp: svc.servicefp,
+      tunnel: svc.tunnel, proto: svc.proto, rpcnum: svc.rpcnum, lowver: svc.lowver, highver: svc.highver,
+      method: svc.method, conf: svc.conf,
+    });
+    xml += svc.cpes.length > 0 ? `<service${attrs}>${svc.cpes.map(c => `<cpe>${esc(c)}</cpe>`).join('')}</service>` : `<service${attrs}/>`;
+  }
+  xml += `\n`;
+  if (options.includeScripts) {
+    for (const script of port.scripts) xml += xmlScript(script, '');
+  }
+  return `${xml}</port>\n`;
+}
+
+function xmlOS(os: OSInfo): string {
+  let xml = `<os>`;
+  for (const used of os.portused) xml += `<portused${xmlAttrs({ state: used.state, proto: used.proto, portid: used.portid })}/>`;
+  xml += `\n`;
+  for (const match of os.osmatch) {
+    xml += `<osmatch${xmlAttrs({ name: match.name, accuracy: match.accuracy, line: match.line })}>\n`;
+    for (const cls of match.osclass) {
+      xml += `<osclass${xmlAttrs({ type: cls.type, vendor: cls.vendor, osfamily: cls.osfamily, osgen: cls.osgen, accuracy: cls.accuracy })}>`;
+      xml += `\n${xmlCpes(cls.cpes, '')}</osclass>\n`;
+    }
+    xml += `</osmatch>\n`;
+  }
+  for (const fingerprint of os.osfingerprint) xml += `<osfingerprint${xmlAttrs({ fingerprint })}/>\n`;
+  return `${xml}</os>\n`;
+}
+
+function xmlHost(host: NmapHost, options: ExportOptions): string {
+  let xml = `<host${xmlAttrs({ starttime: host.starttime, endtime: host.endtime })}>`;
+  xml += `<status${xmlAttrs({ state: host.status.state, reason: host.status.reason, reason_ttl: host.status.reason_ttl })}/>\n`;
+  for (const addr of host.addresses) {
+    xml += `<address${xmlAttrs({ addr: addr.addr, addrtype: addr.addrtype, vendor: addr.vendor })}/>\n`;
+  }
+  for (const smurf of host.smurfs) xml += `<smurf${xmlAttrs({ responses: smurf.responses })}/>\n`;
+  xml += `<hostnames>\n`;
+  for (const name of host.hostnames) xml += `<hostname${xmlAttrs({ name: name.name, type: name.type || undefined })}/>\n`;
+  xml += `</hostnames>\n`;
+
+  if (options.includePorts) {
+    xml += `<ports>`;
+    for (const port of host.ports) xml += xmlPort(port, options);
+    xml += `</ports>\n`;
+  }
+
+  if (options.includeOS) {
+    xml += xmlOS(host.os);
+    if (host.uptime) xml += `<uptime${xmlAttrs({ seconds: host.uptime.seconds, lastboot: host.uptime.lastboot })}/>\n`;
+  }
+  if (options.includeTrace && host.distance !== null) xml += `<distance${xmlAttrs({ value: host.distance })}/>\n`;
+  if (options.includeOS) {
+    const { tcpsequence: tcp, ipidsequence: ipid, tcptssequence: tcpts } = host;
+    if (tcp) xml += `<tcpsequence${xmlAttrs({ index: tcp.index, difficulty: tcp.difficulty, values: tcp.values })}/>\n`;
+    if (ipid) xml += `<ipidsequence${xmlAttrs({ class: ipid.class, values: ipid.values })}/>\n`;
+    if (tcpts) xml += `<tcptssequence${xmlAttrs({ class: tcpts.class, values: tcpts.values })}/>\n`;
+  }
+
+  if (options.includeScripts && host.hostscripts.length > 0) {
+    xml += `<hostscript>`;
+    for (const script of host.hostscripts) xml += xmlScript(script, '');
+    xml += `</hostscript>\n`;
+  }
+
+  if (options.includeTrace) {
+    if (host.trace) {
+      xml += `<trace${xmlAttrs({ port: host.trace.port, proto: host.trace.proto })}>\n`;
+      for (const hop of host.trace.hops) {
+        xml += `<hop${xmlAttrs({ ttl: hop.ttl, ipaddr: hop.ipaddr, rtt: hop.rtt, host: hop.host })}/>\n`;
       }
-      xml += ` />\n`;
+      xml += `</trace>\n`;
     }
-    xml += `  </host>\n`;
+    if (host.times) xml += `<times${xmlAttrs({ srtt: host.times.srtt, rttvar: host.times.rttvar, to: host.times.to })}/>\n`;
   }
+  return `${xml}</host>\n`;
+}
+
+// The scan's own run stats when it is exported whole, otherwise the exported hosts
+function exportedHostCounts(scan: NmapScan, hosts: NmapHost[]): RunStats['hosts'] {
+  const whole = hosts.length === scan.hosts.length && (scan.sources?.length || 0) <= 1;
+  return whole ? scan.runstats.hosts : {
+    up: hosts.filter(h => h.status.state === 'up').length,
+    down: hosts.filter(h => h.status.state === 'down').length,
+    total: hosts.length,
+  };
+}
+
+/**
+ * Nmap's own XML format (nmap.dtd), readable by ndiff, Metasploit's
+ * db_import, xsltproc stylesheets and parseNmapXML. Run stats are kept
+ * from the scan when it is exported whole; a filtered or merged export
+ * counts the hosts it contains.
+ */
+function exportXML(scan: NmapScan, hosts: NmapHost[], options: ExportOptions): string {
+  let xml = `<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE nmaprun>\n`;
+  xml += `<nmaprun${xmlAttrs({
+    scanner: scan.scanner, args: scan.args, start: scan.start, startstr: scan.startstr,
+    version: scan.version, xmloutputversion: scan.xmloutputversion,
+  })}>\n`;
+  for (const info of scan.scaninfo) {
+    xml += `<scaninfo${xmlAttrs({ type: info.type, protocol: info.protocol, numservices: info.numservices, services: info.services })}/>\n`;
+  }
+  xml += `<verbose${xmlAttrs({ level: scan.verbose })}/>\n`;
+  xml += `<debugging${xmlAttrs({ level: scan.debugging })}/>\n`;
+
+  for (const host of hosts) xml += xmlHost(host, options);
 
-  xml += `</nmapui-export>`;
+  const counts = exportedHostCounts(scan, hosts);
+  const { finished } = scan.runstats;
+  xml += `<runstats><finished${xmlAttrs({
+    time: finished.time, timestr: finished.timestr, summary: finished.summary, elapsed: finished.elapsed, exit: finished.exit,
+  })}/><hosts${xmlAttrs({ up: counts.up, down: counts.down, total: counts.total })}/>\n</runstats>\n`;
+  xml += `</nmaprun>\n`;
   return xml;
+}
+
+const FULL_XML_OPTIONS: ExportOptions = {
+  format: 'xml', includeHostDetails: true, includePorts: true, includeScripts: true, includeOS: true, includeTrace: true,
+};
+
+/**
+ * Text of an imported scan for project files: the file it was read from, or
+ * for streamed files, whose text isn't kept, the parsed scan as nmap XML.
+ */
+export function importedScanText(imported: ImportedScan): string {
+  return imported.content || exportXML(imported.scan, imported.scan.hosts, FULL_XML_OPTIONS);
+}
+
+// ========== Nmap greppable (-oG) and normal (-oN) output ==========
 
-  function esc(s: string): string {
-    return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#x27;');
+function outputHeader(scan: NmapScan): string {
+  return `# Nmap ${scan.version ? `${scan.version} ` : ''}scan initiated ${scan.startstr} as: ${scan.args}\n`;
+}
+
+function outputFooter(scan: NmapScan, hosts: NmapHost[]): string {
+  const counts = exportedHostCounts(scan, hosts);
+  const plural = (n: number, word: string, many: string) => `${n} ${n === 1 ? word : many}`;
+  return `# Nmap done at ${scan.runstats.finished.timestr} -- ${plural(counts.total, 'IP address', 'IP addresses')} ` +
+    `(${plural(counts.up, 'host', 'hosts')} up) scanned in ${scan.runstats.finished.elapsed.toFixed(2)} seconds\n`;
+}
+
+// "OpenSSH 8.9p1 Ubuntu 3 (Ubuntu Linux; protocol 2.0)", as in nmap's VERSION column
+function describeVersion(service: Port['service']): string {
+  if (!service) return '';
+  return [service.product, service.version, service.extrainfo ? `(${service.extrainfo})` : '']
+    .filter(Boolean).join(' ');
+}
+
+function greppablePort(port: Port): string {
+  // '/' and ',' delimit the fields and the port list; nmap writes '/' in values as '|'
+  const field = (s: string | undefined) => (s || '').replace(/\//g, '|').replace(/,/g, ';');
+  const service = port.service ? `${port.service.tunnel ? `${port.service.tunnel}|` : ''}${port.service.name}` : '';
+  return [
+    port.portid, port.state.state, port.protocol, field(port.owner), field(service),
+    field(port.service?.rpcnum), field(describeVersion(port.service)),
+  ].join('/') + '/';
+}
+
+function exportGreppable(scan: NmapScan, hosts: NmapHost[], options: ExportOptions): string {
+  let out = outputHeader(scan);
+  for (const host of hosts) {
+    const prefix = `Host: ${host.ip || host.ipv6} (${host.hostname})`;
+    out += `${prefix}\tStatus: ${host.status.state === 'up' ? 'Up' : 'Down'}\n`;
+    if (host.status.state !== 'up' || !options.includePorts || host.ports.length === 0) continue;
+    out += `${prefix}\tPorts: ${host.ports.map(greppablePort).join(', ')}`;
+    if (options.includeOS && host.mainOS) out += `\tOS: ${host.mainOS}`;
+    if (options.includeOS && host.tcpsequence) out += `\tSeq Index: ${host.tcpsequence.index}`;
+    if (options.includeOS && host.ipidsequence) out += `\tIP ID Seq: ${host.ipidsequence.class}`;
+    out += `\n`;
   }
+  return out + outputFooter(scan, hosts);
+}
+
+// "| id: first line" ... "|_last line", as nmap prints script results
+function normalScript(script: Script): string {
+  const lines = script.output.split('\n');
+  if (lines.length === 1) return `|_${script.id}: ${lines[0]}\n`;
+  return lines.map((line, i) => {
+    if (i === 0) return `| ${script.id}: ${line}`;
+    return `${i === lines.length - 1 ? '|_' : '| '}${line}`;
+  }).join('\n') + '\n';
+}
+
+function normalPortTable(ports: Port[], options: ExportOptions): string {
+  const withVersion = ports.some(p => describeVersion(p.service));
+  const rows = ports.map(p => [`${p.portid}/${p.protocol}`, p.state.state, p.service?.name || 'unknown', describeVersion(p.service)]);
+  const header = ['PORT', 'STATE', 'SERVICE', ...(withVersion ? ['VERSION'] : [])];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const formatRow = (cells: string[]) => cells.map((c, i) => i < cells.length - 1 ? c.padEnd(widths[i]) : c).join(' ').trimEnd();
+
+  let out = `${formatRow(header)}\n`;
+  ports.forEach((port, i) => {
+    out += `${formatRow(rows[i].slice(0, header.length))}\n`;
+    if (options.includeScripts) out += port.scripts.map(normalScript).join('');
+  });
+  return out;
+}
+
+function normalOS(host: NmapHost): string {
+  const guesses = host.os.osmatch.filter(m => m.accuracy > 0 && m.accuracy < 100);
+  if (guesses.length > 0 && guesses[0] === host.os.osmatch[0]) {
+    return `Aggressive OS guesses: ${guesses.map(m => `${m.name} (${m.accuracy}%)`).join(', ')}\n`;
+  }
+  return host.mainOS ? `OS details: ${host.mainOS}\n` : '';
+}
+
+function exportNormal(scan: NmapScan, hosts: NmapHost[], options: ExportOptions): string {
+  let out = outputHeader(scan);
+  for (const host of hosts) {
+    const address = host.ip || host.ipv6;
+    out += `Nmap scan report for ${host.hostname ? `${host.hostname} (${address})` : address}\n`;
+    const latency = host.times ? ` (${(host.times.srtt / 1000000).toFixed(4)}s latency)` : '';
+    out += `Host is ${host.status.state}${host.status.reason ? `, received ${host.status.reason}` : ''}${latency}.\n`;
+    if (host.status.state !== 'up') {
+      out += `\n`;
+      continue;
+    }
+
+    if (options.includePorts && host.ports.length > 0) out += normalPortTable(host.ports, options);
+    if (host.mac) {
+      const vendor = host.addresses.find(a => a.addrtype === 'mac')?.vendor;
+      out += `MAC Address: ${host.mac}${vendor ? ` (${vendor})` : ''}\n`;
+    }
+    if (options.includeOS) {
+      out += normalOS(host);
+      if (host.uptime) out += `Uptime guess: ${(host.uptime.seconds / 86400).toFixed(3)} days (since ${host.uptime.lastboot})\n`;
+    }
+    if (options.includeTrace && host.distance !== null) {
+      out += `Network Distance: ${host.distance} hop${host.distance === 1 ? '' : 's'}\n`;
+    }
+
+    if (options.includeScripts && host.hostscripts.length > 0) {
+      out += `\nHost script results:\n${host.hostscripts.map(normalScript).join('')}`;
+    }
+
+    if (options.includeTrace && host.trace && host.trace.hops.length > 0) {
+      out += `\nTRACEROUTE (using port ${host.trace.port}/${host.trace.proto})\nHOP RTT      ADDRESS\n`;
+      for (const hop of host.trace.hops) {
+        const rtt = `${hop.rtt.toFixed(2)} ms`;
+        out += `${String(hop.ttl).padEnd(3)} ${rtt.padEnd(8)} ${hop.host ? `${hop.host} (${hop.ipaddr})` : hop.ipaddr}\n`;
+      }
+    }
+    out += `\n`;
+  }
+  return out + outputFooter(scan, hosts);
 }
 
 function exportMarkdown(scan: NmapScan, hosts: NmapHost[], options: ExportOptions): string {
@@ -501,6 +776,199 @@ function exportMarkdown(scan: NmapScan, hosts: NmapHost[], options: ExportOption
   return md;
 }
 
+// ========== Change Reports ==========
+
+export type DiffExportFormat = 'csv' | 'json' | 'html' | 'markdown';
+
+/**
+ * Export a scan comparison as a "what changed" report.
+ */
+export function exportDiff(diff: ScanDiff, format: DiffExportFormat): string {
+  switch (format) {
+    case 'csv': return exportDiffCSV(diff);
+    case 'json': return exportDiffJSON(diff);
+    case 'html': return exportDiffHTML(diff);
+    case 'markdown': return exportDiffMarkdown(diff);
+    default: return '';
+  }
+}
+
+export function getDiffExportFilename(format: DiffExportFormat): string {
+  const ts = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const ext = format === 'markdown' ? 'md' : format;
+  return `nmap-changes-${ts}.${ext}`;
+}
+
+function describeDiffSide(side: ScanDiffSide): string {
+  return `${side.fileName} (${side.start ? new Date(side.start * 1000).toISOString() : 'unknown start'})`;
+}
+
+// One row per field change; new and removed hosts get a single row without a change
+function diffRows(diff: ScanDiff): { host: string; hostname: string; hostStatus: string; port: string; portStatus: string; change: FieldChange | null }[] {
+  const rows: ReturnType<typeof diffRows> = [];
+  for (const host of diff.hosts) {
+    const base = { host: host.ip, hostname: host.hostname, hostStatus: host.status };
+    if (host.status !== 'changed') {
+      rows.push({ ...base, port: '', portStatus: '', change: null });
+      continue;
+    }
+    for (const change of host.changes) rows.push({ ...base, port: '', portStatus: '', change });
+    for (const port of host.portChanges) {
+      const portLabel = `${port.port}/${port.protocol}`;
+      if (port.status !== 'changed') {
+        const state = port.status === 'added' ? port.compareState : port.baseState;
+        const service = port.status === 'added' ? port.compareService : port.baseService;
+        const description = [state, service].filter(Boolean).join(' ');
+        const change = port.status === 'added'
+          ? { field: 'state', before: '', after: description }
+          : { field: 'state', before: description, after: '' };
+        rows.push({ ...base, port: portLabel, portStatus: port.status, change });
+        continue;
+      }
+      for (const change of port.changes) rows.push({ ...base, port: portLabel, portStatus: port.status, change });
+    }
+  }
+  return rows;
+}
+
+function exportDiffCSV(diff: ScanDiff): string {
+  const rows: string[][] = [['Host', 'Hostname', 'Host Change', 'Port', 'Port Change', 'Field', 'Before', 'After']];
+  for (const row of diffRows(diff)) {
+    rows.push([
+      row.host, row.hostname, row.hostStatus, row.port, row.portStatus,
+      row.change?.field || '', row.change?.before || '', row.change?.after || '',
+    ]);
+  }
+  return toCSV(rows);
+}
+
+function exportDiffJSON(diff: ScanDiff): string {
+  return JSON.stringify({
+    name: diff.name,
+    createdAt: new Date(diff.createdAt).toISOString(),
+    base: diff.base,
+    compare: diff.compare,
+    summary: diff.summary,
+    hosts: diff.hosts,
+    generatedBy: 'NmapUI',
+    exportedAt: new Date().toISOString(),
+  }, null, 2);
+}
+
+function exportDiffHTML(diff: ScanDiff): string {
+  const value = (text: string) => text.includes('\n') ? `<div class="script-output">${esc(text)}</div>` : esc(text);
+
+  let html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Nmap Change Report</title>
+<style>${HTML_REPORT_STYLE}</style>
+</head>
+<body>
+<h1>Nmap Change Report</h1>
+<div class="meta">
+  <div>${esc(diff.name)}</div>
+  <div>Before: ${esc(describeDiffSide(diff.base))} <code>${esc(diff.base.args)}</code></div>
+  <div>After: ${esc(describeDiffSide(diff.compare))} <code>${esc(diff.compare.args)}</code></div>
+</div>
+
+<div class="summary-grid">
+  <div class="summary-card"><div class="number change-added">${diff.summary.added}</div><div class="label">New Hosts</div></div>
+  <div class="summary-card"><div class="number change-removed">${diff.summary.removed}</div><div class="label">Removed Hosts</div></div>
+  <div class="summary-card"><div class="number change-changed">${diff.summary.changed}</div><div class="label">Changed Hosts</div></div>
+  <div class="summary-card"><div class="number">${diff.summary.unchanged}</div><div class="label">Unchanged Hosts</div></div>
+</div>
+`;
+
+  if (diff.hosts.length === 0) {
+    html += `<p>No differences found between the two scans.</p>`;
+  }
+
+  for (const host of diff.hosts) {
+    html += `
+<div class="host-card">
+  <div class="host-header">
+    <span class="host-ip">${esc(host.ip)}</span>
+    ${host.hostname ? `<span class="host-hostname">(${esc(host.hostname)})</span>` : ''}
+    <span class="tag change-${host.status}">${host.status.toUpperCase()}</span>
+  </div>`;
+    if (host.status === 'added') {
+      html += `<div>${host.compareOpenPorts} open ports</div>`;
+    } else if (host.status === 'removed') {
+      html += `<div>Had ${host.baseOpenPorts} open ports</div>`;
+    } else {
+      html += `
+  <table>
+    <thead><tr><th>Port</th><th>Change</th><th>Field</th><th>Before</th><th>After</th></tr></thead>
+    <tbody>`;
+      for (const row of diffRows({ ...diff, hosts: [host] })) {
+        html += `
+      <tr>
+        <td>${esc(row.port || 'host')}</td>
+        <td class="change-${row.portStatus || 'changed'}">${esc(row.portStatus || 'changed')}</td>
+        <td>${esc(row.change?.field || '')}</td>
+        <td>${value(row.change?.before || '')}</td>
+        <td>${value(row.change?.after || '')}</td>
+      </tr>`;
+      }
+      html += `</tbody></table>`;
+    }
+    html += `</div>`;
+  }
+
+  html += `
+<div class="meta" style="margin-top: 2rem; text-align: center;">
+  Generated by NmapUI | ${new Date().toISOString()}
+</div>
+</body></html>`;
+
+  return html;
+}
+
+function exportDiffMarkdown(diff: ScanDiff): string {
+  const cell = (s: string) => s.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>') || '-';
+
+  let md = `# Nmap Change Report\n\n`;
+  md += `**Comparison:** ${diff.name}\n`;
+  md += `**Before:** ${describeDiffSide(diff.base)} \`${diff.base.args}\`\n`;
+  md += `**After:** ${describeDiffSide(diff.compare)} \`${diff.compare.args}\`\n\n`;
+
+  md += `## Summary\n\n`;
+  md += `| Hosts | Count |\n|-------|-------|\n`;
+  md += `| New | ${diff.summary.added} |\n`;
+  md += `| Removed | ${diff.summary.removed} |\n`;
+  md += `| Changed | ${diff.summary.changed} |\n`;
+  md += `| Unchanged | ${diff.summary.unchanged} |\n\n`;
+
+  const section = (title: string, status: string) => diff.hosts.filter(h => h.status === status).length > 0
+    ? `## ${title}\n\n` : '';
+
+  md += section('New Hosts', 'added');
+  for (const host of diff.hosts.filter(h => h.status === 'added')) {
+    md += `- **${host.ip}**${host.hostname ? ` (${host.hostname})` : ''}: ${host.compareOpenPorts} open ports\n`;
+  }
+  md += section('Removed Hosts', 'removed') ? `\n${section('Removed Hosts', 'removed')}` : '';
+  for (const host of diff.hosts.filter(h => h.status === 'removed')) {
+    md += `- **${host.ip}**${host.hostname ? ` (${host.hostname})` : ''}: had ${host.baseOpenPorts} open ports\n`;
+  }
+  md += section('Changed Hosts', 'changed') ? `\n${section('Changed Hosts', 'changed')}` : '';
+  for (const host of diff.hosts.filter(h => h.status === 'changed')) {
+    md += `### ${host.ip}${host.hostname ? ` (${host.hostname})` : ''}\n\n`;
+    md += `| Port | Change | Field | Before | After |\n|------|--------|-------|--------|-------|\n`;
+    for (const row of diffRows({ ...diff, hosts: [host] })) {
+      md += `| ${row.port || 'host'} | ${row.portStatus || 'changed'} | ${cell(row.change?.field || '')} | ${cell(row.change?.before || '')} | ${cell(row.change?.after || '')} |\n`;
+    }
+    md += `\n`;
+  }
+
+  if (diff.hosts.length === 0) md += `No differences found between the two scans.\n`;
+
+  md += `\n*Generated by NmapUI — ${new Date().toISOString()}*\n`;
+  return md;
+}
+
 export function downloadExport(content: string, filename: string, mimeType: string): void {
   const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { applyFilters, applySearch, applySorting } from './filterEngine';
+import { applyFilters, applySearch, applySorting, compareIPs } from './filterEngine';
 import type { NmapHost, FilterGroup, FilterRule, SortConfig } from '../types/nmap';
 
 // Helper to create a minimal host for testing
@@ -219,6 +219,148 @@ describe('applyFilters', () => {
     ]));
     expect(result).toHaveLength(3);
   });
+
+  it('negates a rule', () => {
+    const result = applyFilters(hosts, makeGroup([
+      makeRule({ field: 'status', operator: 'equals', value: 'down', negate: true }),
+    ]));
+    expect(result.map(h => h.id)).toEqual(['h1', 'h2']);
+  });
+
+  it('combines nested groups with the parent logic', () => {
+    const group: FilterGroup = {
+      ...makeGroup([makeRule({ id: 'r1', field: 'status', operator: 'equals', value: 'up' })]),
+      groups: [makeGroup([
+        makeRule({ id: 'r2', field: 'ip', operator: 'equals', value: '192.168.1.2' }),
+        makeRule({ id: 'r3', field: 'ip', operator: 'equals', value: '10.0.0.1' }),
+      ], 'OR')],
+    };
+    expect(applyFilters(hosts, group).map(h => h.id)).toEqual(['h2']);
+  });
+
+  it('negates a nested group', () => {
+    const group: FilterGroup = {
+      ...makeGroup([]),
+      groups: [{ ...makeGroup([makeRule({ field: 'mainOS', operator: 'contains', value: 'windows' })]), negate: true }],
+    };
+    expect(applyFilters(hosts, group).map(h => h.id)).toEqual(['h1', 'h3']);
+  });
+
+  it('ignores nested groups without enabled rules', () => {
+    const group: FilterGroup = { ...makeGroup([]), groups: [{ ...makeGroup([]), negate: true }] };
+    expect(applyFilters(hosts, group)).toHaveLength(3);
+  });
+
+  it('matches list items with has', () => {
+    expect(applyFilters(hosts, makeGroup([makeRule({ field: 'ports', operator: 'has', value: '80' })]))).toHaveLength(2);
+    expect(applyFilters(hosts, makeGroup([makeRule({ field: 'ports', operator: 'has', value: '8' })]))).toHaveLength(0);
+    expect(applyFilters(hosts, makeGroup([makeRule({ field: 'ports', operator: 'has', value: '20-25' })]))).toHaveLength(2);
+    expect(applyFilters(hosts, makeGroup([makeRule({ field: 'services', operator: 'has', value: 'SSH' })]))).toHaveLength(2);
+  });
+
+  it('matches tunnelled services as tunnel/name', () => {
+    const tls = makeHost({
+      ports: [{
+        protocol: 'tcp', portid: 443,
+        state: { state: 'open', reason: 'syn-ack', reason_ttl: 64 },
+        service: { name: 'http', tunnel: 'ssl', method: 'probed', conf: 10, cpes: [] },
+        scripts: [],
+      }],
+    });
+    const rule = makeRule({ field: 'services', operator: 'has', value: 'ssl/http' });
+    expect(applyFilters([tls, hosts[0]], makeGroup([rule]))).toEqual([tls]);
+  });
+
+  it('searches all fields with the text pseudo field', () => {
+    expect(applyFilters(hosts, makeGroup([makeRule({ field: 'text', operator: 'contains', value: 'Windows 10' })]))).toHaveLength(1);
+    expect(applyFilters(hosts, makeGroup([makeRule({ field: 'text', operator: 'not_contains', value: 'nginx' })]))).toHaveLength(1);
+  });
+});
+
+describe('applyFilters with port-scoped rules', () => {
+  const port = (portid: number, state: string, product?: string, scriptId?: string) => ({
+    protocol: 'tcp', portid,
+    state: { state, reason: 'syn-ack', reason_ttl: 64 },
+    service: { name: 'http', product, method: 'probed', conf: 10, cpes: [] },
+    scripts: scriptId ? [{ id: scriptId, output: 'Jetty test page', elements: [] }] : [],
+  });
+  // 8080 closed and Jetty on another port: must not match "8080 open Jetty"
+  const split = makeHost({ id: 'split', ports: [port(8080, 'closed'), port(9000, 'open', 'Jetty')] });
+  const jetty = makeHost({ id: 'jetty', ports: [port(8080, 'open', 'Jetty', 'http-title'), port(22, 'open')] });
+  const bare = makeHost({ id: 'bare', ports: [], mainOS: 'Linux' });
+  const all = [split, jetty, bare];
+
+  const jettyRules = [
+    makeRule({ id: 'r1', field: 'port.portid', operator: 'equals', value: '8080' }),
+    makeRule({ id: 'r2', field: 'port.state', operator: 'equals', value: 'open' }),
+    makeRule({ id: 'r3', field: 'port.product', operator: 'contains', value: 'jetty' }),
+  ];
+
+  it('requires all port rules to match on the same port', () => {
+    expect(applyFilters(all, makeGroup(jettyRules)).map(h => h.id)).toEqual(['jetty']);
+  });
+
+  it('narrows kept hosts to the matching ports and updates counts', () => {
+    const [host] = applyFilters(all, makeGroup(jettyRules));
+    expect(host.ports.map(p => p.portid)).toEqual([8080]);
+    expect(host.openPortCount).toBe(1);
+    expect(jetty.ports).toHaveLength(2); // source host untouched
+  });
+
+  it('binds port rules in nested groups to the same port', () => {
+    const group: FilterGroup = {
+      ...makeGroup([makeRule({ field: 'port.state', operator: 'equals', value: 'open' })]),
+      groups: [makeGroup([
+        makeRule({ id: 'a', field: 'port.portid', operator: 'equals', value: '8080' }),
+        makeRule({ id: 'b', field: 'port.portid', operator: 'equals', value: '9000' }),
+      ], 'OR')],
+    };
+    const result = applyFilters(all, group);
+    expect(result.map(h => [h.id, h.ports.map(p => p.portid)])).toEqual([['split', [9000]], ['jetty', [8080]]]);
+  });
+
+  it('treats a negated port group as "no such port"', () => {
+    const group: FilterGroup = { ...makeGroup([]), groups: [{ ...makeGroup(jettyRules), negate: true }] };
+    expect(applyFilters(all, group).map(h => h.id)).toEqual(['split', 'bare']);
+  });
+
+  it('keeps host rules working for hosts without ports', () => {
+    const group = makeGroup([
+      makeRule({ id: 'r1', field: 'mainOS', operator: 'contains', value: 'linux' }),
+      makeRule({ id: 'r2', field: 'port.portid', operator: 'equals', value: '22' }),
+    ], 'OR');
+    expect(applyFilters([bare], group)).toEqual([bare]);
+  });
+
+  it('matches script ids and output per port', () => {
+    const byId = applyFilters(all, makeGroup([makeRule({ field: 'port.script', operator: 'has', value: 'http-title' })]));
+    expect(byId.map(h => [h.id, h.ports.map(p => p.portid)])).toEqual([['jetty', [8080]]]);
+    const byOutput = applyFilters(all, makeGroup([makeRule({ field: 'port.scriptOutput', operator: 'contains', value: 'test page' })]));
+    expect(byOutput.map(h => h.id)).toEqual(['jetty']);
+  });
+});
+
+describe('applyFilters with network operators', () => {
+  const v6 = makeHost({ id: 'v6', ip: '', ipv6: '2001:db8::10', addresses: [{ addr: '2001:db8::10', addrtype: 'ipv6' }] });
+  const all = [...hosts, v6];
+  const ids = (rule: Partial<FilterRule>) => applyFilters(all, makeGroup([makeRule(rule)])).map(h => h.id);
+
+  it('matches comma-separated CIDR lists across address families', () => {
+    expect(ids({ operator: 'in_cidr', value: '10.0.0.0/8' })).toEqual(['h3']);
+    expect(ids({ operator: 'in_cidr', value: '10.0.0.0/8, 2001:db8::/32' })).toEqual(['h3', 'v6']);
+    expect(ids({ operator: 'not_in_cidr', value: '192.168.0.0/16' })).toEqual(['h3', 'v6']);
+  });
+
+  it('matches IP ranges, including the last-octet shorthand', () => {
+    expect(ids({ operator: 'in_ip_range', value: '192.168.1.2-192.168.1.50' })).toEqual(['h2']);
+    expect(ids({ operator: 'in_ip_range', value: '192.168.1.1-2' })).toEqual(['h1', 'h2']);
+    expect(ids({ field: 'ipv6', operator: 'in_ip_range', value: '2001:db8::1-2001:db8::ff' })).toEqual(['v6']);
+  });
+
+  it('matches nothing when the network list is invalid', () => {
+    expect(ids({ operator: 'in_cidr', value: '10.0.0.0/8, bogus' })).toEqual([]);
+    expect(ids({ operator: 'not_in_cidr', value: '' })).toEqual([]);
+  });
 });
 
 describe('applySearch', () => {
@@ -312,3 +454,16 @@ describe('applySorting', () => {
     expect(hosts.map(h => h.id)).toEqual(original.map(h => h.id));
   });
 });
+
+describe('compareIPs', () => {
+  it('orders IPv4 numerically, then IPv6 by value', () => {
+    const addrs = ['2001:db8::10', '192.168.1.10', '2001:db8::2', '10.0.0.1', 'fe80::1', '192.168.1.9'];
+    expect([...addrs].sort(compareIPs)).toEqual([
+      '10.0.0.1', '192.168.1.9', '192.168.1.10', '2001:db8::2', '2001:db8::10', 'fe80::1',
+    ]);
+  });
+
+  it('treats equal IPv6 spellings as equal', () => {
+    expect(compareIPs('2001:db8::1', '2001:0db8:0:0:0:0:0:1')).toBe(0);
+  });
+});
@@ -1,7 +1,13 @@
-import type { NmapHost, FilterGroup, FilterRule, SortConfig } from '../types/nmap';
+import type { NmapHost, Port, FilterGroup, FilterRule, SortConfig } from '../types/nmap';
+import { parseAddressList, addressInRanges, parseAddress, type AddressList } from './ipRanges';
+import { isColumnExpression, evaluateColumnExpression } from './columnExpressions';
 
-// Get a nested field value from a host object using dot notation
-function getFieldValue(host: NmapHost, field: string): any {
+/**
+ * Value of a field for a host: any FILTER_FIELDS value (port fields give the
+ * distinct values across the host's ports), a computed column expression, or
+ * a dot-notation path into the host object.
+ */
+export function getFieldValue(host: NmapHost, field: string): any {
   if (field === 'ip') return host.ip;
   if (field === 'ipv6') return host.ipv6;
   if (field === 'mac') return host.mac;
@@ -39,6 +45,10 @@ function getFieldValue(host: NmapHost, field: string): any {
     }
     return [...new Set(cpes)].join(', ');
   }
+  if (isPortField(field)) {
+    return [...new Set(host.ports.map(p => String(getPortFieldValue(p, field))).filter(Boolean))].join(', ');
+  }
+  if (isColumnExpression(field)) return evaluateColumnExpression(host, field);
 
   // Fallback: try dot notation traversal
   const parts = field.split('.');
@@ -50,10 +60,104 @@ function getFieldValue(host: NmapHost, field: string): any {
   return val ?? '';
 }
 
-function matchesRule(host: NmapHost, rule: FilterRule): boolean {
+// Individual values of list-like fields, for the 'has' operator
+function getFieldItems(host: NmapHost, field: string): string[] {
+  switch (field) {
+    case 'ports':
+      return host.ports.flatMap(p => [String(p.portid), `${p.portid}/${p.protocol}`]);
+    case 'services':
+      return host.ports.flatMap(p => {
+        if (!p.service?.name) return [];
+        return p.service.tunnel ? [p.service.name, `${p.service.tunnel}/${p.service.name}`] : [p.service.name];
+      });
+    case 'products':
+      return host.ports.map(p => p.service?.product || '').filter(Boolean);
+    case 'allAddresses':
+      return host.addresses.map(a => a.addr);
+    case 'allHostnames':
+      return host.hostnames.map(h => h.name);
+    default: {
+      const val = String(getFieldValue(host, field));
+      return field === 'cpes' ? val.split(', ') : [val];
+    }
+  }
+}
+
+// Addresses tested by the network operators; 'ip' covers both address families
+function getFieldAddresses(host: NmapHost, field: string): string[] {
+  switch (field) {
+    case 'ip': return [host.ip, host.ipv6].filter(Boolean);
+    default: return [String(getFieldValue(host, field))];
+  }
+}
+
+/**
+ * Port-scoped fields ("port.*") are evaluated against a single Port:
+ * all port rules of a filter must match on the same port.
+ */
+export function isPortField(field: string): boolean {
+  return field.startsWith('port.');
+}
+
+function getPortFieldValue(port: Port, field: string): any {
+  switch (field) {
+    case 'port.state': return port.state.state;
+    case 'port.portid': return port.portid;
+    case 'port.protocol': return port.protocol;
+    case 'port.service': return port.service?.name || '';
+    case 'port.product': return port.service?.product || '';
+    case 'port.version': return port.service?.version || '';
+    case 'port.tunnel': return port.service?.tunnel || '';
+    case 'port.script': return port.scripts.map(s => s.id).join(', ');
+    case 'port.scriptOutput': return port.scripts.map(s => s.output).join('\n');
+    default: return '';
+  }
+}
+
+function getPortFieldItems(port: Port, field: string): string[] {
+  if (field === 'port.script') return port.scripts.map(s => s.id);
+  if (field === 'port.service' && port.service?.tunnel) {
+    return [port.service.name, `${port.service.tunnel}/${port.service.name}`];
+  }
+  return [String(getPortFieldValue(port, field))];
+}
+
+// Decides whether a host contains the (lowercased, trimmed) text; swapped for an index-backed matcher on large scans
+export type TextMatcher = (host: NmapHost, q: string) => boolean;
+
+// State of one filter run, shared by every host it tests
+interface FilterContext {
+  matchText: TextMatcher;
+  addressLists: Map<string, AddressList>; // network operator values, parsed once per run
+}
+
+function getAddressList(ctx: FilterContext, text: string): AddressList {
+  let list = ctx.addressLists.get(text);
+  if (!list) {
+    list = parseAddressList(text);
+    ctx.addressLists.set(text, list);
+  }
+  return list;
+}
+
+function matchesRule(host: NmapHost, rule: FilterRule, port: Port | null, ctx: FilterContext): boolean {
   if (!rule.enabled) return true;
+  const result = evaluateRule(host, rule, port, ctx);
+  return rule.negate ? !result : result;
+}
 
-  const fieldVal = getFieldValue(host, rule.field);
+function evaluateRule(host: NmapHost, rule: FilterRule, port: Port | null, ctx: FilterContext): boolean {
+  // Full-text pseudo field used by bare words in search queries
+  if (rule.field === 'text') {
+    const hit = ctx.matchText(host, rule.value.toLowerCase().trim());
+    return rule.operator === 'not_contains' ? !hit : hit;
+  }
+
+  const portField = isPortField(rule.field);
+  // Only reached for hosts without any ports
+  if (portField && !port) return false;
+
+  const fieldVal = portField ? getPortFieldValue(port!, rule.field) : getFieldValue(host, rule.field);
   const strVal = String(fieldVal).toLowerCase();
   const ruleVal = rule.value.toLowerCase();
 
@@ -102,79 +206,178 @@ function matchesRule(host: NmapHost, rule: FilterRule): boolean {
       return strVal === '' || strVal === '0';
     case 'is_not_empty':
       return strVal !== '' && strVal !== '0';
+    case 'in_cidr':
+    case 'in_ip_range':
+    case 'not_in_cidr': {
+      const { ranges, invalid } = getAddressList(ctx, rule.value);
+      // An unparseable network list matches nothing rather than guessing
+      if (invalid.length > 0 || ranges.length === 0) return false;
+      const hit = getFieldAddresses(host, rule.field).some(a => addressInRanges(a, ranges));
+      return rule.operator === 'not_in_cidr' ? !hit : hit;
+    }
+    case 'has': {
+      const range = rule.field === 'ports' ? /^(\d+)-(\d+)$/.exec(ruleVal) : null;
+      if (range) {
+        const [min, max] = [Number(range[1]), Number(range[2])];
+        return host.ports.some(p => p.portid >= min && p.portid <= max);
+      }
+      const items = portField ? getPortFieldItems(port!, rule.field) : getFieldItems(host, rule.field);
+      return items.some(item => item.toLowerCase() === ruleVal);
+    }
     default:
       return true;
   }
 }
 
-export function applyFilters(hosts: NmapHost[], filterGroup: FilterGroup): NmapHost[] {
-  if (filterGroup.rules.length === 0) return hosts;
+/**
+ * Number of enabled rules in a filter tree.
+ */
+export function countActiveRules(group: FilterGroup): number {
+  const own = group.rules.filter(r => r.enabled).length;
+  return (group.groups || []).reduce((sum, g) => sum + countActiveRules(g), own);
+}
+
+/**
+ * Words a filter tree searches for as free text (not negated), used to
+ * highlight where hosts matched.
+ */
+export function collectTextTerms(group: FilterGroup): string[] {
+  if (group.negate) return [];
+  const own = group.rules
+    .filter(r => r.enabled && r.field === 'text' && r.operator === 'contains' && !r.negate && r.value.trim())
+    .map(r => r.value.trim());
+  return [...own, ...(group.groups || []).flatMap(collectTextTerms)];
+}
+
+// Whether port rules in this group bind to a port chosen by the group itself.
+// Negated sub-groups ("no port such that ...") choose their own port.
+function usesPortScope(group: FilterGroup): boolean {
+  return group.rules.some(r => r.enabled && isPortField(r.field)) ||
+    (group.groups || []).some(g => !g.negate && usesPortScope(g));
+}
+
+// Evaluate a group without its own negation. Once a port is bound, every
+// port rule below sees that same port.
+function matchesGroupBody(host: NmapHost, group: FilterGroup, port: Port | null, ctx: FilterContext): boolean {
+  const rules = group.rules.filter(r => r.enabled);
+  const groups = (group.groups || []).filter(g => countActiveRules(g) > 0);
+  // A group without active rules doesn't constrain anything, negated or not
+  if (rules.length === 0 && groups.length === 0) return true;
+
+  return group.logic === 'AND'
+    ? rules.every(r => matchesRule(host, r, port, ctx)) && groups.every(g => matchesGroup(host, g, port, ctx))
+    : rules.some(r => matchesRule(host, r, port, ctx)) || groups.some(g => matchesGroup(host, g, port, ctx));
+}
 
-  const enabledRules = filterGroup.rules.filter(r => r.enabled);
-  if (enabledRules.length === 0) return hosts;
+// Ports a group is tried against; a host without ports still gets one try for its host rules
+function candidatePorts(host: NmapHost): (Port | null)[] {
+  return host.ports.length > 0 ? host.ports : [null];
+}
 
-  return hosts.filter(host => {
-    if (filterGroup.logic === 'AND') {
-      return enabledRules.every(rule => matchesRule(host, rule));
-    } else {
-      return enabledRules.some(rule => matchesRule(host, rule));
+function matchesGroup(host: NmapHost, group: FilterGroup, port: Port | null, ctx: FilterContext): boolean {
+  const bound = group.negate ? null : port;
+  // The outermost group holding port rules binds them to one port: "some port matches"
+  const matches = !bound && usesPortScope(group)
+    ? candidatePorts(host).some(p => matchesGroupBody(host, group, p, ctx))
+    : matchesGroupBody(host, group, bound, ctx);
+  return group.negate ? !matches : matches;
+}
+
+// Copy of a host limited to the given ports, with the derived counts updated
+export function withPorts(host: NmapHost, ports: Port[]): NmapHost {
+  return {
+    ...host,
+    ports,
+    openPortCount: ports.filter(p => p.state.state === 'open').length,
+    closedPortCount: ports.filter(p => p.state.state === 'closed').length,
+    filteredPortCount: ports.filter(p => p.state.state === 'filtered' || p.state.state === 'open|filtered').length,
+  };
+}
+
+/**
+ * Keep the hosts matching the filter tree. When the tree has port-scoped
+ * rules, each kept host is narrowed to the ports that satisfy them, so
+ * port and service views and exports only show the matching ports.
+ */
+export function applyFilters(hosts: NmapHost[], filterGroup: FilterGroup, matchText: TextMatcher = hostMatchesText): NmapHost[] {
+  if (countActiveRules(filterGroup) === 0) return hosts;
+  const ctx: FilterContext = { matchText, addressLists: new Map() };
+  if (!usesPortScope(filterGroup) || filterGroup.negate) {
+    return hosts.filter(host => matchesGroup(host, filterGroup, null, ctx));
+  }
+
+  const result: NmapHost[] = [];
+  for (const host of hosts) {
+    if (host.ports.length === 0) {
+      if (matchesGroupBody(host, filterGroup, null, ctx)) result.push(host);
+      continue;
     }
-  });
+    const ports = host.ports.filter(p => matchesGroupBody(host, filterGroup, p, ctx));
+    if (ports.length === 0) continue;
+    result.push(ports.length === host.ports.length ? host : withPorts(host, ports));
+  }
+  return result;
 }
 
-export function applySearch(hosts: NmapHost[], query: string): NmapHost[] {
+export function applySearch(hosts: NmapHost[], query: string, matchText: TextMatcher = hostMatchesText): NmapHost[] {
   if (!query.trim()) return hosts;
   const q = query.toLowerCase().trim();
+  return hosts.filter(host => matchText(host, q));
+}
 
-  return hosts.filter(host => {
-    // Search across all major fields
-    if (host.ip.toLowerCase().includes(q)) return true;
-    if (host.ipv6.toLowerCase().includes(q)) return true;
-    if (host.mac.toLowerCase().includes(q)) return true;
-    if (host.hostname.toLowerCase().includes(q)) return true;
-    if (host.mainOS.toLowerCase().includes(q)) return true;
-    if (host.status.state.toLowerCase().includes(q)) return true;
-
-    // Search in hostnames
-    for (const hn of host.hostnames) {
-      if (hn.name.toLowerCase().includes(q)) return true;
-    }
+// q must already be lowercased and trimmed
+export function hostMatchesText(host: NmapHost, q: string): boolean {
+  // Search across all major fields
+  if (host.ip.toLowerCase().includes(q)) return true;
+  if (host.ipv6.toLowerCase().includes(q)) return true;
+  if (host.mac.toLowerCase().includes(q)) return true;
+  if (host.hostname.toLowerCase().includes(q)) return true;
+  if (host.mainOS.toLowerCase().includes(q)) return true;
+  if (host.status.state.toLowerCase().includes(q)) return true;
 
-    // Search in addresses
-    for (const addr of host.addresses) {
-      if (addr.addr.toLowerCase().includes(q)) return true;
-      if (addr.vendor?.toLowerCase().includes(q)) return true;
-    }
+  // Search in hostnames
+  for (const hn of host.hostnames) {
+    if (hn.name.toLowerCase().includes(q)) return true;
+  }
 
-    // Search in ports/services
-    for (const port of host.ports) {
-      if (String(port.portid).includes(q)) return true;
-      if (port.service?.name?.toLowerCase().includes(q)) return true;
-      if (port.service?.product?.toLowerCase().includes(q)) return true;
-      if (port.service?.version?.toLowerCase().includes(q)) return true;
-      if (port.service?.extrainfo?.toLowerCase().includes(q)) return true;
-    }
+  // Search in addresses
+  for (const addr of host.addresses) {
+    if (addr.addr.toLowerCase().includes(q)) return true;
+    if (addr.vendor?.toLowerCase().includes(q)) return true;
+  }
+
+  // Search in ports/services
+  for (const port of host.ports) {
+    if (String(port.portid).includes(q)) return true;
+    if (port.service?.name?.toLowerCase().includes(q)) return true;
+    if (port.service?.product?.toLowerCase().includes(q)) return true;
+    if (port.service?.version?.toLowerCase().includes(q)) return true;
+    if (port.service?.extrainfo?.toLowerCase().includes(q)) return true;
+  }
 
-    // Search in scripts
-    for (const script of host.hostscripts) {
+  // Search in scripts
+  for (const script of host.hostscripts) {
+    if (script.id.toLowerCase().includes(q)) return true;
+    if (script.output.toLowerCase().includes(q)) return true;
+  }
+  for (const port of host.ports) {
+    for (const script of port.scripts) {
       if (script.id.toLowerCase().includes(q)) return true;
       if (script.output.toLowerCase().includes(q)) return true;
     }
-    for (const port of host.ports) {
-      for (const script of port.scripts) {
-        if (script.id.toLowerCase().includes(q)) return true;
-        if (script.output.toLowerCase().includes(q)) return true;
-      }
-    }
+  }
 
-    return false;
-  });
+  return false;
 }
 
 export function applySorting(hosts: NmapHost[], sorts: SortConfig[]): NmapHost[] {
   if (sorts.length === 0) return hosts;
+  return [...hosts].sort(hostComparator(sorts));
+}
 
-  return [...hosts].sort((a, b) => {
+// Host order for the sort settings, first sort first
+export function hostComparator(sorts: SortConfig[]): (a: NmapHost, b: NmapHost) => number {
+  return (a, b) => {
     for (const sort of sorts) {
       const aVal = getFieldValue(a, sort.field);
       const bVal = getFieldValue(b, sort.field);
@@ -200,27 +403,42 @@ export function applySorting(hosts: NmapHost[], sorts: SortConfig[]): NmapHost[]
       if (cmp !== 0) return cmp * dir;
     }
     return 0;
-  });
+  };
 }
 
-function compareIPs(a: string, b: string): number {
-  const aParts = a.split('.').map(Number);
-  const bParts = b.split('.').map(Number);
-  for (let i = 0; i < 4; i++) {
-    const diff = (aParts[i] || 0) - (bParts[i] || 0);
-    if (diff !== 0) return diff;
+/**
+ * Compare addresses numerically. IPv4 addresses sort before IPv6 ones;
+ * IPv6 addresses that don't parse sort as text after the rest.
+ */
+export function compareIPs(a: string, b: string): number {
+  const aV6 = a.includes(':');
+  const bV6 = b.includes(':');
+  if (aV6 !== bV6) return aV6 ? 1 : -1;
+  if (!aV6) {
+    const aParts = a.split('.').map(Number);
+    const bParts = b.split('.').map(Number);
+    for (let i = 0; i < 4; i++) {
+      const diff = (aParts[i] || 0) - (bParts[i] || 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
   }
-  return 0;
+  const aAddr = parseAddress(a);
+  const bAddr = parseAddress(b);
+  if (!aAddr || !bAddr) return aAddr ? -1 : bAddr ? 1 : a.localeCompare(b);
+  return aAddr.value < bAddr.value ? -1 : aAddr.value > bAddr.value ? 1 : 0;
 }
 
-// Available filter fields
+// Available filter fields. 'list' fields hold several values ('has' matches one of them exactly);
+// 'ip' fields are strings that also support the network operators
 export const FILTER_FIELDS = [
-  { value: 'ip', label: 'IP Address', type: 'string' },
-  { value: 'ipv6', label: 'IPv6 Address', type: 'string' },
+  { value: 'text', label: 'Any Field', type: 'text' },
+  { value: 'ip', label: 'IP Address', type: 'ip' },
+  { value: 'ipv6', label: 'IPv6 Address', type: 'ip' },
   { value: 'mac', label: 'MAC Address', type: 'string' },
   { value: 'macVendor', label: 'MAC Vendor', type: 'string' },
   { value: 'hostname', label: 'Hostname', type: 'string' },
-  { value: 'allHostnames', label: 'All Hostnames', type: 'string' },
+  { value: 'allHostnames', label: 'All Hostnames', type: 'list' },
   { value: 'status', label: 'Status', type: 'string' },
   { value: 'reason', label: 'Status Reason', type: 'string' },
   { value: 'mainOS', label: 'OS', type: 'string' },
@@ -231,28 +449,42 @@ export const FILTER_FIELDS = [
   { value: 'closedPortCount', label: 'Closed Ports', type: 'number' },
   { value: 'filteredPortCount', label: 'Filtered Ports', type: 'number' },
   { value: 'totalPorts', label: 'Total Ports', type: 'number' },
-  { value: 'ports', label: 'Port Numbers', type: 'string' },
-  { value: 'services', label: 'Services', type: 'string' },
-  { value: 'products', label: 'Products', type: 'string' },
-  { value: 'cpes', label: 'CPEs', type: 'string' },
+  { value: 'ports', label: 'Port Numbers', type: 'list' },
+  { value: 'services', label: 'Services', type: 'list' },
+  { value: 'products', label: 'Products', type: 'list' },
+  { value: 'cpes', label: 'CPEs', type: 'list' },
   { value: 'uptimeSeconds', label: 'Uptime (seconds)', type: 'number' },
   { value: 'lastboot', label: 'Last Boot', type: 'string' },
   { value: 'distance', label: 'Network Distance', type: 'number' },
   { value: 'tcpDifficulty', label: 'TCP Seq Difficulty', type: 'string' },
   { value: 'hostscriptCount', label: 'Host Scripts Count', type: 'number' },
+  // Port-scoped: all of these in one filter must match the same port
+  { value: 'port.portid', label: 'Port: Number', type: 'number' },
+  { value: 'port.protocol', label: 'Port: Protocol', type: 'string' },
+  { value: 'port.state', label: 'Port: State', type: 'string' },
+  { value: 'port.service', label: 'Port: Service', type: 'string' },
+  { value: 'port.product', label: 'Port: Product', type: 'string' },
+  { value: 'port.version', label: 'Port: Version', type: 'string' },
+  { value: 'port.tunnel', label: 'Port: Tunnel', type: 'string' },
+  { value: 'port.script', label: 'Port: Script ID', type: 'list' },
+  { value: 'port.scriptOutput', label: 'Port: Script Output', type: 'string' },
 ];
 
 export const FILTER_OPERATORS = [
-  { value: 'equals', label: 'Equals', types: ['string', 'number'] },
-  { value: 'not_equals', label: 'Not Equals', types: ['string', 'number'] },
-  { value: 'contains', label: 'Contains', types: ['string'] },
-  { value: 'not_contains', label: 'Does Not Contain', types: ['string'] },
-  { value: 'starts_with', label: 'Starts With', types: ['string'] },
-  { value: 'ends_with', label: 'Ends With', types: ['string'] },
+  { value: 'has', label: 'Has', types: ['list'] },
+  { value: 'equals', label: 'Equals', types: ['string', 'ip', 'number', 'list'] },
+  { value: 'not_equals', label: 'Not Equals', types: ['string', 'ip', 'number', 'list'] },
+  { value: 'contains', label: 'Contains', types: ['string', 'ip', 'list', 'text'] },
+  { value: 'not_contains', label: 'Does Not Contain', types: ['string', 'ip', 'list', 'text'] },
+  { value: 'starts_with', label: 'Starts With', types: ['string', 'ip', 'list'] },
+  { value: 'ends_with', label: 'Ends With', types: ['string', 'ip', 'list'] },
+  { value: 'in_cidr', label: 'In Network', types: ['ip'] },
+  { value: 'not_in_cidr', label: 'Not In Network', types: ['ip'] },
+  { value: 'in_ip_range', label: 'In IP Range', types: ['ip'] },
   { value: 'greater_than', label: 'Greater Than', types: ['number'] },
   { value: 'less_than', label: 'Less Than', types: ['number'] },
   { value: 'in_range', label: 'In Range', types: ['number'] },
-  { value: 'regex', label: 'Matches Regex', types: ['string'] },
-  { value: 'is_empty', label: 'Is Empty', types: ['string', 'number'] },
-  { value: 'is_not_empty', label: 'Is Not Empty', types: ['string', 'number'] },
+  { value: 'regex', label: 'Matches Regex', types: ['string', 'ip', 'list'] },
+  { value: 'is_empty', label: 'Is Empty', types: ['string', 'ip', 'number', 'list'] },
+  { value: 'is_not_empty', label: 'Is Not Empty', types: ['string', 'ip', 'number', 'list'] },
 ];
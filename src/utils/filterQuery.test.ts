@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { parseFilterQuery, formatFilterQuery } from './filterQuery';
+import type { FilterGroup, FilterRule } from '../types/nmap';
+
+interface GroupShape {
+  logic: string;
+  negate?: boolean;
+  rules: Omit<FilterRule, 'id' | 'enabled'>[];
+  groups: GroupShape[];
+}
+
+// Strip generated ids so trees can be compared structurally
+function shape(group: FilterGroup): GroupShape {
+  return {
+    logic: group.logic,
+    ...(group.negate ? { negate: true } : {}),
+    rules: group.rules.map(({ id: _, enabled: __, ...rest }: FilterRule) => rest),
+    groups: (group.groups || []).map(shape),
+  };
+}
+
+function parse(query: string) {
+  const result = parseFilterQuery(query);
+  expect(result.error).toBeNull();
+  return result.group!;
+}
+
+describe('parseFilterQuery', () => {
+  it('returns no group for an empty query', () => {
+    expect(parseFilterQuery('   ')).toEqual({ group: null, error: null });
+  });
+
+  it('parses the documented example', () => {
+    expect(shape(parse('port:443 service:ssl/http os~linux -status:down'))).toEqual({
+      logic: 'AND',
+      rules: [
+        { field: 'ports', operator: 'has', value: '443' },
+        { field: 'services', operator: 'has', value: 'ssl/http' },
+        { field: 'mainOS', operator: 'contains', value: 'linux' },
+        { field: 'status', operator: 'not_equals', value: 'down' },
+      ],
+      groups: [],
+    });
+  });
+
+  it('builds nested groups from parentheses, OR and NOT', () => {
+    expect(shape(parse('(service:http OR service:https) AND NOT os~windows'))).toEqual({
+      logic: 'AND',
+      rules: [{ field: 'mainOS', operator: 'not_contains', value: 'windows' }],
+      groups: [{
+        logic: 'OR',
+        rules: [
+          { field: 'services', operator: 'has', value: 'http' },
+          { field: 'services', operator: 'has', value: 'https' },
+        ],
+        groups: [],
+      }],
+    });
+  });
+
+  it('negates groups', () => {
+    const group = parse('-(port:80 OR port:8080)');
+    expect(group.rules).toHaveLength(0);
+    expect(group.groups![0].negate).toBe(true);
+  });
+
+  it('treats bare words and quoted phrases as full-text terms', () => {
+    expect(shape(parse('nginx "Welcome Page"')).rules).toEqual([
+      { field: 'text', operator: 'contains', value: 'nginx' },
+      { field: 'text', operator: 'contains', value: 'Welcome Page' },
+    ]);
+  });
+
+  it('keeps IPv6 addresses as text', () => {
+    expect(parse('fe80::1').rules[0]).toMatchObject({ field: 'text', value: 'fe80::1' });
+  });
+
+  it('maps operators', () => {
+    const ops = (q: string) => parse(q).rules.map(r => [r.operator, r.value, !!r.negate]);
+    expect(ops('open>3 distance<5 open:1-10 hostname:web* hostname:*.local mac:*')).toEqual([
+      ['greater_than', '3', false],
+      ['less_than', '5', false],
+      ['in_range', '1-10', false],
+      ['starts_with', 'web', false],
+      ['ends_with', '.local', false],
+      ['is_not_empty', '', false],
+    ]);
+    expect(ops('product~/apache|nginx/ product!~/iis/ ip=10.0.0.1 ip!=10.0.0.2')).toEqual([
+      ['regex', 'apache|nginx', false],
+      ['regex', 'iis', true],
+      ['equals', '10.0.0.1', false],
+      ['not_equals', '10.0.0.2', false],
+    ]);
+  });
+
+  it('maps port-scoped aliases', () => {
+    expect(parse('portid:8080 state:open port.product~jetty script:http-title').rules.map(r => [r.field, r.operator])).toEqual([
+      ['port.portid', 'equals'],
+      ['port.state', 'equals'],
+      ['port.product', 'contains'],
+      ['port.script', 'has'],
+    ]);
+  });
+
+  it('maps networks and ranges on ip fields to the network operators', () => {
+    expect(shape(parse('ip:10.20.0.0/16,2001:db8::/32 -ip:10.20.5.0/24 ipv6:2001:db8::1-2001:db8::ff ip:192.168.1.10-50')).rules).toEqual([
+      { field: 'ip', operator: 'in_cidr', value: '10.20.0.0/16,2001:db8::/32' },
+      { field: 'ip', operator: 'not_in_cidr', value: '10.20.5.0/24' },
+      { field: 'ipv6', operator: 'in_ip_range', value: '2001:db8::1-2001:db8::ff' },
+      { field: 'ip', operator: 'in_ip_range', value: '192.168.1.10-50' },
+    ]);
+    expect(parse('ip:10.0.0.1').rules[0].operator).toBe('equals');
+  });
+
+  it('accepts FILTER_FIELDS names case-insensitively', () => {
+    expect(parse('OPENPORTCOUNT>1').rules[0].field).toBe('openPortCount');
+  });
+
+  it.each([
+    ['prot:443', "Unknown field 'prot'", 0, 4],
+    ['port: 80', "Missing value after 'port:'", 0, 5],
+    ['open>many', "'open>' needs a number", 5, 9],
+    ['(port:80', "Missing closing ')'", 0, 1],
+    ['port:80)', "Unexpected ')'", 7, 8],
+    ['port:80 OR', "Expected a term after 'OR'", 8, 10],
+    ['os~"linux', 'Unterminated quote', 0, 9],
+    ['product~"/a[/"', 'Invalid regular expression', 8, 14],
+    ['()', 'Empty parentheses', 0, 2],
+    ['ip:10.0.0.0/33', "Invalid network or range '10.0.0.0/33'", 3, 14],
+  ])('reports %s as a syntax error', (query, message, start, end) => {
+    expect(parseFilterQuery(query)).toEqual({ group: null, error: { message, start, end } });
+  });
+});
+
+describe('formatFilterQuery', () => {
+  it.each([
+    'port:443 service:ssl/http os~linux status!=down',
+    'os!~windows (service:http OR service:https)',
+    'nginx -(port:80 OR port:8080)',
+    'product:"Apache httpd" hostname:web* open>2',
+    'ip:10.0.0.0/8,192.168.0.0/16 -ip:10.9.0.0/16 ip:172.16.0.1-172.16.0.9',
+  ])('round-trips %s', (query) => {
+    const group = parse(query);
+    expect(formatFilterQuery(group)).toBe(query);
+    expect(shape(parse(formatFilterQuery(group)))).toEqual(shape(group));
+  });
+
+  it('skips disabled rules', () => {
+    const group = parse('port:22 port:80');
+    group.rules[1].enabled = false;
+    expect(formatFilterQuery(group)).toBe('port:22');
+  });
+});
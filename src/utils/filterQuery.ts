@@ -0,0 +1,385 @@
+import type { FilterGroup, FilterRule, FilterOperator, FilterQueryError } from '../types/nmap';
+import { FILTER_FIELDS } from './filterEngine';
+import { parseAddressList } from './ipRanges';
+
+// Search bar query language:
+//   port:443 service:ssl/http os~linux -status:down
+//   (service:http OR service:https) AND NOT os~windows
+//
+//   field:value   equals (list fields: has the value; number fields: a-b is a range;
+//                 value* / *value are prefix / suffix matches; field:* is "not empty")
+//   field=value   equals          field!=value  not equals
+//   field~value   contains        field!~value  does not contain
+//   field~/re/    regex           field>n, field<n
+//   bare words search all fields. Terms are ANDed unless joined by OR;
+//   NOT or a leading '-' negates a term or a parenthesized group.
+//   port.* fields (portid, state, script, ...) must all match the same port:
+//   portid:8080 state:open port.product~jetty
+//   ip fields take networks and ranges: ip:10.20.0.0/16,2001:db8::/32 ip:192.168.1.10-50
+
+export interface FilterQueryResult {
+  group: FilterGroup | null; // null for an empty query
+  error: FilterQueryError | null;
+}
+
+// Short names accepted in queries in addition to the FILTER_FIELDS values
+const FIELD_ALIASES: Record<string, string> = {
+  port: 'ports',
+  service: 'services',
+  product: 'products',
+  cpe: 'cpes',
+  os: 'mainOS',
+  vendor: 'macVendor',
+  open: 'openPortCount',
+  closed: 'closedPortCount',
+  filtered: 'filteredPortCount',
+  portid: 'port.portid',
+  proto: 'port.protocol',
+  state: 'port.state',
+  version: 'port.version',
+  tunnel: 'port.tunnel',
+  script: 'port.script',
+};
+
+const FIELD_TYPES = new Map<string, string>(FILTER_FIELDS.map(f => [f.value.toLowerCase(), f.type]));
+const CANONICAL_FIELDS = new Map<string, string>(FILTER_FIELDS.map(f => [f.value.toLowerCase(), f.value]));
+const PREFERRED_NAMES = new Map<string, string>(Object.entries(FIELD_ALIASES).map(([alias, field]) => [field, alias]));
+
+const INVERSE_OPERATORS: Partial<Record<FilterOperator, FilterOperator>> = {
+  equals: 'not_equals',
+  not_equals: 'equals',
+  contains: 'not_contains',
+  not_contains: 'contains',
+  is_empty: 'is_not_empty',
+  is_not_empty: 'is_empty',
+  in_cidr: 'not_in_cidr',
+  not_in_cidr: 'in_cidr',
+};
+
+export function newFilterId(kind: 'rule' | 'group' | 'preset'): string {
+  return `${kind}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// ========== Tokenizer ==========
+
+type TokenKind = 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'term';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Thrown inside the parser and turned into a FilterQueryError by parseFilterQuery
+function syntaxError(message: string, start: number, end: number): never {
+  throw Object.assign(new Error(message), { queryError: { message, start, end } as FilterQueryError });
+}
+
+function toQueryError(err: unknown): FilterQueryError {
+  const queryError = (err as { queryError?: FilterQueryError }).queryError;
+  if (!queryError) throw err;
+  return queryError;
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const ch = query[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch === '(' ? 'lparen' : 'rparen', text: ch, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    // A leading '-' negates the following term or group
+    if (ch === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      tokens.push({ kind: 'not', text: ch, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let inQuote = false;
+    while (i < query.length) {
+      const c = query[i];
+      if (inQuote) {
+        if (c === '\\' && i + 1 < query.length) i++;
+        else if (c === '"') inQuote = false;
+      } else if (c === '"') {
+        inQuote = true;
+      } else if (/\s/.test(c) || c === '(' || c === ')') {
+        break;
+      }
+      i++;
+    }
+    if (inQuote) syntaxError('Unterminated quote', start, query.length);
+
+    const text = query.slice(start, i);
+    const kind: TokenKind = text === 'AND' ? 'and' : text === 'OR' ? 'or' : text === 'NOT' ? 'not' : 'term';
+    tokens.push({ kind, text, start, end: i });
+  }
+  return tokens;
+}
+
+function unquote(raw: string): string {
+  let out = '';
+  let inQuote = false;
+  for (let i = 0; i < raw.length; i++) {
+    const c = raw[i];
+    if (inQuote && c === '\\' && i + 1 < raw.length) {
+      out += raw[++i];
+    } else if (c === '"') {
+      inQuote = !inQuote;
+    } else {
+      out += c;
+    }
+  }
+  return out;
+}
+
+// ========== Parser ==========
+
+type Node = FilterRule | FilterGroup;
+
+function isGroup(node: Node): node is FilterGroup {
+  return 'logic' in node;
+}
+
+function makeGroup(logic: 'AND' | 'OR', children: Node[]): FilterGroup {
+  const group: FilterGroup = { id: newFilterId('group'), logic, rules: [], groups: [] };
+  for (const child of children) {
+    // Flatten nested groups that use the same logic
+    if (isGroup(child) && child.logic === logic && !child.negate) {
+      group.rules.push(...child.rules);
+      group.groups!.push(...(child.groups || []));
+    } else if (isGroup(child)) {
+      group.groups!.push(child);
+    } else {
+      group.rules.push(child);
+    }
+  }
+  return group;
+}
+
+function negate(node: Node): Node {
+  if (isGroup(node)) return { ...node, negate: !node.negate };
+  const inverse = INVERSE_OPERATORS[node.operator];
+  if (inverse && !node.negate) return { ...node, operator: inverse };
+  return { ...node, negate: !node.negate };
+}
+
+function parseTerm(token: Token): FilterRule {
+  const rule = (field: string, operator: FilterOperator, value: string): FilterRule => ({
+    id: newFilterId('rule'), field, operator, value, enabled: true,
+  });
+
+  // IPv6 addresses look like field:value; search them as text
+  const match = /^[0-9a-f]*:[0-9a-f]*:/i.test(token.text)
+    ? null
+    : /^([A-Za-z_][\w.]*)(!=|!~|:|=|~|>|<)/.exec(token.text);
+  if (!match) return rule('text', 'contains', unquote(token.text));
+
+  const [, name, op] = match;
+  const field = CANONICAL_FIELDS.get(name.toLowerCase()) ?? FIELD_ALIASES[name.toLowerCase()];
+  if (!field) {
+    syntaxError(`Unknown field '${name}'`, token.start, token.start + name.length);
+  }
+  const rawValue = token.text.slice(name.length + op.length);
+  const value = unquote(rawValue);
+  const valueStart = token.start + name.length + op.length;
+  if (rawValue === '') {
+    syntaxError(`Missing value after '${name}${op}'`, token.start, token.end);
+  }
+  const type = FIELD_TYPES.get(field.toLowerCase()) || 'string';
+  const quoted = rawValue.startsWith('"');
+
+  switch (op) {
+    case '=': return rule(field, 'equals', value);
+    case '!=': return rule(field, 'not_equals', value);
+    case '>':
+    case '<':
+      if (isNaN(Number(value))) {
+        syntaxError(`'${name}${op}' needs a number`, valueStart, token.end);
+      }
+      return rule(field, op === '>' ? 'greater_than' : 'less_than', value);
+    case '~':
+    case '!~': {
+      if (value.length >= 2 && value.startsWith('/') && value.endsWith('/')) {
+        const pattern = value.slice(1, -1);
+        try {
+          new RegExp(pattern);
+        } catch {
+          syntaxError('Invalid regular expression', valueStart, token.end);
+        }
+        return { ...rule(field, 'regex', pattern), negate: op === '!~' || undefined };
+      }
+      return rule(field, op === '~' ? 'contains' : 'not_contains', value);
+    }
+    default: {
+      // ':' picks the natural match for the field
+      if (!quoted && value === '*') return rule(field, 'is_not_empty', '');
+      if (type === 'number' && /^\d+(\.\d+)?-\d+(\.\d+)?$/.test(value)) return rule(field, 'in_range', value);
+      if (type === 'list') return rule(field, 'has', value);
+      if (type === 'ip' && /[/,-]/.test(value)) {
+        const { invalid } = parseAddressList(value);
+        if (invalid.length > 0) {
+          syntaxError(`Invalid network or range '${invalid[0]}'`, valueStart, token.end);
+        }
+        const isRange = value.includes('-') && !value.includes('/');
+        return rule(field, isRange ? 'in_ip_range' : 'in_cidr', value);
+      }
+      if (!quoted && value.length > 1 && value.endsWith('*')) return rule(field, 'starts_with', value.slice(0, -1));
+      if (!quoted && value.length > 1 && value.startsWith('*')) return rule(field, 'ends_with', value.slice(1));
+      return rule(field, 'equals', value);
+    }
+  }
+}
+
+/**
+ * Parse a search bar query into a filter tree. Syntax errors are returned
+ * with the character range to highlight rather than thrown.
+ */
+export function parseFilterQuery(query: string): FilterQueryResult {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(query);
+  } catch (err) {
+    return { group: null, error: toQueryError(err) };
+  }
+  if (tokens.length === 0) return { group: null, error: null };
+
+  let pos = 0;
+  const peek = (): Token | undefined => tokens[pos];
+
+  const parseOr = (): Node => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      const op = tokens[pos++];
+      if (!peek() || peek()!.kind === 'rparen') {
+        syntaxError("Expected a term after 'OR'", op.start, op.end);
+      }
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : makeGroup('OR', children);
+  };
+
+  const parseAnd = (): Node => {
+    const children = [parseUnary()];
+    for (;;) {
+      const next = peek();
+      if (!next || next.kind === 'or' || next.kind === 'rparen') break;
+      if (next.kind === 'and') {
+        pos++;
+        const after = peek();
+        if (!after || after.kind === 'rparen' || after.kind === 'or') {
+          syntaxError("Expected a term after 'AND'", next.start, next.end);
+        }
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : makeGroup('AND', children);
+  };
+
+  const parseUnary = (): Node => {
+    const token = peek();
+    if (token?.kind === 'not') {
+      pos++;
+      if (!peek() || peek()!.kind === 'rparen') {
+        syntaxError(`Expected a term after '${token.text}'`, token.start, token.end);
+      }
+      return negate(parseUnary());
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[pos++];
+    if (!token) syntaxError('Unexpected end of query', query.length, query.length);
+    switch (token.kind) {
+      case 'lparen': {
+        if (peek()?.kind === 'rparen') {
+          syntaxError('Empty parentheses', token.start, tokens[pos].end);
+        }
+        const inner = parseOr();
+        const close = tokens[pos++];
+        if (!close || close.kind !== 'rparen') {
+          syntaxError("Missing closing ')'", token.start, token.end);
+        }
+        return inner;
+      }
+      case 'term':
+        return parseTerm(token);
+      case 'rparen':
+        syntaxError("Unexpected ')'", token.start, token.end);
+      default:
+        syntaxError(`Unexpected '${token.text}'`, token.start, token.end);
+    }
+  };
+
+  try {
+    const root = parseOr();
+    if (pos < tokens.length) {
+      const extra = tokens[pos];
+      syntaxError(`Unexpected '${extra.text}'`, extra.start, extra.end);
+    }
+    // The root is never negated itself so the filter panel can show every NOT
+    return { group: isGroup(root) && !root.negate ? root : makeGroup('AND', [root]), error: null };
+  } catch (err) {
+    return { group: null, error: toQueryError(err) };
+  }
+}
+
+// ========== Formatter ==========
+
+function quoteValue(value: string): string {
+  if (value !== '' && !/[\s()"]/.test(value) && !['AND', 'OR', 'NOT'].includes(value) && !value.startsWith('-')) {
+    return value;
+  }
+  return `"${value.replace(/["\\]/g, c => `\\${c}`)}"`;
+}
+
+function formatRule(rule: FilterRule): string {
+  const neg = rule.negate ? '-' : '';
+  if (rule.field === 'text') {
+    const negated = !!rule.negate !== (rule.operator === 'not_contains');
+    return `${negated ? '-' : ''}${quoteValue(rule.value)}`;
+  }
+  const name = PREFERRED_NAMES.get(rule.field) || rule.field;
+  const type = FIELD_TYPES.get(rule.field.toLowerCase()) || 'string';
+  const value = quoteValue(rule.value);
+  switch (rule.operator) {
+    case 'has': return `${neg}${name}:${value}`;
+    case 'equals': return `${neg}${name}${type === 'list' ? '=' : ':'}${value}`;
+    case 'not_equals': return `${neg}${name}!=${value}`;
+    case 'contains': return `${neg}${name}~${value}`;
+    case 'not_contains': return `${neg}${name}!~${value}`;
+    case 'starts_with': return `${neg}${name}:${quoteValue(`${rule.value}*`)}`;
+    case 'ends_with': return `${neg}${name}:${quoteValue(`*${rule.value}`)}`;
+    case 'greater_than': return `${neg}${name}>${value}`;
+    case 'less_than': return `${neg}${name}<${value}`;
+    case 'in_range': return `${neg}${name}:${value}`;
+    case 'in_cidr':
+    case 'in_ip_range': return `${neg}${name}:${value}`;
+    case 'not_in_cidr': return `${rule.negate ? '' : '-'}${name}:${value}`;
+    case 'regex': return `${neg}${name}~${quoteValue(`/${rule.value}/`)}`;
+    case 'is_empty': return `${rule.negate ? '' : '-'}${name}:*`;
+    case 'is_not_empty': return `${neg}${name}:*`;
+    default: return `${neg}${name}:${value}`;
+  }
+}
+
+/**
+ * Render a filter tree back into query syntax (disabled rules are left out).
+ */
+export function formatFilterQuery(group: FilterGroup, nested = false): string {
+  const parts = [
+    ...group.rules.filter(r => r.enabled).map(formatRule),
+    ...(group.groups || []).map(g => formatFilterQuery(g, true)).filter(Boolean),
+  ];
+  if (parts.length === 0) return '';
+  const body = parts.join(group.logic === 'OR' ? ' OR ' : ' ');
+  if (group.negate) return `-(${body})`;
+  return nested && parts.length > 1 ? `(${body})` : body;
+}
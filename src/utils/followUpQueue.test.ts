@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import type { NmapHost, Port, FollowUp } from '../types/nmap';
+import {
+  collectFollowUpGroups, getGroupFollowUps, buildFollowUpQueue, followUpJobRequest, exportFollowUpScript,
+} from './followUpQueue';
+import { buildNmapArgs, formatNmapCommand, MAX_TARGETS } from '../electron/nmapArgs';
+
+function port(portid: number, service: string, ran: string[] = [], state = 'open'): Port {
+  return {
+    protocol: 'tcp',
+    portid,
+    state: { state, reason: '', reason_ttl: 0 },
+    service: { name: service, method: 'table', conf: 3, cpes: [] },
+    scripts: ran.map(id => ({ id, output: '', elements: [] })),
+  };
+}
+
+function host(address: string, ports: Port[]): NmapHost {
+  const v6 = address.includes(':');
+  return { id: address, ip: v6 ? '' : address, ipv6: v6 ? address : '', ports } as NmapHost;
+}
+
+const pick = (address: string, portid: number, script: string): FollowUp => ({ address, portid, protocol: 'tcp', script });
+
+describe('collectFollowUpGroups', () => {
+  const groups = collectFollowUpGroups([
+    host('10.0.0.1', [port(80, 'http'), port(22, 'ssh'), port(25, 'smtp', [], 'closed')]),
+    host('10.0.0.2', [port(8080, 'http', ['http-title'])]),
+    host('10.0.0.3', [port(80, 'http')]),
+  ]);
+
+  it('groups open ports by service, busiest first, without suggestions that already ran', () => {
+    expect(groups.map(g => [g.key, g.ports, g.instances.length])).toEqual([
+      ['http', ['80/tcp', '8080/tcp'], 3],
+      ['ssh', ['22/tcp'], 1],
+    ]);
+    const http = groups[0];
+    expect(http.instances.find(i => i.portid === 8080)!.scripts).not.toContain('http-title');
+    expect(getGroupFollowUps(http, 'http-title').map(f => `${f.address}:${f.portid}`)).toEqual(['10.0.0.1:80', '10.0.0.3:80']);
+    expect(getGroupFollowUps(http, 'http-headers')).toHaveLength(3);
+  });
+});
+
+describe('buildFollowUpQueue', () => {
+  it('runs scripts picked for the same hosts together and merges ports with the same picks', () => {
+    const jobs = buildFollowUpQueue([
+      pick('10.0.0.1', 80, 'http-title'), pick('10.0.0.3', 80, 'http-title'),
+      pick('10.0.0.3', 80, 'http-headers'), pick('10.0.0.1', 80, 'http-headers'),
+      pick('10.0.0.3', 8080, 'http-title'), pick('10.0.0.1', 8080, 'http-title'),
+      pick('10.0.0.3', 8080, 'http-headers'), pick('10.0.0.1', 8080, 'http-headers'),
+      pick('10.0.0.2', 443, 'ssl-cert'),
+      pick('10.0.0.1', 80, 'http-title'), // picked twice
+    ]);
+    expect(jobs.map(j => [j.id, j.ports, j.scripts, j.targets])).toEqual([
+      ['followup-1', [80, 8080], ['http-headers', 'http-title'], ['10.0.0.1', '10.0.0.3']],
+      ['followup-2', [443], ['ssl-cert'], ['10.0.0.2']],
+    ]);
+  });
+
+  it('keeps scripts off ports and hosts they were not picked for', () => {
+    const jobs = buildFollowUpQueue([
+      pick('10.0.0.1', 80, 'http-title'), pick('10.0.0.1', 80, 'http-enum'),
+      pick('10.0.0.2', 80, 'http-title'),
+    ]);
+    expect(jobs.map(j => [j.scripts, j.targets])).toEqual([
+      [['http-title'], ['10.0.0.1', '10.0.0.2']],
+      [['http-enum'], ['10.0.0.1']],
+    ]);
+  });
+
+  it('separates IPv6 targets, splits large jobs and drops picks nmap would not accept', () => {
+    const many = Array.from({ length: MAX_TARGETS + 1 }, (_, i) => pick(`10.0.${i >> 8}.${i & 255}`, 80, 'http-title'));
+    const jobs = buildFollowUpQueue([
+      ...many,
+      pick('2001:db8::1', 80, 'http-title'),
+      pick('-iL', 80, 'http-title'),
+      pick('10.0.9.9', 80, 'x;id'),
+    ]);
+    expect(jobs.map(j => [j.ipv6, j.targets.length])).toEqual([[false, MAX_TARGETS], [false, 1], [true, 1]]);
+    expect(formatNmapCommand(buildNmapArgs(followUpJobRequest(jobs[2])))).toBe(
+      'nmap -sT -6 -p 80 -sV --script=http-title -Pn -oX - --stats-every 2s 2001:db8::1',
+    );
+  });
+});
+
+describe('exportFollowUpScript', () => {
+  it('writes a target list file per job and reads it with -iL', () => {
+    const script = exportFollowUpScript(buildFollowUpQueue([
+      pick('10.0.0.1', 80, 'http-title'), pick('10.0.0.2', 80, 'http-title'),
+      { address: '10.0.0.1', portid: 161, protocol: 'udp', script: 'snmp-info' },
+    ]));
+    expect(script.startsWith('#!/bin/sh\n')).toBe(true);
+    expect(script).toContain('# UDP scans need root.');
+    expect(script).toContain(
+      "# http-title on 80/tcp of 2 hosts\nprintf '%s\\n' '10.0.0.1' '10.0.0.2' > followup-1-targets.txt\n" +
+      'nmap -sT -p 80 -sV --script=http-title -Pn -oX followup-1.xml -iL followup-1-targets.txt\n',
+    );
+    expect(script).toContain('nmap -sU -p 161 -sV --script=snmp-info -Pn -oX followup-2.xml -iL followup-2-targets.txt');
+  });
+
+  it('only writes addresses from scan data that are real IP addresses', () => {
+    const jobs = buildFollowUpQueue([
+      pick('TARGETS', 80, 'http-title'), pick("10.0.0.1'; rm -rf ~; '", 80, 'http-title'),
+      pick('$(id)', 80, 'http-title'), pick('*', 80, 'http-title'), pick('10.0.0.0/8', 80, 'http-title'),
+      pick('10.0.0.1\nid', 80, 'http-title'), pick('10.0.0.2', 80, 'http-title'),
+    ]);
+    expect(jobs.map(j => j.targets)).toEqual([['10.0.0.2']]);
+    expect(exportFollowUpScript(jobs)).toContain("printf '%s\\n' '10.0.0.2' > followup-1-targets.txt\n");
+  });
+});
@@ -0,0 +1,208 @@
+import type { NmapHost, FollowUp, ScriptSuggestion } from '../types/nmap';
+import { getScriptSuggestions, type SuggestionOptions } from './scriptSuggestions';
+import {
+  buildScanOptions, formatNmapCommand, isValidScriptName, MAX_TARGETS, type ScanRequest,
+} from '../electron/nmapArgs';
+import { parseAddress } from './ipRanges';
+
+// Follow-up scans for script suggestions picked across many hosts. Picks are
+// grouped into as few nmap runs as possible without running a script on a
+// port it wasn't picked for: each job runs the same scripts on the same ports
+// of every one of its targets.
+
+// One open port of one host, with the suggestions that haven't run on it yet
+export interface FollowUpPort {
+  address: string;
+  portid: number;
+  protocol: 'tcp' | 'udp';
+  scripts: string[];
+}
+
+// Suggestions for every port of a service, e.g. all http ports
+export interface FollowUpGroup {
+  key: string; // service name, or port/protocol for ports without one
+  ports: string[]; // port/protocol, in port order
+  instances: FollowUpPort[];
+  suggestions: ScriptSuggestion[];
+}
+
+export interface FollowUpJob {
+  id: string;
+  protocol: 'tcp' | 'udp';
+  ipv6: boolean;
+  ports: number[];
+  scripts: string[];
+  targets: string[]; // at most MAX_TARGETS, in scan order
+}
+
+export function followUpKey(f: FollowUp): string {
+  return `${f.address}|${f.portid}/${f.protocol}|${f.script}`;
+}
+
+/**
+ * Group the open ports of the hosts by service, with the suggestions for
+ * each. Ports where every suggestion already ran are left out.
+ */
+export function collectFollowUpGroups(hosts: NmapHost[], options: SuggestionOptions = {}): FollowUpGroup[] {
+  const groups = new Map<string, FollowUpGroup>();
+  const seenScripts = new Map<string, Set<string>>();
+
+  for (const host of hosts) {
+    const address = host.ip || host.ipv6;
+    if (!address) continue;
+    for (const port of host.ports) {
+      if (port.state.state !== 'open' && port.state.state !== 'open|filtered') continue;
+      if (port.protocol !== 'tcp' && port.protocol !== 'udp') continue;
+      const suggestions = getScriptSuggestions(port.portid, port.service?.name, options);
+      const ran = new Set(port.scripts.map(s => s.id));
+      const scripts = suggestions.map(s => s.scriptId).filter(id => !ran.has(id));
+      if (scripts.length === 0) continue;
+
+      const key = port.service?.name?.toLowerCase() || `${port.portid}/${port.protocol}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { key, ports: [], instances: [], suggestions: [] };
+        groups.set(key, group);
+        seenScripts.set(key, new Set());
+      }
+      const portKey = `${port.portid}/${port.protocol}`;
+      if (!group.ports.includes(portKey)) group.ports.push(portKey);
+      group.instances.push({ address, portid: port.portid, protocol: port.protocol, scripts });
+      const seen = seenScripts.get(key)!;
+      for (const s of suggestions) {
+        if (!seen.has(s.scriptId) && scripts.includes(s.scriptId)) {
+          seen.add(s.scriptId);
+          group.suggestions.push(s);
+        }
+      }
+    }
+  }
+
+  const portNumber = (p: string) => parseInt(p, 10);
+  for (const group of groups.values()) group.ports.sort((a, b) => portNumber(a) - portNumber(b) || a.localeCompare(b));
+  return [...groups.values()].sort((a, b) => b.instances.length - a.instances.length || a.key.localeCompare(b.key));
+}
+
+// Every pick of a script in a group, for selecting it on all of the group's ports at once
+export function getGroupFollowUps(group: FollowUpGroup, script: string): FollowUp[] {
+  return group.instances
+    .filter(i => i.scripts.includes(script))
+    .map(i => ({ address: i.address, portid: i.portid, protocol: i.protocol, script }));
+}
+
+// Group values by key, keeping the order keys are first seen in
+function groupBy<T>(items: T[], key: (item: T) => string): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) group.push(item);
+    else groups.set(k, [item]);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Turn picks into jobs. Addresses come from imported scan files, so only
+ * single IPv4 and IPv6 addresses are kept; picks whose script or port can't
+ * be passed to nmap are left out too. IPv4 and IPv6 targets are scanned
+ * separately, and jobs with more than MAX_TARGETS targets are split.
+ */
+export function buildFollowUpQueue(followUps: FollowUp[]): FollowUpJob[] {
+  const valid = followUps.filter(f =>
+    parseAddress(f.address) !== null && isValidScriptName(f.script) &&
+    Number.isInteger(f.portid) && f.portid > 0 && f.portid <= 65535 && (f.protocol === 'tcp' || f.protocol === 'udp'));
+
+  // The hosts each script is picked for, per port
+  const byScript = groupBy(valid, f => `${f.protocol}|${f.portid}|${f.script}`).map(picks => ({
+    protocol: picks[0].protocol,
+    portid: picks[0].portid,
+    script: picks[0].script,
+    targets: [...new Set(picks.map(p => p.address))],
+  })).map(s => ({ ...s, hostsKey: [...s.targets].sort().join(' ') }));
+  // Scripts picked for the same hosts on a port run together
+  const byPort = groupBy(byScript, s => `${s.protocol}|${s.portid}|${s.hostsKey}`).map(scripts => ({
+    protocol: scripts[0].protocol,
+    portid: scripts[0].portid,
+    scripts: scripts.map(s => s.script).sort(),
+    targets: scripts[0].targets,
+    hostsKey: scripts[0].hostsKey,
+  }));
+  // Ports with the same scripts and hosts share a job
+  const merged = groupBy(byPort, p => `${p.protocol}|${p.scripts.join(',')}|${p.hostsKey}`);
+
+  const jobs: FollowUpJob[] = [];
+  for (const ports of merged) {
+    const { protocol, scripts, targets } = ports[0];
+    for (const ipv6 of [false, true]) {
+      const family = targets.filter(t => t.includes(':') === ipv6);
+      for (let i = 0; i < family.length; i += MAX_TARGETS) {
+        jobs.push({
+          id: '',
+          protocol,
+          ipv6,
+          ports: ports.map(p => p.portid).sort((a, b) => a - b),
+          scripts,
+          targets: family.slice(i, i + MAX_TARGETS),
+        });
+      }
+    }
+  }
+
+  jobs.sort((a, b) => a.protocol.localeCompare(b.protocol) || a.ports[0] - b.ports[0] || b.targets.length - a.targets.length);
+  return jobs.map((job, i) => ({ ...job, id: `followup-${i + 1}` }));
+}
+
+/**
+ * The scan request of a job. TCP jobs use connect scans, which work without
+ * root; the ports are known to be open, and -sV lets the scripts' port rules
+ * match on the detected service.
+ */
+export function followUpJobRequest(job: FollowUpJob): ScanRequest {
+  return {
+    targets: job.targets,
+    scanType: job.protocol === 'udp' ? 'udp' : 'connect',
+    ipv6: job.ipv6,
+    ports: job.ports.join(','),
+    serviceDetection: true,
+    scripts: job.scripts,
+    skipHostDiscovery: true,
+  };
+}
+
+export function describeFollowUpJob(job: FollowUpJob): string {
+  const hosts = `${job.targets.length} host${job.targets.length !== 1 ? 's' : ''}`;
+  return `${job.scripts.join(', ')} on ${job.ports.join(',')}/${job.protocol} of ${hosts}`;
+}
+
+// The command of a job as it appears in the shell script
+export function formatFollowUpCommand(job: FollowUpJob): string {
+  return formatNmapCommand([...buildScanOptions(followUpJobRequest(job)), '-oX', `${job.id}.xml`, '-iL', `${job.id}-targets.txt`]);
+}
+
+// A shell word that stays one literal argument
+const shellQuote = (word: string) => `'${word.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * The queue as a shell script. Each job reads its targets from its own list
+ * file (-iL), written by the script with printf and quoted arguments, and
+ * saves XML that can be merged into the project.
+ */
+export function exportFollowUpScript(jobs: FollowUpJob[]): string {
+  const lines = [
+    '#!/bin/sh',
+    `# NmapUI follow-up scan queue, generated ${new Date().toISOString()}`,
+    `# ${jobs.length} job${jobs.length !== 1 ? 's' : ''}. Merge the followup-*.xml results into the project when done.`,
+  ];
+  if (jobs.some(j => j.protocol === 'udp')) lines.push('# UDP scans need root.');
+
+  for (const job of jobs) {
+    lines.push(
+      '',
+      `# ${describeFollowUpJob(job)}`,
+      `printf '%s\\n' ${job.targets.map(shellQuote).join(' ')} > ${job.id}-targets.txt`,
+      formatFollowUpCommand(job),
+    );
+  }
+  return lines.join('\n') + '\n';
+}
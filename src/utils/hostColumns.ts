@@ -0,0 +1,94 @@
+import type { NmapHost, HostColumnSettings, CustomHostColumn } from '../types/nmap';
+import { FILTER_FIELDS, getFieldValue, isPortField } from './filterEngine';
+import { parseColumnExpression, formatColumnExpression, describeColumnExpression } from './columnExpressions';
+
+// Columns of the Hosts table (and the host part of CSV exports): every filter
+// field except the full-text pseudo field, plus the project's computed columns.
+
+export interface HostColumn {
+  id: string; // filter field value or column expression; also the sort field
+  label: string;
+  group: 'host' | 'port' | 'custom';
+}
+
+export const DEFAULT_HOST_COLUMN_SETTINGS: HostColumnSettings = {
+  columns: ['ip', 'hostname', 'status', 'openPortCount', 'closedPortCount', 'filteredPortCount', 'mainOS', 'mac'],
+  custom: [],
+  widths: {},
+};
+
+const FIELD_COLUMNS: HostColumn[] = FILTER_FIELDS
+  .filter(f => f.type !== 'text')
+  .map(f => ({ id: f.value, label: f.label, group: isPortField(f.value) ? 'port' : 'host' }));
+
+// Every column that can be shown, in picker order
+export function getAvailableHostColumns(settings: HostColumnSettings): HostColumn[] {
+  return [
+    ...FIELD_COLUMNS,
+    ...settings.custom.map((c): HostColumn => ({ id: c.expression, label: c.label, group: 'custom' })),
+  ];
+}
+
+// The visible columns, in display order
+export function resolveHostColumns(settings: HostColumnSettings): HostColumn[] {
+  const available = new Map(getAvailableHostColumns(settings).map(c => [c.id, c]));
+  return settings.columns.map(id => available.get(id)).filter((c): c is HostColumn => !!c);
+}
+
+/**
+ * Text of a column for a host, as shown in the table and written to CSV.
+ */
+export function getHostColumnValue(host: NmapHost, id: string): string {
+  if (id === 'ip') return host.ip || host.ipv6;
+  const value = getFieldValue(host, id);
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Build a computed column from an expression, with the default label when
+ * none is given. Throws when the expression isn't valid.
+ */
+export function createCustomColumn(expression: string, label = ''): CustomHostColumn {
+  const parsed = parseColumnExpression(expression);
+  if (!parsed) throw new Error(`Invalid column expression: ${expression}`);
+  return {
+    expression: formatColumnExpression(parsed),
+    label: label.trim() || describeColumnExpression(parsed),
+  };
+}
+
+/**
+ * Validate column settings read from storage or a project file. Unknown
+ * columns and invalid computed columns are dropped; returns null when the
+ * data isn't column settings at all.
+ */
+export function normalizeHostColumnSettings(value: unknown): HostColumnSettings | null {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Record<string, unknown>;
+  if (!Array.isArray(data.columns)) return null;
+
+  const custom: CustomHostColumn[] = [];
+  const stored: unknown[] = Array.isArray(data.custom) ? data.custom : [];
+  for (const item of stored) {
+    const c = item as { expression?: unknown; label?: unknown } | null;
+    if (!c || typeof c.expression !== 'string') continue;
+    try {
+      const column = createCustomColumn(c.expression, typeof c.label === 'string' ? c.label : '');
+      if (!custom.some(existing => existing.expression === column.expression)) custom.push(column);
+    } catch {
+      // Skip columns this version can't evaluate
+    }
+  }
+
+  const known = new Set([...FIELD_COLUMNS.map(c => c.id), ...custom.map(c => c.expression)]);
+  const columns = [...new Set(data.columns.filter((id: unknown): id is string => typeof id === 'string' && known.has(id)))];
+
+  const widths: Record<string, number> = {};
+  if (data.widths && typeof data.widths === 'object') {
+    for (const [id, width] of Object.entries(data.widths)) {
+      if (known.has(id) && typeof width === 'number' && width > 0 && width < 5000) widths[id] = Math.round(width);
+    }
+  }
+
+  return { columns, custom, widths };
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  runHostQuery, encodeMatches, decodeMatches, diffProject, applyProjectUpdate, EMPTY_PROJECT_COPY, type HostQuery, type QueryProject,
+} from './hostQuery';
+import { applyFilters, applySorting } from './filterEngine';
+import { createScanSource, tagProvenance, mergeScans, buildProjectScan, type ImportedScan } from './scanMerge';
+import { parseRustScan } from '../parser/portScanners';
+import { createHostQueryClient } from '../workers/queryClient';
+import type { FilterGroup, QueryProgress } from '../types/nmap';
+
+// 10.0.0.0 - 10.0.0.249: every host has 22, every third 80, every fifth 443
+const lines: string[] = [];
+for (let i = 0; i < 250; i++) {
+  const ports = [22, ...(i % 3 === 0 ? [80] : []), ...(i % 5 === 0 ? [443] : [])];
+  lines.push(`10.0.0.${i} -> [${ports.join(',')}]`);
+}
+const hosts = parseRustScan(lines.join('\n')).hosts;
+const byId = new Map(hosts.map(h => [h.id, h]));
+
+const NO_FILTER: FilterGroup = { id: 'root', logic: 'AND', rules: [] };
+const query = (overrides: Partial<HostQuery> = {}): HostQuery => ({ filterGroup: NO_FILTER, searchQuery: '', sorts: [], ...overrides });
+
+describe('runHostQuery', () => {
+  it('filters, searches and sorts like the synchronous pipeline, chunk by chunk', async () => {
+    const filterGroup: FilterGroup = { id: 'root', logic: 'AND', rules: [{ id: 'r1', field: 'ports', operator: 'has', value: '80', enabled: true }] };
+    const sorts = [{ field: 'openPortCount', direction: 'desc' as const }];
+    const progress: QueryProgress[] = [];
+    const results = await runHostQuery(hosts, query({ filterGroup, searchQuery: 'port:443', sorts }), undefined, {
+      chunkSize: 100,
+      onProgress: p => progress.push(p),
+    });
+
+    const expected = applySorting(applyFilters(applyFilters(hosts, filterGroup), {
+      id: 'q', logic: 'AND', rules: [{ id: 'q1', field: 'ports', operator: 'has', value: '443', enabled: true }],
+    }), sorts);
+    expect(results!.map(h => h.ip)).toEqual(expected.map(h => h.ip));
+    expect(results!.every(h => Number(h.ip.split('.')[3]) % 15 === 0)).toBe(true);
+    expect(progress).toEqual([{ done: 100, total: 250 }, { done: 200, total: 250 }, { done: 250, total: 250 }]);
+  });
+
+  it('falls back to plain text search for queries with syntax errors', async () => {
+    // The whole query, parenthesis included, is searched for
+    expect(await runHostQuery(hosts, query({ searchQuery: '10.0.0.24 (' }))).toEqual([]);
+    expect((await runHostQuery(hosts, query({ searchQuery: '10.0.0.24' })))!).toHaveLength(11);
+  });
+
+  it('sorts in chunks like the synchronous sort, keeping ties in order', async () => {
+    const sorts = [{ field: 'openPortCount', direction: 'asc' as const }];
+    const results = await runHostQuery(hosts, query({ sorts }), undefined, { chunkSize: 30 });
+    expect(results!.map(h => h.id)).toEqual(applySorting(hosts, sorts).map(h => h.id));
+  });
+
+  it('stops sorting once cancelled', async () => {
+    // Filtering 250 hosts in chunks of 100 checks three times; cancel on the first check of the sort
+    let checks = 0;
+    const results = await runHostQuery(hosts, query({ sorts: [{ field: 'ip', direction: 'desc' }] }), undefined, {
+      chunkSize: 100,
+      isCancelled: () => ++checks > 3,
+    });
+    expect(results).toBeNull();
+    expect(checks).toBe(4);
+  });
+
+  it('stops at the next chunk once cancelled', async () => {
+    let cancelled = false;
+    const progress: number[] = [];
+    const results = await runHostQuery(hosts, query(), undefined, {
+      chunkSize: 100,
+      isCancelled: () => cancelled,
+      onProgress: p => { progress.push(p.done); cancelled = true; },
+    });
+    expect(results).toBeNull();
+    expect(progress).toEqual([100]);
+  });
+});
+
+describe('host matches', () => {
+  it('round-trips port-narrowed hosts through ids and port positions', async () => {
+    const filterGroup: FilterGroup = { id: 'root', logic: 'AND', rules: [{ id: 'r1', field: 'port.portid', operator: 'equals', value: '443', enabled: true }] };
+    const results = (await runHostQuery(hosts, query({ filterGroup })))!;
+    const matches = encodeMatches(results, byId);
+    expect(matches[0]).toEqual({ id: hosts[0].id, ports: [2] });
+
+    const decoded = decodeMatches(matches, byId);
+    expect(decoded.map(h => h.ports.map(p => p.portid))).toEqual(results.map(h => h.ports.map(p => p.portid)));
+    expect(decoded[0].openPortCount).toBe(1);
+  });
+
+  it('keeps unchanged hosts as the scan objects and drops unknown ids', () => {
+    const decoded = decodeMatches([{ id: hosts[1].id }, { id: 'host-gone' }], byId);
+    expect(decoded).toHaveLength(1);
+    expect(decoded[0]).toBe(hosts[1]);
+  });
+});
+
+describe('createHostQueryClient', () => {
+  // Without Worker support (as under node) the client runs queries inline
+  it('runs queries and resolves cancelled ones to null', async () => {
+    const client = createHostQueryClient();
+    const project: QueryProject = { hosts, imports: [], asOf: null };
+    const first = client.query(project, query({ searchQuery: '10.0.0.7' }));
+    first.cancel();
+    expect(await first.promise).toBeNull();
+
+    const second = client.query(project, query({ searchQuery: '10.0.0.7' }));
+    expect((await second.promise)!.map(h => h.ip)).toEqual(['10.0.0.7', '10.0.0.70', '10.0.0.71', '10.0.0.72', '10.0.0.73', '10.0.0.74', '10.0.0.75', '10.0.0.76', '10.0.0.77', '10.0.0.78', '10.0.0.79']);
+    client.dispose();
+  });
+});
+
+describe('project copies', () => {
+  function importScan(text: string, index: number): ImportedScan {
+    const scan = parseRustScan(text);
+    const source = createScanSource(scan, `scan-${index}.txt`, index);
+    tagProvenance(scan, source);
+    return { source, scan, content: text };
+  }
+
+  const ids = (scanHosts: { id: string; ports: { portid: number }[] }[]) => scanHosts.map(h => [h.id, h.ports.map(p => p.portid)]);
+
+  it('sends only new imports and rebuilds the hosts the UI thread shows', () => {
+    const first = importScan('10.0.0.1 -> [22]\n10.0.0.2 -> [80]', 0);
+    const second = importScan('10.0.0.1 -> [443]\n10.0.0.3 -> [8080]', 1);
+    const merged = mergeScans(first.scan, second.scan);
+
+    const initial = diffProject([], { hosts: first.scan.hosts, imports: [first], asOf: null });
+    expect(initial.reset).toBe(true);
+    expect(initial.imports[0]).not.toHaveProperty('content');
+    let copy = applyProjectUpdate(EMPTY_PROJECT_COPY, initial);
+    expect(copy.scan!.hosts).toBe(first.scan.hosts);
+
+    const added = diffProject([first], { hosts: merged.hosts, imports: [first, second], asOf: null });
+    expect(added.reset).toBe(false);
+    expect(added.imports.map(i => i.source.id)).toEqual(['scan-2']);
+    copy = applyProjectUpdate(copy, added);
+    expect(ids(copy.scan!.hosts)).toEqual(ids(merged.hosts));
+
+    // Moving the as-of view sends no scans
+    const asOf = diffProject([first, second], { hosts: first.scan.hosts, imports: [first, second], asOf: 'scan-1' });
+    expect(asOf.imports).toEqual([]);
+    copy = applyProjectUpdate(copy, asOf);
+    expect(ids(copy.scan!.hosts)).toEqual(ids(buildProjectScan([first, second], 'scan-1').hosts));
+  });
+
+  it('starts over for another project', () => {
+    const first = importScan('10.0.0.1 -> [22]', 0);
+    const other = importScan('10.0.0.9 -> [22]', 0);
+    const update = diffProject([first], { hosts: other.scan.hosts, imports: [other], asOf: null });
+    expect(update.reset).toBe(true);
+    expect(applyProjectUpdate(applyProjectUpdate(EMPTY_PROJECT_COPY, diffProject([], { hosts: first.scan.hosts, imports: [first], asOf: null })), update).imports)
+      .toHaveLength(1);
+  });
+});
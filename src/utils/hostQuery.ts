@@ -0,0 +1,179 @@
+import type { NmapHost, NmapScan, FilterGroup, SortConfig, QueryProgress } from '../types/nmap';
+import { applyFilters, applySearch, hostComparator, withPorts, hostMatchesText, type TextMatcher } from './filterEngine';
+import { parseFilterQuery } from './filterQuery';
+import { buildProjectScan, mergeScans, type ImportedScan, type ProjectImport } from './scanMerge';
+
+// The host list pipeline behind every view: filter panel rules, then the
+// search bar, then sorting. It runs in chunks so that a worker running it
+// can take in cancellations and report progress between them.
+
+export interface HostQuery {
+  filterGroup: FilterGroup;
+  searchQuery: string;
+  sorts: SortConfig[];
+}
+
+export interface HostQueryOptions {
+  chunkSize?: number;
+  isCancelled?: () => boolean;
+  onProgress?: (progress: QueryProgress) => void;
+}
+
+/**
+ * A query result as host ids, so it can be posted back from a worker
+ * without cloning the hosts. ports lists the positions of the kept ports
+ * when port-scoped rules narrowed the host.
+ */
+export interface HostMatch {
+  id: string;
+  ports?: number[];
+}
+
+export const QUERY_CHUNK_SIZE = 2000;
+
+const nextTick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Merge two sorted runs; ties keep the left run first, so the sort is stable
+function mergeRuns(left: NmapHost[], right: NmapHost[], compare: (a: NmapHost, b: NmapHost) => number): NmapHost[] {
+  const merged: NmapHost[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) merged.push(compare(right[j], left[i]) < 0 ? right[j++] : left[i++]);
+  while (i < left.length) merged.push(left[i++]);
+  while (j < right.length) merged.push(right[j++]);
+  return merged;
+}
+
+/**
+ * Sort in chunks: each chunk is sorted, then the sorted runs are merged
+ * pairwise, checking for cancellation between steps. Same order as
+ * applySorting; resolves to null when cancelled.
+ */
+async function sortInChunks(
+  hosts: NmapHost[], sorts: SortConfig[], chunkSize: number, isCancelled: () => boolean,
+): Promise<NmapHost[] | null> {
+  if (sorts.length === 0) return hosts;
+  const compare = hostComparator(sorts);
+  let runs: NmapHost[][] = [];
+  for (let start = 0; start < hosts.length; start += chunkSize) {
+    if (start > 0) {
+      await nextTick();
+      if (isCancelled()) return null;
+    }
+    runs.push(hosts.slice(start, start + chunkSize).sort(compare));
+  }
+  while (runs.length > 1) {
+    const next: NmapHost[][] = [];
+    for (let i = 0; i < runs.length; i += 2) {
+      if (i + 1 === runs.length) {
+        next.push(runs[i]);
+        continue;
+      }
+      await nextTick();
+      if (isCancelled()) return null;
+      next.push(mergeRuns(runs[i], runs[i + 1], compare));
+    }
+    runs = next;
+  }
+  return runs[0] ?? [];
+}
+
+/**
+ * Filter, search and sort the hosts. Resolves to null when cancelled
+ * (checked between chunks).
+ */
+export async function runHostQuery(
+  hosts: NmapHost[], query: HostQuery, matchText: TextMatcher = hostMatchesText, options: HostQueryOptions = {},
+): Promise<NmapHost[] | null> {
+  const { chunkSize = QUERY_CHUNK_SIZE, isCancelled = () => false, onProgress } = options;
+  const search = parseFilterQuery(query.searchQuery);
+  const matched: NmapHost[] = [];
+
+  for (let start = 0; start < hosts.length; start += chunkSize) {
+    if (start > 0) {
+      await nextTick();
+      if (isCancelled()) return null;
+    }
+    let chunk = applyFilters(hosts.slice(start, start + chunkSize), query.filterGroup, matchText);
+    // A query with syntax errors still works as a plain text search
+    if (search.group) chunk = applyFilters(chunk, search.group, matchText);
+    else if (search.error) chunk = applySearch(chunk, query.searchQuery, matchText);
+    matched.push(...chunk);
+    onProgress?.({ done: Math.min(start + chunkSize, hosts.length), total: hosts.length });
+  }
+  if (isCancelled()) return null;
+  return sortInChunks(matched, query.sorts, chunkSize, isCancelled);
+}
+
+export function encodeMatches(results: NmapHost[], byId: Map<string, NmapHost>): HostMatch[] {
+  return results.map(host => {
+    const original = byId.get(host.id);
+    if (!original || original.ports === host.ports) return { id: host.id };
+    return { id: host.id, ports: host.ports.map(p => original.ports.indexOf(p)) };
+  });
+}
+
+// Hosts no longer in the scan (a result that raced a reload) are dropped
+export function decodeMatches(matches: HostMatch[], byId: Map<string, NmapHost>): NmapHost[] {
+  const hosts: NmapHost[] = [];
+  for (const match of matches) {
+    const host = byId.get(match.id);
+    if (!host) continue;
+    hosts.push(match.ports ? withPorts(host, match.ports.map(i => host.ports[i]).filter(Boolean)) : host);
+  }
+  return hosts;
+}
+
+// ========== Project copies ==========
+
+/**
+ * A project as the UI thread shows it: the merged scan's hosts, the imports
+ * they were merged from, and the "as of" import (null for all of them).
+ */
+export interface QueryProject {
+  hosts: NmapHost[];
+  imports: ImportedScan[];
+  asOf: string | null;
+}
+
+// Brings a worker's copy of a project up to date: the imports it doesn't hold yet, or all of them on reset
+export interface ProjectUpdate {
+  reset: boolean;
+  imports: ProjectImport[];
+  asOf: string | null;
+}
+
+// A worker's copy of a project; scan is rebuilt from the imports like the UI thread does
+export interface ProjectCopy {
+  imports: ProjectImport[];
+  asOf: string | null;
+  scan: NmapScan | null;
+}
+
+export const EMPTY_PROJECT_COPY: ProjectCopy = { imports: [], asOf: null, scan: null };
+
+/**
+ * The update for a copy that holds the given imports. Merging another scan
+ * only sends that scan, and moving the "as of" view sends no scans at all.
+ * File text stays behind.
+ */
+export function diffProject(held: ImportedScan[], project: QueryProject): ProjectUpdate {
+  const { imports, asOf } = project;
+  const extended = held.length > 0 && held.length <= imports.length && held.every((imported, i) => imports[i] === imported);
+  const added = extended ? imports.slice(held.length) : imports;
+  return { reset: !extended, imports: added.map(({ source, scan, merge }) => ({ source, scan, merge })), asOf };
+}
+
+/**
+ * Apply an update to a copy. Scans added to the latest view are merged into
+ * it, as the UI thread does; any other change rebuilds the scan from the
+ * imports. Host ids and port order come out the same as on the UI thread.
+ */
+export function applyProjectUpdate(copy: ProjectCopy, update: ProjectUpdate): ProjectCopy {
+  const imports = update.reset ? update.imports : [...copy.imports, ...update.imports];
+  if (imports.length === 0) return EMPTY_PROJECT_COPY;
+  const scan = !update.reset && copy.scan && copy.asOf === null && update.asOf === null
+    ? update.imports.reduce((merged, imported) => mergeScans(merged, imported.scan, imported.merge), copy.scan)
+    : buildProjectScan(imports, update.asOf);
+  return { imports, asOf: update.asOf, scan };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { parseAddressList, addressInRanges, getNetwork, getScopeViolation, isScopeEmpty } from './ipRanges';
+import type { NmapHost } from '../types/nmap';
+
+function inList(address: string, list: string): boolean {
+  return addressInRanges(address, parseAddressList(list).ranges);
+}
+
+describe('parseAddressList', () => {
+  it('parses addresses, CIDRs and ranges separated by commas or whitespace', () => {
+    const { ranges, invalid } = parseAddressList('10.0.0.1, 10.20.0.0/16\n192.168.1.10-192.168.1.50 2001:db8::/32');
+    expect(invalid).toEqual([]);
+    expect(ranges.map(r => r.version)).toEqual([4, 4, 4, 6]);
+  });
+
+  it('reports entries it cannot parse', () => {
+    expect(parseAddressList('10.0.0.256, 10.0.0.0/33, 10.0.0.9-10.0.0.1, 1:2:3, example.com').invalid)
+      .toEqual(['10.0.0.256', '10.0.0.0/33', '10.0.0.9-10.0.0.1', '1:2:3', 'example.com']);
+  });
+});
+
+describe('addressInRanges', () => {
+  it('matches IPv4 networks, ignoring host bits in the CIDR', () => {
+    expect(inList('10.20.255.1', '10.20.0.0/16')).toBe(true);
+    expect(inList('10.21.0.1', '10.20.0.0/16')).toBe(false);
+    expect(inList('10.20.3.4', '10.20.1.1/16')).toBe(true);
+    expect(inList('8.8.8.8', '0.0.0.0/0')).toBe(true);
+  });
+
+  it('matches inclusive ranges and the last-octet shorthand', () => {
+    expect(inList('192.168.1.50', '192.168.1.10-192.168.1.50')).toBe(true);
+    expect(inList('192.168.1.51', '192.168.1.10-192.168.1.50')).toBe(false);
+    expect(inList('192.168.1.20', '192.168.1.10-20')).toBe(true);
+    expect(inList('192.168.2.20', '192.168.1.10-20')).toBe(false);
+  });
+
+  it('matches IPv6 networks, compressed forms and embedded IPv4', () => {
+    expect(inList('2001:db8:0:0:0:0:0:1', '2001:db8::/32')).toBe(true);
+    expect(inList('2001:db9::1', '2001:db8::/32')).toBe(false);
+    expect(inList('fe80::1%eth0', 'fe80::/10')).toBe(true);
+    expect(inList('::ffff:10.0.0.1', '::ffff:10.0.0.0/104')).toBe(true);
+    expect(inList('::1', '::1')).toBe(true);
+  });
+
+  it('never matches across address families or unparseable addresses', () => {
+    expect(inList('10.0.0.1', '::/0')).toBe(false);
+    expect(inList('', '0.0.0.0/0')).toBe(false);
+  });
+});
+
+describe('getNetwork', () => {
+  it('gives the containing network in canonical form', () => {
+    expect(getNetwork('10.20.30.40', 24)).toMatchObject({ version: 4, cidr: '10.20.30.0/24' });
+    expect(getNetwork('10.20.30.40', 8)!.cidr).toBe('10.0.0.0/8');
+    expect(getNetwork('2001:db8:0:1:2::1', 48)).toMatchObject({ version: 6, cidr: '2001:db8::/48' });
+    expect(getNetwork('2001:db8:aa:bb:cc::1', 64)!.cidr).toBe('2001:db8:aa:bb::/64');
+    expect(getNetwork('fe80::1:0:0:1', 128)!.cidr).toBe('fe80::1:0:0:1/128');
+    expect(getNetwork('10.0.0.1', 33)).toBeNull();
+    expect(getNetwork('', 24)).toBeNull();
+  });
+});
+
+describe('getScopeViolation', () => {
+  const host = (ip: string, ipv6 = '') => ({ ip, ipv6 } as NmapHost);
+
+  it('treats an empty scope as everything in scope', () => {
+    expect(isScopeEmpty({ include: ' ', exclude: '' })).toBe(true);
+    expect(getScopeViolation(host('1.2.3.4'), { include: '', exclude: '' })).toBeNull();
+  });
+
+  it('flags hosts outside the authorized ranges', () => {
+    const scope = { include: '10.0.0.0/8', exclude: '' };
+    expect(getScopeViolation(host('10.1.2.3'), scope)).toBeNull();
+    expect(getScopeViolation(host('192.168.1.1'), scope)).toBe('192.168.1.1 is not in the authorized ranges');
+  });
+
+  it('flags excluded hosts even inside the authorized ranges', () => {
+    const scope = { include: '10.0.0.0/8', exclude: '10.0.5.0/24' };
+    expect(getScopeViolation(host('10.0.5.9'), scope)).toBe('10.0.5.9 is on the exclude list');
+  });
+
+  it('accepts a host when either of its addresses is authorized', () => {
+    expect(getScopeViolation(host('192.168.1.1', '2001:db8::1'), { include: '2001:db8::/32', exclude: '' })).toBeNull();
+  });
+});
@@ -0,0 +1,205 @@
+import type { NmapHost, EngagementScope } from '../types/nmap';
+
+// Network-aware address matching for filters and engagement scope.
+// Addresses are compared as BigInts so IPv4 and IPv6 share one code path.
+//
+// Accepted entries, separated by commas or whitespace:
+//   10.0.0.5                    single address
+//   10.20.0.0/16, 2001:db8::/32 CIDR networks (host bits are ignored)
+//   192.168.1.10-192.168.1.50   ranges (inclusive)
+//   192.168.1.10-50             last-octet shorthand, as in nmap target specs
+
+export interface AddressRange {
+  version: 4 | 6;
+  start: bigint;
+  end: bigint;
+}
+
+export interface AddressList {
+  ranges: AddressRange[];
+  invalid: string[]; // entries that could not be parsed, as written
+}
+
+export interface ParsedAddress {
+  version: 4 | 6;
+  value: bigint;
+}
+
+function parseIPv4(text: string): bigint | null {
+  const parts = text.split('.');
+  if (parts.length !== 4) return null;
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) | BigInt(Number(part));
+  }
+  return value;
+}
+
+function parseIPv6(text: string): bigint | null {
+  let addr = text.replace(/%.*$/, ''); // zone index (fe80::1%eth0)
+  // Embedded IPv4 tail (::ffff:10.0.0.1) becomes two hextets
+  const v4Match = /^(.*:)(\d+\.\d+\.\d+\.\d+)$/.exec(addr);
+  if (v4Match) {
+    const v4 = parseIPv4(v4Match[2]);
+    if (v4 === null) return null;
+    addr = `${v4Match[1]}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = addr.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const hextets = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  let value = 0n;
+  for (const h of hextets) {
+    if (!/^[0-9a-f]{1,4}$/i.test(h)) return null;
+    value = (value << 16n) | BigInt(parseInt(h, 16));
+  }
+  return value;
+}
+
+export function parseAddress(text: string): ParsedAddress | null {
+  if (text.includes(':')) {
+    const value = parseIPv6(text);
+    return value === null ? null : { version: 6, value };
+  }
+  const value = parseIPv4(text);
+  return value === null ? null : { version: 4, value };
+}
+
+function parseEntry(entry: string): AddressRange | null {
+  const slash = entry.indexOf('/');
+  if (slash >= 0) {
+    const addr = parseAddress(entry.slice(0, slash));
+    const prefixText = entry.slice(slash + 1);
+    if (!addr || !/^\d{1,3}$/.test(prefixText)) return null;
+    const bits = addr.version === 4 ? 32n : 128n;
+    const prefix = BigInt(Number(prefixText));
+    if (prefix > bits) return null;
+    const hostMask = (1n << (bits - prefix)) - 1n;
+    const start = addr.value & ~hostMask;
+    return { version: addr.version, start, end: start | hostMask };
+  }
+
+  const dash = entry.indexOf('-');
+  if (dash >= 0) {
+    const start = parseAddress(entry.slice(0, dash));
+    const endText = entry.slice(dash + 1);
+    if (!start) return null;
+    let end: ParsedAddress | null;
+    if (start.version === 4 && /^\d{1,3}$/.test(endText)) {
+      if (Number(endText) > 255) return null;
+      end = { version: 4, value: (start.value & ~0xffn) | BigInt(Number(endText)) };
+    } else {
+      end = parseAddress(endText);
+    }
+    if (!end || end.version !== start.version || end.value < start.value) return null;
+    return { version: start.version, start: start.value, end: end.value };
+  }
+
+  const addr = parseAddress(entry);
+  return addr && { version: addr.version, start: addr.value, end: addr.value };
+}
+
+const listCache = new Map<string, AddressList>();
+const LIST_CACHE_LIMIT = 64;
+
+/**
+ * Parse a comma/whitespace separated list of addresses, CIDR networks and
+ * ranges. Results are cached since the scope check parses the same lists per host.
+ */
+export function parseAddressList(text: string): AddressList {
+  const cached = listCache.get(text);
+  if (cached) return cached;
+
+  const result: AddressList = { ranges: [], invalid: [] };
+  for (const entry of text.split(/[\s,]+/)) {
+    if (!entry) continue;
+    const range = parseEntry(entry);
+    if (range) result.ranges.push(range);
+    else result.invalid.push(entry);
+  }
+
+  if (listCache.size >= LIST_CACHE_LIMIT) listCache.clear();
+  listCache.set(text, result);
+  return result;
+}
+
+/**
+ * Whether an address falls inside any of the ranges. Unparseable
+ * addresses (including empty strings) never match.
+ */
+export function addressInRanges(address: string, ranges: AddressRange[]): boolean {
+  const addr = parseAddress(address);
+  if (!addr) return false;
+  return ranges.some(r => r.version === addr.version && addr.value >= r.start && addr.value <= r.end);
+}
+
+function formatIPv4(value: bigint): string {
+  return [24n, 16n, 8n, 0n].map(shift => ((value >> shift) & 0xffn).toString()).join('.');
+}
+
+// Compressed form: the longest run of two or more zero hextets becomes '::'
+function formatIPv6(value: bigint): string {
+  const hextets = Array.from({ length: 8 }, (_, i) => Number((value >> BigInt((7 - i) * 16)) & 0xffffn));
+  let best = { start: -1, length: 1 };
+  for (let i = 0; i < 8; i++) {
+    let j = i;
+    while (j < 8 && hextets[j] === 0) j++;
+    if (j - i > best.length) best = { start: i, length: j - i };
+    i = j;
+  }
+  const hex = (parts: number[]) => parts.map(h => h.toString(16)).join(':');
+  if (best.start < 0) return hex(hextets);
+  return `${hex(hextets.slice(0, best.start))}::${hex(hextets.slice(best.start + best.length))}`;
+}
+
+export interface Network {
+  version: 4 | 6;
+  start: bigint; // first address, for ordering
+  cidr: string; // e.g. 10.20.0.0/16
+}
+
+/**
+ * The network of the given prefix length that contains an address, or null
+ * when the address can't be parsed or the prefix is too long for its family.
+ */
+export function getNetwork(address: string, prefix: number): Network | null {
+  const addr = parseAddress(address);
+  const bits = addr?.version === 4 ? 32 : 128;
+  if (!addr || prefix < 0 || prefix > bits) return null;
+  const hostMask = (1n << BigInt(bits - prefix)) - 1n;
+  const start = addr.value & ~hostMask;
+  const text = addr.version === 4 ? formatIPv4(start) : formatIPv6(start);
+  return { version: addr.version, start, cidr: `${text}/${prefix}` };
+}
+
+// ========== Engagement scope ==========
+
+export function isScopeEmpty(scope: EngagementScope): boolean {
+  return !scope.include.trim() && !scope.exclude.trim();
+}
+
+/**
+ * Why a host is outside the engagement scope, or null when it is in scope.
+ * A host is out of scope when an include list is set and none of its
+ * addresses are in it, or when any of its addresses is excluded.
+ */
+export function getScopeViolation(host: NmapHost, scope: EngagementScope): string | null {
+  const addresses = [host.ip, host.ipv6].filter(Boolean);
+  if (addresses.length === 0) return null;
+
+  const exclude = parseAddressList(scope.exclude).ranges;
+  const excluded = addresses.find(a => addressInRanges(a, exclude));
+  if (excluded) return `${excluded} is on the exclude list`;
+
+  const include = parseAddressList(scope.include).ranges;
+  if (scope.include.trim() && !addresses.some(a => addressInRanges(a, include))) {
+    return `${addresses.join(', ')} is not in the authorized ranges`;
+  }
+  return null;
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { diffScans, describeSide, isValidScanDiff } from './scanDiff';
+import type { NmapScan, NmapHost, Port } from '../types/nmap';
+
+function makePort(portid: number, state: string, service: Partial<Port['service'] & object> = {}, scripts: { id: string; output: string }[] = []): Port {
+  return {
+    protocol: 'tcp', portid,
+    state: { state, reason: 'syn-ack', reason_ttl: 64 },
+    service: { name: 'http', method: 'probed', conf: 10, cpes: [], ...service },
+    scripts: scripts.map(s => ({ ...s, elements: [] })),
+  };
+}
+
+function makeHost(ip: string, ports: Port[], overrides: Partial<NmapHost> = {}): NmapHost {
+  return {
+    id: ip, starttime: 0, endtime: 0,
+    status: { state: 'up', reason: 'syn-ack', reason_ttl: 64 },
+    addresses: [{ addr: ip, addrtype: 'ipv4' }],
+    hostnames: [],
+    ports,
+    os: { osmatch: [], osfingerprint: [], portused: [] },
+    uptime: null, distance: null, tcpsequence: null, ipidsequence: null, tcptssequence: null, times: null, trace: null,
+    hostscripts: [],
+    smurfs: [],
+    ip, ipv6: '', mac: '', hostname: '', mainOS: '',
+    openPortCount: ports.filter(p => p.state.state === 'open').length, closedPortCount: 0, filteredPortCount: 0,
+    ...overrides,
+  };
+}
+
+function makeScan(start: number, hosts: NmapHost[]): NmapScan {
+  return {
+    scanner: 'nmap', args: `nmap -sV run${start}`, start, startstr: '', version: '7.94', xmloutputversion: '1.05',
+    scaninfo: [], verbose: 0, debugging: 0, hosts,
+    runstats: {
+      finished: { time: start + 60, timestr: '', elapsed: 60, summary: '', exit: 'success' },
+      hosts: { up: hosts.length, down: 0, total: hosts.length },
+    },
+    totalHosts: hosts.length, hostsUp: hosts.length, hostsDown: 0, hostsFiltered: 0, scanDuration: 60,
+    uniquePorts: [], uniqueServices: [],
+  };
+}
+
+function diff(base: NmapScan, compare: NmapScan) {
+  return diffScans(base, compare, { base: describeSide(base, 'last-week.xml'), compare: describeSide(compare, 'today.xml') });
+}
+
+describe('diffScans', () => {
+  const lastWeek = makeScan(1000, [
+    makeHost('10.0.0.1', [
+      makePort(22, 'open', { name: 'ssh', product: 'OpenSSH', version: '8.9', cpes: ['cpe:/a:openbsd:openssh:8.9'] }),
+      makePort(80, 'open', {}, [{ id: 'http-title', output: 'Welcome' }]),
+    ], { mainOS: 'Linux 5.4' }),
+    makeHost('10.0.0.2', [makePort(443, 'open')]),
+    makeHost('10.0.0.3', [makePort(25, 'open')]),
+  ]);
+  const today = makeScan(2000, [
+    makeHost('10.0.0.1', [
+      makePort(22, 'open', { name: 'ssh', product: 'OpenSSH', version: '9.6', cpes: ['cpe:/a:openbsd:openssh:9.6'] }),
+      makePort(80, 'open', {}, [{ id: 'http-title', output: 'Admin login' }]),
+      makePort(8080, 'open'),
+    ], { mainOS: 'Linux 6.1' }),
+    makeHost('10.0.0.2', [makePort(443, 'open')]),
+    makeHost('10.0.0.4', [makePort(3389, 'open')]),
+  ]);
+
+  it('counts new, removed, changed and unchanged hosts and lists only changed ones', () => {
+    const result = diff(lastWeek, today);
+    expect(result.summary).toEqual({ added: 1, removed: 1, changed: 1, unchanged: 1 });
+    expect(result.hosts.map(h => [h.ip, h.status])).toEqual([
+      ['10.0.0.4', 'added'], ['10.0.0.3', 'removed'], ['10.0.0.1', 'changed'],
+    ]);
+  });
+
+  it('reports version, CPE, OS match and script output changes', () => {
+    const host = diff(lastWeek, today).hosts.find(h => h.ip === '10.0.0.1')!;
+    expect(host.changes).toEqual([{ field: 'os', before: 'Linux 5.4', after: 'Linux 6.1' }]);
+    const ssh = host.portChanges.find(p => p.port === 22)!;
+    expect(ssh.status).toBe('changed');
+    expect(ssh.changes.map(c => c.field)).toEqual(['version', 'cpe']);
+    expect(ssh.changes[0]).toEqual({ field: 'version', before: '8.9', after: '9.6' });
+    const http = host.portChanges.find(p => p.port === 80)!;
+    expect(http.changes).toEqual([{ field: 'script http-title', before: 'Welcome', after: 'Admin login' }]);
+    expect(host.portChanges.find(p => p.port === 8080)).toMatchObject({ status: 'added', compareState: 'open' });
+  });
+
+  it('keeps open port counts for new and removed hosts', () => {
+    const result = diff(lastWeek, today);
+    expect(result.hosts.find(h => h.status === 'added')).toMatchObject({ baseOpenPorts: null, compareOpenPorts: 1 });
+    expect(result.hosts.find(h => h.status === 'removed')).toMatchObject({ baseOpenPorts: 1, compareOpenPorts: null });
+  });
+
+  it('describes both sides and names the comparison after the files', () => {
+    const result = diff(lastWeek, today);
+    expect(result.base).toEqual({ fileName: 'last-week.xml', start: 1000, args: 'nmap -sV run1000' });
+    expect(result.compare.fileName).toBe('today.xml');
+    expect(result.name).toBe('last-week.xml \u2192 today.xml');
+  });
+
+  it('finds no changes between identical scans', () => {
+    const result = diff(lastWeek, lastWeek);
+    expect(result.hosts).toEqual([]);
+    expect(result.summary.unchanged).toBe(3);
+  });
+});
+
+describe('isValidScanDiff', () => {
+  it('accepts a diff after a JSON round trip', () => {
+    const scan = makeScan(1000, [makeHost('10.0.0.1', [makePort(80, 'open')])]);
+    const other = makeScan(2000, []);
+    expect(isValidScanDiff(JSON.parse(JSON.stringify(diff(scan, other))))).toBe(true);
+  });
+
+  it('rejects malformed diffs', () => {
+    const valid = diff(makeScan(1000, []), makeScan(2000, []));
+    expect(isValidScanDiff(null)).toBe(false);
+    expect(isValidScanDiff({ ...valid, base: { fileName: 'a.xml' } })).toBe(false);
+    expect(isValidScanDiff({ ...valid, summary: { added: 1 } })).toBe(false);
+    expect(isValidScanDiff({ ...valid, hosts: [{ ip: 1 }] })).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+import type { NmapScan, NmapHost, Port, Script, ChangeStatus, FieldChange, PortDiff, HostDiff, ScanDiff, ScanDiffSide } from '../types/nmap';
+
+// Scan comparison. The result holds plain values only (no host objects), so
+// a diff can be saved with the project and exported long after the scans it
+// came from are closed.
+
+const STATUS_ORDER: Record<ChangeStatus, number> = { added: 0, removed: 1, changed: 2, unchanged: 3 };
+
+function hostKey(host: NmapHost): string {
+  return host.ip || host.ipv6;
+}
+
+function change(changes: FieldChange[], field: string, before: string | undefined, after: string | undefined): void {
+  if ((before || '') !== (after || '')) changes.push({ field, before: before || '', after: after || '' });
+}
+
+function scriptChanges(changes: FieldChange[], base: Script[], compare: Script[]): void {
+  const ids = new Set([...base.map(s => s.id), ...compare.map(s => s.id)]);
+  for (const id of ids) {
+    change(changes, `script ${id}`, base.find(s => s.id === id)?.output, compare.find(s => s.id === id)?.output);
+  }
+}
+
+function portChanges(base: Port, compare: Port): FieldChange[] {
+  const changes: FieldChange[] = [];
+  change(changes, 'state', base.state.state, compare.state.state);
+  change(changes, 'service', base.service?.name, compare.service?.name);
+  change(changes, 'product', base.service?.product, compare.service?.product);
+  change(changes, 'version', base.service?.version, compare.service?.version);
+  change(changes, 'extrainfo', base.service?.extrainfo, compare.service?.extrainfo);
+  change(changes, 'cpe', base.service?.cpes.join(', '), compare.service?.cpes.join(', '));
+  scriptChanges(changes, base.scripts, compare.scripts);
+  return changes;
+}
+
+function diffPorts(base: NmapHost, compare: NmapHost): PortDiff[] {
+  const key = (p: Port) => `${p.portid}/${p.protocol}`;
+  const basePorts = new Map(base.ports.map(p => [key(p), p]));
+  const comparePorts = new Map(compare.ports.map(p => [key(p), p]));
+  const diffs: PortDiff[] = [];
+
+  for (const portKey of new Set([...basePorts.keys(), ...comparePorts.keys()])) {
+    const basePort = basePorts.get(portKey);
+    const comparePort = comparePorts.get(portKey);
+    const { portid: port, protocol } = (basePort || comparePort)!;
+    const side = {
+      baseState: basePort?.state.state, compareState: comparePort?.state.state,
+      baseService: basePort?.service?.name, compareService: comparePort?.service?.name,
+    };
+    if (basePort && comparePort) {
+      const changes = portChanges(basePort, comparePort);
+      if (changes.length > 0) diffs.push({ port, protocol, status: 'changed', ...side, changes });
+    } else {
+      diffs.push({ port, protocol, status: basePort ? 'removed' : 'added', ...side, changes: [] });
+    }
+  }
+  return diffs.sort((a, b) => a.port - b.port || a.protocol.localeCompare(b.protocol));
+}
+
+function diffHost(key: string, base: NmapHost | null, compare: NmapHost | null): HostDiff {
+  const changes: FieldChange[] = [];
+  if (base && compare) {
+    change(changes, 'status', base.status.state, compare.status.state);
+    change(changes, 'hostname', base.hostname, compare.hostname);
+    change(changes, 'os', base.mainOS, compare.mainOS);
+    scriptChanges(changes, base.hostscripts, compare.hostscripts);
+  }
+  const portChanges = base && compare ? diffPorts(base, compare) : [];
+
+  let status: ChangeStatus;
+  if (!base) status = 'added';
+  else if (!compare) status = 'removed';
+  else status = changes.length > 0 || portChanges.length > 0 ? 'changed' : 'unchanged';
+
+  return {
+    ip: key,
+    hostname: (compare || base)?.hostname || '',
+    status,
+    changes,
+    portChanges,
+    baseOpenPorts: base ? base.openPortCount : null,
+    compareOpenPorts: compare ? compare.openPortCount : null,
+  };
+}
+
+/**
+ * Compare two scans host by host (matched on address): new and removed
+ * hosts, and for hosts in both, changes in status, hostname, OS match, host
+ * scripts and each port's state, service, product, version, CPEs and
+ * script output.
+ */
+export function diffScans(base: NmapScan, compare: NmapScan, sides: { base: ScanDiffSide; compare: ScanDiffSide }): ScanDiff {
+  const baseHosts = new Map(base.hosts.map(h => [hostKey(h), h]));
+  const compareHosts = new Map(compare.hosts.map(h => [hostKey(h), h]));
+  const summary: Record<ChangeStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  const hosts: HostDiff[] = [];
+
+  for (const key of new Set([...baseHosts.keys(), ...compareHosts.keys()])) {
+    const diff = diffHost(key, baseHosts.get(key) || null, compareHosts.get(key) || null);
+    summary[diff.status]++;
+    if (diff.status !== 'unchanged') hosts.push(diff);
+  }
+  hosts.sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]);
+
+  return {
+    id: `diff-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: `${sides.base.fileName} \u2192 ${sides.compare.fileName}`,
+    createdAt: Date.now(),
+    base: sides.base,
+    compare: sides.compare,
+    summary,
+    hosts,
+  };
+}
+
+export function describeSide(scan: NmapScan, fileName: string): ScanDiffSide {
+  return { fileName, start: scan.start, args: scan.args };
+}
+
+// Structural check for diffs read back from storage or project files
+export function isValidScanDiff(value: unknown): value is ScanDiff {
+  const fields = (v: unknown) => v && typeof v === 'object' ? v as Record<string, unknown> : null;
+  const isSide = (v: unknown) => {
+    const s = fields(v);
+    return !!s && typeof s.fileName === 'string' && typeof s.start === 'number' && typeof s.args === 'string';
+  };
+  const d = fields(value);
+  const summary = fields(d?.summary);
+  return !!d &&
+    typeof d.id === 'string' &&
+    typeof d.name === 'string' &&
+    typeof d.createdAt === 'number' &&
+    isSide(d.base) && isSide(d.compare) &&
+    !!summary && ['added', 'removed', 'changed', 'unchanged'].every(k => typeof summary[k] === 'number') &&
+    Array.isArray(d.hosts) &&
+    d.hosts.every((v: unknown) => {
+      const h = fields(v);
+      return !!h && typeof h.ip === 'string' && Array.isArray(h.changes) && Array.isArray(h.portChanges);
+    });
+}
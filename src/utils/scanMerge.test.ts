@@ -0,0 +1,272 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createScanSource, tagProvenance, mergeScans, buildProjectScan, getSeenRange, sortSourcesByTime,
+  findMergeConflicts, DEFAULT_MERGE_STRATEGIES, type ImportedScan,
+} from './scanMerge';
+import type { NmapScan, NmapHost, Port } from '../types/nmap';
+
+function makePort(portid: number, state: string, scripts: { id: string; output: string }[] = [], conf = 10): Port {
+  return {
+    protocol: 'tcp', portid,
+    state: { state, reason: 'syn-ack', reason_ttl: 64 },
+    service: { name: 'http', method: 'probed', conf, cpes: [] },
+    scripts: scripts.map(s => ({ ...s, elements: [] })),
+  };
+}
+
+function makeHost(id: string, ip: string, ports: Port[], hostscripts: { id: string; output: string }[] = []): NmapHost {
+  return {
+    id, starttime: 0, endtime: 0,
+    status: { state: 'up', reason: 'syn-ack', reason_ttl: 64 },
+    addresses: [{ addr: ip, addrtype: 'ipv4' }],
+    hostnames: [],
+    ports,
+    os: { osmatch: [], osfingerprint: [], portused: [] },
+    uptime: null, distance: null, tcpsequence: null, ipidsequence: null, tcptssequence: null, times: null, trace: null,
+    hostscripts: hostscripts.map(s => ({ ...s, elements: [] })),
+    smurfs: [],
+    ip, ipv6: '', mac: '', hostname: '', mainOS: '',
+    openPortCount: 0, closedPortCount: 0, filteredPortCount: 0,
+  };
+}
+
+function makeScan(start: number, args: string, hosts: NmapHost[]): NmapScan {
+  return {
+    scanner: 'nmap', args, start, startstr: '', version: '7.94', xmloutputversion: '1.05',
+    scaninfo: [], verbose: 0, debugging: 0, hosts,
+    runstats: {
+      finished: { time: start + 60, timestr: '', elapsed: 60, summary: '', exit: 'success' },
+      hosts: { up: hosts.length, down: 0, total: hosts.length },
+    },
+    totalHosts: hosts.length, hostsUp: hosts.length, hostsDown: 0, hostsFiltered: 0, scanDuration: 60,
+    uniquePorts: [], uniqueServices: [],
+  };
+}
+
+function importScan(scan: NmapScan, fileName: string, index: number): ImportedScan {
+  const source = createScanSource(scan, fileName, index);
+  tagProvenance(scan, source);
+  return { source, scan, content: '' };
+}
+
+// Three scans of the same network: a discovery sweep, a version scan, and a rescan a week later
+function makeProject(): ImportedScan[] {
+  return [
+    importScan(makeScan(1000, 'nmap -sS 10.0.0.0/24', [
+      makeHost('a1', '10.0.0.1', [makePort(22, 'open'), makePort(80, 'open')]),
+      makeHost('b1', '10.0.0.2', [makePort(443, 'open')]),
+    ]), 'sweep.xml', 0),
+    importScan(makeScan(2000, 'nmap -sV -sC 10.0.0.1', [
+      makeHost('a2', '10.0.0.1', [makePort(80, 'open', [{ id: 'http-title', output: 'Old title' }])], [{ id: 'smb-os-discovery', output: 'Windows' }]),
+    ]), 'versions.xml', 1),
+    importScan(makeScan(3000, 'nmap -sS -sC 10.0.0.0/24', [
+      makeHost('a3', '10.0.0.1', [makePort(80, 'closed', [{ id: 'http-title', output: 'New title' }]), makePort(8080, 'open')], [{ id: 'smb-os-discovery', output: 'Windows 2019' }]),
+      makeHost('c3', '10.0.0.3', [makePort(3389, 'open')]),
+    ]), 'rescan.xml', 2),
+  ];
+}
+
+describe('tagProvenance', () => {
+  it('marks every host, port and script with the source', () => {
+    const [sweep, versions] = makeProject();
+    expect(sweep.source).toEqual({ id: 'scan-1', fileName: 'sweep.xml', start: 1000, args: 'nmap -sS 10.0.0.0/24' });
+    expect(sweep.scan.sources).toEqual([sweep.source]);
+    expect(sweep.scan.hosts[0].seenIn).toEqual(['scan-1']);
+    expect(sweep.scan.hosts[0].ports[1].history).toEqual([{ sourceId: 'scan-1', state: 'open' }]);
+    expect(versions.scan.hosts[0].ports[0].scripts[0].seenIn).toEqual(['scan-2']);
+    expect(versions.scan.hosts[0].hostscripts[0].seenIn).toEqual(['scan-2']);
+  });
+});
+
+describe('mergeScans', () => {
+  it('merges hosts by address and keeps the base host ids', () => {
+    const [sweep, , rescan] = makeProject();
+    const merged = mergeScans(sweep.scan, rescan.scan);
+    expect(merged.hosts.map(h => h.id)).toEqual(['a1', 'b1', 'c3']);
+    expect(merged.hosts[0].ports.map(p => p.portid)).toEqual([22, 80, 8080]);
+    expect(merged.totalHosts).toBe(3);
+    expect(merged.sources!.map(s => s.id)).toEqual(['scan-1', 'scan-3']);
+  });
+
+  it('records the state each scan reported for a port', () => {
+    const [sweep, versions, rescan] = makeProject();
+    const merged = mergeScans(mergeScans(sweep.scan, versions.scan), rescan.scan);
+    const http = merged.hosts[0].ports.find(p => p.portid === 80)!;
+    expect(http.state.state).toBe('closed');
+    expect(http.history).toEqual([
+      { sourceId: 'scan-1', state: 'open' },
+      { sourceId: 'scan-2', state: 'open' },
+      { sourceId: 'scan-3', state: 'closed' },
+    ]);
+    expect(merged.hosts[0].seenIn).toEqual(['scan-1', 'scan-2', 'scan-3']);
+    expect(merged.hosts[0].openPortCount).toBe(2);
+  });
+
+  it('keeps the newest script output and every scan that reported it', () => {
+    const [sweep, versions, rescan] = makeProject();
+    const merged = mergeScans(mergeScans(sweep.scan, versions.scan), rescan.scan);
+    const title = merged.hosts[0].ports.find(p => p.portid === 80)!.scripts[0];
+    expect(title.output).toBe('New title');
+    expect(title.seenIn).toEqual(['scan-2', 'scan-3']);
+    const smb = merged.hosts[0].hostscripts[0];
+    expect(smb.output).toBe('Windows 2019');
+    expect(smb.seenIn).toEqual(['scan-2', 'scan-3']);
+  });
+
+  it('keeps the service with the higher confidence', () => {
+    const base = makeScan(1000, '', [makeHost('a', '10.0.0.1', [makePort(80, 'open', [], 10)])]);
+    const low = makeScan(2000, '', [makeHost('b', '10.0.0.1', [makePort(80, 'open', [], 3)])]);
+    low.hosts[0].ports[0].service!.name = 'http-alt';
+    expect(mergeScans(base, low).hosts[0].ports[0].service!.name).toBe('http');
+  });
+
+  it('does not modify its inputs', () => {
+    const [sweep, versions] = makeProject();
+    const before = JSON.stringify(sweep.scan);
+    const incoming = JSON.stringify(versions.scan);
+    mergeScans(sweep.scan, versions.scan);
+    expect(JSON.stringify(sweep.scan)).toBe(before);
+    expect(JSON.stringify(versions.scan)).toBe(incoming);
+  });
+
+  it('copies hosts that only the incoming scan has', () => {
+    const [sweep, , rescan] = makeProject();
+    const added = rescan.scan.hosts[1];
+    const merged = mergeScans(sweep.scan, rescan.scan);
+    expect(merged.hosts[2]).toEqual(added);
+    expect(merged.hosts[2]).not.toBe(added);
+    expect(merged.hosts[2].ports[0]).not.toBe(added.ports[0]);
+  });
+
+  it('recomputes port and service summaries', () => {
+    const [sweep, , rescan] = makeProject();
+    const merged = mergeScans(sweep.scan, rescan.scan);
+    expect(merged.uniquePorts.map(p => `${p.port}/${p.state}`)).toEqual(['22/open', '80/closed', '443/open', '3389/open', '8080/open']);
+  });
+});
+
+describe('merge conflicts', () => {
+  // 10.0.0.1 as seen by the version scan and by the rescan
+  function conflicting() {
+    const [, versions, rescan] = makeProject();
+    rescan.scan.hosts[0].ports[0].service = { name: 'http', product: 'nginx', method: 'probed', conf: 8, cpes: [] };
+    return { base: versions.scan, incoming: rescan.scan };
+  }
+
+  it('lists ports and host scripts reported differently', () => {
+    const { base, incoming } = conflicting();
+    expect(findMergeConflicts(base, incoming).map(c => [c.id, c.existing, c.incoming, c.resolution])).toEqual([
+      ['10.0.0.1 80/tcp state', 'open', 'closed', 'incoming'],
+      ['10.0.0.1 80/tcp service', 'http (conf 10)', 'http nginx (conf 8)', 'existing'],
+      ['10.0.0.1 80/tcp scripts', 'http-title (different output)', 'http-title (different output)', 'both'],
+      ['10.0.0.1 host scripts', 'smb-os-discovery (different output)', 'smb-os-discovery (different output)', 'both'],
+    ]);
+  });
+
+  it('finds no conflicts between identical scans', () => {
+    const [sweep] = makeProject();
+    expect(findMergeConflicts(sweep.scan, sweep.scan)).toEqual([]);
+  });
+
+  it('prefers the most open state', () => {
+    const { base, incoming } = conflicting();
+    const strategies = { ...DEFAULT_MERGE_STRATEGIES, state: 'most_open' as const };
+    expect(findMergeConflicts(base, incoming, strategies)[0].resolution).toBe('existing');
+    const merged = mergeScans(base, incoming, { strategies, resolutions: {} });
+    expect(merged.hosts[0].ports[0].state.state).toBe('open');
+    // The port history still records what each scan reported
+    expect(merged.hosts[0].ports[0].history!.map(o => o.state)).toEqual(['open', 'closed']);
+  });
+
+  it('prefers the newest service when asked to', () => {
+    const { base, incoming } = conflicting();
+    expect(mergeScans(base, incoming).hosts[0].ports[0].service!.product).toBeUndefined();
+    const strategies = { ...DEFAULT_MERGE_STRATEGIES, service: 'newest' as const };
+    expect(mergeScans(base, incoming, { strategies, resolutions: {} }).hosts[0].ports[0].service!.product).toBe('nginx');
+  });
+
+  it('keeps one side of the scripts unless told to union them', () => {
+    const { base, incoming } = conflicting();
+    const keep = mergeScans(base, incoming, { strategies: { ...DEFAULT_MERGE_STRATEGIES, scripts: 'existing' }, resolutions: {} });
+    expect(keep.hosts[0].ports[0].scripts.map(s => s.output)).toEqual(['Old title']);
+    expect(keep.hosts[0].ports[0].scripts[0].seenIn).toEqual(['scan-2', 'scan-3']);
+    expect(keep.hosts[0].hostscripts.map(s => s.output)).toEqual(['Windows']);
+  });
+
+  it('applies conflicts resolved by hand over the strategy', () => {
+    const { base, incoming } = conflicting();
+    const merged = mergeScans(base, incoming, {
+      strategies: DEFAULT_MERGE_STRATEGIES,
+      resolutions: { '10.0.0.1 80/tcp state': 'existing', '10.0.0.1 host scripts': 'existing' },
+    });
+    expect(merged.hosts[0].ports[0].state.state).toBe('open');
+    expect(merged.hosts[0].ports[0].scripts[0].output).toBe('New title');
+    expect(merged.hosts[0].hostscripts[0].output).toBe('Windows');
+  });
+
+  it('keeps the results of a newer scan when an older one is imported after it', () => {
+    const [, versions, rescan] = makeProject();
+    expect(findMergeConflicts(rescan.scan, versions.scan).map(c => c.resolution)).toEqual(['existing', 'both', 'both']);
+    const merged = buildProjectScan([rescan, versions]);
+    const port = merged.hosts[0].ports.find(p => p.portid === 80)!;
+    expect(port.state.state).toBe('closed');
+    expect(port.scripts.map(s => s.output)).toEqual(['New title']);
+    expect(merged.hosts[0].hostscripts.map(s => s.output)).toEqual(['Windows 2019']);
+
+    const strategies = { ...DEFAULT_MERGE_STRATEGIES, scripts: 'newest' as const };
+    expect(findMergeConflicts(rescan.scan, versions.scan, strategies).map(c => c.resolution)).toEqual(['existing', 'existing', 'existing']);
+  });
+
+  it('takes the later import between scans started at the same time', () => {
+    const base = makeScan(1000, 'nmap 10.0.0.1', [makeHost('a', '10.0.0.1', [makePort(80, 'open')])]);
+    const incoming = makeScan(1000, 'nmap 10.0.0.1', [makeHost('b', '10.0.0.1', [makePort(80, 'closed')])]);
+    expect(mergeScans(base, incoming).hosts[0].ports[0].state.state).toBe('closed');
+  });
+
+  it('rebuilds earlier views with the options each import was merged with', () => {
+    const imports = makeProject();
+    imports[2].merge = { strategies: { ...DEFAULT_MERGE_STRATEGIES, state: 'existing' }, resolutions: {} };
+    expect(buildProjectScan(imports).hosts[0].ports.find(p => p.portid === 80)!.state.state).toBe('open');
+  });
+});
+
+describe('buildProjectScan', () => {
+  it('returns the only scan of a single-scan project as is', () => {
+    const [sweep] = makeProject();
+    expect(buildProjectScan([sweep])).toBe(sweep.scan);
+  });
+
+  it('shows the project as of an earlier import', () => {
+    const imports = makeProject();
+    const asOf = buildProjectScan(imports, 'scan-2');
+    expect(asOf.hosts.map(h => h.ip)).toEqual(['10.0.0.1', '10.0.0.2']);
+    expect(asOf.hosts[0].ports.find(p => p.portid === 80)!.state.state).toBe('open');
+    expect(asOf.sources!.map(s => s.id)).toEqual(['scan-1', 'scan-2']);
+  });
+
+  it('includes every import by default or for an unknown id', () => {
+    const imports = makeProject();
+    expect(buildProjectScan(imports).hosts).toHaveLength(3);
+    expect(buildProjectScan(imports, 'scan-9').hosts).toHaveLength(3);
+  });
+
+  it('rejects an empty project', () => {
+    expect(() => buildProjectScan([])).toThrow('at least one scan');
+  });
+});
+
+describe('getSeenRange', () => {
+  it('finds the first and last scan by start time', () => {
+    const sources = makeProject().map(i => i.source);
+    // Imported out of chronological order
+    const shuffled = [sources[2], sources[0], sources[1]];
+    expect(sortSourcesByTime(shuffled).map(s => s.id)).toEqual(['scan-1', 'scan-2', 'scan-3']);
+    const range = getSeenRange(['scan-3', 'scan-2'], shuffled)!;
+    expect(range.first.id).toBe('scan-2');
+    expect(range.last.id).toBe('scan-3');
+  });
+
+  it('returns null when nothing was seen', () => {
+    expect(getSeenRange(undefined, makeProject().map(i => i.source))).toBeNull();
+  });
+});
@@ -0,0 +1,344 @@
+import type { NmapScan, NmapHost, Port, PortState, Service, Script, ScanSource, MergeStrategies, MergeChoice, MergeOptions, MergeConflict } from '../types/nmap';
+import { computeHostCounts, createSummaryAccumulator } from '../parser/nmapParser';
+
+// Multi-scan projects. Every imported scan is kept as an ImportedScan whose
+// hosts, ports and scripts are stamped with its source id; the project view
+// is the merge of all imports (or of those up to an "as of" scan), so each
+// result can be traced back to the files, start times and nmap arguments
+// that reported it.
+
+export interface ImportedScan {
+  source: ScanSource;
+  scan: NmapScan;
+  content: string; // raw file content, kept for project export ('' for streamed files)
+  merge?: MergeOptions; // how it was merged into the imports before it (default strategies if unset)
+}
+
+// An import without its file text, as the query worker keeps it
+export type ProjectImport = Omit<ImportedScan, 'content'>;
+
+export function createScanSource(scan: NmapScan, fileName: string, index: number): ScanSource {
+  return { id: `scan-${index + 1}`, fileName, start: scan.start, args: scan.args };
+}
+
+/**
+ * Stamp a freshly parsed scan with its source: every host, port and script
+ * result is marked as seen in it. Mutates the scan, like the parser helpers.
+ */
+export function tagProvenance(scan: NmapScan, source: ScanSource): void {
+  const tagScripts = (scripts: Script[]) => {
+    for (const script of scripts) script.seenIn = [source.id];
+  };
+  for (const host of scan.hosts) {
+    host.seenIn = [source.id];
+    for (const port of host.ports) {
+      port.history = [{ sourceId: source.id, state: port.state.state }];
+      tagScripts(port.scripts);
+    }
+    tagScripts(host.hostscripts);
+  }
+  scan.sources = [source];
+}
+
+function union(a: string[] | undefined, b: string[] | undefined): string[] {
+  return [...new Set([...(a || []), ...(b || [])])];
+}
+
+function portKey(port: Port): string {
+  return `${port.portid}/${port.protocol}`;
+}
+
+function updatePortCounts(host: NmapHost): void {
+  host.openPortCount = host.ports.filter(p => p.state.state === 'open').length;
+  host.closedPortCount = host.ports.filter(p => p.state.state === 'closed').length;
+  host.filteredPortCount = host.ports.filter(p => p.state.state === 'filtered' || p.state.state === 'open|filtered').length;
+}
+
+// ========== Conflicts ==========
+
+export const DEFAULT_MERGE_STRATEGIES: MergeStrategies = {
+  state: 'newest',
+  service: 'highest_confidence',
+  scripts: 'union',
+};
+
+export const DEFAULT_MERGE_OPTIONS: MergeOptions = { strategies: DEFAULT_MERGE_STRATEGIES, resolutions: {} };
+
+// Least to most open, for the 'most_open' state strategy
+const STATE_OPENNESS = ['closed', 'closed|filtered', 'filtered', 'unfiltered', 'open|filtered', 'open'];
+
+function describeService(service: Service): string {
+  return [service.name, service.product, service.version, service.extrainfo].filter(Boolean).join(' ');
+}
+
+// Script ids, marking those whose output differs from the other side
+function describeScripts(scripts: Script[], other: Script[]): string {
+  return scripts.map(s => {
+    const match = other.find(o => o.id === s.id);
+    return match && match.output !== s.output ? `${s.id} (different output)` : s.id;
+  }).join(', ');
+}
+
+function sameScripts(a: Script[], b: Script[]): boolean {
+  return a.length === b.length && a.every(s => b.some(o => o.id === s.id && o.output === s.output));
+}
+
+function conflictId(address: string, port: string | null, field: MergeConflict['field']): string {
+  return `${address} ${port || 'host'} ${field}`;
+}
+
+// Start times of the scans on both sides of a merge, by source id. Results
+// without a known source fall back to the start of the scan they are in.
+interface MergeClock {
+  starts: Map<string, number>;
+  base: number;
+  incoming: number;
+}
+
+// Start times of the newest scans that reported each side of a conflict
+interface SideStarts {
+  existing: number;
+  incoming: number;
+}
+
+function mergeClock(base: NmapScan, incoming: NmapScan): MergeClock {
+  const sources = [...(base.sources || []), ...(incoming.sources || [])];
+  return { starts: new Map(sources.map(s => [s.id, s.start])), base: base.start, incoming: incoming.start };
+}
+
+function newestStart(clock: MergeClock, sourceIds: string[], fallback: number): number {
+  const known = sourceIds.map(id => clock.starts.get(id)).filter((start): start is number => start !== undefined);
+  return known.length > 0 ? Math.max(...known) : fallback;
+}
+
+function sideStarts(clock: MergeClock, existingIds: string[], incomingIds: string[]): SideStarts {
+  return {
+    existing: newestStart(clock, existingIds, clock.base),
+    incoming: newestStart(clock, incomingIds, clock.incoming),
+  };
+}
+
+const portSources = (port: Port) => (port.history || []).map(h => h.sourceId);
+const scriptSources = (scripts: Script[]) => scripts.flatMap(s => s.seenIn || []);
+
+// The side seen by the scan that started last; scans started at the same time go by import order
+function pickNewest(starts: SideStarts): MergeChoice {
+  return starts.existing > starts.incoming ? 'existing' : 'incoming';
+}
+
+function pickState(existing: PortState, incoming: PortState, strategy: MergeStrategies['state'], starts: SideStarts): MergeChoice {
+  if (strategy === 'existing') return 'existing';
+  if (strategy === 'most_open') {
+    return STATE_OPENNESS.indexOf(existing.state) > STATE_OPENNESS.indexOf(incoming.state) ? 'existing' : 'incoming';
+  }
+  return pickNewest(starts);
+}
+
+function pickService(existing: Service, incoming: Service, strategy: MergeStrategies['service'], starts: SideStarts): MergeChoice {
+  if (strategy === 'existing') return 'existing';
+  if (strategy === 'highest_confidence') return incoming.conf > existing.conf ? 'incoming' : 'existing';
+  return pickNewest(starts);
+}
+
+function pickScripts(strategy: MergeStrategies['scripts'], starts: SideStarts): MergeChoice {
+  if (strategy === 'existing') return 'existing';
+  if (strategy === 'newest') return pickNewest(starts);
+  return 'both';
+}
+
+function scriptsConflict(
+  address: string, port: string | null, existing: Script[], incoming: Script[], strategies: MergeStrategies, clock: MergeClock,
+): MergeConflict | null {
+  // Nothing to choose between when only one side has script results
+  if (existing.length === 0 || incoming.length === 0 || sameScripts(existing, incoming)) return null;
+  return {
+    id: conflictId(address, port, 'scripts'),
+    address, port, field: 'scripts',
+    existing: describeScripts(existing, incoming),
+    incoming: describeScripts(incoming, existing),
+    resolution: pickScripts(strategies.scripts, sideStarts(clock, scriptSources(existing), scriptSources(incoming))),
+  };
+}
+
+function portConflicts(
+  address: string, existing: Port, incoming: Port, strategies: MergeStrategies, clock: MergeClock,
+): MergeConflict[] {
+  const port = portKey(existing);
+  const starts = sideStarts(clock, portSources(existing), portSources(incoming));
+  const conflicts: MergeConflict[] = [];
+  if (existing.state.state !== incoming.state.state) {
+    conflicts.push({
+      id: conflictId(address, port, 'state'),
+      address, port, field: 'state',
+      existing: existing.state.state,
+      incoming: incoming.state.state,
+      resolution: pickState(existing.state, incoming.state, strategies.state, starts),
+    });
+  }
+  if (existing.service && incoming.service && describeService(existing.service) !== describeService(incoming.service)) {
+    conflicts.push({
+      id: conflictId(address, port, 'service'),
+      address, port, field: 'service',
+      existing: `${describeService(existing.service)} (conf ${existing.service.conf})`,
+      incoming: `${describeService(incoming.service)} (conf ${incoming.service.conf})`,
+      resolution: pickService(existing.service, incoming.service, strategies.service, starts),
+    });
+  }
+  const scripts = scriptsConflict(address, port, existing.scripts, incoming.scripts, strategies, clock);
+  if (scripts) conflicts.push(scripts);
+  return conflicts;
+}
+
+/**
+ * Every port and host script set that the two scans report differently,
+ * with what the strategies would pick. Conflict ids are the keys of
+ * MergeOptions.resolutions.
+ */
+export function findMergeConflicts(
+  base: NmapScan, incoming: NmapScan, strategies: MergeStrategies = DEFAULT_MERGE_STRATEGIES,
+): MergeConflict[] {
+  const byAddress = new Map(base.hosts.map(h => [h.ip || h.ipv6, h]));
+  const clock = mergeClock(base, incoming);
+  const conflicts: MergeConflict[] = [];
+  for (const newHost of incoming.hosts) {
+    const address = newHost.ip || newHost.ipv6;
+    const existing = address ? byAddress.get(address) : undefined;
+    if (!existing) continue;
+    const ports = new Map(existing.ports.map(p => [portKey(p), p]));
+    for (const port of newHost.ports) {
+      const existingPort = ports.get(portKey(port));
+      if (existingPort) conflicts.push(...portConflicts(address, existingPort, port, strategies, clock));
+    }
+    const hostScripts = scriptsConflict(address, null, existing.hostscripts, newHost.hostscripts, strategies, clock);
+    if (hostScripts) conflicts.push(hostScripts);
+  }
+  return conflicts;
+}
+
+// ========== Merging ==========
+
+function mergeScripts(existing: Script[], incoming: Script[], choice: MergeChoice, clock: MergeClock): Script[] {
+  // A script reported by both scans keeps the output of the chosen one and lists both
+  const combine = (kept: Script, older: Script | undefined, newer: Script | undefined): Script =>
+    older && newer ? { ...kept, seenIn: union(older.seenIn, newer.seenIn) } : kept;
+  const findIn = (scripts: Script[], id: string) => scripts.find(s => s.id === id);
+
+  if (choice === 'existing') return existing.map(s => combine(s, s, findIn(incoming, s.id)));
+  if (choice === 'incoming') return incoming.map(s => combine(s, findIn(existing, s.id), s));
+  // Both: output of the newer scan replaces the other output of the same script
+  const merged = existing.map(s => {
+    const other = findIn(incoming, s.id);
+    if (!other) return s;
+    const kept = pickNewest(sideStarts(clock, s.seenIn || [], other.seenIn || [])) === 'existing' ? s : other;
+    return combine(kept, s, other);
+  });
+  return [...merged, ...incoming.filter(s => !findIn(existing, s.id))];
+}
+
+function mergeHost(existing: NmapHost, newHost: NmapHost, options: MergeOptions, clock: MergeClock): void {
+  const address = existing.ip || existing.ipv6;
+  const existingPorts = new Map(existing.ports.map(p => [portKey(p), p]));
+  const choose = (conflict: MergeConflict) => options.resolutions[conflict.id] || conflict.resolution;
+
+  for (const port of newHost.ports) {
+    const existingPort = existingPorts.get(portKey(port));
+    if (!existingPort) {
+      existing.ports.push(port);
+      continue;
+    }
+
+    const conflicts = portConflicts(address, existingPort, port, options.strategies, clock);
+    let scriptChoice: MergeChoice = 'both';
+    for (const conflict of conflicts) {
+      const choice = choose(conflict);
+      if (conflict.field === 'state' && choice === 'incoming') existingPort.state = port.state;
+      if (conflict.field === 'service' && choice === 'incoming') existingPort.service = port.service;
+      if (conflict.field === 'scripts') scriptChoice = choice;
+    }
+    // The same service seen twice still follows the strategy, e.g. to keep the more confident match
+    if (port.service && !conflicts.some(c => c.field === 'service') && (!existingPort.service ||
+        pickService(existingPort.service, port.service, options.strategies.service,
+          sideStarts(clock, portSources(existingPort), portSources(port))) === 'incoming')) {
+      existingPort.service = port.service;
+    }
+    existingPort.scripts = mergeScripts(existingPort.scripts, port.scripts, scriptChoice, clock);
+    existingPort.history = [...(existingPort.history || []), ...(port.history || [])];
+  }
+
+  const hostScripts = scriptsConflict(address, null, existing.hostscripts, newHost.hostscripts, options.strategies, clock);
+  existing.hostscripts = mergeScripts(existing.hostscripts, newHost.hostscripts, hostScripts ? choose(hostScripts) : 'both', clock);
+
+  existing.seenIn = union(existing.seenIn, newHost.seenIn);
+  updatePortCounts(existing);
+}
+
+/**
+ * Merge a scan into another, matching hosts by address and ports by
+ * number/protocol; ports reported differently are settled by the merge
+ * options. Neither input is modified; hosts of the base keep their ids,
+ * so notes and selections stay attached.
+ */
+export function mergeScans(base: NmapScan, incoming: NmapScan, options: MergeOptions = DEFAULT_MERGE_OPTIONS): NmapScan {
+  // Deep clone the parts that get updated in place
+  const cloneHost = (h: NmapHost): NmapHost => ({
+    ...h,
+    ports: h.ports.map(p => ({ ...p })),
+  });
+  const hosts = base.hosts.map(cloneHost);
+  const merged: NmapScan = { ...base, hosts, sources: [...(base.sources || []), ...(incoming.sources || [])] };
+
+  const byAddress = new Map(hosts.map(h => [h.ip || h.ipv6, h]));
+  const clock = mergeClock(base, incoming);
+  for (const newHost of incoming.hosts) {
+    const address = newHost.ip || newHost.ipv6;
+    const existing = address ? byAddress.get(address) : undefined;
+    if (existing) {
+      mergeHost(existing, newHost, options, clock);
+    } else {
+      const added = cloneHost(newHost);
+      hosts.push(added);
+      if (address) byAddress.set(address, added);
+    }
+  }
+
+  computeHostCounts(merged);
+  const summaries = createSummaryAccumulator();
+  for (const host of hosts) summaries.add(host);
+  merged.uniquePorts = summaries.portSummaries();
+  merged.uniqueServices = summaries.serviceSummaries();
+  return merged;
+}
+
+/**
+ * The project as seen after the given import (all imports when asOf is
+ * null or unknown): the first scan with every later one merged in order.
+ */
+export function buildProjectScan(imports: ProjectImport[], asOf: string | null = null): NmapScan {
+  if (imports.length === 0) throw new Error('A project needs at least one scan');
+  const last = asOf ? imports.findIndex(i => i.source.id === asOf) : -1;
+  const included = last >= 0 ? imports.slice(0, last + 1) : imports;
+
+  let scan = included[0].scan;
+  for (const imported of included.slice(1)) scan = mergeScans(scan, imported.scan, imported.merge);
+  return scan;
+}
+
+export interface SeenRange {
+  first: ScanSource;
+  last: ScanSource;
+}
+
+/**
+ * Earliest and latest scan (by scan start time) among the given source ids,
+ * or null when none of them are known.
+ */
+export function getSeenRange(sourceIds: string[] | undefined, sources: ScanSource[]): SeenRange | null {
+  const seen = sortSourcesByTime(sources.filter(s => sourceIds?.includes(s.id)));
+  if (seen.length === 0) return null;
+  return { first: seen[0], last: seen[seen.length - 1] };
+}
+
+// Chronological order; imports with the same start time keep their import order
+export function sortSourcesByTime(sources: ScanSource[]): ScanSource[] {
+  return [...sources].sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import type { ScanProfile, ScanProfileOptions } from '../types/nmap';
+import {
+  DEFAULT_SCAN_OPTIONS, profileToRequest, formatProfileCommand, validateScanProfile,
+  getIntrusiveCategories, exportProfileCommands, normalizeScanProfile, parseTargetList, parseScriptList,
+} from './scanProfiles';
+
+const options = (overrides: Partial<ScanProfileOptions> = {}): ScanProfileOptions => ({ ...DEFAULT_SCAN_OPTIONS, ...overrides });
+
+describe('formatProfileCommand', () => {
+  it('builds the command with categories ahead of scripts and the exclude list', () => {
+    const command = formatProfileCommand(options({
+      scanType: 'syn',
+      ports: '22,443',
+      scriptCategories: ['safe', 'discovery'],
+      scripts: ['ssl-cert', 'safe'],
+      timing: 4,
+      include: ['10.0.0.0/24'],
+      exclude: ['10.0.0.1', '10.0.0.128/25'],
+    }));
+    expect(command).toBe(
+      'nmap -sS -p 22,443 -sV --script=safe,discovery,ssl-cert -T4 --exclude 10.0.0.1,10.0.0.128/25 ' +
+      '-oX - --stats-every 2s 10.0.0.0/24',
+    );
+  });
+
+  it('shows where the targets go when the profile leaves them to run time', () => {
+    expect(formatProfileCommand(options({ topPorts: 100 }))).toBe('nmap -sT --top-ports 100 -sV -T3 -oX - --stats-every 2s <targets>');
+    expect(formatProfileCommand(options(), ['scanme.nmap.org'])).toMatch(/ scanme\.nmap\.org$/);
+  });
+
+  it('drops port options from ping scans and prefers a port list over top ports', () => {
+    expect(profileToRequest(options({ scanType: 'ping', ports: '80', topPorts: 10 }))).toMatchObject({ ports: undefined, topPorts: undefined });
+    expect(profileToRequest(options({ ports: ' 80 ', topPorts: 10 }))).toMatchObject({ ports: '80', topPorts: undefined });
+  });
+});
+
+describe('IPv6 targets', () => {
+  it('scans IPv6 targets with -6', () => {
+    expect(profileToRequest(options({ include: ['2001:db8::1', 'scanme.nmap.org'] })).ipv6).toBe(true);
+    expect(profileToRequest(options({ include: ['10.0.0.1'] })).ipv6).toBe(false);
+    expect(formatProfileCommand(options({ include: ['2001:db8::/120'] }))).toBe('nmap -sT -6 -sV -T3 -oX - --stats-every 2s 2001:db8::/120');
+  });
+
+  it('rejects a mix of IPv4 and IPv6 targets', () => {
+    expect(() => formatProfileCommand(options({ include: ['10.0.0.0/24', '2001:db8::1'] }))).toThrow('separate scans');
+    expect(validateScanProfile('x', options({ include: ['10.0.0.1,5', 'fe80::1'] }))).toMatch('IPv4 and IPv6');
+  });
+
+  it('excludes targets of the same family only', () => {
+    expect(validateScanProfile('x', options({ include: ['10.0.0.0/24'], exclude: ['2001:db8::1'] }))).toMatch('must be IPv4');
+    expect(validateScanProfile('x', options({ include: ['2001:db8::/64'], exclude: ['10.0.0.1'] }))).toMatch('must be IPv6');
+    expect(formatProfileCommand(options({ exclude: ['2001:db8::1'] }))).toBe('nmap -sT -6 -sV -T3 --exclude 2001:db8::1 -oX - --stats-every 2s <targets>');
+  });
+});
+
+describe('validateScanProfile', () => {
+  it('applies the argument builder rules to every value', () => {
+    expect(validateScanProfile('Web', options({ include: ['10.0.0.1'] }))).toBeNull();
+    expect(validateScanProfile(' ', options())).toMatch('name');
+    expect(validateScanProfile('x', options({ include: ['-iL'] }))).toMatch('Invalid target');
+    expect(validateScanProfile('x', options({ exclude: ['10.0.0.1,2'] }))).toMatch('Invalid excluded target');
+    expect(validateScanProfile('x', options({ exclude: ['$(id)'] }))).toMatch('Invalid excluded target');
+    expect(validateScanProfile('x', options({ scripts: ['../evil'] }))).toMatch('Invalid script name');
+    expect(validateScanProfile('x', options({ scriptCategories: ['all'] }))).toMatch('Unknown script category');
+    expect(validateScanProfile('x', options({ ports: '80 -oN x' }))).toMatch('Invalid port list');
+    expect(validateScanProfile('x', options({ topPorts: NaN }))).toMatch('Invalid top ports');
+  });
+
+  it('lists the intrusive categories of a profile', () => {
+    expect(getIntrusiveCategories(options({ scriptCategories: ['safe', 'brute', 'dos'] }))).toEqual(['brute', 'dos']);
+  });
+});
+
+describe('profile lists and storage', () => {
+  const profile: ScanProfile = { ...options({ include: ['10.0.0.0/24'] }), id: 'profile-1', name: 'Web\nservers', createdAt: 0, updatedAt: 0 };
+
+  it('parses target and script lists', () => {
+    expect(parseTargetList(' 10.0.0.1,5\n scanme.nmap.org ')).toEqual(['10.0.0.1,5', 'scanme.nmap.org']);
+    expect(parseScriptList('http-title, ssl-cert http-title')).toEqual(['http-title', 'ssl-cert']);
+  });
+
+  it('exports one commented command per profile', () => {
+    const text = exportProfileCommands([profile, { ...profile, name: 'Bad', include: ['a b'] }]);
+    expect(text).toContain('# Web servers (updated 1970-01-01T00:00:00.000Z)\nnmap -sT -sV -T3 -oX - --stats-every 2s 10.0.0.0/24\n');
+    expect(text).toContain('# Bad (updated 1970-01-01T00:00:00.000Z)\n# invalid profile: Invalid target: a b');
+  });
+
+  it('normalizes stored profiles and drops ones that fail validation', () => {
+    expect(normalizeScanProfile(profile)).toEqual(profile);
+    expect(normalizeScanProfile({ id: 'p', name: 'Old', scanType: 'udp' })).toMatchObject({ ...DEFAULT_SCAN_OPTIONS, scanType: 'udp' });
+    expect(normalizeScanProfile({ ...profile, scripts: ['x;id'] })).toBeNull();
+    expect(normalizeScanProfile({ ...profile, scanType: 'idle' })).toBeNull();
+    expect(normalizeScanProfile({ name: 'No id' })).toBeNull();
+  });
+});
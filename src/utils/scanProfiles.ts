@@ -0,0 +1,173 @@
+import type { ScanProfile, ScanProfileOptions } from '../types/nmap';
+import { buildNmapArgs, buildScanOptions, formatNmapCommand, OUTPUT_ARGS, type ScanRequest } from '../electron/nmapArgs';
+
+// Saved scan templates. A profile is turned into a scan request for the
+// shared argument builder, so profiles follow exactly the rules of scans run
+// from the app: nothing in a profile can become an extra option, a file or
+// shell syntax.
+
+export interface ScriptCategory {
+  name: string;
+  description: string;
+  intrusive: boolean; // may crash services, lock accounts or trip alarms
+}
+
+// NSE script categories (https://nmap.org/book/nse-usage.html#nse-categories)
+export const SCRIPT_CATEGORIES: ScriptCategory[] = [
+  { name: 'default', description: 'The scripts -sC runs', intrusive: false },
+  { name: 'safe', description: 'Unlikely to affect the target', intrusive: false },
+  { name: 'discovery', description: 'Learn more about the network and services', intrusive: false },
+  { name: 'version', description: 'Extensions of version detection', intrusive: false },
+  { name: 'auth', description: 'Authentication settings and credentials', intrusive: false },
+  { name: 'broadcast', description: 'Discover hosts by broadcasting on the local network', intrusive: false },
+  { name: 'external', description: 'Send data to third-party services', intrusive: false },
+  { name: 'vuln', description: 'Check for known vulnerabilities', intrusive: false },
+  { name: 'malware', description: 'Check for backdoors and malware', intrusive: false },
+  { name: 'intrusive', description: 'Too risky to run without permission', intrusive: true },
+  { name: 'brute', description: 'Guess credentials', intrusive: true },
+  { name: 'exploit', description: 'Actively exploit vulnerabilities', intrusive: true },
+  { name: 'fuzzer', description: 'Send unexpected input', intrusive: true },
+  { name: 'dos', description: 'May cause a denial of service', intrusive: true },
+];
+
+const CATEGORY_NAMES = new Set(SCRIPT_CATEGORIES.map(c => c.name));
+
+// Shown in place of the targets when a profile leaves them to run time
+export const TARGETS_PLACEHOLDER = '<targets>';
+
+const MAX_NAME_LENGTH = 100;
+
+export const DEFAULT_SCAN_OPTIONS: ScanProfileOptions = {
+  scanType: 'connect',
+  ports: '',
+  topPorts: null,
+  timing: 3,
+  serviceDetection: true,
+  osDetection: false,
+  defaultScripts: false,
+  scriptCategories: [],
+  scripts: [],
+  traceroute: false,
+  skipHostDiscovery: false,
+  include: [],
+  exclude: [],
+};
+
+// Targets may contain commas (10.0.0.1,5,9), so they are separated by whitespace only
+export function parseTargetList(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+export function parseScriptList(text: string): string[] {
+  return [...new Set(text.split(/[\s,]+/).filter(Boolean))];
+}
+
+/**
+ * The scan request for a profile. Script categories go to --script ahead of
+ * the named scripts. Targets default to the profile's include list; IPv6
+ * targets (or, without targets, IPv6 exclusions) are scanned with -6, and
+ * the argument builder rejects IPv4 ones mixed in.
+ */
+export function profileToRequest(options: ScanProfileOptions, targets: string[] = options.include): ScanRequest {
+  const portScan = options.scanType !== 'ping';
+  const ports = options.ports.trim();
+  const ipv6 = (targets.length > 0 ? targets : options.exclude).some(t => t.includes(':'));
+  return {
+    targets,
+    ipv6,
+    scanType: options.scanType,
+    ports: portScan && ports ? ports : undefined,
+    topPorts: portScan && !ports && options.topPorts !== null ? options.topPorts : undefined,
+    serviceDetection: options.serviceDetection,
+    osDetection: options.osDetection,
+    defaultScripts: options.defaultScripts,
+    scripts: [...new Set([...options.scriptCategories, ...options.scripts])],
+    traceroute: options.traceroute,
+    skipHostDiscovery: options.skipHostDiscovery,
+    timing: options.timing,
+    exclude: options.exclude,
+  };
+}
+
+/**
+ * The nmap command line a profile runs, with TARGETS_PLACEHOLDER when it has
+ * no targets of its own. Throws when any value is invalid.
+ */
+export function formatProfileCommand(options: ScanProfileOptions, targets: string[] = options.include): string {
+  for (const category of options.scriptCategories) {
+    if (!CATEGORY_NAMES.has(category)) throw new Error(`Unknown script category: ${category}`);
+  }
+  const request = profileToRequest(options, targets);
+  if (targets.length > 0) return formatNmapCommand(buildNmapArgs(request));
+  return formatNmapCommand([...buildScanOptions(request), ...OUTPUT_ARGS, TARGETS_PLACEHOLDER]);
+}
+
+/**
+ * Check a profile before it is saved; returns the problem, or null.
+ */
+export function validateScanProfile(name: string, options: ScanProfileOptions): string | null {
+  if (!name.trim()) return 'The profile needs a name';
+  if (name.length > MAX_NAME_LENGTH) return `Profile names are at most ${MAX_NAME_LENGTH} characters`;
+  try {
+    formatProfileCommand(options);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+// The intrusive categories a profile selects, to point out before it runs
+export function getIntrusiveCategories(options: ScanProfileOptions): string[] {
+  return SCRIPT_CATEGORIES.filter(c => c.intrusive && options.scriptCategories.includes(c.name)).map(c => c.name);
+}
+
+/**
+ * The nmap command line of every profile, for audit records. The file is a
+ * shell script of comments and commands; profile names are kept on one line.
+ */
+export function exportProfileCommands(profiles: ScanProfile[]): string {
+  const lines = [`# NmapUI scan profiles, exported ${new Date().toISOString()}`];
+  for (const profile of profiles) {
+    lines.push('', `# ${profile.name.replace(/\s+/g, ' ')} (updated ${new Date(profile.updatedAt).toISOString()})`);
+    try {
+      lines.push(formatProfileCommand(profile));
+    } catch (err) {
+      lines.push(`# invalid profile: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+/**
+ * Validate a profile read from storage. Returns null when it is malformed or
+ * would not pass the argument builder.
+ */
+export function normalizeScanProfile(value: unknown): ScanProfile | null {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Record<string, unknown>;
+  if (typeof data.id !== 'string' || typeof data.name !== 'string') return null;
+  const d = DEFAULT_SCAN_OPTIONS;
+  const profile: ScanProfile = {
+    id: data.id,
+    name: data.name.trim(),
+    scanType: data.scanType as ScanProfile['scanType'], // checked with the rest below
+    ports: typeof data.ports === 'string' ? data.ports : d.ports,
+    topPorts: typeof data.topPorts === 'number' ? data.topPorts : null,
+    timing: typeof data.timing === 'number' ? data.timing : d.timing,
+    serviceDetection: typeof data.serviceDetection === 'boolean' ? data.serviceDetection : d.serviceDetection,
+    osDetection: data.osDetection === true,
+    defaultScripts: data.defaultScripts === true,
+    scriptCategories: isStringArray(data.scriptCategories) ? data.scriptCategories : [],
+    scripts: isStringArray(data.scripts) ? data.scripts : [],
+    traceroute: data.traceroute === true,
+    skipHostDiscovery: data.skipHostDiscovery === true,
+    include: isStringArray(data.include) ? data.include : [],
+    exclude: isStringArray(data.exclude) ? data.exclude : [],
+    createdAt: typeof data.createdAt === 'number' ? data.createdAt : Date.now(),
+    updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : Date.now(),
+  };
+  return validateScanProfile(profile.name, profile) === null ? profile : null;
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { parseScriptDb, parseNseScript, mergeScriptCatalogs, importScriptFiles, BUILTIN_SCRIPTS } from './scriptCatalog';
+import { getScriptSuggestions } from './scriptSuggestions';
+
+const FTP_ANON = `local ftp = require "ftp"
+local shortport = require "shortport"
+
+description = [[
+Checks if an FTP server allows anonymous logins.
+
+If anonymous is allowed, gets a directory listing of the root directory.
+]]
+
+---
+-- @usage nmap -sV -sC <target>
+--
+-- @args ftp-anon.maxlist The maximum number of files to return in the
+--                        directory listing. By default it is 20, or
+--                        unlimited if verbosity is enabled.
+-- @args ftp-anon.recurse
+--       Recurse into directories.
+--
+-- @output
+-- PORT   STATE SERVICE
+-- 21/tcp open  ftp
+
+author = {"Eddie Bell", "Rob Nicholls"}
+categories = {"default", "auth", "safe"}
+
+portrule = shortport.port_or_service({21, 990}, {"ftp", "ftps"}, "tcp",
+  "open")
+
+action = function(host, port)
+end
+`;
+
+describe('parseScriptDb', () => {
+  it('reads the categories of every entry', () => {
+    const db = [
+      'Entry { filename = "acarsd-info.nse", categories = { "discovery", "safe", } }',
+      'Entry { filename = "http-slowloris.nse", categories = { "dos", "intrusive", } }',
+      'Entry { filename = "bad name.nse", categories = { "safe", } }',
+    ].join('\n');
+    expect(parseScriptDb(db).map(s => [s.id, s.categories])).toEqual([
+      ['acarsd-info', ['discovery', 'safe']],
+      ['http-slowloris', ['dos', 'intrusive']],
+    ]);
+  });
+});
+
+describe('parseNseScript', () => {
+  it('reads the description, categories, portrule hints and @args', () => {
+    expect(parseNseScript('scripts/ftp-anon.nse', FTP_ANON)).toEqual({
+      id: 'ftp-anon',
+      description: 'Checks if an FTP server allows anonymous logins.',
+      categories: ['default', 'auth', 'safe'],
+      ports: [21, 990],
+      services: ['ftp', 'ftps'],
+      args: [
+        { name: 'ftp-anon.maxlist', description: 'The maximum number of files to return in the directory listing. By default it is 20, or unlimited if verbosity is enabled.' },
+        { name: 'ftp-anon.recurse', description: 'Recurse into directories.' },
+      ],
+    });
+  });
+
+  it('knows the shortport helpers and leaves host scripts without hints', () => {
+    const http = parseNseScript('http-title.nse', 'categories = {"default"}\nportrule = shortport.http\n')!;
+    expect(http.ports).toContain(8080);
+    expect(http.services).toContain('https');
+    expect(parseNseScript('ntp-info.nse', 'portrule = shortport.port_or_service(123, "ntp", {"udp", "tcp"})')!)
+      .toMatchObject({ ports: [123], services: ['ntp'] });
+    expect(parseNseScript('smb-vuln-ms10-054.nse', 'hostrule = function(host) return smb.get_port(host) ~= nil end'))
+      .toMatchObject({ ports: [], services: [] });
+    expect(parseNseScript('x;id.nse', '')).toBeNull();
+  });
+});
+
+describe('importScriptFiles', () => {
+  it('adds script headers to the script.db categories and keeps what updates leave empty', () => {
+    const catalog = importScriptFiles([
+      { name: 'script.db', content: 'Entry { filename = "ftp-anon.nse", categories = { "auth", "default", "safe", } }\nEntry { filename = "ssh-hostkey.nse", categories = { "default", "discovery", "safe", } }' },
+      { name: 'ftp-anon.nse', content: FTP_ANON },
+      { name: 'README', content: 'not a script' },
+    ]);
+    expect(catalog.map(s => s.id)).toEqual(['ftp-anon', 'ssh-hostkey']);
+    expect(catalog[0].args).toHaveLength(2);
+
+    const merged = mergeScriptCatalogs(BUILTIN_SCRIPTS, catalog);
+    const hostkey = merged.find(s => s.id === 'ssh-hostkey')!;
+    expect(hostkey.categories).toEqual(['default', 'discovery', 'safe']);
+    expect(hostkey.ports).toEqual([22]);
+    expect(hostkey.description).toBe('Show SSH host key fingerprints');
+    expect(merged).toHaveLength(BUILTIN_SCRIPTS.length);
+
+    expect(() => importScriptFiles([{ name: 'notes.txt', content: '' }])).toThrow('No script.db or .nse files');
+  });
+});
+
+describe('getScriptSuggestions', () => {
+  it('ranks default and safe scripts matching port and service first', () => {
+    const ids = getScriptSuggestions(21, 'ftp').map(s => s.scriptId);
+    expect(ids.slice(0, 3)).toEqual(['ftp-anon', 'ftp-bounce', 'ftp-syst']);
+    expect(ids).toContain('ftp-brute');
+    expect(getScriptSuggestions(21, 'ftp').find(s => s.scriptId === 'ftp-vsftpd-backdoor')!.category).toBe('exploit');
+    // The service is enough on an unusual port
+    expect(getScriptSuggestions(2222, 'SSH').map(s => s.scriptId)).toContain('ssh-hostkey');
+    expect(getScriptSuggestions(1, 'unknown')).toEqual([]);
+  });
+
+  it('leaves out categories the rules of engagement exclude', () => {
+    const ids = getScriptSuggestions(445, 'microsoft-ds', { excludeCategories: ['dos', 'brute'] }).map(s => s.scriptId);
+    expect(ids).toContain('smb-vuln-ms17-010');
+    expect(ids).not.toContain('smb-vuln-ms08-067');
+    expect(ids).not.toContain('smb-brute');
+    expect(getScriptSuggestions(80, 'http', { limit: 3 })).toHaveLength(3);
+  });
+
+  it('uses an imported catalog', () => {
+    const catalog = importScriptFiles([{ name: 'ftp-anon.nse', content: FTP_ANON }]);
+    const [suggestion] = getScriptSuggestions(990, 'ftps', { catalog });
+    expect(suggestion).toMatchObject({ scriptId: 'ftp-anon', category: 'auth', categories: ['default', 'auth', 'safe'] });
+    expect(suggestion.args!.map(a => a.name)).toEqual(['ftp-anon.maxlist', 'ftp-anon.recurse']);
+  });
+});
@@ -0,0 +1,377 @@
+import type { NseScript, NseScriptArg } from '../types/nmap';
+import { isValidScriptName } from '../electron/nmapArgs';
+
+// The NSE script catalog: categories, portrule hints and documented
+// --script-args of each script. A built-in catalog covers the common
+// scripts; the full one can be imported from a local nmap's scripts
+// directory (script.db and the .nse files themselves).
+
+// The ports and services a script's portrule matches
+interface PortHints {
+  ports: number[];
+  services: string[];
+}
+
+// shortport.http
+const HTTP: PortHints = {
+  ports: [80, 443, 631, 3872, 5800, 7080, 8000, 8008, 8080, 8088, 8180, 8443],
+  services: ['http', 'https', 'http-alt', 'https-alt', 'http-proxy', 'ipp', 'soap', 'vnc-http', 'webdav', 'caldav', 'carddav', 'oem-agent'],
+};
+
+// shortport.ssl
+const SSL: PortHints = {
+  ports: [261, 271, 324, 443, 465, 563, 585, 636, 853, 989, 990, 992, 993, 994, 995, 2221, 2252, 2376, 3269, 3389, 4433, 4911, 5061, 5986, 6679, 6697, 8443, 8883, 9001],
+  services: ['ssl', 'https', 'ftps', 'imaps', 'ldapssl', 'pop3s', 'smtps', 'ircs', 'nntps', 'sip-tls', 'xmpp-ssl'],
+};
+
+const on = (ports: number[], ...services: string[]): PortHints => ({ ports, services });
+const FTP = on([21], 'ftp');
+const SSH = on([22], 'ssh');
+const TELNET = on([23], 'telnet', 'telnets');
+const SMTP = on([25, 465, 587], 'smtp', 'smtps', 'submission');
+const DNS = on([53], 'domain', 'dns');
+const POP3 = on([110, 995], 'pop3', 'pop3s');
+const RPC = on([111], 'rpcbind');
+const NFS = on([111, 2049], 'rpcbind', 'nfs');
+const SMB = on([139, 445], 'netbios-ssn', 'microsoft-ds', 'smb');
+const IMAP = on([143, 993], 'imap', 'imaps');
+const LDAP = on([389, 636], 'ldap', 'ldapssl');
+const MSSQL = on([1433], 'ms-sql-s');
+const ORACLE = on([1521], 'oracle-tns');
+const MYSQL = on([3306], 'mysql');
+const RDP = on([3389], 'ms-wbt-server', 'rdp');
+const VNC = on([5900, 5901], 'vnc');
+const REDIS = on([6379], 'redis');
+const MONGODB = on([27017], 'mongodb', 'mongod');
+const SNMP = on([161], 'snmp');
+const HTTP_PROXY = on([3128, 8000, 8080, 8118, 8123], 'http-proxy', 'squid-http', 'polipo');
+// STARTTLS services get the TLS scripts as well
+const TLS = { ports: [...SSL.ports, 21, 25, 110, 143, 389, 587, 5432], services: [...SSL.services, 'submission'] };
+// WinRM answers on 5985 and nmap often names it wsman
+const WEB = { ports: [...HTTP.ports, 5985], services: [...HTTP.services, 'wsman'] };
+
+function script(id: string, description: string, categories: string[], hints: PortHints, args: Array<[string, string]> = []): NseScript {
+  return {
+    id, description, categories,
+    ports: hints.ports, services: hints.services,
+    args: args.map(([name, description]) => ({ name, description })),
+  };
+}
+
+const SMB_AUTH: Array<[string, string]> = [
+  ['smbusername', 'Username to log in with'],
+  ['smbpassword', 'Password to log in with'],
+  ['smbdomain', 'Domain of the account'],
+];
+const BRUTE: Array<[string, string]> = [
+  ['userdb', 'File of usernames to try'],
+  ['passdb', 'File of passwords to try'],
+  ['brute.firstonly', 'Stop after the first valid credentials'],
+];
+
+export const BUILTIN_SCRIPTS: NseScript[] = [
+  script('ftp-anon', 'Check for anonymous FTP login', ['default', 'auth', 'safe'], FTP, [['ftp-anon.maxlist', 'Maximum number of files to list (default 20, 0 or less for all)']]),
+  script('ftp-bounce', 'Check for FTP bounce attack', ['default', 'safe'], FTP, [['ftp-bounce.checkhost', 'Host to try connecting to with the PORT command']]),
+  script('ftp-brute', 'Brute-force FTP credentials', ['intrusive', 'brute'], FTP, BRUTE),
+  script('ftp-syst', 'Get FTP system type', ['default', 'discovery', 'safe'], FTP),
+  script('ftp-vsftpd-backdoor', 'Check for vsftpd 2.3.4 backdoor', ['exploit', 'intrusive', 'malware', 'vuln'], FTP, [['ftp-vsftpd-backdoor.cmd', 'Command to run through the backdoor (default id)']]),
+  script('ftp-proftpd-backdoor', 'Check for ProFTPD backdoor', ['exploit', 'intrusive', 'malware', 'vuln'], FTP, [['ftp-proftpd-backdoor.cmd', 'Command to run through the backdoor (default id)']]),
+
+  script('ssh-hostkey', 'Show SSH host key fingerprints', ['safe', 'default', 'discovery'], SSH, [['ssh_hostkey', 'Output formats: full, bubble, visual, sha256, all'], ['ssh-hostkey.known-hosts', 'known_hosts file to compare the keys with']]),
+  script('ssh-auth-methods', 'List SSH authentication methods', ['auth', 'intrusive'], SSH, [['ssh.user', 'Username to ask the methods for (default root)']]),
+  script('ssh-brute', 'Brute-force SSH credentials', ['brute', 'intrusive'], SSH, [...BRUTE, ['ssh-brute.timeout', 'Connection timeout (default 5s)']]),
+  script('ssh2-enum-algos', 'Enumerate SSH2 algorithms', ['safe', 'discovery'], SSH),
+  script('sshv1', 'Check for SSHv1 support', ['default', 'safe'], SSH),
+
+  script('telnet-brute', 'Brute-force telnet credentials', ['brute', 'intrusive'], TELNET, [...BRUTE, ['telnet-brute.timeout', 'Connection timeout (default 5s)']]),
+  script('telnet-encryption', 'Check telnet encryption support', ['safe', 'discovery'], TELNET),
+  script('telnet-ntlm-info', 'Get NTLM info from telnet', ['default', 'discovery', 'safe'], TELNET),
+
+  script('smtp-commands', 'List SMTP commands supported', ['default', 'discovery', 'safe'], SMTP, [['smtp.domain', 'Domain to send with EHLO']]),
+  script('smtp-enum-users', 'Enumerate SMTP users via VRFY/EXPN/RCPT', ['auth', 'external', 'intrusive'], SMTP, [['smtp-enum-users.methods', 'Commands to try: VRFY, EXPN, RCPT'], ['smtp-enum-users.domain', 'Domain to add to the usernames']]),
+  script('smtp-brute', 'Brute-force SMTP credentials', ['brute', 'intrusive'], SMTP, BRUTE),
+  script('smtp-open-relay', 'Check for open SMTP relay', ['discovery', 'intrusive', 'external'], SMTP, [['smtp-open-relay.from', 'Sender address of the test mails'], ['smtp-open-relay.to', 'Recipient address of the test mails']]),
+  script('smtp-vuln-cve2010-4344', 'Check Exim heap overflow', ['exploit', 'intrusive', 'vuln'], SMTP, [['smtp-vuln-cve2010-4344.exploit', 'Exploit the overflow to get a shell']]),
+  script('smtp-ntlm-info', 'Get NTLM info from SMTP', ['default', 'discovery', 'safe'], SMTP),
+
+  script('dns-zone-transfer', 'Attempt DNS zone transfer (AXFR)', ['intrusive', 'discovery'], DNS, [['dns-zone-transfer.domain', 'Domain to transfer']]),
+  script('dns-recursion', 'Check for open DNS recursion', ['default', 'safe'], DNS),
+  script('dns-cache-snoop', 'Snoop DNS cache for common domains', ['intrusive', 'discovery'], DNS, [['dns-cache-snoop.mode', 'nonrecursive (default) or timed'], ['dns-cache-snoop.domains', 'Domains to check for']]),
+  script('dns-nsid', 'Get DNS server NSID', ['discovery', 'default', 'safe'], DNS),
+  script('dns-service-discovery', 'Discover services via DNS-SD', ['default', 'discovery', 'safe'], on([5353], 'mdns', 'zeroconf')),
+
+  script('http-title', 'Get page title', ['default', 'discovery', 'safe'], WEB, [['http-title.url', 'Path to request (default /)']]),
+  script('http-headers', 'Show HTTP response headers', ['discovery', 'safe'], WEB, [['path', 'Path to request (default /)'], ['useget', 'Send GET instead of HEAD']]),
+  script('http-methods', 'Enumerate allowed HTTP methods', ['default', 'safe'], HTTP, [['http-methods.url-path', 'Path to check (default /)'], ['http-methods.test-all', 'Send every method, not only the risky ones']]),
+  script('http-enum', 'Enumerate common web paths', ['discovery', 'intrusive', 'vuln'], HTTP, [['http-enum.basepath', 'Base path to prepend to each checked path'], ['http-enum.category', 'Only check fingerprints of this category'], ['http-enum.displayall', 'Show every response code, not only 200 and 401']]),
+  script('http-robots.txt', 'Check robots.txt', ['default', 'discovery', 'safe'], HTTP),
+  script('http-shellshock', 'Check for Shellshock vulnerability', ['exploit', 'vuln', 'intrusive'], HTTP, [['http-shellshock.uri', 'CGI path to test'], ['http-shellshock.cmd', 'Command to run on vulnerable hosts']]),
+  script('http-sql-injection', 'Check for SQL injection', ['intrusive', 'vuln'], HTTP, [['http-sql-injection.url', 'Path to start spidering from'], ['http-sql-injection.maxpagecount', 'Maximum number of pages to visit (default 20)']]),
+  script('http-xssed', 'Check xssed.com for known XSS', ['safe', 'external', 'discovery'], HTTP),
+  script('http-server-header', 'Show server header info', ['version'], HTTP),
+  script('http-sitemap-generator', 'Generate site map by crawling', ['discovery', 'intrusive'], HTTP, [['httpspider.maxpagecount', 'Maximum number of pages to visit (default 20)']]),
+  script('http-open-proxy', 'Check for open HTTP proxy', ['default', 'discovery', 'external', 'safe'], HTTP_PROXY, [['proxy.url', 'URL to request through the proxy'], ['proxy.pattern', 'Pattern the response must match']]),
+
+  script('pop3-capabilities', 'List POP3 capabilities', ['default', 'discovery', 'safe'], POP3),
+  script('pop3-brute', 'Brute-force POP3 credentials', ['intrusive', 'brute'], POP3, BRUTE),
+  script('pop3-ntlm-info', 'Get NTLM info from POP3', ['default', 'discovery', 'safe'], POP3),
+
+  script('rpcinfo', 'Query RPC portmapper for services', ['discovery', 'default', 'safe', 'version'], RPC),
+  script('nfs-ls', 'List NFS exports', ['discovery', 'safe'], NFS, [['nfs-ls.maxfiles', 'Maximum number of files to list per export (default 10)'], ['nfs-ls.human', 'Show sizes in human-readable units']]),
+  script('nfs-showmount', 'Show NFS mounts', ['discovery', 'safe'], NFS),
+  script('nfs-statfs', 'Get NFS filesystem statistics', ['discovery', 'safe'], NFS, [['nfs-statfs.human', 'Show sizes in human-readable units']]),
+  script('msrpc-enum', 'Enumerate MSRPC services', ['safe', 'discovery'], on([135], 'msrpc')),
+
+  script('smb-os-discovery', 'Discover OS via SMB', ['default', 'discovery', 'safe'], SMB, SMB_AUTH),
+  script('smb-enum-shares', 'Enumerate SMB shares', ['discovery', 'intrusive'], SMB, SMB_AUTH),
+  script('smb-enum-users', 'Enumerate SMB users', ['auth', 'intrusive'], SMB, [...SMB_AUTH, ['samronly', 'Only use the SAMR method'], ['lsaonly', 'Only use the LSA bruteforce method']]),
+  script('smb-brute', 'Brute-force SMB credentials', ['intrusive', 'brute'], SMB, [...BRUTE, ['smblockout', 'Keep going when accounts get locked out']]),
+  script('smb-vuln-ms17-010', 'Check for EternalBlue (MS17-010)', ['vuln', 'safe'], SMB, [['smb-vuln-ms17-010.sharename', 'Share to connect to (default IPC$)']]),
+  script('smb-vuln-ms08-067', 'Check for Conficker (MS08-067)', ['intrusive', 'exploit', 'dos', 'vuln'], SMB, SMB_AUTH),
+  script('smb-protocols', 'Enumerate SMB protocol versions', ['safe', 'discovery'], SMB),
+  script('smb-security-mode', 'Check SMB security mode', ['default', 'discovery', 'safe'], SMB),
+  script('smb2-capabilities', 'List SMB2 capabilities', ['safe', 'discovery'], on([445], 'microsoft-ds', 'smb')),
+  script('smb2-security-mode', 'Check SMB2 security mode', ['safe', 'discovery', 'default'], on([445], 'microsoft-ds', 'smb')),
+
+  script('imap-capabilities', 'List IMAP capabilities', ['default', 'safe'], IMAP),
+  script('imap-brute', 'Brute-force IMAP credentials', ['brute', 'intrusive'], IMAP, [...BRUTE, ['imap-brute.auth', 'Authentication mechanism (default LOGIN)']]),
+  script('imap-ntlm-info', 'Get NTLM info from IMAP', ['default', 'discovery', 'safe'], IMAP),
+
+  script('ldap-rootdse', 'Query LDAP root DSE', ['discovery', 'safe'], LDAP),
+  script('ldap-search', 'Search LDAP directory', ['discovery', 'safe'], LDAP, [['ldap.username', 'DN to bind as'], ['ldap.password', 'Password to bind with'], ['ldap.qfilter', 'Search filter: users, computers, ad_dcs, custom or all'], ['ldap.base', 'Base DN of the search']]),
+  script('ldap-brute', 'Brute-force LDAP credentials', ['intrusive', 'brute'], LDAP, [...BRUTE, ['ldap.base', 'Base DN of the accounts']]),
+  script('ldap-novell-getpass', 'Attempt Novell LDAP password retrieval', ['discovery', 'safe'], LDAP, [['ldap-novell-getpass.username', 'DN to bind as'], ['ldap-novell-getpass.password', 'Password to bind with'], ['ldap-novell-getpass.account', 'Account to retrieve the password of']]),
+
+  script('ssl-cert', 'Show SSL/TLS certificate details', ['default', 'safe', 'discovery'], TLS),
+  script('ssl-enum-ciphers', 'Enumerate SSL/TLS cipher suites', ['discovery', 'intrusive'], TLS),
+  script('ssl-heartbleed', 'Check for Heartbleed vulnerability', ['vuln', 'safe'], TLS, [['ssl-heartbleed.protocols', 'TLS versions to test (default all)']]),
+  script('ssl-poodle', 'Check for POODLE vulnerability', ['vuln', 'safe'], TLS),
+  script('ssl-ccs-injection', 'Check for CCS injection vulnerability', ['vuln', 'safe'], TLS),
+  script('tls-alpn', 'Enumerate TLS ALPN protocols', ['discovery', 'safe', 'default'], SSL),
+
+  script('ms-sql-info', 'Get SQL Server info', ['default', 'discovery', 'safe'], MSSQL),
+  script('ms-sql-brute', 'Brute-force SQL Server credentials', ['brute', 'intrusive'], MSSQL, [...BRUTE, ['ms-sql-brute.ignore-lockout', 'Keep going when accounts get locked out']]),
+  script('ms-sql-empty-password', 'Check for empty SA password', ['auth', 'intrusive'], MSSQL),
+  script('ms-sql-config', 'Get SQL Server configuration', ['discovery', 'safe'], MSSQL, [['ms-sql-config.showall', 'Show all settings, not only the enabled ones']]),
+  script('ms-sql-ntlm-info', 'Get NTLM info from SQL Server', ['default', 'discovery', 'safe'], MSSQL),
+  script('ms-sql-tables', 'Enumerate SQL Server tables', ['discovery', 'intrusive'], MSSQL, [['ms-sql-tables.maxdb', 'Maximum number of databases (default 5)'], ['ms-sql-tables.keywords', 'Only list tables matching these keywords']]),
+
+  script('oracle-tns-version', 'Get Oracle TNS version', ['version', 'safe'], ORACLE),
+  script('oracle-sid-brute', 'Brute-force Oracle SIDs', ['intrusive', 'brute'], ORACLE, [['oraclesids', 'File of SIDs to try']]),
+  script('oracle-brute', 'Brute-force Oracle credentials', ['intrusive', 'brute'], ORACLE, [...BRUTE, ['oracle-brute.sid', 'Instance to log in to']]),
+  script('oracle-enum-users', 'Enumerate Oracle users', ['intrusive', 'auth'], ORACLE, [['oracle-enum-users.sid', 'Instance to enumerate']]),
+
+  script('mysql-info', 'Get MySQL server info', ['default', 'discovery', 'safe'], MYSQL),
+  script('mysql-brute', 'Brute-force MySQL credentials', ['intrusive', 'brute'], MYSQL, BRUTE),
+  script('mysql-empty-password', 'Check for empty root password', ['intrusive', 'auth'], MYSQL),
+  script('mysql-databases', 'List MySQL databases', ['discovery', 'intrusive'], MYSQL, [['mysqluser', 'Username to log in with'], ['mysqlpass', 'Password to log in with']]),
+  script('mysql-users', 'List MySQL users', ['auth', 'intrusive'], MYSQL, [['mysqluser', 'Username to log in with'], ['mysqlpass', 'Password to log in with']]),
+  script('mysql-enum', 'Enumerate MySQL users', ['intrusive', 'brute'], MYSQL, [['mysql-enum.timeout', 'Connection timeout (default 5s)']]),
+
+  script('rdp-ntlm-info', 'Get NTLM info from RDP', ['default', 'discovery', 'safe'], RDP),
+  script('rdp-enum-encryption', 'Enumerate RDP encryption levels', ['safe', 'discovery'], RDP),
+  script('rdp-vuln-ms12-020', 'Check for MS12-020 RDP vulnerability', ['intrusive', 'vuln'], RDP),
+
+  script('pgsql-brute', 'Brute-force PostgreSQL credentials', ['intrusive', 'brute'], on([5432], 'postgresql'), BRUTE),
+
+  script('vnc-info', 'Get VNC server info', ['default', 'discovery', 'safe'], VNC),
+  script('vnc-brute', 'Brute-force VNC credentials', ['intrusive', 'brute'], VNC, BRUTE),
+  script('realvnc-auth-bypass', 'Check for RealVNC auth bypass', ['auth', 'safe', 'vuln'], VNC),
+
+  script('redis-info', 'Get Redis server info', ['discovery', 'safe'], REDIS),
+  script('redis-brute', 'Brute-force Redis password', ['intrusive', 'brute'], REDIS, [['passdb', 'File of passwords to try']]),
+
+  script('mongodb-info', 'Get MongoDB server info', ['default', 'discovery', 'safe'], MONGODB),
+  script('mongodb-databases', 'List MongoDB databases', ['default', 'discovery', 'safe'], MONGODB),
+  script('mongodb-brute', 'Brute-force MongoDB credentials', ['intrusive', 'brute'], MONGODB, BRUTE),
+
+  script('snmp-info', 'Get SNMP system info', ['default', 'version', 'safe'], SNMP),
+  script('snmp-brute', 'Brute-force SNMP community strings', ['intrusive', 'brute'], SNMP, [['snmp-brute.communitiesdb', 'File of community strings to try']]),
+  script('snmp-interfaces', 'Enumerate SNMP interfaces', ['default', 'discovery', 'safe'], SNMP, [['snmp-interfaces.host', 'Also add the interface addresses as scan targets']]),
+  script('snmp-processes', 'List SNMP running processes', ['default', 'discovery', 'safe'], SNMP),
+  script('snmp-netstat', 'Get SNMP network stats', ['default', 'discovery', 'safe'], SNMP),
+];
+
+// ========== Import ==========
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// Quoted strings of a Lua table or argument list
+function luaStrings(text: string): string[] {
+  return [...text.matchAll(/"([^"]*)"|'([^']*)'/g)].map(m => m[1] ?? m[2]);
+}
+
+// Strings in portrules that are protocols or port states, not service names
+const PORTRULE_KEYWORDS = new Set(['tcp', 'udp', 'sctp', 'open', 'open|filtered', 'filtered', 'closed', 'unfiltered']);
+
+/**
+ * The ports and services a portrule matches, from the shortport helpers
+ * most scripts use. Custom portrules give no hints.
+ */
+function parsePortrule(rule: string): PortHints {
+  if (/\bshortport\.http\b/.test(rule)) return HTTP;
+  if (/\bshortport\.ssl\b/.test(rule)) return SSL;
+  const call = rule.match(/\bshortport\.(?:port_or_service|version_port_or_service|portnumber|service)\s*\(/);
+  if (!call) return { ports: [], services: [] };
+
+  // The arguments up to the matching parenthesis
+  let depth = 0;
+  let end = call.index! + call[0].length;
+  for (; end < rule.length; end++) {
+    if (rule[end] === '(') depth++;
+    else if (rule[end] === ')' && depth-- === 0) break;
+  }
+  const args = rule.slice(call.index! + call[0].length, end).replace(/"[^"]*"|'[^']*'/g, s => s.replace(/\d/g, ''));
+  const ports = [...args.matchAll(/\b\d{1,5}\b/g)].map(m => Number(m[0])).filter(p => p > 0 && p <= 65535);
+  const services = luaStrings(rule.slice(call.index!, end)).map(s => s.toLowerCase()).filter(s => s && !PORTRULE_KEYWORDS.has(s));
+  return { ports: [...new Set(ports)], services: [...new Set(services)] };
+}
+
+// The first sentence of the first paragraph
+function summarize(description: string): string {
+  const paragraph = description.trim().split(/\n\s*\n/)[0].replace(/\s+/g, ' ').trim();
+  const sentence = paragraph.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? paragraph;
+  return sentence.length > MAX_DESCRIPTION_LENGTH ? `${sentence.slice(0, MAX_DESCRIPTION_LENGTH - 3)}...` : sentence;
+}
+
+// The top-level statement starting at a match, with its indented continuation lines
+function statementAt(source: string, pattern: RegExp): string | null {
+  const match = pattern.exec(source);
+  if (!match) return null;
+  const lines = source.slice(match.index).split('\n');
+  const statement = [lines[0]];
+  for (const line of lines.slice(1)) {
+    if (/^\S/.test(line) && !/^end\b/.test(line)) break;
+    statement.push(line);
+  }
+  return statement.join('\n');
+}
+
+// @args of the NSEDoc comments, with their continuation lines
+function parseArgs(source: string): NseScriptArg[] {
+  const args: NseScriptArg[] = [];
+  let current: NseScriptArg | null = null;
+  for (const line of source.split('\n')) {
+    const comment = line.match(/^\s*---?(.*)$/);
+    const tag = comment?.[1].match(/^\s*@(\w+)\s*(.*)$/);
+    if (tag) {
+      current = null;
+      if (tag[1] !== 'args') continue;
+      const [name, ...rest] = tag[2].trim().split(/\s+/);
+      if (!name) continue;
+      current = { name, description: rest.join(' ') };
+      args.push(current);
+    } else if (current && comment && comment[1].trim()) {
+      current.description = `${current.description} ${comment[1].trim()}`.trim();
+    } else {
+      current = null;
+    }
+  }
+  return args.filter((a, i) => args.findIndex(b => b.name === a.name) === i);
+}
+
+/**
+ * Read the catalog entry of an NSE script from its source: the description,
+ * categories, portrule hints and the @args of its documentation. Returns
+ * null when the file name isn't a valid script name.
+ */
+export function parseNseScript(fileName: string, source: string): NseScript | null {
+  const id = fileName.replace(/^.*[\\/]/, '').replace(/\.nse$/i, '');
+  if (!isValidScriptName(id)) return null;
+
+  const longDescription = source.match(/^description\s*=\s*\[(=*)\[([\s\S]*?)\]\1\]/m)?.[2]
+    ?? source.match(/^description\s*=\s*"((?:[^"\\]|\\.)*)"/m)?.[1]
+    ?? '';
+  const categories = source.match(/^categories\s*=\s*\{([^}]*)\}/m)?.[1];
+  const portrule = statementAt(source, /^portrule\s*=/m);
+  const hints = portrule ? parsePortrule(portrule) : { ports: [], services: [] };
+
+  return {
+    id,
+    description: summarize(longDescription),
+    categories: categories ? [...new Set(luaStrings(categories))] : [],
+    ports: hints.ports,
+    services: hints.services,
+    args: parseArgs(source),
+  };
+}
+
+/**
+ * Read nmap's scripts/script.db, which lists every script with its
+ * categories:
+ *   Entry { filename = "ftp-anon.nse", categories = { "auth", "default", "safe", } }
+ */
+export function parseScriptDb(content: string): NseScript[] {
+  const scripts: NseScript[] = [];
+  for (const m of content.matchAll(/Entry\s*\{\s*filename\s*=\s*"([^"]+)\.nse"\s*,\s*categories\s*=\s*\{([^}]*)\}/g)) {
+    if (!isValidScriptName(m[1])) continue;
+    scripts.push({ id: m[1], description: '', categories: luaStrings(m[2]), ports: [], services: [], args: [] });
+  }
+  return scripts;
+}
+
+/**
+ * Merge catalogs: scripts of the later one replace what the earlier one
+ * knew about them, except for fields the later one left empty (script.db
+ * entries have categories only).
+ */
+export function mergeScriptCatalogs(base: NseScript[], updates: NseScript[]): NseScript[] {
+  const merged = new Map(base.map(s => [s.id, s]));
+  for (const update of updates) {
+    const existing = merged.get(update.id);
+    if (!existing) {
+      merged.set(update.id, update);
+      continue;
+    }
+    const hinted = update.ports.length > 0 || update.services.length > 0;
+    merged.set(update.id, {
+      id: update.id,
+      description: update.description || existing.description,
+      categories: update.categories.length > 0 ? update.categories : existing.categories,
+      ports: hinted ? update.ports : existing.ports,
+      services: hinted ? update.services : existing.services,
+      args: update.args.length > 0 ? update.args : existing.args,
+    });
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Build a catalog from files of a local nmap's scripts directory. script.db
+ * gives the categories of every script, and each .nse file its description,
+ * portrule and arguments.
+ */
+export function importScriptFiles(files: Array<{ name: string; content: string }>): NseScript[] {
+  const db = files.filter(f => /(^|[\\/])script\.db$/i.test(f.name));
+  const sources = files.filter(f => /\.nse$/i.test(f.name));
+  if (db.length === 0 && sources.length === 0) {
+    throw new Error('No script.db or .nse files selected');
+  }
+
+  let catalog = db.flatMap(f => parseScriptDb(f.content));
+  catalog = mergeScriptCatalogs(catalog, sources
+    .map(f => parseNseScript(f.name, f.content))
+    .filter((s): s is NseScript => s !== null));
+  if (catalog.length === 0) throw new Error('No NSE scripts found in the selected files');
+  return catalog.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// Catalog entries loaded from storage; malformed ones are dropped
+export function normalizeNseScript(value: unknown): NseScript | null {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Record<string, unknown>;
+  if (typeof data.id !== 'string' || !isValidScriptName(data.id)) return null;
+  const strings = (v: unknown) => Array.isArray(v) ? v.filter((s): s is string => typeof s === 'string') : [];
+  return {
+    id: data.id,
+    description: typeof data.description === 'string' ? data.description : '',
+    categories: strings(data.categories),
+    ports: Array.isArray(data.ports) ? data.ports.filter((p: unknown): p is number => Number.isInteger(p) && (p as number) > 0 && (p as number) <= 65535) : [],
+    services: strings(data.services),
+    args: Array.isArray(data.args)
+      ? data.args
+        .filter((a: unknown): a is { name: string; description?: unknown } => !!a && typeof (a as { name?: unknown }).name === 'string')
+        .map(a => ({ name: a.name, description: typeof a.description === 'string' ? a.description : '' }))
+      : [],
+  };
+}
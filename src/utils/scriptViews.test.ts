@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import type { Script, ScriptElement } from '../types/nmap';
+import {
+  parseSslCert, parseSslEnumCiphers, parseHttpTitle, parseHttpHeaders, parseSshHostKeys, parseSmb2SecurityMode, getScriptFields,
+} from './scriptViews';
+
+const elem = (key: string, value: string): ScriptElement => ({ key, value });
+const table = (key: string, children: ScriptElement[]): ScriptElement => ({ key, value: '', children });
+const script = (id: string, output: string, elements: ScriptElement[] = []): Script => ({ id, output, elements });
+
+const NOW = Date.parse('2024-06-01T00:00:00Z');
+
+describe('parseSslCert', () => {
+  it('reads the certificate elements and warns about upcoming expiry', () => {
+    const cert = parseSslCert(script('ssl-cert', '', [
+      table('subject', [elem('commonName', 'portal.corp.local'), elem('organizationName', 'Corp')]),
+      table('issuer', [elem('commonName', 'Corp Root CA')]),
+      table('pubkey', [elem('type', 'rsa'), elem('bits', '2048')]),
+      table('extensions', [table('table', [elem('name', 'X509v3 Subject Alternative Name'), elem('value', 'DNS:portal.corp.local, DNS:www.corp.local')])]),
+      elem('sig_algo', 'sha256WithRSAEncryption'),
+      table('validity', [elem('notBefore', '2023-06-20T00:00:00'), elem('notAfter', '2024-06-20T00:00:00')]),
+      elem('sha1', 'ab12'),
+    ]), NOW)!;
+    expect(cert).toMatchObject({
+      subject: [{ label: 'commonName', value: 'portal.corp.local' }, { label: 'organizationName', value: 'Corp' }],
+      altNames: ['DNS:portal.corp.local', 'DNS:www.corp.local'],
+      daysLeft: 19,
+      status: 'expiring',
+      selfSigned: false,
+      publicKey: 'rsa 2048',
+      signatureAlgorithm: 'sha256WithRSAEncryption',
+      sha1: 'ab12',
+    });
+  });
+
+  it('falls back to the text output', () => {
+    const cert = parseSslCert(script('ssl-cert', [
+      'Subject: commonName=localhost/countryName=US',
+      'Issuer: commonName=localhost/countryName=US',
+      'Not valid before: 2020-01-01T00:00:00',
+      'Not valid after:  2021-01-01T00:00:00',
+    ].join('\n')), NOW)!;
+    expect(cert).toMatchObject({ status: 'expired', selfSigned: true, notAfter: '2021-01-01T00:00:00' });
+    expect(parseSslCert(script('ssl-cert', 'ERROR: Script execution failed'))).toBeNull();
+  });
+});
+
+describe('parseSslEnumCiphers', () => {
+  it('grades ciphers per protocol from elements or text output', () => {
+    const cipher = (name: string, kex: string, strength: string) =>
+      table('table', [elem('name', name), elem('kex_info', kex), elem('strength', strength)]);
+    const structured = parseSslEnumCiphers(script('ssl-enum-ciphers', '', [
+      table('TLSv1.0', [
+        table('ciphers', [cipher('TLS_RSA_WITH_3DES_EDE_CBC_SHA', 'rsa 2048', 'C')]),
+        elem('cipher preference', 'client'),
+        table('warnings', [elem('', '64-bit block cipher 3DES vulnerable to SWEET32 attack')]),
+      ]),
+      table('TLSv1.2', [table('ciphers', [cipher('TLS_ECDHE_RSA_WITH_AES_128_GCM_SHA256', 'secp256r1', 'A')])]),
+      elem('least strength', 'C'),
+    ]))!;
+    expect(structured.leastStrength).toBe('C');
+    expect(structured.protocols.map(p => [p.protocol, p.deprecated, p.ciphers.length, p.warnings])).toEqual([
+      ['TLSv1.0', true, 1, ['64-bit block cipher 3DES vulnerable to SWEET32 attack']],
+      ['TLSv1.2', false, 1, []],
+    ]);
+
+    const text = parseSslEnumCiphers(script('ssl-enum-ciphers', [
+      '',
+      '  TLSv1.2: ',
+      '    ciphers: ',
+      '      TLS_ECDHE_RSA_WITH_AES_256_GCM_SHA384 (ecdh_x25519) - A',
+      '      TLS_RSA_WITH_RC4_128_SHA (rsa 2048) - F',
+      '    compressors: ',
+      '      NULL',
+      '    cipher preference: server',
+      '    warnings: ',
+      '      Broken cipher RC4 is deprecated by RFC 7465',
+      '  least strength: F',
+    ].join('\n')))!;
+    expect(text.protocols[0]).toMatchObject({
+      protocol: 'TLSv1.2',
+      preference: 'server',
+      warnings: ['Broken cipher RC4 is deprecated by RFC 7465'],
+    });
+    expect(text.protocols[0].ciphers[1]).toEqual({ name: 'TLS_RSA_WITH_RC4_128_SHA', kex: 'rsa 2048', strength: 'F' });
+    expect(text.leastStrength).toBe('F');
+  });
+});
+
+describe('http scripts', () => {
+  it('reads titles, redirects and headers', () => {
+    expect(parseHttpTitle(script('http-title', 'Login', [elem('title', 'Login'), elem('redirect_url', 'https://x/login')])))
+      .toEqual({ title: 'Login', redirect: 'https://x/login', note: '' });
+    expect(parseHttpTitle(script('http-title', "Site doesn't have a title (text/html).")))
+      .toEqual({ title: null, redirect: '', note: "Site doesn't have a title (text/html)." });
+
+    const headers = parseHttpHeaders(script('http-headers', [
+      '', '  Server: nginx/1.18.0', '  Date: Sat, 01 Jun 2024 00:00:00 GMT', '  X-Frame-Options: DENY', '  ', '  (Request type: HEAD)',
+    ].join('\n')), true)!;
+    expect(headers.headers.map(h => [h.label, h.warn])).toEqual([['Server', true], ['Date', false], ['X-Frame-Options', false]]);
+    expect(headers.requestType).toBe('HEAD');
+    expect(headers.missingSecurityHeaders).toEqual(['Strict-Transport-Security', 'Content-Security-Policy', 'X-Content-Type-Options']);
+  });
+});
+
+describe('host keys, SMB signing and key/value scripts', () => {
+  it('flags weak SSH keys and SMB signing that is not required', () => {
+    const keys = parseSshHostKeys(script('ssh-hostkey', '', [
+      table('table', [elem('type', 'ssh-rsa'), elem('bits', '1024'), elem('fingerprint', 'AABBCCDDEEFF00112233445566778899')]),
+      table('table', [elem('type', 'ssh-ed25519'), elem('bits', '256'), elem('fingerprint', '00112233445566778899aabbccddeeff')]),
+    ]))!;
+    expect(keys.map(k => [k.type, k.bits, k.weak])).toEqual([['RSA', 1024, true], ['ED25519', 256, false]]);
+    expect(keys[0].fingerprint).toBe('aa:bb:cc:dd:ee:ff:00:11:22:33:44:55:66:77:88:99');
+    expect(parseSshHostKeys(script('ssh-hostkey', '\n  1024 aa:bb:cc (DSA)\n  256 cc:dd (ECDSA)'))!.map(k => [k.type, k.weak]))
+      .toEqual([['DSA', true], ['ECDSA', false]]);
+
+    expect(parseSmb2SecurityMode(script('smb2-security-mode', '', [table('3:1:1', [elem('', 'Message signing enabled but not required')])])))
+      .toEqual([{ dialect: '3:1:1', message: 'Message signing enabled but not required', warn: true }]);
+    expect(parseSmb2SecurityMode(script('smb2-security-mode', '\n  3:1:1: \n    Message signing enabled and required')))
+      .toEqual([{ dialect: '3:1:1', message: 'Message signing enabled and required', warn: false }]);
+  });
+
+  it('labels the values of smb-os-discovery, rdp-ntlm-info and dns-nsid', () => {
+    expect(getScriptFields(script('smb-os-discovery', '', [elem('server', 'DC01\\x00'), elem('os', 'Windows Server 2016'), elem('fqdn', 'dc01.corp.local')])))
+      .toEqual([
+        { label: 'OS', value: 'Windows Server 2016' },
+        { label: 'NetBIOS computer name', value: 'DC01\\x00' },
+        { label: 'FQDN', value: 'dc01.corp.local' },
+      ]);
+    expect(getScriptFields(script('rdp-ntlm-info', '\n  Target_Name: CORP\n  Product_Version: 10.0.17763')))
+      .toEqual([{ label: 'Target name', value: 'CORP' }, { label: 'Product version', value: '10.0.17763' }]);
+    expect(getScriptFields(script('dns-nsid', '', [elem('bind.version', '9.16.1')]))).toEqual([{ label: 'bind.version', value: '9.16.1' }]);
+    expect(getScriptFields(script('unknown-script', 'Key: value'))).toBeNull();
+  });
+});
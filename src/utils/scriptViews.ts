@@ -0,0 +1,355 @@
+import type { Script, ScriptElement } from '../types/nmap';
+import { findElement, elementText } from './columnExpressions';
+
+// Structured views of the NSE scripts worth more than their text output.
+// Each reads the script's elements (nmap's <elem>/<table> output) and falls
+// back to parsing the text output, which is all that greppable and older
+// scans have. A view is null when neither has what it needs; the script is
+// then shown as a generic element table.
+
+export const EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScriptField {
+  label: string;
+  value: string;
+  warn?: boolean;
+}
+
+// ========== Helpers ==========
+
+function valueAt(elements: ScriptElement[], path: string): string {
+  const el = findElement(elements, path.split('.'));
+  return el ? elementText(el).trim() : '';
+}
+
+// "Key: value" lines of text output
+function outputFields(output: string): ScriptField[] {
+  const fields: ScriptField[] = [];
+  for (const line of output.split('\n')) {
+    const m = line.match(/^\s*([^:]{1,40}?):\s+(.*\S)\s*$/);
+    if (m) fields.push({ label: m[1].trim(), value: m[2] });
+  }
+  return fields;
+}
+
+function outputValue(output: string, label: string): string {
+  return outputFields(output).find(f => f.label.toLowerCase() === label.toLowerCase())?.value ?? '';
+}
+
+// nmap writes certificate dates in UTC, with or without the zone
+function parseUtcDate(text: string): number | null {
+  const iso = text.trim().replace(' ', 'T');
+  if (!iso) return null;
+  const time = Date.parse(/(Z|[+-]\d\d:?\d\d)$/.test(iso) ? iso : `${iso}Z`);
+  return Number.isNaN(time) ? null : time;
+}
+
+// ========== ssl-cert ==========
+
+export type CertStatus = 'valid' | 'expiring' | 'expired' | 'not-yet-valid';
+
+export interface SslCertView {
+  subject: ScriptField[];
+  issuer: ScriptField[];
+  altNames: string[];
+  notBefore: string;
+  notAfter: string;
+  daysLeft: number | null;
+  status: CertStatus | null;
+  selfSigned: boolean;
+  publicKey: string; // e.g. "rsa 2048"
+  signatureAlgorithm: string;
+  sha1: string;
+}
+
+// Elements of a name table, or "Subject: commonName=a/organizationName=b"
+function nameFields(elements: ScriptElement[], key: string, line: string): ScriptField[] {
+  const table = findElement(elements, [key]);
+  if (table?.children?.length) {
+    return table.children.filter(c => c.key).map(c => ({ label: c.key, value: elementText(c) }));
+  }
+  return line.split('/').map(part => part.match(/^([^=]+)=(.*)$/)).filter((m): m is RegExpMatchArray => m !== null)
+    .map(m => ({ label: m[1].trim(), value: m[2].trim() }));
+}
+
+/**
+ * The certificate of an ssl-cert result, with its validity relative to now.
+ * Certificates that expire within EXPIRY_WARNING_DAYS are 'expiring'.
+ */
+export function parseSslCert(script: Script, now = Date.now()): SslCertView | null {
+  const { elements, output } = script;
+  const subject = nameFields(elements, 'subject', outputValue(output, 'Subject'));
+  const issuer = nameFields(elements, 'issuer', outputValue(output, 'Issuer'));
+
+  let altNames = outputValue(output, 'Subject Alternative Name');
+  const extensions = findElement(elements, ['extensions']);
+  for (const ext of extensions?.children ?? []) {
+    const name = ext.children?.find(c => c.key === 'name')?.value;
+    if (name === 'X509v3 Subject Alternative Name') altNames = ext.children?.find(c => c.key === 'value')?.value ?? altNames;
+  }
+
+  const notBefore = valueAt(elements, 'validity.notBefore') || outputValue(output, 'Not valid before');
+  const notAfter = valueAt(elements, 'validity.notAfter') || outputValue(output, 'Not valid after');
+  if (subject.length === 0 && !notAfter) return null;
+
+  const start = parseUtcDate(notBefore);
+  const end = parseUtcDate(notAfter);
+  const daysLeft = end === null ? null : Math.floor((end - now) / DAY_MS);
+  let status: CertStatus | null = null;
+  if (start !== null && now < start) status = 'not-yet-valid';
+  else if (end !== null) status = end <= now ? 'expired' : daysLeft! < EXPIRY_WARNING_DAYS ? 'expiring' : 'valid';
+
+  const keyType = valueAt(elements, 'pubkey.type');
+  const keyBits = valueAt(elements, 'pubkey.bits');
+  const sameName = (a: ScriptField[], b: ScriptField[]) =>
+    a.length > 0 && a.length === b.length && a.every((f, i) => f.label === b[i].label && f.value === b[i].value);
+
+  return {
+    subject,
+    issuer,
+    altNames: altNames.split(/,\s*/).map(n => n.trim()).filter(Boolean),
+    notBefore,
+    notAfter,
+    daysLeft,
+    status,
+    selfSigned: sameName(subject, issuer),
+    publicKey: [keyType, keyBits].filter(Boolean).join(' ') || [outputValue(output, 'Public Key type'), outputValue(output, 'Public Key bits')].filter(Boolean).join(' '),
+    signatureAlgorithm: valueAt(elements, 'sig_algo') || outputValue(output, 'Signature Algorithm'),
+    sha1: valueAt(elements, 'sha1') || outputValue(output, 'SHA-1'),
+  };
+}
+
+// ========== ssl-enum-ciphers ==========
+
+export interface CipherRow {
+  name: string;
+  kex: string;
+  strength: string; // A (best) to F
+}
+
+export interface TlsProtocolView {
+  protocol: string;
+  ciphers: CipherRow[];
+  preference: string;
+  warnings: string[];
+  deprecated: boolean;
+}
+
+export interface CipherSuitesView {
+  protocols: TlsProtocolView[];
+  leastStrength: string;
+}
+
+const DEPRECATED_PROTOCOLS = new Set(['SSLv2', 'SSLv3', 'TLSv1.0', 'TLSv1.1']);
+
+// Cipher strengths from best to worst, as ssl-enum-ciphers grades them
+const CIPHER_GRADES = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+export function parseSslEnumCiphers(script: Script): CipherSuitesView | null {
+  const protocols: TlsProtocolView[] = [];
+  for (const table of script.elements) {
+    if (!table.children || !/^(SSL|TLS)v/.test(table.key)) continue;
+    const ciphers = (table.children.find(c => c.key === 'ciphers')?.children ?? []).map(c => ({
+      name: c.children?.find(e => e.key === 'name')?.value ?? '',
+      kex: c.children?.find(e => e.key === 'kex_info')?.value ?? '',
+      strength: c.children?.find(e => e.key === 'strength')?.value ?? '',
+    })).filter(c => c.name);
+    protocols.push({
+      protocol: table.key,
+      ciphers,
+      preference: table.children.find(c => c.key === 'cipher preference')?.value ?? '',
+      warnings: (table.children.find(c => c.key === 'warnings')?.children ?? []).map(w => w.value).filter(Boolean),
+      deprecated: DEPRECATED_PROTOCOLS.has(table.key),
+    });
+  }
+
+  // Text output: "TLSv1.2:", "ciphers:", "TLS_... (ecdh_x25519) - A"
+  if (protocols.length === 0) {
+    let current: TlsProtocolView | null = null;
+    let inWarnings = false;
+    for (const line of script.output.split('\n')) {
+      const text = line.trim();
+      const protocol = text.match(/^((?:SSL|TLS)v[\d.]+):$/);
+      const cipher = text.match(/^(\S+_\S+)(?: \(([^)]*)\))? - ([A-F])$/);
+      if (protocol) {
+        current = { protocol: protocol[1], ciphers: [], preference: '', warnings: [], deprecated: DEPRECATED_PROTOCOLS.has(protocol[1]) };
+        protocols.push(current);
+        inWarnings = false;
+      } else if (current && cipher) {
+        current.ciphers.push({ name: cipher[1], kex: cipher[2] ?? '', strength: cipher[3] });
+      } else if (current && /^cipher preference:/.test(text)) {
+        current.preference = text.replace(/^cipher preference:\s*/, '');
+      } else if (current && text === 'warnings:') {
+        inWarnings = true;
+      } else if (current && inWarnings && text && !/^\w[\w ]*:$/.test(text) && !/^least strength:/.test(text)) {
+        current.warnings.push(text);
+      } else if (/:$/.test(text)) {
+        inWarnings = false;
+      }
+    }
+  }
+  if (protocols.length === 0) return null;
+
+  const strengths = protocols.flatMap(p => p.ciphers.map(c => c.strength)).filter(s => CIPHER_GRADES.includes(s));
+  const leastStrength = valueAt(script.elements, 'least strength')
+    || script.output.match(/least strength:\s*([A-F])/)?.[1]
+    || strengths.sort().pop()
+    || '';
+  return { protocols, leastStrength };
+}
+
+// ========== http-title, http-headers ==========
+
+export interface HttpTitleView {
+  title: string | null;
+  redirect: string;
+  note: string; // e.g. "Site doesn't have a title (text/html)."
+}
+
+export function parseHttpTitle(script: Script): HttpTitleView | null {
+  const title = valueAt(script.elements, 'title');
+  const redirect = valueAt(script.elements, 'redirect_url')
+    || script.output.match(/(?:Requested resource was|Did not follow redirect to) (\S+)/)?.[1]
+    || '';
+  if (title) return { title, redirect, note: '' };
+  const lines = script.output.trim().split('\n').map(l => l.trim()).filter(Boolean);
+  if (lines.length === 0) return null;
+  if (/^Site doesn't have a title/.test(lines[0])) return { title: null, redirect, note: lines[0] };
+  return { title: lines[0], redirect, note: '' };
+}
+
+export interface HttpHeadersView {
+  headers: ScriptField[];
+  requestType: string;
+  missingSecurityHeaders: string[];
+}
+
+const SECURITY_HEADERS = ['Strict-Transport-Security', 'Content-Security-Policy', 'X-Frame-Options', 'X-Content-Type-Options'];
+// Headers that give away software and versions
+const DISCLOSURE_HEADERS = new Set(['server', 'x-powered-by', 'x-aspnet-version', 'x-aspnetmvc-version', 'x-generator']);
+
+export function parseHttpHeaders(script: Script, https = false): HttpHeadersView | null {
+  const lines = script.elements.length > 0 && script.elements.every(e => !e.key && !e.children)
+    ? script.elements.map(e => e.value)
+    : script.output.split('\n');
+  const headers: ScriptField[] = [];
+  let requestType = '';
+  for (const line of lines) {
+    const request = line.match(/\(Request type: (\w+)\)/);
+    const header = line.match(/^\s*([\w-]+):\s?(.*)$/);
+    if (request) requestType = request[1];
+    else if (header) headers.push({ label: header[1], value: header[2].trim(), warn: DISCLOSURE_HEADERS.has(header[1].toLowerCase()) });
+  }
+  if (headers.length === 0) return null;
+
+  const present = new Set(headers.map(h => h.label.toLowerCase()));
+  const missingSecurityHeaders = SECURITY_HEADERS
+    .filter(h => https || h !== 'Strict-Transport-Security')
+    .filter(h => !present.has(h.toLowerCase()));
+  return { headers, requestType, missingSecurityHeaders };
+}
+
+// ========== ssh-hostkey ==========
+
+export interface HostKeyRow {
+  type: string;
+  bits: number | null;
+  fingerprint: string; // MD5, colon-separated
+  weak: boolean;
+}
+
+const KEY_TYPE_NAMES: Record<string, string> = {
+  'ssh-rsa': 'RSA', 'ssh-dss': 'DSA', 'ssh-ed25519': 'ED25519',
+  'ecdsa-sha2-nistp256': 'ECDSA', 'ecdsa-sha2-nistp384': 'ECDSA', 'ecdsa-sha2-nistp521': 'ECDSA',
+};
+
+function formatFingerprint(hex: string): string {
+  return /^[\da-f]{32}$/i.test(hex) ? hex.toLowerCase().match(/../g)!.join(':') : hex;
+}
+
+// DSA keys and RSA keys under 2048 bits are weak
+function isWeakKey(type: string, bits: number | null): boolean {
+  return type === 'DSA' || (type === 'RSA' && bits !== null && bits < 2048);
+}
+
+export function parseSshHostKeys(script: Script): HostKeyRow[] | null {
+  const rows: HostKeyRow[] = script.elements
+    .filter(t => t.children?.some(c => c.key === 'fingerprint' || c.key === 'type'))
+    .map(t => {
+      const get = (key: string) => t.children!.find(c => c.key === key)?.value ?? '';
+      const type = KEY_TYPE_NAMES[get('type')] || get('type');
+      const bits = parseInt(get('bits'), 10);
+      return { type, bits: Number.isNaN(bits) ? null : bits, fingerprint: formatFingerprint(get('fingerprint')), weak: false };
+    });
+
+  // Text output: "2048 aa:bb:...:ff (RSA)"
+  if (rows.length === 0) {
+    for (const m of script.output.matchAll(/^\s*(\d+) ([\da-f:]+) \(([^)]+)\)\s*$/gim)) {
+      rows.push({ type: m[3], bits: Number(m[1]), fingerprint: m[2], weak: false });
+    }
+  }
+  for (const row of rows) row.weak = isWeakKey(row.type, row.bits);
+  return rows.length > 0 ? rows : null;
+}
+
+// ========== smb2-security-mode ==========
+
+export interface SmbSigningRow {
+  dialect: string;
+  message: string;
+  warn: boolean; // signing not required allows relaying
+}
+
+export function parseSmb2SecurityMode(script: Script): SmbSigningRow[] | null {
+  const rows: SmbSigningRow[] = script.elements
+    .filter(t => t.children && t.children.length > 0)
+    .map(t => ({ dialect: t.key, message: elementText(t), warn: false }));
+  if (rows.length === 0) {
+    // "  3:1:1: " followed by an indented message
+    let dialect = '';
+    for (const line of script.output.split('\n')) {
+      const header = line.match(/^\s*(\d[\d.:]*\d):\s*$/);
+      if (header) dialect = header[1];
+      else if (dialect && line.trim()) {
+        rows.push({ dialect, message: line.trim(), warn: false });
+        dialect = '';
+      }
+    }
+  }
+  for (const row of rows) row.warn = /not required|disabled/i.test(row.message);
+  return rows.length > 0 ? rows : null;
+}
+
+// ========== Key/value scripts ==========
+
+// Element keys and labels, in display order
+const FIELD_LABELS: Record<string, Array<[string, string]>> = {
+  'smb-os-discovery': [
+    ['os', 'OS'], ['lanmanager', 'LAN Manager'], ['server', 'NetBIOS computer name'], ['workgroup', 'Workgroup'],
+    ['fqdn', 'FQDN'], ['domain_dns', 'Domain'], ['forest_dns', 'Forest'], ['date', 'System time'], ['cpe', 'CPE'],
+  ],
+  'rdp-ntlm-info': [
+    ['Target_Name', 'Target name'], ['NetBIOS_Computer_Name', 'NetBIOS computer name'], ['NetBIOS_Domain_Name', 'NetBIOS domain name'],
+    ['DNS_Computer_Name', 'DNS computer name'], ['DNS_Domain_Name', 'DNS domain name'], ['DNS_Tree_Name', 'DNS tree name'],
+    ['Product_Version', 'Product version'], ['System_Time', 'System time'],
+  ],
+  'dns-nsid': [['NSID', 'NSID'], ['id.server', 'id.server'], ['bind.version', 'bind.version']],
+};
+
+// Labelled values of scripts whose output is a flat list of keys and values
+export function getScriptFields(script: Script): ScriptField[] | null {
+  const labels = FIELD_LABELS[script.id];
+  if (!labels) return null;
+  const fields = labels
+    .map(([key, label]) => {
+      const el = script.elements.find(e => e.key === key);
+      return { label, value: el ? elementText(el).trim() : '' };
+    })
+    .filter(f => f.value);
+  if (fields.length > 0) return fields;
+  // Text output uses the element keys as labels
+  const labelled = outputFields(script.output).map(f => ({ ...f, label: labels.find(([key]) => key === f.label)?.[1] ?? f.label }));
+  return labelled.length > 0 ? labelled : null;
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { buildSearchIndex, findCandidates, createIndexedTextMatcher, getMatchSnippets, splitHighlights } from './searchIndex';
+import { applySearch } from './filterEngine';
+import type { NmapHost, Port } from '../types/nmap';
+
+function makePort(portid: number, name: string, product: string, scripts: { id: string; output: string }[] = []): Port {
+  return {
+    protocol: 'tcp', portid,
+    state: { state: 'open', reason: 'syn-ack', reason_ttl: 64 },
+    service: { name, product, method: 'probed', conf: 10, cpes: [] },
+    scripts: scripts.map(s => ({ ...s, elements: [] })),
+  };
+}
+
+function makeHost(id: string, ip: string, hostname: string, ports: Port[], hostscripts: { id: string; output: string }[] = []): NmapHost {
+  return {
+    id, starttime: 0, endtime: 0,
+    status: { state: 'up', reason: 'syn-ack', reason_ttl: 64 },
+    addresses: [{ addr: ip, addrtype: 'ipv4' }],
+    hostnames: hostname ? [{ name: hostname, type: 'PTR' }] : [],
+    ports,
+    os: { osmatch: [], osfingerprint: [], portused: [] },
+    uptime: null, distance: null, tcpsequence: null, ipidsequence: null, tcptssequence: null, times: null, trace: null,
+    hostscripts: hostscripts.map(s => ({ ...s, elements: [] })),
+    smurfs: [],
+    ip, ipv6: '', mac: '', hostname, mainOS: '',
+    openPortCount: ports.length, closedPortCount: 0, filteredPortCount: 0,
+  };
+}
+
+const hosts = [
+  makeHost('web', '10.0.0.1', 'web.corp.local', [
+    makePort(80, 'http', 'nginx', [{ id: 'http-title', output: 'Welcome to the Intranet Portal' }]),
+    makePort(443, 'https', 'nginx', [{ id: 'ssl-cert', output: 'Subject: commonName=portal.corp.local\nIssuer: commonName=Corp Root CA' }]),
+  ]),
+  makeHost('dc', '10.0.0.2', 'dc01.corp.local', [makePort(445, 'microsoft-ds', 'Microsoft Windows')], [
+    { id: 'smb-os-discovery', output: 'OS: Windows Server 2019 Standard 17763\nComputer name: DC01' },
+  ]),
+  makeHost('ssh', '10.0.1.5', '', [makePort(22, 'ssh', 'OpenSSH', [{ id: 'ssh-hostkey', output: '2048 aa:bb:cc (RSA)' }])]),
+];
+const index = buildSearchIndex(hosts);
+const matcher = createIndexedTextMatcher(index);
+
+describe('indexed search', () => {
+  it.each([
+    'nginx', 'intranet portal', 'corp.local', '10.0.0', 'windows server 2019', 'openss', 'aa:bb', '(rsa)',
+    'ssl-cert', 'r', '.', 'no such text', 'Root CA', '445',
+  ])('agrees with the linear search for %j', (query) => {
+    const indexed = applySearch(hosts, query, matcher).map(h => h.id);
+    expect(indexed).toEqual(applySearch(hosts, query).map(h => h.id));
+  });
+
+  it('narrows candidates to hosts holding every query word', () => {
+    expect(findCandidates(index, 'windows server')).toEqual(new Set([1]));
+    expect(findCandidates(index, 'openss')).toEqual(new Set([2]));
+    expect(findCandidates(index, 'missing')).toEqual(new Set());
+  });
+
+  it('gives up narrowing on words most hosts contain', () => {
+    expect(findCandidates(index, 'corp')).toBeNull();
+    expect(findCandidates(index, 'corp 2019')).toEqual(new Set([1]));
+  });
+});
+
+describe('createIndexedTextMatcher', () => {
+  it('only matches a narrowed host on the ports it still has', () => {
+    const narrowed = { ...hosts[0], ports: [hosts[0].ports[1]] };
+    expect(matcher(narrowed, 'welcome')).toBe(false);
+    expect(matcher(narrowed, 'root ca')).toBe(true);
+    expect(matcher(narrowed, 'web.corp')).toBe(true);
+  });
+});
+
+describe('getMatchSnippets', () => {
+  it('shows context around the first occurrence in each matching field', () => {
+    const [snippet] = getMatchSnippets(hosts[1], ['server'], 3, 8);
+    expect(snippet).toEqual({
+      label: 'smb-os-discovery', port: undefined,
+      before: '…Windows ', match: 'Server', after: ' 2019 St…',
+    });
+  });
+
+  it('respects the limit', () => {
+    expect(getMatchSnippets(hosts[0], ['corp'], 2)).toHaveLength(2);
+    expect(getMatchSnippets(hosts[0], ['nothing'])).toEqual([]);
+  });
+
+  it('labels port fields with their port', () => {
+    expect(getMatchSnippets(hosts[0], ['intranet']).map(s => [s.port, s.label])).toEqual([['80/tcp', 'http-title']]);
+  });
+});
+
+describe('splitHighlights', () => {
+  it('marks every occurrence of every term, case-insensitively', () => {
+    expect(splitHighlights('Corp Root CA for corp', ['corp', 'root'])).toEqual([
+      { text: 'Corp', match: true },
+      { text: ' ', match: false },
+      { text: 'Root', match: true },
+      { text: ' CA for ', match: false },
+      { text: 'corp', match: true },
+    ]);
+  });
+
+  it('returns the text unchanged without terms', () => {
+    expect(splitHighlights('abc', [])).toEqual([{ text: 'abc', match: false }]);
+  });
+});
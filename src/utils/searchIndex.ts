@@ -0,0 +1,229 @@
+import type { NmapHost } from '../types/nmap';
+import { hostMatchesText } from './filterEngine';
+
+// Inverted index for full-text search. Built once per loaded scan, it maps
+// every alphanumeric term to the hosts containing it. A query is split the
+// same way; each query word narrows the candidates to hosts holding a term
+// that contains it, and only those candidates get the full substring test,
+// so results are exactly those of the linear search.
+
+export interface SearchIndex {
+  hostCount: number;
+  hostIndex: Map<string, number>; // host id -> position
+  postings: Map<string, number[]>; // term -> host positions, ascending
+  terms: string[]; // vocabulary, scanned for substring matches of query words
+}
+
+export interface SearchSnippet {
+  label: string; // e.g. "hostname", "product", "http-title"
+  port?: string; // "80/tcp" for port fields and port scripts
+  before: string;
+  match: string;
+  after: string;
+}
+
+interface TextField {
+  label: string;
+  port?: string;
+  text: string;
+}
+
+const TERM_SPLIT = /[^a-z0-9]+/;
+// Query words shorter than this only narrow the search when nothing longer is given
+const MIN_QUERY_WORD = 2;
+// A word found in more than this share of hosts doesn't narrow enough to be worth a lookup
+const MAX_WORD_SHARE = 0.5;
+
+// The same fields the linear search looks at, in display order
+function collectFields(host: NmapHost): TextField[] {
+  const out: TextField[] = [];
+  const add = (label: string, text: string | undefined, port?: string) => {
+    if (text) out.push({ label, text, port });
+  };
+
+  add('ip', host.ip);
+  add('ipv6', host.ipv6);
+  add('mac', host.mac);
+  add('hostname', host.hostname);
+  add('os', host.mainOS);
+  add('status', host.status.state);
+  for (const hn of host.hostnames) add('hostname', hn.name);
+  for (const addr of host.addresses) {
+    add('address', addr.addr);
+    add('vendor', addr.vendor);
+  }
+  for (const port of host.ports) {
+    const key = `${port.portid}/${port.protocol}`;
+    add('port', String(port.portid), key);
+    add('service', port.service?.name, key);
+    add('product', port.service?.product, key);
+    add('version', port.service?.version, key);
+    add('extra info', port.service?.extrainfo, key);
+  }
+  for (const script of host.hostscripts) {
+    add('script', script.id);
+    add(script.id, script.output);
+  }
+  for (const port of host.ports) {
+    const key = `${port.portid}/${port.protocol}`;
+    for (const script of port.scripts) {
+      add('script', script.id, key);
+      add(script.id, script.output, key);
+    }
+  }
+  return out;
+}
+
+/**
+ * Index the searchable text of every host: addresses, names, OS, port and
+ * service details, and script ids and output.
+ */
+export function buildSearchIndex(hosts: NmapHost[]): SearchIndex {
+  const hostIndex = new Map<string, number>();
+  const postings = new Map<string, number[]>();
+
+  hosts.forEach((host, pos) => {
+    hostIndex.set(host.id, pos);
+    for (const field of collectFields(host)) {
+      for (const term of field.text.toLowerCase().split(TERM_SPLIT)) {
+        if (!term) continue;
+        const list = postings.get(term);
+        if (!list) postings.set(term, [pos]);
+        else if (list[list.length - 1] !== pos) list.push(pos);
+      }
+    }
+  });
+
+  return { hostCount: hosts.length, hostIndex, postings, terms: [...postings.keys()] };
+}
+
+// Hosts holding a term that contains the word, or null when too many do to narrow anything
+function hostsWithWord(index: SearchIndex, word: string): Set<number> | null {
+  const lists: number[][] = [];
+  let total = 0;
+  for (const term of index.terms) {
+    if (!term.includes(word)) continue;
+    const list = index.postings.get(term)!;
+    lists.push(list);
+    // Summed lengths bound the union from above, which is enough to give up early
+    total += list.length;
+    if (total > index.hostCount * MAX_WORD_SHARE) return null;
+  }
+  const result = new Set<number>();
+  for (const list of lists) {
+    for (const pos of list) result.add(pos);
+  }
+  return result;
+}
+
+/**
+ * Positions of the hosts that may contain the query, or null when the index
+ * can't narrow it down (every host has to be checked).
+ */
+export function findCandidates(index: SearchIndex, query: string): Set<number> | null {
+  const words = query.toLowerCase().split(TERM_SPLIT).filter(Boolean);
+  const useful = words.filter(w => w.length >= MIN_QUERY_WORD);
+
+  let candidates: Set<number> | null = null;
+  for (const word of useful.length > 0 ? useful : words) {
+    const found = hostsWithWord(index, word);
+    if (!found) continue;
+    if (!candidates) {
+      candidates = found;
+    } else {
+      const prev: Set<number> = candidates;
+      candidates = new Set([...found].filter(pos => prev.has(pos)));
+    }
+    if (candidates.size === 0) break;
+  }
+  return candidates;
+}
+
+/**
+ * Text matcher backed by the index, for applyFilters/applySearch. Candidate
+ * sets are cached per query, so a query costs one index lookup plus a
+ * substring test on the candidate hosts only.
+ */
+export function createIndexedTextMatcher(index: SearchIndex): (host: NmapHost, q: string) => boolean {
+  const cache = new Map<string, Set<number> | null>();
+
+  return (host, q) => {
+    let candidates = cache.get(q);
+    if (candidates === undefined) {
+      candidates = findCandidates(index, q);
+      if (cache.size >= 32) cache.clear();
+      cache.set(q, candidates);
+    }
+    if (candidates) {
+      const pos = index.hostIndex.get(host.id);
+      if (pos === undefined || !candidates.has(pos)) return false;
+    }
+    return hostMatchesText(host, q);
+  };
+}
+
+function flatten(text: string): string {
+  return text.replace(/\s+/g, ' ');
+}
+
+/**
+ * Where the search terms occur in a host, as short snippets around the
+ * first occurrence in each matching field.
+ */
+export function getMatchSnippets(host: NmapHost, terms: string[], limit = 3, context = 40): SearchSnippet[] {
+  const lowered = terms.map(t => t.toLowerCase().trim()).filter(Boolean);
+  const snippets: SearchSnippet[] = [];
+  if (lowered.length === 0) return snippets;
+
+  for (const field of collectFields(host)) {
+    const lower = field.text.toLowerCase();
+    const term = lowered.find(t => lower.includes(t));
+    if (!term) continue;
+    const at = lower.indexOf(term);
+    const start = Math.max(0, at - context);
+    const end = Math.min(field.text.length, at + term.length + context);
+    snippets.push({
+      label: field.label,
+      port: field.port,
+      before: (start > 0 ? '…' : '') + flatten(field.text.slice(start, at)),
+      match: field.text.slice(at, at + term.length),
+      after: flatten(field.text.slice(at + term.length, end)) + (end < field.text.length ? '…' : ''),
+    });
+    if (snippets.length >= limit) break;
+  }
+  return snippets;
+}
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split text into alternating plain and matching segments for highlighting.
+ */
+export function splitHighlights(text: string, terms: string[]): TextSegment[] {
+  const lowered = terms.map(t => t.toLowerCase().trim()).filter(Boolean);
+  if (lowered.length === 0 || !text) return [{ text, match: false }];
+
+  const lower = text.toLowerCase();
+  const segments: TextSegment[] = [];
+  let pos = 0;
+  while (pos < text.length) {
+    let next = -1;
+    let length = 0;
+    for (const term of lowered) {
+      const at = lower.indexOf(term, pos);
+      if (at >= 0 && (next < 0 || at < next || (at === next && term.length > length))) {
+        next = at;
+        length = term.length;
+      }
+    }
+    if (next < 0) break;
+    if (next > pos) segments.push({ text: text.slice(pos, next), match: false });
+    segments.push({ text: text.slice(next, next + length), match: true });
+    pos = next + length;
+  }
+  if (pos < text.length) segments.push({ text: text.slice(pos), match: false });
+  return segments;
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { exportProjectFile, importProjectFile, generateProjectId } from './storage';
+import { exportProjectFile, importProjectFile, generateProjectId, exportFilterPresets, importFilterPresets } from './storage';
+import type { FilterPreset } from '../types/nmap';
 
 describe('exportProjectFile', () => {
   it('produces valid JSON with magic header', () => {
@@ -11,6 +12,7 @@ describe('exportProjectFile', () => {
     expect(parsed.scanFileName).toBe('scan.xml');
     expect(parsed.notes).toEqual([]);
     expect(parsed.mergedScans).toEqual([]);
+    expect(parsed.diffs).toEqual([]);
     expect(typeof parsed.exportedAt).toBe('number');
   });
 
@@ -140,6 +142,63 @@ describe('importProjectFile', () => {
     const imported = importProjectFile(JSON.stringify(data));
     expect(imported.mergedScans).toEqual([]);
   });
+
+  it('keeps valid merge settings of merged scans and drops invalid ones', () => {
+    const merge = {
+      strategies: { state: 'most_open', service: 'newest', scripts: 'union' },
+      resolutions: { '10.0.0.1 80/tcp state': 'existing' },
+    };
+    const exported = exportProjectFile('data', 'file.xml', [], [
+      { fileName: 'second.xml', content: '<xml/>', merge: merge as any },
+      { fileName: 'third.xml', content: '<xml/>', merge: { strategies: { state: 'random' }, resolutions: {} } as any },
+    ]);
+    const imported = importProjectFile(exported);
+    expect(imported.mergedScans[0].merge).toEqual(merge);
+    expect(imported.mergedScans[1]).toEqual({ fileName: 'third.xml', content: '<xml/>' });
+  });
+});
+
+describe('saved diffs in project files', () => {
+  const diff = {
+    id: 'diff-1', name: 'Weekly', createdAt: 1000,
+    base: { fileName: 'a.xml', start: 1, args: 'nmap' },
+    compare: { fileName: 'b.xml', start: 2, args: 'nmap' },
+    summary: { added: 1, removed: 0, changed: 0, unchanged: 0 },
+    hosts: [{ ip: '10.0.0.1', hostname: '', status: 'added' as const, changes: [], portChanges: [], baseOpenPorts: null, compareOpenPorts: 1 }],
+  };
+
+  it('round-trips diffs and drops invalid ones', () => {
+    const exported = exportProjectFile('data', 'file.xml', [], [], [diff, { ...diff, id: 'bad', summary: null } as any]);
+    const imported = importProjectFile(exported);
+    expect(imported.diffs).toEqual([diff]);
+  });
+
+  it('defaults diffs to empty array if missing', () => {
+    const imported = importProjectFile(JSON.stringify({ magic: 'NMAPUI_PROJECT', version: 1, scanData: 'data', scanFileName: 'a.xml' }));
+    expect(imported.diffs).toEqual([]);
+  });
+});
+
+describe('Hosts columns in project files', () => {
+  it('round-trips the column set and drops unknown columns', () => {
+    const hostColumns = {
+      columns: ['ip', 'no-such-field', 'open:443', 'services'],
+      custom: [{ expression: 'open:443', label: 'HTTPS' }, { expression: 'bogus', label: 'Bad' }],
+      widths: { ip: 200, 'open:443': -5 },
+    };
+    const imported = importProjectFile(exportProjectFile('data', 'file.xml', [], [], [], hostColumns));
+    expect(imported.hostColumns).toEqual({
+      columns: ['ip', 'open:443', 'services'],
+      custom: [{ expression: 'open:443', label: 'HTTPS' }],
+      widths: { ip: 200 },
+    });
+  });
+
+  it('leaves the column set unset when missing or invalid', () => {
+    const base = { magic: 'NMAPUI_PROJECT', version: 1, scanData: 'data', scanFileName: 'a.xml' };
+    expect(importProjectFile(JSON.stringify(base)).hostColumns).toBeUndefined();
+    expect(importProjectFile(JSON.stringify({ ...base, hostColumns: { columns: 'ip' } })).hostColumns).toBeUndefined();
+  });
 });
 
 describe('generateProjectId', () => {
@@ -160,3 +219,45 @@ describe('generateProjectId', () => {
     expect(id).toMatch(/^proj-/);
   });
 });
+
+describe('filter preset files', () => {
+  const preset: FilterPreset = {
+    id: 'preset-1',
+    name: 'Web servers',
+    group: {
+      id: 'root', logic: 'AND',
+      rules: [{ id: 'r1', field: 'ports', operator: 'has', value: '443', enabled: true }],
+      groups: [{ id: 'g1', logic: 'OR', rules: [{ id: 'r2', field: 'os', operator: 'contains', value: 'linux', enabled: true, negate: true }] }],
+    },
+    showOnDashboard: true,
+    createdAt: 1000,
+    updatedAt: 2000,
+  };
+
+  it('round-trips presets with nested groups', () => {
+    const exported = exportFilterPresets([preset]);
+    expect(JSON.parse(exported).magic).toBe('NMAPUI_FILTER_PRESETS');
+    expect(importFilterPresets(exported)).toEqual([preset]);
+  });
+
+  it('throws on invalid JSON or a missing signature', () => {
+    expect(() => importFilterPresets('nope')).toThrow('not valid JSON');
+    expect(() => importFilterPresets(JSON.stringify({ presets: [] }))).toThrow('missing NmapUI signature');
+    expect(() => importFilterPresets(JSON.stringify({ magic: 'NMAPUI_FILTER_PRESETS' }))).toThrow('missing presets');
+  });
+
+  it('drops structurally invalid presets', () => {
+    const badRule = { ...preset, id: 'bad1', group: { ...preset.group, rules: [{ id: 'x', field: 'ip' }] } };
+    const badNested = { ...preset, id: 'bad2', group: { ...preset.group, groups: [{ id: 'g', logic: 'XOR', rules: [] }] } };
+    const noName = { ...preset, id: 'bad3', name: '  ' };
+    const file = JSON.stringify({ magic: 'NMAPUI_FILTER_PRESETS', version: 1, presets: [preset, badRule, badNested, noName, null] });
+    expect(importFilterPresets(file).map(p => p.id)).toEqual(['preset-1']);
+  });
+
+  it('fills in defaults for optional fields', () => {
+    const { showOnDashboard: _, createdAt: __, ...minimal } = preset;
+    const [imported] = importFilterPresets(JSON.stringify({ magic: 'NMAPUI_FILTER_PRESETS', presets: [minimal] }));
+    expect(imported.showOnDashboard).toBe(false);
+    expect(typeof imported.createdAt).toBe('number');
+  });
+});
@@ -1,10 +1,20 @@
-import type { Note, SavedProject } from '../types/nmap';
+import type { Note, SavedProject, FilterGroup, FilterPreset, EngagementScope, MergedScanFile, MergeOptions, ScanDiff, HostColumnSettings, ScanProfile, NseScript } from '../types/nmap';
+import { isValidScanDiff } from './scanDiff';
+import { normalizeHostColumnSettings } from './hostColumns';
+import { normalizeScanProfile } from './scanProfiles';
+import { normalizeNseScript } from './scriptCatalog';
 
 const DB_NAME = 'nmapui';
-const DB_VERSION = 1;
+const DB_VERSION = 7;
 
 const STORE_PROJECTS = 'projects';
 const STORE_NOTES = 'notes';
+const STORE_FILTER_PRESETS = 'filterPresets';
+const STORE_SCOPES = 'scopes';
+const STORE_DIFFS = 'diffs';
+const STORE_HOST_COLUMNS = 'hostColumns';
+const STORE_SCAN_PROFILES = 'scanProfiles';
+const STORE_SCRIPT_CATALOG = 'scriptCatalog';
 
 // Cache the database connection to avoid opening a new one per operation
 let cachedDb: IDBDatabase | null = null;
@@ -23,6 +33,25 @@ function openDB(): Promise<IDBDatabase> {
         const noteStore = db.createObjectStore(STORE_NOTES, { keyPath: 'id' });
         noteStore.createIndex('projectId', 'projectId', { unique: false });
       }
+      if (!db.objectStoreNames.contains(STORE_FILTER_PRESETS)) {
+        db.createObjectStore(STORE_FILTER_PRESETS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORE_SCOPES)) {
+        db.createObjectStore(STORE_SCOPES, { keyPath: 'projectId' });
+      }
+      if (!db.objectStoreNames.contains(STORE_DIFFS)) {
+        const diffStore = db.createObjectStore(STORE_DIFFS, { keyPath: 'id' });
+        diffStore.createIndex('projectId', 'projectId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORE_HOST_COLUMNS)) {
+        db.createObjectStore(STORE_HOST_COLUMNS, { keyPath: 'projectId' });
+      }
+      if (!db.objectStoreNames.contains(STORE_SCAN_PROFILES)) {
+        db.createObjectStore(STORE_SCAN_PROFILES, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORE_SCRIPT_CATALOG)) {
+        db.createObjectStore(STORE_SCRIPT_CATALOG, { keyPath: 'id' });
+      }
     };
 
     request.onsuccess = () => {
@@ -115,33 +144,145 @@ export async function listProjects(): Promise<SavedProject[]> {
 
 export async function deleteProject(id: string): Promise<void> {
   const db = await openDB();
-  const tx = db.transaction([STORE_PROJECTS, STORE_NOTES], 'readwrite');
+  const tx = db.transaction([STORE_PROJECTS, STORE_NOTES, STORE_SCOPES, STORE_DIFFS, STORE_HOST_COLUMNS], 'readwrite');
 
-  // Delete project
+  // Delete project, its engagement scope and its Hosts columns
   tx.objectStore(STORE_PROJECTS).delete(id);
+  tx.objectStore(STORE_SCOPES).delete(id);
+  tx.objectStore(STORE_HOST_COLUMNS).delete(id);
 
-  // Delete associated notes
-  const noteStore = tx.objectStore(STORE_NOTES);
-  const index = noteStore.index('projectId');
-  const getReq = index.getAllKeys(id);
-
-  await new Promise<void>((resolve, reject) => {
+  // Delete associated notes and saved diffs
+  for (const storeName of [STORE_NOTES, STORE_DIFFS]) {
+    const store = tx.objectStore(storeName);
+    const getReq = store.index('projectId').getAllKeys(id);
     getReq.onsuccess = () => {
       for (const key of getReq.result) {
-        noteStore.delete(key);
+        store.delete(key);
       }
-      tx.oncomplete = () => resolve();
-      tx.onerror = () => reject(tx.error);
     };
-    getReq.onerror = () => reject(getReq.error);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
   });
 }
 
+// ========== Engagement Scope (keyed by project ID) ==========
+
+export async function saveScope(projectId: string, scope: EngagementScope): Promise<void> {
+  await txOp(STORE_SCOPES, 'readwrite', store => store.put({ ...scope, projectId }));
+}
+
+export async function loadScope(projectId: string): Promise<EngagementScope | null> {
+  const stored = await txOp<(EngagementScope & { projectId: string }) | undefined>(
+    STORE_SCOPES, 'readonly', store => store.get(projectId)
+  );
+  if (!stored) return null;
+  const excludedCategories = Array.isArray(stored.excludedCategories)
+    ? stored.excludedCategories.filter(c => typeof c === 'string')
+    : [];
+  return { include: stored.include, exclude: stored.exclude, excludedCategories };
+}
+
+// ========== Hosts Table Columns (keyed by project ID) ==========
+
+export async function saveHostColumns(projectId: string, settings: HostColumnSettings): Promise<void> {
+  await txOp(STORE_HOST_COLUMNS, 'readwrite', store => store.put({ ...settings, projectId }));
+}
+
+export async function loadHostColumns(projectId: string): Promise<HostColumnSettings | null> {
+  const stored = await txOp<(HostColumnSettings & { projectId: string }) | undefined>(
+    STORE_HOST_COLUMNS, 'readonly', store => store.get(projectId)
+  );
+  return stored ? normalizeHostColumnSettings(stored) : null;
+}
+
+// ========== Scan Diffs (keyed by project ID index) ==========
+
+export async function saveDiff(projectId: string, diff: ScanDiff): Promise<void> {
+  await txOp(STORE_DIFFS, 'readwrite', store => store.put({ ...diff, projectId }));
+}
+
+export async function loadDiffs(projectId: string): Promise<ScanDiff[]> {
+  const stored = await txOp<(ScanDiff & { projectId: string })[]>(
+    STORE_DIFFS, 'readonly', store => store.index('projectId').getAll(projectId)
+  );
+  return stored
+    .map(({ projectId: _, ...diff }) => diff)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteDiff(id: string): Promise<void> {
+  await txOp(STORE_DIFFS, 'readwrite', store => store.delete(id));
+}
+
+// ========== Filter Presets (shared across projects) ==========
+
+export async function saveFilterPreset(preset: FilterPreset): Promise<void> {
+  await txOp(STORE_FILTER_PRESETS, 'readwrite', store => store.put(preset));
+}
+
+export async function listFilterPresets(): Promise<FilterPreset[]> {
+  const presets = await txOp<FilterPreset[]>(STORE_FILTER_PRESETS, 'readonly', store => store.getAll());
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function deleteFilterPreset(id: string): Promise<void> {
+  await txOp(STORE_FILTER_PRESETS, 'readwrite', store => store.delete(id));
+}
+
+// ========== Scan Profiles (shared across projects) ==========
+
+export async function saveScanProfile(profile: ScanProfile): Promise<void> {
+  await txOp(STORE_SCAN_PROFILES, 'readwrite', store => store.put(profile));
+}
+
+// Profiles that no longer pass validation are left out
+export async function listScanProfiles(): Promise<ScanProfile[]> {
+  const stored = await txOp<any[]>(STORE_SCAN_PROFILES, 'readonly', store => store.getAll());
+  return stored
+    .map(normalizeScanProfile)
+    .filter((p): p is ScanProfile => p !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function deleteScanProfile(id: string): Promise<void> {
+  await txOp(STORE_SCAN_PROFILES, 'readwrite', store => store.delete(id));
+}
+
+// ========== Script Catalog (shared across projects) ==========
+
+// Replace the imported catalog in one transaction
+export async function saveScriptCatalog(scripts: NseScript[]): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction(STORE_SCRIPT_CATALOG, 'readwrite');
+  const store = tx.objectStore(STORE_SCRIPT_CATALOG);
+  store.clear();
+  for (const script of scripts) store.put(script);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function listScriptCatalog(): Promise<NseScript[]> {
+  const stored = await txOp<any[]>(STORE_SCRIPT_CATALOG, 'readonly', store => store.getAll());
+  return stored.map(normalizeNseScript).filter((s): s is NseScript => s !== null);
+}
+
+export async function clearScriptCatalog(): Promise<void> {
+  await txOp(STORE_SCRIPT_CATALOG, 'readwrite', store => store.clear());
+}
+
 // ========== Portable Project File (.nmapui) ==========
 
 const PROJECT_FILE_VERSION = 1;
 const PROJECT_FILE_MAGIC = 'NMAPUI_PROJECT';
 
+// Project files, plain and encrypted
+export const PROJECT_FILE_EXTENSIONS = ['nmapui', 'enc'];
+
 export interface NmapUIProjectFile {
   magic: typeof PROJECT_FILE_MAGIC;
   version: number;
@@ -149,7 +290,9 @@ export interface NmapUIProjectFile {
   scanFileName: string;
   scanData: string;
   notes: Note[];
-  mergedScans: { fileName: string; content: string }[];
+  mergedScans: MergedScanFile[];
+  diffs: ScanDiff[];
+  hostColumns?: HostColumnSettings;
 }
 
 /**
@@ -160,7 +303,9 @@ export function exportProjectFile(
   scanData: string,
   scanFileName: string,
   notes: Note[],
-  mergedScans: { fileName: string; content: string }[] = []
+  mergedScans: MergedScanFile[] = [],
+  diffs: ScanDiff[] = [],
+  hostColumns?: HostColumnSettings
 ): string {
   const project: NmapUIProjectFile = {
     magic: PROJECT_FILE_MAGIC,
@@ -170,10 +315,27 @@ export function exportProjectFile(
     scanData,
     notes,
     mergedScans,
+    diffs,
+    hostColumns,
   };
   return JSON.stringify(project);
 }
 
+const MERGE_STRATEGY_VALUES = {
+  state: ['newest', 'existing', 'most_open'],
+  service: ['highest_confidence', 'newest', 'existing'],
+  scripts: ['union', 'newest', 'existing'],
+};
+
+function isValidMergeOptions(m: any): m is MergeOptions {
+  return !!m && !!m.strategies &&
+    MERGE_STRATEGY_VALUES.state.includes(m.strategies.state) &&
+    MERGE_STRATEGY_VALUES.service.includes(m.strategies.service) &&
+    MERGE_STRATEGY_VALUES.scripts.includes(m.strategies.scripts) &&
+    !!m.resolutions && typeof m.resolutions === 'object' &&
+    Object.values(m.resolutions).every(r => r === 'existing' || r === 'incoming' || r === 'both');
+}
+
 /**
  * Import a .nmapui project file. Returns the parsed project data
  * or throws an error if the file is invalid.
@@ -212,8 +374,18 @@ export function importProjectFile(content: string): NmapUIProjectFile {
 
   if (!Array.isArray(data.mergedScans)) {
     data.mergedScans = [];
+  } else {
+    data.mergedScans = data.mergedScans
+      .filter((m: any) => m && typeof m.fileName === 'string' && typeof m.content === 'string')
+      // Merge settings that don't validate fall back to the default strategies
+      .map((m: any): MergedScanFile => isValidMergeOptions(m.merge)
+        ? { fileName: m.fileName, content: m.content, merge: m.merge }
+        : { fileName: m.fileName, content: m.content });
   }
 
+  data.diffs = Array.isArray(data.diffs) ? data.diffs.filter(isValidScanDiff) : [];
+  data.hostColumns = normalizeHostColumnSettings(data.hostColumns) ?? undefined;
+
   // Validate remaining fields with safe defaults
   if (typeof data.scanFileName !== 'string') data.scanFileName = 'unknown.xml';
   if (typeof data.exportedAt !== 'number') data.exportedAt = Date.now();
@@ -221,6 +393,77 @@ export function importProjectFile(content: string): NmapUIProjectFile {
   return data as NmapUIProjectFile;
 }
 
+// ========== Filter Preset File ==========
+
+const PRESET_FILE_VERSION = 1;
+const PRESET_FILE_MAGIC = 'NMAPUI_FILTER_PRESETS';
+
+export interface FilterPresetFile {
+  magic: typeof PRESET_FILE_MAGIC;
+  version: number;
+  exportedAt: number;
+  presets: FilterPreset[];
+}
+
+export function exportFilterPresets(presets: FilterPreset[]): string {
+  const file: FilterPresetFile = {
+    magic: PRESET_FILE_MAGIC,
+    version: PRESET_FILE_VERSION,
+    exportedAt: Date.now(),
+    presets,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+function isValidFilterGroup(g: any): g is FilterGroup {
+  return !!g &&
+    typeof g.id === 'string' &&
+    (g.logic === 'AND' || g.logic === 'OR') &&
+    Array.isArray(g.rules) &&
+    g.rules.every((r: any) =>
+      r &&
+      typeof r.id === 'string' &&
+      typeof r.field === 'string' &&
+      typeof r.operator === 'string' &&
+      typeof r.value === 'string' &&
+      typeof r.enabled === 'boolean'
+    ) &&
+    (g.groups === undefined || (Array.isArray(g.groups) && g.groups.every(isValidFilterGroup)));
+}
+
+/**
+ * Import a filter preset file. Structurally invalid presets are dropped;
+ * throws if the file itself is not a preset file.
+ */
+export function importFilterPresets(content: string): FilterPreset[] {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('Invalid filter preset file: not valid JSON');
+  }
+
+  if (!data || data.magic !== PRESET_FILE_MAGIC) {
+    throw new Error('Invalid filter preset file: missing NmapUI signature');
+  }
+
+  if (!Array.isArray(data.presets)) {
+    throw new Error('Invalid filter preset file: missing presets');
+  }
+
+  const now = Date.now();
+  return data.presets
+    .filter((p: any) => p && typeof p.id === 'string' && typeof p.name === 'string' && p.name.trim() && isValidFilterGroup(p.group))
+    .map((p: any): FilterPreset => ({
+      id: p.id,
+      name: p.name.trim(),
+      group: p.group,
+      showOnDashboard: p.showOnDashboard === true,
+      createdAt: typeof p.createdAt === 'number' ? p.createdAt : now,
+      updatedAt: typeof p.updatedAt === 'number' ? p.updatedAt : now,
+    }));
+}
+
 /**
  * Download a file to the user's machine.
  */
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { buildSubnetTree, buildHeatmap, getSubnetFilter, withSubnetFilter } from './subnets';
+import { applyFilters } from './filterEngine';
+import type { NmapHost, FilterGroup } from '../types/nmap';
+
+function host(address: string, state = 'up', openPortCount = 0): NmapHost {
+  const v6 = address.includes(':');
+  return {
+    id: address,
+    ip: v6 ? '' : address,
+    ipv6: v6 ? address : '',
+    status: { state, reason: '' },
+    openPortCount,
+  } as NmapHost;
+}
+
+const HOSTS = [
+  host('10.1.2.30', 'up', 3),
+  host('10.1.2.4', 'down'),
+  host('10.1.3.1', 'up', 12),
+  host('10.200.0.1', 'up', 1),
+  host('192.168.0.1', 'up', 2),
+  host('2001:db8:1:2::10', 'up', 4),
+];
+
+describe('buildSubnetTree', () => {
+  const tree = buildSubnetTree(HOSTS);
+
+  it('nests /8, /16 and /24 networks in address order with counts', () => {
+    expect(tree.map(n => [n.cidr, n.total, n.up, n.openPorts])).toEqual([
+      ['10.0.0.0/8', 4, 3, 16],
+      ['192.0.0.0/8', 1, 1, 2],
+      ['2001:db8::/32', 1, 1, 4],
+    ]);
+    const [ten] = tree;
+    expect(ten.children.map(n => n.cidr)).toEqual(['10.1.0.0/16', '10.200.0.0/16']);
+    expect(ten.children[0].children.map(n => [n.cidr, n.total, n.up])).toEqual([
+      ['10.1.2.0/24', 2, 1],
+      ['10.1.3.0/24', 1, 1],
+    ]);
+  });
+
+  it('lists hosts only at the last level, in numeric order', () => {
+    const slash24 = tree[0].children[0].children[0];
+    expect(slash24.hosts.map(h => h.ip)).toEqual(['10.1.2.4', '10.1.2.30']);
+    expect(tree[0].hosts).toEqual([]);
+    expect(tree[2].children[0].children.map(n => n.cidr)).toEqual(['2001:db8:1:2::/64']);
+  });
+
+  it('draws a /24 heatmap with liveness and exposure', () => {
+    const cells = buildHeatmap(tree[0].children[0].children[0]);
+    expect(cells).toHaveLength(256);
+    expect(cells[30]).toMatchObject({ address: '10.1.2.30', exposure: 2 });
+    expect(cells[4]).toMatchObject({ address: '10.1.2.4', exposure: 0 });
+    expect(cells[4].host!.status.state).toBe('down');
+    expect(cells[5].host).toBeNull();
+    expect(() => buildHeatmap(tree[0])).toThrow('/24');
+  });
+});
+
+describe('subnet filter', () => {
+  const empty: FilterGroup = { id: 'root', logic: 'AND', rules: [] };
+
+  it('limits the filtered hosts to the subnet and can be replaced or cleared', () => {
+    const group = withSubnetFilter(empty, '10.1.0.0/16');
+    expect(getSubnetFilter(group)).toBe('10.1.0.0/16');
+    expect(applyFilters(HOSTS, group).map(h => h.ip)).toEqual(['10.1.2.30', '10.1.2.4', '10.1.3.1']);
+
+    const replaced = withSubnetFilter(group, '10.1.3.0/24');
+    expect(replaced.rules).toHaveLength(1);
+    expect(applyFilters(HOSTS, replaced).map(h => h.ip)).toEqual(['10.1.3.1']);
+
+    expect(getSubnetFilter(withSubnetFilter(replaced, null))).toBeNull();
+  });
+
+  it('keeps the other filters, nesting an OR root under the subnet', () => {
+    const or: FilterGroup = {
+      id: 'root',
+      logic: 'OR',
+      rules: [
+        { id: 'r1', field: 'openPortCount', operator: 'greater_than', value: '10', enabled: true },
+        { id: 'r2', field: 'ip', operator: 'equals', value: '192.168.0.1', enabled: true },
+      ],
+    };
+    const group = withSubnetFilter(or, '10.0.0.0/8');
+    expect(group.logic).toBe('AND');
+    expect(getSubnetFilter(group)).toBe('10.0.0.0/8');
+    expect(applyFilters(HOSTS, group).map(h => h.ip)).toEqual(['10.1.3.1']);
+  });
+});
@@ -0,0 +1,146 @@
+import type { NmapHost, FilterGroup, FilterRule } from '../types/nmap';
+import { getNetwork } from './ipRanges';
+import { newFilterId } from './filterQuery';
+
+// Subnet hierarchy of the scanned hosts (/8 -> /16 -> /24 for IPv4,
+// /32 -> /48 -> /64 for IPv6) and the filter rule that limits the hosts
+// to one subnet.
+
+export interface SubnetNode {
+  cidr: string;
+  version: 4 | 6;
+  prefix: number;
+  total: number; // hosts in the subnet, up or down
+  up: number;
+  openPorts: number;
+  children: SubnetNode[]; // empty at the last level
+  hosts: NmapHost[]; // only at the last level, in address order
+}
+
+export interface HeatmapCell {
+  octet: number;
+  address: string;
+  host: NmapHost | null; // null when the address wasn't scanned
+  exposure: number; // 0 (down or nothing open) to 4
+}
+
+const LEVELS: Record<4 | 6, number[]> = {
+  4: [8, 16, 24],
+  6: [32, 48, 64],
+};
+
+// Id of the root filter rule that subnet navigation owns
+export const SUBNET_RULE_ID = 'subnet';
+
+interface Branch {
+  node: SubnetNode;
+  start: bigint;
+  branches: Map<string, Branch>;
+}
+
+const byStart = (a: { start: bigint }, b: { start: bigint }) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0);
+
+/**
+ * Group hosts into a subnet tree by their primary address. Hosts without a
+ * parseable address are left out. Each level is sorted by network address,
+ * IPv4 before IPv6.
+ */
+export function buildSubnetTree(hosts: NmapHost[]): SubnetNode[] {
+  const roots = new Map<string, Branch>();
+  const leafHosts = new Map<SubnetNode, { start: bigint; host: NmapHost }[]>();
+
+  for (const host of hosts) {
+    const address = host.ip || host.ipv6;
+    const hostNet = address ? getNetwork(address, host.ip ? 32 : 128) : null;
+    if (!hostNet) continue;
+    const up = host.status.state === 'up';
+
+    let level = roots;
+    let leaf: SubnetNode | null = null;
+    for (const prefix of LEVELS[hostNet.version]) {
+      const net = getNetwork(address, prefix)!;
+      let branch = level.get(net.cidr);
+      if (!branch) {
+        branch = {
+          node: { cidr: net.cidr, version: net.version, prefix, total: 0, up: 0, openPorts: 0, children: [], hosts: [] },
+          start: net.start,
+          branches: new Map(),
+        };
+        level.set(net.cidr, branch);
+      }
+      branch.node.total++;
+      if (up) branch.node.up++;
+      branch.node.openPorts += host.openPortCount;
+      leaf = branch.node;
+      level = branch.branches;
+    }
+    const list = leafHosts.get(leaf!) || [];
+    list.push({ start: hostNet.start, host });
+    leafHosts.set(leaf!, list);
+  }
+
+  const finish = (branches: Map<string, Branch>): SubnetNode[] =>
+    [...branches.values()]
+      .sort((a, b) => (a.node.version - b.node.version) || byStart(a, b))
+      .map(({ node, branches: children }) => {
+        node.children = finish(children);
+        node.hosts = (leafHosts.get(node) || []).sort(byStart).map(h => h.host);
+        return node;
+      });
+  return finish(roots);
+}
+
+/**
+ * Exposure level of a host for the heatmap, from its open port count.
+ */
+export function getExposureLevel(host: NmapHost): number {
+  if (host.status.state !== 'up') return 0;
+  const open = host.openPortCount;
+  if (open === 0) return 0;
+  if (open <= 2) return 1;
+  if (open <= 5) return 2;
+  if (open <= 10) return 3;
+  return 4;
+}
+
+/**
+ * The 256 addresses of an IPv4 /24, with the scanned host at each (if any).
+ */
+export function buildHeatmap(subnet: SubnetNode): HeatmapCell[] {
+  if (subnet.version !== 4 || subnet.prefix !== 24) {
+    throw new Error(`Heatmaps are drawn for IPv4 /24 networks, not ${subnet.cidr}`);
+  }
+  const base = subnet.cidr.slice(0, subnet.cidr.lastIndexOf('.') + 1);
+  const byOctet = new Map(subnet.hosts.map(h => [Number(h.ip.slice(h.ip.lastIndexOf('.') + 1)), h]));
+  return Array.from({ length: 256 }, (_, octet) => {
+    const host = byOctet.get(octet) || null;
+    return { octet, address: base + octet, host, exposure: host ? getExposureLevel(host) : 0 };
+  });
+}
+
+// ========== Subnet filter ==========
+
+/**
+ * The subnet the filter is limited to by subnet navigation, if any.
+ */
+export function getSubnetFilter(group: FilterGroup): string | null {
+  const rule = group.rules.find(r => r.id === SUBNET_RULE_ID);
+  return rule && rule.enabled ? rule.value : null;
+}
+
+/**
+ * Limit the filter to a subnet, replacing any earlier subnet, or drop the
+ * limit when cidr is null. Other rules are kept; an OR root is nested under
+ * a new AND root so the subnet still applies to all of it.
+ */
+export function withSubnetFilter(group: FilterGroup, cidr: string | null): FilterGroup {
+  const rules = group.rules.filter(r => r.id !== SUBNET_RULE_ID);
+  if (!cidr) return { ...group, rules };
+
+  const rule: FilterRule = { id: SUBNET_RULE_ID, field: 'ip', operator: 'in_cidr', value: cidr, enabled: true };
+  const rest = { ...group, rules };
+  const hasOthers = rules.length > 0 || (group.groups || []).length > 0;
+  if (!hasOthers) return { id: 'root', logic: 'AND', rules: [rule] };
+  if (group.logic === 'AND' && !group.negate) return { ...rest, rules: [rule, ...rules] };
+  return { id: 'root', logic: 'AND', rules: [rule], groups: [{ ...rest, id: newFilterId('group') }] };
+}
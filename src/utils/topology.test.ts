@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { buildTopology, layoutTopology, getNodeColor, formatEdgeLabel, topologyToDOT, topologyToSVG, SCANNER_ID } from './topology';
+import { parseNmapXML } from '../parser/nmapParser';
+
+const XML = `<?xml version="1.0"?>
+<nmaprun scanner="nmap" args="nmap -A --traceroute 10.0.1.0/24" start="1700000000" version="7.94" xmloutputversion="1.05">
+  <host>
+    <status state="up" reason="syn-ack" reason_ttl="61"/>
+    <address addr="10.0.1.10" addrtype="ipv4"/>
+    <hostnames><hostname name="web.example.com" type="PTR"/></hostnames>
+    <ports>
+      <port protocol="tcp" portid="80"><state state="open" reason="syn-ack" reason_ttl="61"/></port>
+      <port protocol="tcp" portid="443"><state state="open" reason="syn-ack" reason_ttl="61"/></port>
+    </ports>
+    <os><osmatch name="Linux 5.4" accuracy="98"><osclass type="general purpose" vendor="Linux" osfamily="Linux" accuracy="98"/></osmatch></os>
+    <trace port="80" proto="tcp">
+      <hop ttl="1" ipaddr="192.168.1.1" rtt="1.00" host="gw.local"/>
+      <hop ttl="2" ipaddr="172.16.0.1" rtt="4.00"/>
+      <hop ttl="3" ipaddr="10.0.1.10" rtt="10.00"/>
+    </trace>
+  </host>
+  <host>
+    <status state="up" reason="syn-ack" reason_ttl="61"/>
+    <address addr="10.0.1.20" addrtype="ipv4"/>
+    <ports><port protocol="tcp" portid="3389"><state state="open" reason="syn-ack" reason_ttl="125"/></port></ports>
+    <os><osmatch name="Windows Server 2019" accuracy="95"><osclass type="general purpose" vendor="Microsoft" osfamily="Windows" accuracy="95"/></osmatch></os>
+    <trace port="3389" proto="tcp">
+      <hop ttl="1" ipaddr="192.168.1.1" rtt="3.00"/>
+      <hop ttl="4" ipaddr="10.0.1.20" rtt="12.00"/>
+    </trace>
+  </host>
+  <host>
+    <status state="up" reason="syn-ack" reason_ttl="61"/>
+    <address addr="10.0.1.30" addrtype="ipv4"/>
+    <trace port="22" proto="tcp">
+      <hop ttl="2" ipaddr="172.16.0.1" rtt="5.00"/>
+      <hop ttl="1" ipaddr="192.168.1.1" rtt="2.00"/>
+    </trace>
+  </host>
+  <host>
+    <status state="up" reason="arp-response" reason_ttl="0"/>
+    <address addr="10.0.1.40" addrtype="ipv4"/>
+  </host>
+  <runstats><finished time="1700000010" elapsed="10"/><hosts up="4" down="0" total="4"/></runstats>
+</nmaprun>`;
+
+const scan = parseNmapXML(XML);
+
+describe('buildTopology', () => {
+  const topology = buildTopology(scan.hosts);
+  const node = (id: string) => topology.nodes.find(n => n.id === id)!;
+  const edge = (from: string, to: string) => topology.edges.find(e => e.from === from && e.to === to)!;
+
+  it('merges shared hops into single router nodes', () => {
+    expect(topology.nodes.map(n => [n.id, n.kind, n.depth])).toEqual([
+      [SCANNER_ID, 'scanner', 0],
+      ['192.168.1.1', 'router', 1],
+      ['172.16.0.1', 'router', 2],
+      ['10.0.1.10', 'target', 3],
+      ['10.0.1.20', 'target', 4],
+      ['10.0.1.30', 'target', 3],
+    ]);
+    expect(node('192.168.1.1')).toMatchObject({ label: 'gw.local', traces: 3 });
+    expect(node('10.0.1.10')).toMatchObject({ label: 'web.example.com', hostId: scan.hosts[0].id, osFamily: 'Linux', openPorts: 2 });
+    expect(topology.untraced).toBe(1);
+  });
+
+  it('averages RTTs and counts unanswered hops', () => {
+    expect(edge(SCANNER_ID, '192.168.1.1')).toMatchObject({ rtt: 2, traces: 3, skipped: 0 });
+    expect(edge('192.168.1.1', '10.0.1.20')).toMatchObject({ rtt: 12, skipped: 2 });
+    expect(formatEdgeLabel(edge('192.168.1.1', '10.0.1.20'))).toBe('12 ms, +2 hops');
+  });
+
+  it('links traces that stop short to their target without an RTT', () => {
+    // Hops are taken in TTL order even when listed out of order
+    expect(edge('192.168.1.1', '172.16.0.1').traces).toBe(2);
+    expect(edge('172.16.0.1', '10.0.1.30')).toMatchObject({ rtt: null, skipped: 0 });
+    expect(formatEdgeLabel(edge('172.16.0.1', '10.0.1.30'))).toBe('');
+  });
+
+  it('colors targets by OS family or open port count', () => {
+    expect(getNodeColor(node('10.0.1.10'), 'os')).not.toBe(getNodeColor(node('10.0.1.20'), 'os'));
+    expect(getNodeColor(node('10.0.1.10'), 'ports')).toBe(getNodeColor(node('10.0.1.20'), 'ports'));
+    expect(getNodeColor(node('192.168.1.1'), 'os')).toBe(getNodeColor(node('192.168.1.1'), 'ports'));
+  });
+});
+
+describe('layoutTopology', () => {
+  it('places nodes in columns by depth', () => {
+    const layout = layoutTopology(buildTopology(scan.hosts));
+    const x = (id: string) => layout.positions.get(id)!.x;
+    expect(x(SCANNER_ID)).toBeLessThan(x('192.168.1.1'));
+    expect(x('172.16.0.1')).toBeLessThan(x('10.0.1.10'));
+    expect(x('10.0.1.10')).toBe(x('10.0.1.30'));
+    expect(x('10.0.1.20')).toBeGreaterThan(x('10.0.1.10'));
+    expect(layout.positions.get('10.0.1.10')!.y).not.toBe(layout.positions.get('10.0.1.30')!.y);
+  });
+});
+
+describe('topology export', () => {
+  const topology = buildTopology(scan.hosts);
+
+  it('writes Graphviz DOT with dashed edges over unanswered hops', () => {
+    const dot = topologyToDOT(topology, 'os');
+    expect(dot.startsWith('digraph topology {\n  rankdir=LR;')).toBe(true);
+    expect(dot).toContain('"10.0.1.10" [label="web.example.com\\n10.0.1.10", shape=ellipse');
+    expect(dot).toContain('"192.168.1.1" -> "10.0.1.20" [label="12 ms, +2 hops", style=dashed];');
+  });
+
+  it('writes a standalone SVG with escaped text', () => {
+    const hosts = scan.hosts.map(h => h.ip === '10.0.1.10' ? { ...h, hostname: '<web> & "co"' } : h);
+    const escaped = buildTopology(hosts);
+    const svg = topologyToSVG(escaped, layoutTopology(escaped), 'ports');
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg).toContain('&lt;web&gt; &amp; &quot;co&quot;');
+    expect(svg).not.toContain('<web>');
+    expect(svg.match(/<circle /g)).toHaveLength(3);
+  });
+});
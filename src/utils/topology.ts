@@ -0,0 +1,290 @@
+import type { NmapHost } from '../types/nmap';
+
+// Network topology from traceroute data: every host's hops merged into one
+// graph rooted at the scanning machine, laid out in columns by hop count.
+
+export type TopologyColorMode = 'os' | 'ports';
+
+export interface TopologyNode {
+  id: string; // the address, or SCANNER_ID
+  address: string;
+  label: string; // hostname when known, else the address
+  kind: 'scanner' | 'router' | 'target';
+  depth: number; // hops from the scanner (the lowest TTL it answered at)
+  hostId?: string; // set when the address is one of the scanned hosts
+  osFamily: string;
+  openPorts: number;
+  traces: number; // host traces that pass through or end at this node
+}
+
+export interface TopologyEdge {
+  from: string;
+  to: string;
+  rtt: number | null; // average RTT to the far end in ms; null when no hop reported one
+  skipped: number; // hops in between that didn't answer
+  traces: number;
+}
+
+export interface Topology {
+  nodes: TopologyNode[];
+  edges: TopologyEdge[];
+  untraced: number; // hosts without traceroute data, left out of the graph
+}
+
+export interface TopologyLayout {
+  positions: Map<string, { x: number; y: number }>;
+  width: number;
+  height: number;
+}
+
+export const SCANNER_ID = 'scanner';
+
+const LAYER_GAP = 190;
+const ROW_GAP = 48;
+const MARGIN = 60;
+
+/**
+ * Merge the traceroutes of the hosts into a graph. Hosts that are also hops
+ * on other hosts' paths become a single node.
+ */
+export function buildTopology(hosts: NmapHost[]): Topology {
+  const byAddress = new Map<string, NmapHost>();
+  for (const host of hosts) {
+    if (host.ip) byAddress.set(host.ip, host);
+    if (host.ipv6) byAddress.set(host.ipv6, host);
+  }
+
+  const nodes = new Map<string, TopologyNode>();
+  nodes.set(SCANNER_ID, {
+    id: SCANNER_ID, address: '', label: 'Scanner', kind: 'scanner', depth: 0, osFamily: '', openPorts: 0, traces: 0,
+  });
+  const edges = new Map<string, TopologyEdge & { rttSum: number; rttCount: number }>();
+
+  const addNode = (address: string, depth: number, hostname = ''): TopologyNode => {
+    let node = nodes.get(address);
+    if (!node) {
+      const host = byAddress.get(address);
+      node = {
+        id: address,
+        address,
+        label: host?.hostname || hostname || address,
+        kind: host ? 'target' : 'router',
+        depth,
+        hostId: host?.id,
+        osFamily: host?.os.osmatch[0]?.osclass[0]?.osfamily || '',
+        openPorts: host?.openPortCount || 0,
+        traces: 0,
+      };
+      nodes.set(address, node);
+    } else {
+      node.depth = Math.min(node.depth, depth);
+      if (node.label === address && hostname) node.label = hostname;
+    }
+    return node;
+  };
+
+  const addEdge = (from: string, to: string, rtt: number, skipped: number) => {
+    const key = `${from}\n${to}`;
+    let edge = edges.get(key);
+    if (!edge) {
+      edge = { from, to, rtt: null, skipped, traces: 0, rttSum: 0, rttCount: 0 };
+      edges.set(key, edge);
+    }
+    edge.traces++;
+    edge.skipped = Math.min(edge.skipped, skipped);
+    if (rtt > 0) {
+      edge.rttSum += rtt;
+      edge.rttCount++;
+    }
+  };
+
+  let untraced = 0;
+  for (const host of hosts) {
+    const hops = (host.trace?.hops || []).filter(h => h.ipaddr).sort((a, b) => a.ttl - b.ttl);
+    if (hops.length === 0) {
+      untraced++;
+      continue;
+    }
+    nodes.get(SCANNER_ID)!.traces++;
+    let prev = SCANNER_ID;
+    let prevTtl = 0;
+    for (const hop of hops) {
+      if (hop.ipaddr === prev) continue;
+      const node = addNode(hop.ipaddr, hop.ttl, hop.host);
+      node.traces++;
+      addEdge(prev, node.id, hop.rtt, Math.max(0, hop.ttl - prevTtl - 1));
+      prev = node.id;
+      prevTtl = hop.ttl;
+    }
+    // A trace that stopped short of its target still leads to it
+    const address = host.ip || host.ipv6;
+    if (prev !== address && address) {
+      const depth = Math.max(prevTtl + 1, host.distance || 0);
+      const node = addNode(address, depth);
+      node.traces++;
+      addEdge(prev, address, 0, Math.max(0, depth - prevTtl - 1));
+    }
+  }
+
+  return {
+    nodes: [...nodes.values()],
+    edges: [...edges.values()].map(({ rttSum, rttCount, ...edge }) => ({
+      ...edge,
+      rtt: rttCount > 0 ? Math.round((rttSum / rttCount) * 100) / 100 : null,
+    })),
+    untraced,
+  };
+}
+
+/**
+ * Columns by depth; within a column, nodes are ordered by the average row of
+ * their parents so paths cross as little as possible.
+ */
+export function layoutTopology(topology: Topology): TopologyLayout {
+  const layers = new Map<number, TopologyNode[]>();
+  for (const node of topology.nodes) {
+    const layer = layers.get(node.depth);
+    if (layer) layer.push(node);
+    else layers.set(node.depth, [node]);
+  }
+  const parents = new Map<string, string[]>();
+  for (const edge of topology.edges) {
+    const list = parents.get(edge.to);
+    if (list) list.push(edge.from);
+    else parents.set(edge.to, [edge.from]);
+  }
+
+  const depths = [...layers.keys()].sort((a, b) => a - b);
+  const rows = new Map<string, number>();
+  let maxRows = 1;
+  for (const depth of depths) {
+    const layer = layers.get(depth)!;
+    const rank = (node: TopologyNode) => {
+      const placed = (parents.get(node.id) || []).map(p => rows.get(p)).filter((r): r is number => r !== undefined);
+      return placed.length > 0 ? placed.reduce((a, b) => a + b, 0) / placed.length : Infinity;
+    };
+    const ranks = new Map(layer.map(n => [n.id, rank(n)]));
+    layer.sort((a, b) => (ranks.get(a.id)! - ranks.get(b.id)!) || a.address.localeCompare(b.address, undefined, { numeric: true }));
+    layer.forEach((node, i) => rows.set(node.id, i));
+    maxRows = Math.max(maxRows, layer.length);
+  }
+
+  const height = MARGIN * 2 + (maxRows - 1) * ROW_GAP;
+  const positions = new Map<string, { x: number; y: number }>();
+  depths.forEach((depth, column) => {
+    const layer = layers.get(depth)!;
+    // Center shorter columns
+    const top = MARGIN + ((maxRows - layer.length) * ROW_GAP) / 2;
+    layer.forEach((node, i) => positions.set(node.id, { x: MARGIN + column * LAYER_GAP, y: top + i * ROW_GAP }));
+  });
+
+  return { positions, width: MARGIN * 2 + Math.max(0, depths.length - 1) * LAYER_GAP + 120, height };
+}
+
+// ========== Colors ==========
+
+// Fixed colors so exported graphs look the same outside the app
+const SCANNER_COLOR = '#38bdf8';
+const ROUTER_COLOR = '#94a3b8';
+const UNKNOWN_COLOR = '#64748b';
+
+const OS_COLORS: [RegExp, string, string][] = [
+  [/windows/i, '#38bdf8', 'Windows'],
+  [/linux/i, '#4ade80', 'Linux'],
+  [/bsd/i, '#f87171', 'BSD'],
+  [/mac os|ios/i, '#a78bfa', 'macOS / iOS'],
+  [/./, '#fbbf24', 'Other'],
+];
+
+const PORT_COLORS: [number, string, string][] = [
+  [10, '#f87171', '10+ open'],
+  [3, '#fb923c', '3-9 open'],
+  [1, '#fbbf24', '1-2 open'],
+  [0, UNKNOWN_COLOR, 'None open'],
+];
+
+export function getNodeColor(node: TopologyNode, mode: TopologyColorMode): string {
+  if (node.kind === 'scanner') return SCANNER_COLOR;
+  if (node.kind === 'router') return ROUTER_COLOR;
+  if (mode === 'ports') return PORT_COLORS.find(([min]) => node.openPorts >= min)![1];
+  if (!node.osFamily) return UNKNOWN_COLOR;
+  return OS_COLORS.find(([pattern]) => pattern.test(node.osFamily))![1];
+}
+
+export function getColorLegend(mode: TopologyColorMode): { label: string; color: string }[] {
+  const entries = mode === 'ports'
+    ? PORT_COLORS.map(([, color, label]) => ({ label, color }))
+    : [...OS_COLORS.map(([, color, label]) => ({ label, color })), { label: 'Unknown OS', color: UNKNOWN_COLOR }];
+  return [...entries, { label: 'Router', color: ROUTER_COLOR }];
+}
+
+export function formatEdgeLabel(edge: TopologyEdge): string {
+  const parts: string[] = [];
+  if (edge.rtt !== null) parts.push(`${edge.rtt} ms`);
+  if (edge.skipped > 0) parts.push(`+${edge.skipped} hop${edge.skipped !== 1 ? 's' : ''}`);
+  return parts.join(', ');
+}
+
+// ========== Export ==========
+
+const dotString = (s: string) => `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+/**
+ * Graphviz DOT source of the graph, e.g. for `dot -Tpng`.
+ */
+export function topologyToDOT(topology: Topology, mode: TopologyColorMode): string {
+  const lines = [
+    'digraph topology {',
+    '  rankdir=LR;',
+    '  node [style=filled, fontname="Helvetica", fontsize=10];',
+    '  edge [fontname="Helvetica", fontsize=9];',
+  ];
+  for (const node of topology.nodes) {
+    const label = node.label !== node.address && node.address ? `${node.label}\n${node.address}` : node.label;
+    const shape = node.kind === 'target' ? 'ellipse' : 'box';
+    lines.push(`  ${dotString(node.id)} [label=${dotString(label)}, shape=${shape}, fillcolor=${dotString(getNodeColor(node, mode))}];`);
+  }
+  for (const edge of topology.edges) {
+    const attrs = [`label=${dotString(formatEdgeLabel(edge))}`];
+    if (edge.skipped > 0) attrs.push('style=dashed');
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)} [${attrs.join(', ')}];`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+const xml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Standalone SVG of the graph, drawn like the topology view.
+ */
+export function topologyToSVG(topology: Topology, layout: TopologyLayout, mode: TopologyColorMode): string {
+  const { positions, width, height } = layout;
+  const out = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+  ];
+  for (const edge of topology.edges) {
+    const a = positions.get(edge.from)!;
+    const b = positions.get(edge.to)!;
+    const dash = edge.skipped > 0 ? ' stroke-dasharray="4 3"' : '';
+    out.push(`<line x1="${a.x}" y1="${a.y}" x2="${b.x}" y2="${b.y}" stroke="#94a3b8" stroke-width="${Math.min(4, 1 + Math.log2(edge.traces))}"${dash}/>`);
+    const label = formatEdgeLabel(edge);
+    if (label) {
+      out.push(`<text x="${(a.x + b.x) / 2}" y="${(a.y + b.y) / 2 - 4}" font-size="9" fill="#475569" text-anchor="middle">${xml(label)}</text>`);
+    }
+  }
+  for (const node of topology.nodes) {
+    const { x, y } = positions.get(node.id)!;
+    const fill = getNodeColor(node, mode);
+    out.push(`<g><title>${xml(node.address ? `${node.label} (${node.address})` : node.label)}</title>`);
+    if (node.kind === 'target') {
+      out.push(`<circle cx="${x}" cy="${y}" r="9" fill="${fill}" stroke="#1e293b" stroke-width="1"/>`);
+    } else {
+      out.push(`<rect x="${x - 8}" y="${y - 8}" width="16" height="16" rx="3" fill="${fill}" stroke="#1e293b" stroke-width="1"/>`);
+    }
+    out.push(`<text x="${x}" y="${y + 22}" font-size="10" fill="#1e293b" text-anchor="middle">${xml(node.label)}</text></g>`);
+  }
+  out.push('</svg>');
+  return out.join('\n') + '\n';
+}
@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest';
+import { extractVulnerabilities, isVulnScript, normalizeVulnState, cvssSeverity } from './vulnExtractor';
+import { parseNmapXML } from '../parser/nmapParser';
+import type { NmapHost, Script } from '../types/nmap';
+
+const VULN_XML = `<?xml version="1.0"?>
+<nmaprun scanner="nmap" args="nmap -sV --script vuln,vulners 10.0.0.5" start="1700000000" version="7.94" xmloutputversion="1.05">
+  <host>
+    <status state="up" reason="syn-ack" reason_ttl="64"/>
+    <address addr="10.0.0.5" addrtype="ipv4"/>
+    <ports>
+      <port protocol="tcp" portid="22">
+        <state state="open" reason="syn-ack" reason_ttl="64"/>
+        <service name="ssh" product="OpenSSH" version="7.4" method="probed" conf="10"/>
+        <script id="vulners" output="cpe:/a:openbsd:openssh:7.4: ...">
+          <table key="cpe:/a:openbsd:openssh:7.4">
+            <table>
+              <elem key="is_exploit">false</elem>
+              <elem key="id">CVE-2018-15919</elem>
+              <elem key="type">cve</elem>
+              <elem key="cvss">5.0</elem>
+            </table>
+            <table>
+              <elem key="is_exploit">true</elem>
+              <elem key="id">EDB-ID:46516</elem>
+              <elem key="type">exploitdb</elem>
+              <elem key="cvss">9.8</elem>
+            </table>
+          </table>
+        </script>
+      </port>
+      <port protocol="tcp" portid="443">
+        <state state="open" reason="syn-ack" reason_ttl="64"/>
+        <service name="https" method="probed" conf="10"/>
+        <script id="ssl-heartbleed" output="VULNERABLE: ...">
+          <table key="CVE-2014-0160">
+            <elem key="title">The Heartbleed Bug is a serious vulnerability in the popular OpenSSL cryptographic software library.</elem>
+            <elem key="state">VULNERABLE</elem>
+            <table key="ids">
+              <elem>CVE:CVE-2014-0160</elem>
+            </table>
+            <table key="refs">
+              <elem>https://cve.mitre.org/cgi-bin/cvename.cgi?name=CVE-2014-0160</elem>
+              <elem>http://www.openssl.org/news/secadv_20140407.txt</elem>
+            </table>
+          </table>
+        </script>
+      </port>
+    </ports>
+    <hostscript>
+      <script id="smb-vuln-ms17-010" output="VULNERABLE: ...">
+        <table key="CVE-2017-0143">
+          <elem key="title">Remote Code Execution vulnerability in Microsoft SMBv1 servers (ms17-010)</elem>
+          <elem key="state">VULNERABLE (Exploitable)</elem>
+          <table key="ids">
+            <elem>CVE:CVE-2017-0143</elem>
+          </table>
+          <table key="scores">
+            <elem key="CVSSv2">9.3</elem>
+          </table>
+        </table>
+      </script>
+      <script id="smb-vuln-ms10-061" output="NOT VULNERABLE">
+        <table key="CVE-2010-2729">
+          <elem key="title">Print Spooler Service Impersonation Vulnerability</elem>
+          <elem key="state">NOT VULNERABLE</elem>
+        </table>
+      </script>
+      <script id="smb-os-discovery" output="OS: Windows 7"/>
+    </hostscript>
+  </host>
+</nmaprun>`;
+
+function hostWithScript(script: Script): NmapHost {
+  const host = parseNmapXML(VULN_XML).hosts[0];
+  return {
+    ...host,
+    hostscripts: [],
+    ports: [{ ...host.ports[0], scripts: [script] }],
+  };
+}
+
+describe('isVulnScript', () => {
+  it('recognizes vuln script naming patterns', () => {
+    expect(isVulnScript('smb-vuln-ms17-010')).toBe(true);
+    expect(isVulnScript('vulners')).toBe(true);
+    expect(isVulnScript('ssl-heartbleed')).toBe(true);
+    expect(isVulnScript('http-title')).toBe(false);
+  });
+});
+
+describe('normalizeVulnState', () => {
+  it('maps vulns library states', () => {
+    expect(normalizeVulnState('VULNERABLE')).toBe('VULNERABLE');
+    expect(normalizeVulnState('VULNERABLE (Exploitable)')).toBe('VULNERABLE');
+    expect(normalizeVulnState('LIKELY VULNERABLE')).toBe('LIKELY');
+    expect(normalizeVulnState('NOT VULNERABLE')).toBe('NOT VULNERABLE');
+    expect(normalizeVulnState('UNKNOWN (unable to test)')).toBe('UNKNOWN');
+  });
+});
+
+describe('cvssSeverity', () => {
+  it('buckets scores', () => {
+    expect(cvssSeverity(9.8)).toBe('critical');
+    expect(cvssSeverity(7.5)).toBe('high');
+    expect(cvssSeverity(5)).toBe('medium');
+    expect(cvssSeverity(2.1)).toBe('low');
+    expect(cvssSeverity(null)).toBe('none');
+  });
+});
+
+describe('extractVulnerabilities', () => {
+  const scan = parseNmapXML(VULN_XML);
+  const findings = extractVulnerabilities(scan.hosts);
+
+  it('extracts vulners entries with CVSS and exploit flags', () => {
+    const cve = findings.find(f => f.vulnId === 'CVE-2018-15919');
+    expect(cve).toBeDefined();
+    expect(cve!.cvss).toBe(5);
+    expect(cve!.state).toBe('LIKELY');
+    expect(cve!.port).toBe(22);
+    expect(cve!.references).toEqual(['https://vulners.com/cve/CVE-2018-15919']);
+    const edb = findings.find(f => f.vulnId === 'EDB-ID:46516');
+    expect(edb!.exploit).toBe(true);
+  });
+
+  it('extracts vulns library tables from port scripts', () => {
+    const hb = findings.find(f => f.scriptId === 'ssl-heartbleed');
+    expect(hb).toBeDefined();
+    expect(hb!.vulnId).toBe('CVE-2014-0160');
+    expect(hb!.state).toBe('VULNERABLE');
+    expect(hb!.port).toBe(443);
+    expect(hb!.references).toHaveLength(2);
+  });
+
+  it('extracts host script findings with scores and states', () => {
+    const ms17 = findings.find(f => f.vulnId === 'CVE-2017-0143');
+    expect(ms17!.port).toBeNull();
+    expect(ms17!.cvss).toBe(9.3);
+    expect(ms17!.exploit).toBe(true);
+    expect(ms17!.hostAddr).toBe('10.0.0.5');
+    const ms10 = findings.find(f => f.vulnId === 'CVE-2010-2729');
+    expect(ms10!.state).toBe('NOT VULNERABLE');
+  });
+
+  it('ignores non-vulnerability scripts', () => {
+    expect(findings.some(f => f.scriptId === 'smb-os-discovery')).toBe(false);
+    expect(findings).toHaveLength(5);
+  });
+
+  it('ignores tables of other scripts that have a state', () => {
+    const host = scan.hosts[0];
+    const script = {
+      id: 'smb-protocols', output: '',
+      elements: [{ key: 'dialects', value: '', children: [
+        { key: 'title', value: 'SMBv1' },
+        { key: 'state', value: 'enabled' },
+      ] }],
+    };
+    expect(extractVulnerabilities([{ ...host, hostscripts: [script], ports: [] }])).toEqual([]);
+  });
+
+  it('parses vulns library text output when elements are missing', () => {
+    const host = hostWithScript({
+      id: 'smb-vuln-ms08-067',
+      elements: [],
+      output: [
+        'VULNERABLE:',
+        'Microsoft Windows system vulnerable to remote code execution (MS08-067)',
+        '  State: LIKELY VULNERABLE',
+        '  IDs:  CVE:CVE-2008-4250',
+        '  References:',
+        '    https://technet.microsoft.com/en-us/library/security/ms08-067.aspx',
+      ].join('\n'),
+    });
+    const [f] = extractVulnerabilities([host]);
+    expect(f.vulnId).toBe('CVE-2008-4250');
+    expect(f.state).toBe('LIKELY');
+    expect(f.title).toContain('MS08-067');
+    expect(f.references).toHaveLength(1);
+  });
+
+  it('parses vulners text output when elements are missing', () => {
+    const host = hostWithScript({
+      id: 'vulners',
+      elements: [],
+      output: '\n  cpe:/a:openbsd:openssh:7.4: \n    \tCVE-2018-15919\t5.0\thttps://vulners.com/cve/CVE-2018-15919\n    \tEDB-ID:46516\t9.8\thttps://vulners.com/exploitdb/EDB-ID:46516\t*EXPLOIT*',
+    });
+    const findings = extractVulnerabilities([host]);
+    expect(findings).toHaveLength(2);
+    expect(findings[0].title).toBe('cpe:/a:openbsd:openssh:7.4');
+    expect(findings[1].exploit).toBe(true);
+  });
+
+  it('parses vulscan output', () => {
+    const host = hostWithScript({
+      id: 'vulscan',
+      elements: [],
+      output: 'cve.csv:\n[CVE-2014-0160] The TLS implementation in OpenSSL\nexploitdb.csv:\n[32745] OpenSSL TLS Heartbeat Extension',
+    });
+    const findings = extractVulnerabilities([host]);
+    expect(findings.map(f => f.vulnId)).toEqual(['CVE-2014-0160', 'exploitdb:32745']);
+    expect(findings[0].state).toBe('LIKELY');
+  });
+
+  it('collapses duplicates keeping the highest CVSS', () => {
+    const host = hostWithScript({
+      id: 'vulners',
+      elements: [
+        { key: 'cpe:/a:a', value: '', children: [{ key: 'table', value: '', children: [{ key: 'id', value: 'CVE-2020-1' }, { key: 'cvss', value: '4.0' }] }] },
+        { key: 'cpe:/a:b', value: '', children: [{ key: 'table', value: '', children: [{ key: 'id', value: 'CVE-2020-1' }, { key: 'cvss', value: '7.5' }] }] },
+      ],
+      output: '',
+    });
+    const findings = extractVulnerabilities([host]);
+    expect(findings).toHaveLength(1);
+    expect(findings[0].cvss).toBe(7.5);
+  });
+});
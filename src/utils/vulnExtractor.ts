@@ -0,0 +1,249 @@
+import type { NmapHost, Script, ScriptElement, VulnFinding, VulnState } from '../types/nmap';
+
+type FindingDraft = Pick<VulnFinding, 'vulnId' | 'title' | 'cvss' | 'state' | 'exploit' | 'references'>;
+
+// Scripts that report vulnerabilities but don't follow the *-vuln-* naming scheme
+const KNOWN_VULN_SCRIPTS = new Set([
+  'vulners', 'vulscan', 'ssl-heartbleed', 'ssl-poodle', 'ssl-ccs-injection',
+  'ssl-dh-params', 'sslv2-drown', 'tls-ticketbleed', 'http-shellshock',
+  'http-slowloris-check', 'ftp-vsftpd-backdoor', 'ftp-proftpd-backdoor',
+  'ftp-libopie', 'irc-unrealircd-backdoor', 'distcc-cve2004-2687', 'sshv1',
+]);
+
+const CVE_RE = /CVE-\d{4}-\d{4,}/i;
+
+/**
+ * Whether an NSE script ID is known to produce vulnerability findings.
+ */
+export function isVulnScript(scriptId: string): boolean {
+  return KNOWN_VULN_SCRIPTS.has(scriptId) || scriptId.includes('-vuln-') || scriptId.startsWith('vuln');
+}
+
+/**
+ * Map the state strings produced by nmap's vulns library
+ * (e.g. "VULNERABLE (Exploitable)", "LIKELY VULNERABLE") to a VulnState.
+ */
+export function normalizeVulnState(raw: string): VulnState {
+  const s = raw.toUpperCase();
+  if (s.includes('NOT VULNERABLE')) return 'NOT VULNERABLE';
+  if (s.includes('LIKELY')) return 'LIKELY';
+  if (s.includes('VULNERABLE')) return 'VULNERABLE';
+  return 'UNKNOWN';
+}
+
+/**
+ * Severity bucket for a CVSS score, following the CVSS v3 qualitative scale.
+ */
+export function cvssSeverity(cvss: number | null): 'critical' | 'high' | 'medium' | 'low' | 'none' {
+  if (cvss === null) return 'none';
+  if (cvss >= 9) return 'critical';
+  if (cvss >= 7) return 'high';
+  if (cvss >= 4) return 'medium';
+  if (cvss > 0) return 'low';
+  return 'none';
+}
+
+function parseCvss(raw: string | undefined): number | null {
+  if (!raw) return null;
+  const m = raw.match(/(\d+(?:\.\d+)?)/);
+  if (!m) return null;
+  const n = parseFloat(m[1]);
+  return n >= 0 && n <= 10 ? n : null;
+}
+
+function elemValue(children: ScriptElement[] | undefined, key: string): string {
+  return children?.find(c => c.key === key && !c.children)?.value ?? '';
+}
+
+function findTable(children: ScriptElement[] | undefined, key: string): ScriptElement | undefined {
+  return children?.find(c => c.key === key && c.children);
+}
+
+// vulners: <table key="cpe:/a:..."><table><elem key="id">..</elem><elem key="cvss">..</elem>...</table></table>
+function extractVulners(script: Script): FindingDraft[] {
+  const drafts: FindingDraft[] = [];
+  for (const cpeTable of script.elements) {
+    for (const entry of cpeTable.children || []) {
+      const id = elemValue(entry.children, 'id');
+      if (!id) continue;
+      const type = elemValue(entry.children, 'type');
+      drafts.push({
+        vulnId: id,
+        title: cpeTable.key,
+        cvss: parseCvss(elemValue(entry.children, 'cvss')),
+        state: 'LIKELY',
+        exploit: elemValue(entry.children, 'is_exploit') === 'true',
+        references: type ? [`https://vulners.com/${type}/${id}`] : [],
+      });
+    }
+  }
+  if (drafts.length > 0) return drafts;
+
+  // Older vulners versions only emit text: "<tab>CVE-2018-15919<tab>5.0<tab>https://vulners.com/..."
+  let cpe = '';
+  for (const line of script.output.split('\n')) {
+    const cpeMatch = line.match(/^\s*\|?\s*(cpe:\/\S+?):?\s*$/);
+    if (cpeMatch) {
+      cpe = cpeMatch[1];
+      continue;
+    }
+    const m = line.match(/^\s*\|?\s*(\S+)\s+(\d+(?:\.\d+)?)\s+(https?:\/\/\S+)(.*)$/);
+    if (m) {
+      drafts.push({
+        vulnId: m[1],
+        title: cpe,
+        cvss: parseCvss(m[2]),
+        state: 'LIKELY',
+        exploit: m[4].includes('*EXPLOIT*'),
+        references: [m[3]],
+      });
+    }
+  }
+  return drafts;
+}
+
+// vulscan only emits text: "cve.csv:\n[CVE-2014-0160] OpenSSL ..." per database
+function extractVulscan(script: Script): FindingDraft[] {
+  const drafts: FindingDraft[] = [];
+  let db = '';
+  for (const line of script.output.split('\n')) {
+    const dbMatch = line.match(/^\s*\|?\s*(\S+\.csv):/);
+    if (dbMatch) {
+      db = dbMatch[1].replace(/\.csv$/, '');
+      continue;
+    }
+    const m = line.match(/^\s*\|?\s*\[([^\]]+)\]\s+(.+)$/);
+    if (m) {
+      const cve = m[1].match(CVE_RE);
+      drafts.push({
+        vulnId: cve ? cve[0].toUpperCase() : (db ? `${db}:${m[1]}` : m[1]),
+        title: m[2].trim(),
+        cvss: null,
+        state: 'LIKELY',
+        exploit: false,
+        references: [],
+      });
+    }
+  }
+  return drafts;
+}
+
+// Tables written by nmap's vulns library carry a "state" elem alongside
+// "title", "ids", "scores" and "refs". Other scripts' tables may have a
+// "state" too, so a title and either IDs or a vulns library state are required.
+function isVulnTable(children: ScriptElement[], state: string): boolean {
+  return !!elemValue(children, 'title') && (!!findTable(children, 'ids') || normalizeVulnState(state) !== 'UNKNOWN');
+}
+
+function extractVulnTables(elements: ScriptElement[], scriptId: string): FindingDraft[] {
+  const drafts: FindingDraft[] = [];
+  for (const el of elements) {
+    if (!el.children) continue;
+    const state = elemValue(el.children, 'state');
+    if (!state || !isVulnTable(el.children, state)) {
+      drafts.push(...extractVulnTables(el.children, scriptId));
+      continue;
+    }
+    const ids = (findTable(el.children, 'ids')?.children || []).map(c => c.value);
+    const cve = ids.map(id => id.match(CVE_RE)?.[0]).find(Boolean);
+    const scores = findTable(el.children, 'scores')?.children || [];
+    drafts.push({
+      vulnId: (cve || el.key || ids[0] || scriptId).toUpperCase(),
+      title: elemValue(el.children, 'title') || scriptId,
+      cvss: parseCvss(scores[0]?.value),
+      state: normalizeVulnState(state),
+      exploit: /exploitable/i.test(state),
+      references: (findTable(el.children, 'refs')?.children || []).map(c => c.value).filter(Boolean),
+    });
+  }
+  return drafts;
+}
+
+// Fallback for vuln scripts parsed without structured output (e.g. -oN imports)
+function extractVulnText(script: Script): FindingDraft[] {
+  const lines = script.output.split('\n');
+  const stateLines: number[] = [];
+  lines.forEach((line, i) => {
+    if (/^\s*\|?\s*State:\s*\S/.test(line)) stateLines.push(i);
+  });
+
+  const drafts: FindingDraft[] = [];
+  stateLines.forEach((start, k) => {
+    const end = k + 1 < stateLines.length ? stateLines[k + 1] - 1 : lines.length;
+    const block = lines.slice(start, end).join('\n');
+    const prev = (lines[start - 1] || '').replace(/^\s*\|?\s*/, '').trim();
+    const title = /^(NOT |LIKELY )?VULNERABLE:?$/i.test(prev) || !prev ? script.id : prev;
+    const idsLine = block.match(/IDs:\s*(.+)/)?.[1] || '';
+    const cve = idsLine.match(CVE_RE)?.[0] || block.match(CVE_RE)?.[0];
+    const stateRaw = lines[start].replace(/^\s*\|?\s*State:\s*/, '');
+    const refsIdx = block.indexOf('References:');
+    drafts.push({
+      vulnId: (cve || idsLine.split(/\s+/)[0] || script.id).toUpperCase(),
+      title,
+      cvss: parseCvss(block.match(/CVSS(?:v\d)?:\s*([\d.]+)/i)?.[1]),
+      state: normalizeVulnState(stateRaw),
+      exploit: /exploitable/i.test(stateRaw),
+      references: refsIdx >= 0 ? block.slice(refsIdx).match(/https?:\/\/\S+/g) || [] : [],
+    });
+  });
+  if (drafts.length > 0) return drafts;
+
+  // Unstructured output: one finding per CVE mentioned, state inferred from the text
+  const upper = script.output.toUpperCase();
+  const state: VulnState = upper.includes('NOT VULNERABLE') ? 'NOT VULNERABLE' :
+    upper.includes('VULNERABLE') ? 'VULNERABLE' : 'UNKNOWN';
+  const cves = [...new Set((script.output.match(new RegExp(CVE_RE.source, 'gi')) || []).map(c => c.toUpperCase()))];
+  if (cves.length === 0) {
+    return state === 'UNKNOWN' ? [] : [{
+      vulnId: script.id.toUpperCase(), title: script.id, cvss: null, state, exploit: false, references: [],
+    }];
+  }
+  return cves.map(cve => ({
+    vulnId: cve, title: script.id, cvss: null, state, exploit: false, references: [],
+  }));
+}
+
+function extractFromScript(script: Script): FindingDraft[] {
+  if (script.id === 'vulners') return extractVulners(script);
+  if (script.id === 'vulscan') return extractVulscan(script);
+  const structured = extractVulnTables(script.elements, script.id);
+  if (structured.length > 0) return structured;
+  if (!isVulnScript(script.id)) return [];
+  return extractVulnText(script);
+}
+
+/**
+ * Extract vulnerability findings from the NSE output of every host and port.
+ * Duplicate findings (same host, port, script and ID) are collapsed, keeping
+ * the highest CVSS score.
+ */
+export function extractVulnerabilities(hosts: NmapHost[]): VulnFinding[] {
+  const findings = new Map<string, VulnFinding>();
+
+  const add = (host: NmapHost, script: Script, port: number | null, protocol: string) => {
+    for (const draft of extractFromScript(script)) {
+      const id = `${host.id}:${port ?? 'host'}/${protocol}:${script.id}:${draft.vulnId}`;
+      const existing = findings.get(id);
+      if (existing && (existing.cvss ?? -1) >= (draft.cvss ?? -1)) continue;
+      findings.set(id, {
+        ...draft,
+        id,
+        hostId: host.id,
+        hostAddr: host.ip || host.ipv6,
+        hostname: host.hostname,
+        port,
+        protocol,
+        scriptId: script.id,
+      });
+    }
+  };
+
+  for (const host of hosts) {
+    for (const script of host.hostscripts) add(host, script, null, '');
+    for (const port of host.ports) {
+      for (const script of port.scripts) add(host, script, port.portid, port.protocol);
+    }
+  }
+
+  return Array.from(findings.values());
+}
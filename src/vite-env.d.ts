@@ -1,12 +1,39 @@
 /// <reference types="vite/client" />
 
+import type { ScanRequest } from './electron/nmapArgs';
+
 declare global {
   interface Window {
     electronAPI?: {
       onFileOpened: (callback: (data: { content: string; fileName: string }) => void) => (() => void) | void;
+      onFileStream: (callback: (data: {
+        type: 'start' | 'chunk' | 'end' | 'error';
+        fileName: string;
+        totalBytes: number;
+        bytesRead: number;
+        text?: string;
+        message?: string;
+      }) => void) => (() => void) | void;
       onTriggerExport: (callback: () => void) => (() => void) | void;
       saveFile: (data: { content: string; defaultName: string; filters?: any[] }) => Promise<string | null>;
       openFileDialog: () => Promise<{ content: string; fileName: string } | null>;
+      // The file types the renderer can import, for the open dialog and files opened from the OS
+      setOpenFilters: (filters: { name: string; extensions: string[] }[]) => void;
+      // Run the local nmap; rejects when the request is invalid or nmap isn't installed
+      startScan: (request: ScanRequest) => Promise<{ scanId: string; command: string }>;
+      cancelScan: (scanId: string) => void;
+      onScanEvent: (callback: (data: {
+        type: 'start' | 'chunk' | 'progress' | 'stderr' | 'end' | 'error';
+        scanId: string;
+        command?: string;
+        text?: string;
+        task?: string;
+        percent?: number | null;
+        remaining?: number | null;
+        exitCode?: number | null;
+        canceled?: boolean;
+        message?: string;
+      }) => void) => (() => void) | void;
     };
   }
 }
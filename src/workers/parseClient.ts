@@ -0,0 +1,90 @@
+import type { NmapScan, LoadProgress } from '../types/nmap';
+import type { ParseWorkerRequest, ParseWorkerResponse } from './parseWorker';
+import { PROJECT_FILE_EXTENSIONS } from '../utils/storage';
+
+// Files above this size are parsed in a Web Worker instead of on the UI thread
+export const STREAM_PARSE_THRESHOLD = 16 * 1024 * 1024; // 16 MB
+// Above this size the user is warned before loading (no longer a hard limit)
+export const LARGE_FILE_WARNING_SIZE = 100 * 1024 * 1024; // 100 MB
+
+export interface ParseCallbacks {
+  onProgress: (progress: LoadProgress) => void;
+  onDone: (scan: NmapScan) => void;
+  onError: (message: string) => void;
+}
+
+export interface ParseSession {
+  /** Forward a chunk of text read elsewhere (e.g. streamed over Electron IPC). */
+  write: (text: string, bytesRead: number, totalBytes: number) => void;
+  end: () => void;
+  cancel: () => void;
+}
+
+function startWorker(callbacks: ParseCallbacks): Worker {
+  const worker = new Worker(new URL('./parseWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<ParseWorkerResponse>) => {
+    const msg = e.data;
+    switch (msg.type) {
+      case 'progress':
+        callbacks.onProgress({ bytesRead: msg.bytesRead, totalBytes: msg.totalBytes, hostCount: msg.hostCount });
+        break;
+      case 'done':
+        worker.terminate();
+        callbacks.onDone(msg.scan);
+        break;
+      case 'error':
+        worker.terminate();
+        callbacks.onError(msg.message);
+        break;
+    }
+  };
+  worker.onerror = (e) => {
+    worker.terminate();
+    callbacks.onError(e.message || 'Parser worker failed');
+  };
+  return worker;
+}
+
+/**
+ * Whether a file should go through the background parser rather than
+ * being read into memory and parsed on the UI thread. Project and
+ * encrypted files always take the regular path.
+ */
+export function shouldStreamParse(fileName: string, size: number): boolean {
+  if (PROJECT_FILE_EXTENSIONS.some(ext => fileName.endsWith(`.${ext}`))) return false;
+  return size > STREAM_PARSE_THRESHOLD;
+}
+
+/**
+ * Read and parse a File in a Web Worker. Returns a cancel function.
+ */
+export function parseFileInWorker(file: File, callbacks: ParseCallbacks): () => void {
+  const worker = startWorker(callbacks);
+  const request: ParseWorkerRequest = { type: 'file', file };
+  worker.postMessage(request);
+  return () => worker.terminate();
+}
+
+/**
+ * Parse text already in memory (pasted, or opened through Electron) in a
+ * Web Worker. Returns a cancel function.
+ */
+export function parseTextInWorker(text: string, callbacks: ParseCallbacks): () => void {
+  const session = createParseSession(callbacks);
+  session.write(text, text.length, text.length);
+  session.end();
+  return session.cancel;
+}
+
+/**
+ * Start a worker parse fed by externally supplied chunks.
+ */
+export function createParseSession(callbacks: ParseCallbacks): ParseSession {
+  const worker = startWorker(callbacks);
+  const send = (request: ParseWorkerRequest) => worker.postMessage(request);
+  return {
+    write: (text, bytesRead, totalBytes) => send({ type: 'chunk', text, bytesRead, totalBytes }),
+    end: () => send({ type: 'end' }),
+    cancel: () => worker.terminate(),
+  };
+}
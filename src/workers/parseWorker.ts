@@ -0,0 +1,93 @@
+import { createNmapStreamParser, type NmapStreamParser } from '../parser/streamParser';
+import { parseNmapOutput } from '../parser/nmapParser';
+import type { NmapScan } from '../types/nmap';
+
+// Messages from the renderer: either a File to read here, or chunks forwarded from elsewhere (Electron IPC)
+export type ParseWorkerRequest =
+  | { type: 'file'; file: File }
+  | { type: 'chunk'; text: string; bytesRead: number; totalBytes: number }
+  | { type: 'end' };
+
+export type ParseWorkerResponse =
+  | { type: 'progress'; bytesRead: number; totalBytes: number; hostCount: number }
+  | { type: 'done'; scan: NmapScan }
+  | { type: 'error'; message: string };
+
+// The renderer tsconfig only ships DOM typings, so describe the worker scope we use
+const ctx = self as unknown as {
+  postMessage(message: ParseWorkerResponse): void;
+  onmessage: ((e: MessageEvent<ParseWorkerRequest>) => void) | null;
+};
+
+const FILE_READ_CHUNK = 4 * 1024 * 1024;
+
+let streamParser: NmapStreamParser | null = null;
+// Non-XML input (greppable/normal, other scanners) has no incremental parser and is buffered
+// instead, as is masscan's XML, which needs regrouping by address
+let textChunks: string[] | null = null;
+
+function feed(text: string): void {
+  if (!streamParser && !textChunks) {
+    const head = text.trimStart();
+    if (head === '') return;
+    if (head.startsWith('<') && !/<nmaprun[^>]*scanner="masscan"/.test(head.slice(0, 1024))) streamParser = createNmapStreamParser();
+    else textChunks = [];
+  }
+  if (streamParser) streamParser.write(text);
+  else textChunks!.push(text);
+}
+
+function finish(): void {
+  try {
+    let scan: NmapScan;
+    if (streamParser) scan = streamParser.end();
+    else scan = parseNmapOutput((textChunks || []).join(''));
+    ctx.postMessage({ type: 'done', scan });
+  } catch (err) {
+    ctx.postMessage({ type: 'error', message: (err instanceof Error ? err.message : String(err)) || 'Failed to parse file' });
+  } finally {
+    streamParser = null;
+    textChunks = null;
+  }
+}
+
+function progress(bytesRead: number, totalBytes: number): void {
+  ctx.postMessage({ type: 'progress', bytesRead, totalBytes, hostCount: streamParser?.hostCount ?? 0 });
+}
+
+async function readFile(file: File): Promise<void> {
+  const decoder = new TextDecoder('utf-8');
+  let offset = 0;
+  while (offset < file.size) {
+    const slice = file.slice(offset, offset + FILE_READ_CHUNK);
+    const buf = await slice.arrayBuffer();
+    offset += buf.byteLength;
+    feed(decoder.decode(buf, { stream: offset < file.size }));
+    progress(offset, file.size);
+  }
+  finish();
+}
+
+ctx.onmessage = (e) => {
+  const msg = e.data;
+  try {
+    switch (msg.type) {
+      case 'file':
+        readFile(msg.file).catch(err => {
+          ctx.postMessage({ type: 'error', message: err.message || 'Failed to read file' });
+        });
+        break;
+      case 'chunk':
+        feed(msg.text);
+        progress(msg.bytesRead, msg.totalBytes);
+        break;
+      case 'end':
+        finish();
+        break;
+    }
+  } catch (err) {
+    streamParser = null;
+    textChunks = null;
+    ctx.postMessage({ type: 'error', message: (err instanceof Error ? err.message : String(err)) || 'Failed to parse file' });
+  }
+};
@@ -0,0 +1,117 @@
+import type { NmapHost, QueryProgress } from '../types/nmap';
+import type { QueryWorkerRequest, QueryWorkerResponse } from './queryWorker';
+import { runHostQuery, decodeMatches, diffProject, type HostQuery, type QueryProject } from '../utils/hostQuery';
+import type { ImportedScan } from '../utils/scanMerge';
+import { buildSearchIndex, createIndexedTextMatcher } from '../utils/searchIndex';
+import type { TextMatcher } from '../utils/filterEngine';
+
+export interface PendingQuery {
+  /** The matching hosts, or null once cancelled. */
+  promise: Promise<NmapHost[] | null>;
+  cancel: () => void;
+}
+
+export interface HostQueryClient {
+  /**
+   * Query a project's hosts. When they differ from the last ones queried,
+   * the worker is sent the imports it doesn't have yet and rebuilds (and
+   * indexes) the hosts itself.
+   */
+  query: (project: QueryProject, query: HostQuery, onProgress?: (progress: QueryProgress) => void) => PendingQuery;
+  dispose: () => void;
+}
+
+interface Waiting {
+  resolve: (hosts: NmapHost[] | null) => void;
+  reject: (err: Error) => void;
+  onProgress?: (progress: QueryProgress) => void;
+  byId: Map<string, NmapHost>;
+}
+
+/**
+ * Run host queries in a Web Worker. Where workers aren't available (tests,
+ * old runtimes) the same pipeline runs on the calling thread instead.
+ */
+export function createHostQueryClient(): HostQueryClient {
+  if (typeof Worker === 'undefined') return createInlineClient();
+
+  const worker = new Worker(new URL('./queryWorker.ts', import.meta.url), { type: 'module' });
+  const send = (request: QueryWorkerRequest) => worker.postMessage(request);
+  const waiting = new Map<number, Waiting>();
+  let loaded: NmapHost[] | null = null;
+  let held: ImportedScan[] = [];
+  let byId = new Map<string, NmapHost>();
+  let nextId = 1;
+
+  worker.onmessage = (e: MessageEvent<QueryWorkerResponse>) => {
+    const msg = e.data;
+    const entry = waiting.get(msg.id);
+    if (!entry) return; // cancelled meanwhile
+    switch (msg.type) {
+      case 'progress':
+        entry.onProgress?.({ done: msg.done, total: msg.total });
+        break;
+      case 'result':
+        waiting.delete(msg.id);
+        entry.resolve(decodeMatches(msg.matches, entry.byId));
+        break;
+      case 'error':
+        waiting.delete(msg.id);
+        entry.reject(new Error(msg.message));
+        break;
+    }
+  };
+  worker.onerror = (e) => {
+    for (const entry of waiting.values()) entry.reject(new Error(e.message || 'Query worker failed'));
+    waiting.clear();
+  };
+
+  return {
+    query: (project, query, onProgress) => {
+      if (project.hosts !== loaded) {
+        loaded = project.hosts;
+        byId = new Map(project.hosts.map(h => [h.id, h]));
+        send({ type: 'load', update: diffProject(held, project) });
+        held = project.imports;
+      }
+      const id = nextId++;
+      const promise = new Promise<NmapHost[] | null>((resolve, reject) => {
+        waiting.set(id, { resolve, reject, onProgress, byId });
+      });
+      send({ type: 'query', id, query });
+      return {
+        promise,
+        cancel: () => {
+          const entry = waiting.get(id);
+          if (!entry) return;
+          waiting.delete(id);
+          send({ type: 'cancel', id });
+          entry.resolve(null);
+        },
+      };
+    },
+    dispose: () => {
+      for (const entry of waiting.values()) entry.resolve(null);
+      waiting.clear();
+      worker.terminate();
+    },
+  };
+}
+
+function createInlineClient(): HostQueryClient {
+  let loaded: NmapHost[] | null = null;
+  let matchText: TextMatcher | undefined;
+  return {
+    query: ({ hosts }, query, onProgress) => {
+      if (hosts !== loaded) {
+        loaded = hosts;
+        matchText = createIndexedTextMatcher(buildSearchIndex(hosts));
+      }
+      let cancelled = false;
+      const promise = runHostQuery(hosts, query, matchText, { isCancelled: () => cancelled, onProgress })
+        .then(results => cancelled ? null : results);
+      return { promise, cancel: () => { cancelled = true; } };
+    },
+    dispose: () => {},
+  };
+}
@@ -0,0 +1,69 @@
+import { buildSearchIndex, createIndexedTextMatcher } from '../utils/searchIndex';
+import {
+  runHostQuery, encodeMatches, applyProjectUpdate, EMPTY_PROJECT_COPY, type HostQuery, type HostMatch, type ProjectUpdate,
+} from '../utils/hostQuery';
+import type { TextMatcher } from '../utils/filterEngine';
+import type { NmapHost } from '../types/nmap';
+
+// Keeps a copy of the project (its imports, merged like the UI thread does)
+// and a search index of its hosts, and runs the filter/search/sort pipeline
+// on them. The client only posts the imports the copy lacks. Queries are
+// numbered by the client; a cancelled query stops at its next chunk and
+// sends nothing back.
+export type QueryWorkerRequest =
+  | { type: 'load'; update: ProjectUpdate }
+  | { type: 'query'; id: number; query: HostQuery }
+  | { type: 'cancel'; id: number };
+
+export type QueryWorkerResponse =
+  | { type: 'progress'; id: number; done: number; total: number }
+  | { type: 'result'; id: number; matches: HostMatch[] }
+  | { type: 'error'; id: number; message: string };
+
+const ctx = self as unknown as {
+  postMessage(message: QueryWorkerResponse): void;
+  onmessage: ((e: MessageEvent<QueryWorkerRequest>) => void) | null;
+};
+
+let project = EMPTY_PROJECT_COPY;
+let hosts: NmapHost[] = [];
+let byId = new Map<string, NmapHost>();
+let matchText: TextMatcher | undefined;
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+async function runQuery(id: number, query: HostQuery): Promise<void> {
+  // Queries see the hosts loaded when they started
+  const snapshot = { hosts, byId, matchText };
+  running.add(id);
+  try {
+    const results = await runHostQuery(snapshot.hosts, query, snapshot.matchText, {
+      isCancelled: () => cancelled.has(id),
+      onProgress: ({ done, total }) => ctx.postMessage({ type: 'progress', id, done, total }),
+    });
+    if (results) ctx.postMessage({ type: 'result', id, matches: encodeMatches(results, snapshot.byId) });
+  } catch (err) {
+    ctx.postMessage({ type: 'error', id, message: (err instanceof Error ? err.message : String(err)) || 'Failed to filter hosts' });
+  } finally {
+    running.delete(id);
+    cancelled.delete(id);
+  }
+}
+
+ctx.onmessage = (e) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'load':
+      project = applyProjectUpdate(project, msg.update);
+      hosts = project.scan?.hosts ?? [];
+      byId = new Map(hosts.map(h => [h.id, h]));
+      matchText = createIndexedTextMatcher(buildSearchIndex(hosts));
+      break;
+    case 'query':
+      runQuery(msg.id, msg.query);
+      break;
+    case 'cancel':
+      if (running.has(msg.id)) cancelled.add(msg.id);
+      break;
+  }
+};